@@ -1,6 +1,12 @@
+import type { ParameterSerialization } from "../shared/parameter-serialization.js";
+import type {
+  CredentialScheme,
+  OperationTokenRequirement,
+} from "./models/security-models.js";
 import type { ContentTypeMaps } from "./responses.js";
 
 import {
+  generateCookieParamHandling,
   generateHeaderParamHandling,
   generateQueryParamHandling,
   type ParameterGroups,
@@ -16,6 +22,11 @@ import {
   renderHeadersObject,
 } from "./templates/function-body-templates.js";
 import { renderContentTypeSwitch } from "./templates/request-body-templates.js";
+import {
+  renderCredentialHeaderHandling,
+  renderCredentialQueryHandling,
+  renderTokenProviderHandling,
+} from "./templates/security-templates.js";
 import { generatePathInterpolation } from "./utils.js";
 
 /**
@@ -24,6 +35,8 @@ import { generatePathInterpolation } from "./utils.js";
 export interface GenerateFunctionBodyOptions {
   authHeaders?: string[];
   contentTypeMaps: ContentTypeMaps;
+  /* apiKey (query/cookie) and HTTP Basic schemes sent from the config */
+  credentialSchemes?: CredentialScheme[];
   hasBody: boolean;
   method: string;
   operationSecurityHeaders?: SecurityHeader[];
@@ -35,6 +48,9 @@ export interface GenerateFunctionBodyOptions {
   responseHandlers: string[];
   shouldGenerateRequestMap: boolean;
   shouldGenerateResponseMap: boolean;
+  /* Parameters serialized according to their style/explode settings */
+  styledParameters?: ParameterSerialization[];
+  tokenRequirement?: OperationTokenRequirement;
 }
 
 /**
@@ -46,6 +62,7 @@ export interface GenerateFunctionBodyOptions {
 export function generateFunctionBody({
   authHeaders,
   contentTypeMaps,
+  credentialSchemes = [],
   hasBody,
   method,
   operationSecurityHeaders,
@@ -56,16 +73,38 @@ export function generateFunctionBody({
   responseHandlers,
   shouldGenerateRequestMap,
   shouldGenerateResponseMap,
+  styledParameters,
+  tokenRequirement,
 }: GenerateFunctionBodyOptions): string {
-  const { headerParams, pathParams, queryParams } = parameterGroups;
+  const { cookieParams, headerParams, pathParams, queryParams } =
+    parameterGroups;
 
-  const finalPath = generatePathInterpolation(pathKey, pathParams);
-  const queryParamLines = generateQueryParamHandling(queryParams);
-  const headerParamLines = generateHeaderParamHandling(headerParams);
-  const securityHeaderLines =
+  const finalPath = generatePathInterpolation(
+    pathKey,
+    pathParams,
+    styledParameters,
+  );
+  const queryParamLines = [
+    generateQueryParamHandling(queryParams, styledParameters),
+    renderCredentialQueryHandling(credentialSchemes),
+  ]
+    .filter(Boolean)
+    .join("\n    ");
+  const headerParamLines = [
+    generateHeaderParamHandling(headerParams, styledParameters),
+    generateCookieParamHandling(cookieParams),
+  ]
+    .filter(Boolean)
+    .join("\n    ");
+  const securityHeaderLines = [
     operationSecurityHeaders && operationSecurityHeaders.length > 0
       ? generateSecurityHeaderHandling(operationSecurityHeaders)
-      : "";
+      : "",
+    renderCredentialHeaderHandling(credentialSchemes),
+    renderTokenProviderHandling(tokenRequirement),
+  ]
+    .filter(Boolean)
+    .join("\n    ");
 
   // Determine what components are needed for the function body
   const structure = determineFunctionBodyStructure(
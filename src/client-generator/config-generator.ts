@@ -3,10 +3,12 @@
 import type {
   AuthConfiguration,
   ConfigStructure,
+  CredentialConfiguration,
   ServerConfiguration,
 } from "./models/config-models.js";
 
 import {
+  renderApiKeySchemeNameType,
   renderAuthHeadersType,
   renderConfigImplementation,
   renderConfigImports,
@@ -32,6 +34,24 @@ export function analyzeAuthConfiguration(
   };
 }
 
+/*
+ * Analyzes credentials configuration from apiKey scheme names
+ */
+export function analyzeCredentialConfiguration(
+  apiKeySchemeNames: string[],
+): CredentialConfiguration {
+  const hasApiKeySchemes = apiKeySchemeNames.length > 0;
+  const apiKeySchemeNamesType = hasApiKeySchemes
+    ? apiKeySchemeNames.map((name) => JSON.stringify(name)).join(" | ")
+    : "string";
+
+  return {
+    apiKeySchemeNames,
+    apiKeySchemeNamesType,
+    hasApiKeySchemes,
+  };
+}
+
 /*
  * Analyzes server configuration from server URLs
  */
@@ -58,9 +78,11 @@ export function analyzeServerConfiguration(
 export function determineConfigStructure(
   authHeaders: string[],
   serverUrls: string[] = [],
+  apiKeySchemeNames: string[] = [],
 ): ConfigStructure {
   return {
     auth: analyzeAuthConfiguration(authHeaders),
+    credentials: analyzeCredentialConfiguration(apiKeySchemeNames),
     server: analyzeServerConfiguration(serverUrls),
   };
 }
@@ -77,14 +99,20 @@ export function generateConfigFileContent(
 export function generateConfigTypes(
   authHeaders: string[],
   serverUrls: string[] = [],
+  apiKeySchemeNames: string[] = [],
 ): string {
-  const config = determineConfigStructure(authHeaders, serverUrls);
+  const config = determineConfigStructure(
+    authHeaders,
+    serverUrls,
+    apiKeySchemeNames,
+  );
 
   const parts = [
     renderConfigImports(),
     renderConfigInterface(config),
     "",
     renderAuthHeadersType(config),
+    renderApiKeySchemeNameType(config),
     "",
     renderConfigImplementation(config),
     renderConfigSupport(),
@@ -1,25 +1,15 @@
-import { promises as fs } from "fs";
-import path from "path";
-
 import type { OperationMetadata } from "./operation-extractor.js";
 
 import {
   buildOperationFileContent,
+  type GenerationOutput,
   writeFormattedFile,
 } from "../core-generator/file-writer.js";
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
 import { generateConfigTypes } from "./config-generator.js";
 
-/**
- * Creates the operations directory if it doesn't exist
- */
-export async function createOperationsDirectory(
-  outputDir: string,
-): Promise<string> {
-  const operationsDir = path.join(outputDir, "client");
-  await fs.mkdir(operationsDir, { recursive: true });
-  return operationsDir;
-}
+/* Client files are written below this directory of the output */
+const CLIENT_DIR = "client";
 
 /**
  * Writes the configuration file
@@ -27,11 +17,15 @@ export async function createOperationsDirectory(
 export async function writeConfigFile(
   authHeaders: string[],
   serverUrls: string[],
-  operationsDir: string,
+  output: GenerationOutput,
+  apiKeySchemeNames: string[] = [],
 ): Promise<void> {
-  const configContent = generateConfigTypes(authHeaders, serverUrls);
-  const configPath = path.join(operationsDir, "config.ts");
-  await writeFormattedFile(configPath, configContent);
+  const configContent = generateConfigTypes(
+    authHeaders,
+    serverUrls,
+    apiKeySchemeNames,
+  );
+  await writeFormattedFile(output, `${CLIENT_DIR}/config.ts`, configContent);
 }
 
 /**
@@ -39,7 +33,7 @@ export async function writeConfigFile(
  */
 export async function writeIndexFile(
   operations: OperationMetadata[],
-  operationsDir: string,
+  output: GenerationOutput,
 ): Promise<void> {
   const operationImports: string[] = [];
   const operationExports: string[] = [];
@@ -64,8 +58,7 @@ export async function writeIndexFile(
   // Handle case where no valid operations exist
   if (operationExports.length === 0) {
     const indexContent = `// No valid operations found to export`;
-    const indexPath = path.join(operationsDir, "index.ts");
-    await writeFormattedFile(indexPath, indexContent);
+    await writeFormattedFile(output, `${CLIENT_DIR}/index.ts`, indexContent);
     return;
   }
 
@@ -74,21 +67,28 @@ export async function writeIndexFile(
 export {
   ${operationExports.join(",\n  ")},
 };`;
-  const indexPath = path.join(operationsDir, "index.ts");
-  await writeFormattedFile(indexPath, indexContent);
+  await writeFormattedFile(output, `${CLIENT_DIR}/index.ts`, indexContent);
 }
 
 /**
- * Writes a single operation file to disk
+ * Writes a single operation file
  */
 export async function writeOperationFile(
   operationId: string,
   functionCode: string,
   typeImports: Set<string>,
-  operationsDir: string,
+  output: GenerationOutput,
+  formatImports = new Set<string>(),
 ): Promise<void> {
   const sanitizedOperationId = sanitizeIdentifier(operationId);
-  const operationContent = buildOperationFileContent(typeImports, functionCode);
-  const operationPath = path.join(operationsDir, `${sanitizedOperationId}.ts`);
-  await writeFormattedFile(operationPath, operationContent);
+  const operationContent = buildOperationFileContent(
+    typeImports,
+    functionCode,
+    formatImports,
+  );
+  await writeFormattedFile(
+    output,
+    `${CLIENT_DIR}/${sanitizedOperationId}.ts`,
+    operationContent,
+  );
 }
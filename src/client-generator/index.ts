@@ -2,8 +2,11 @@ import type { OpenAPIObject } from "openapi3-ts/oas31";
 
 import pLimit from "p-limit";
 
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+import type { FormatRegistry } from "../schema-generator/formats.js";
+import type { PaginationSettings } from "./models/pagination-models.js";
+
 import {
-  createOperationsDirectory,
   writeConfigFile,
   writeIndexFile,
   writeOperationFile,
@@ -14,30 +17,42 @@ import {
   type OperationMetadata,
 } from "./operation-extractor.js";
 import { generateOperationFunction } from "./operation-function-generator.js";
-import { extractAuthHeaders } from "./security.js";
+import { extractApiKeySchemeNames, extractAuthHeaders } from "./security.js";
+
+/**
+ * Options for operation file generation
+ */
+export interface GenerateOperationsOptions {
+  /* Custom string and number formats of the parameter and header schemas */
+  formats?: FormatRegistry;
+  /* When set, only the listed operations are (re)written */
+  operationIds?: ReadonlySet<string>;
+  /* Parameter names recognizing paginated operations without x-pagination */
+  pagination?: PaginationSettings;
+}
 
 /**
  * Generates individual operation files and configuration
  */
 export async function generateOperations(
   doc: OpenAPIObject,
-  outputDir: string,
+  output: GenerationOutput,
   concurrency: number,
+  options: GenerateOperationsOptions = {},
 ): Promise<void> {
-  const operationsDir = await createOperationsDirectory(outputDir);
-
   // Extract auth headers for configuration types
   const authHeaders = extractAuthHeaders(doc);
   const serverUrls = extractServerUrls(doc);
+  const apiKeySchemeNames = extractApiKeySchemeNames(doc);
 
   // Process all operations and write files
-  const operations = await processOperations(doc, operationsDir, concurrency);
+  const operations = await processOperations(doc, output, concurrency, options);
 
   // Write configuration file
-  await writeConfigFile(authHeaders, serverUrls, operationsDir);
+  await writeConfigFile(authHeaders, serverUrls, output, apiKeySchemeNames);
 
   // Write index file that exports all operations
-  await writeIndexFile(operations, operationsDir);
+  await writeIndexFile(operations, output);
 }
 
 /**
@@ -45,8 +60,9 @@ export async function generateOperations(
  */
 async function processOperations(
   doc: OpenAPIObject,
-  operationsDir: string,
+  output: GenerationOutput,
   concurrency: number,
+  options: GenerateOperationsOptions,
 ): Promise<OperationMetadata[]> {
   const operations = extractAllOperations(doc);
   const limit = pLimit(concurrency);
@@ -59,20 +75,27 @@ async function processOperations(
     pathKey,
     pathLevelParameters,
   } of operations) {
+    if (options.operationIds && !options.operationIds.has(operationId)) {
+      continue;
+    }
+
     const promise = limit(async () => {
-      const { functionCode, typeImports } = generateOperationFunction(
-        pathKey,
-        method,
-        operation,
-        pathLevelParameters,
-        doc,
-      );
+      const { formatImports, functionCode, typeImports } =
+        generateOperationFunction(
+          pathKey,
+          method,
+          operation,
+          pathLevelParameters,
+          doc,
+          { formats: options.formats, pagination: options.pagination },
+        );
 
       await writeOperationFile(
         operationId,
         functionCode,
         typeImports,
-        operationsDir,
+        output,
+        formatImports,
       );
     });
     operationPromises.push(promise);
@@ -82,6 +105,10 @@ async function processOperations(
   return operations;
 }
 
+export type {
+  PaginationExtension,
+  PaginationSettings,
+} from "./models/pagination-models.js";
 /* Re-export key types and functions for external use */
 export type { OperationMetadata } from "./operation-extractor.js";
 export {
@@ -92,11 +119,15 @@ export {
   extractOperationMetadata,
   generateOperationFunction,
 } from "./operation-function-generator.js";
+export { resolveOperationPagination } from "./pagination.js";
 export type { ParameterGroups } from "./parameters.js";
 export type { RequestBodyTypeInfo } from "./request-body.js";
 export type { SecurityHeader } from "./security.js";
 
-export { extractAuthHeaders } from "./security.js";
+export {
+  extractAuthHeaders,
+  findUnsupportedSecuritySchemes,
+} from "./security.js";
 
 export type { OperationMetadata as OperationFunctionMetadata } from "./templates/operation-templates.js";
 
@@ -18,6 +18,8 @@ export interface AuthConfiguration {
 export interface ConfigStructure {
   /* Authentication configuration details */
   auth: AuthConfiguration;
+  /* Credentials sent from dedicated config fields (apiKeys, basicAuth) */
+  credentials?: CredentialConfiguration;
   /* Server configuration details */
   server: ServerConfiguration;
 }
@@ -34,6 +36,18 @@ export interface ConfigTemplateOptions {
   includeTypeExports?: boolean;
 }
 
+/*
+ * Represents the analysis result of the credentials configuration
+ */
+export interface CredentialConfiguration {
+  /* Names of the apiKey schemes sent in query or cookie */
+  apiKeySchemeNames: string[];
+  /* TypeScript union type string for apiKey scheme names */
+  apiKeySchemeNamesType: string;
+  /* Whether any apiKey scheme in query or cookie was found */
+  hasApiKeySchemes: boolean;
+}
+
 /*
  * Represents the analysis result of server configuration
  */
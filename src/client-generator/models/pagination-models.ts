@@ -0,0 +1,68 @@
+/* Pagination-related data structures and type definitions */
+
+/**
+ * Pagination of an operation, as rendered in its paginate<Operation>() helper
+ */
+export interface OperationPagination {
+  /* Content type of the parsed page body */
+  contentType: string;
+  /* Dotted path of the items in the page body, the body itself when undefined */
+  items?: string;
+  /* Client names of the query parameters, keyed by their spec name */
+  queryNames: Record<string, string>;
+  /* Status code of the page responses */
+  status: string;
+  strategy: PaginationStrategy;
+}
+
+/**
+ * Pagination declared by the x-pagination extension of an operation.
+ * Parameter names are spec names (cursor, limit, offset and page by
+ * default), paths are dotted paths into the body. nextCursor is required by
+ * cursor pagination, items defaults to the body or its first array property.
+ *
+ * @example
+ * ```yaml
+ * x-pagination:
+ *   type: cursor
+ *   cursorParam: cursor
+ *   nextCursor: meta.next_cursor
+ *   items: data
+ * ```
+ */
+export interface PaginationExtension {
+  cursorParam?: string;
+  firstPage?: number;
+  items?: string;
+  limitParam?: string;
+  nextCursor?: string;
+  offsetParam?: string;
+  pageParam?: string;
+  type: PaginationStrategy["kind"];
+}
+
+/**
+ * Parameter names recognizing paginated GET operations without x-pagination.
+ * Strategies are tried in order: cursor, offset, page, then link.
+ */
+export interface PaginationSettings {
+  /* Query parameter receiving the cursor, and dotted path of the next one in the body */
+  cursor?: { next: string; param: string };
+  /* Property holding the items of object bodies, the first array property by default */
+  items?: string;
+  /* Recognizes operations whose success response declares a Link header */
+  link?: boolean;
+  /* Query parameters of the offset and of the page size */
+  offset?: { limit: string; offset: string };
+  /* Query parameter of the page number, and the number of the first page (1 by default) */
+  page?: { firstPage?: number; param: string };
+}
+
+/**
+ * How the query of the next page is derived, parameter names are client names
+ */
+export type PaginationStrategy =
+  | { cursorParam: string; kind: "cursor"; nextCursor: string }
+  | { firstPage: number; kind: "page"; pageParam: string }
+  | { kind: "link" }
+  | { kind: "offset"; limitParam: string; offsetParam: string };
@@ -1,5 +1,6 @@
 import type { ParameterObject } from "openapi3-ts/oas31";
 
+import type { ParameterSerialization } from "../../shared/parameter-serialization.js";
 import type { RequestBodyTypeInfo } from "../request-body.js";
 import type { SecurityHeader } from "../security.js";
 
@@ -7,6 +8,7 @@ import type { SecurityHeader } from "../security.js";
  * Analyzed parameter information for template generation
  */
 export interface ParameterAnalysis {
+  cookieProperties: { isRequired: boolean; name: string; varName: string }[];
   headerProperties: {
     isRequired: boolean;
     name: string;
@@ -28,6 +30,7 @@ export interface ParameterAnalysis {
  * Grouped parameters by their location
  */
 export interface ParameterGroups {
+  cookieParams: ParameterObject[];
   headerParams: ParameterObject[];
   pathParams: ParameterObject[];
   queryParams: ParameterObject[];
@@ -38,6 +41,7 @@ export interface ParameterGroups {
  */
 export interface ParameterOptionalityRules {
   isBodyOptional: boolean;
+  isCookiesOptional: boolean;
   isHeadersOptional: boolean;
   isQueryOptional: boolean;
 }
@@ -50,16 +54,29 @@ export interface ParameterStructure {
   hasBody: boolean;
   hasRequestMap: boolean;
   hasResponseMap: boolean;
+  parameterTyping?: ParameterTyping;
   processed: ProcessedParameterGroup;
   requestMapTypeName?: string;
   responseMapTypeName?: string;
 }
 
+/**
+ * Typing of parameters whose values are not plain strings (arrays, objects),
+ * derived from the parameter schemas of the operation
+ */
+export interface ParameterTyping {
+  styledParameters: ParameterSerialization[];
+  /* Prefix of the parameter schema types (e.g. "getPets" for getPetsQuery) */
+  typeNamePrefix: string;
+}
+
 /**
  * Processed parameter groups with security information
  */
 export interface ProcessedParameterGroup {
+  cookieParams: ParameterObject[];
   headerParams: ParameterObject[];
+  isCookiesOptional: boolean;
   isHeadersOptional: boolean;
   isQueryOptional: boolean;
   pathParams: ParameterObject[];
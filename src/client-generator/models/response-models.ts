@@ -2,6 +2,8 @@
 
 import type { OperationObject } from "openapi3-ts/oas31";
 
+import type { ResponseHeadersInfo } from "../../shared/response-headers.js";
+
 /*
  * Information about content type detection for a response
  */
@@ -56,6 +58,8 @@ export interface ResponseAnalysisConfig {
   hasResponseContentTypeMap?: boolean;
   /* The operation being analyzed */
   operation: OperationObject;
+  /* Declared response headers keyed by status code */
+  responseHeaders?: ReadonlyMap<string, ResponseHeadersInfo>;
   /* Set to collect type imports */
   typeImports: Set<string>;
 }
@@ -68,10 +72,17 @@ export interface ResponseInfo {
   contentType: null | string;
   /* Whether this response has schema content */
   hasSchema: boolean;
+  /* Declared headers of this response, parsed into a typed headers field */
+  headers?: ResponseHeadersInfo;
   /* Parsing strategy for this response */
   parsingStrategy: ParsingStrategy;
   /* HTTP status code */
   statusCode: string;
+  /*
+   * Whether the body is streamed (Server-Sent Events, line-delimited JSON):
+   * for every content type with a schema, or only for some of them
+   */
+  streaming?: "exclusive" | "mixed";
   /* TypeScript type name for the response */
   typeName: null | string;
 }
@@ -21,6 +21,17 @@ export interface AuthHeaderRequirements {
   requiresAuthentication: boolean;
 }
 
+/**
+ * Credential read from a typed config field rather than from the headers:
+ * an apiKey sent in query or cookie, or HTTP Basic credentials
+ */
+export interface CredentialScheme {
+  location: "basic" | "cookie" | "query";
+  /* Query parameter or cookie name, for apiKey schemes */
+  parameterName?: string;
+  schemeName: string;
+}
+
 /**
  * Security analysis result for global schemes
  */
@@ -39,6 +50,16 @@ export interface OperationSecurityAnalysis {
   operationHeaders: SecurityHeader[];
 }
 
+/**
+ * OAuth2 / OpenID Connect scheme whose access token must be sent by an
+ * operation, along with the scopes listed in its security requirement
+ */
+export interface OperationTokenRequirement {
+  schemeName: string;
+  scopes: string[];
+  type: "oauth2" | "openIdConnect";
+}
+
 /**
  * Security header information for operations
  */
@@ -8,10 +8,16 @@ import type {
 
 import assert from "assert";
 
+import type { FormatRegistry } from "../schema-generator/formats.js";
+import type { PaginationSettings } from "./models/pagination-models.js";
+import type { ParameterTyping } from "./models/parameter-models.js";
 import type { OperationMetadata } from "./templates/operation-templates.js";
 
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
+import { collectStyledParameters } from "../shared/parameter-serialization.js";
+import { generateResponseHeaderSchemas } from "../shared/response-headers.js";
 import { generateFunctionBody } from "./code-generation.js";
+import { resolveOperationPagination } from "./pagination.js";
 import { extractParameterGroups } from "./parameters.js";
 import {
   buildDestructuredParameters,
@@ -24,7 +30,9 @@ import {
 } from "./responses.js";
 import {
   extractAuthHeaders,
+  getOperationCredentialSchemes,
   getOperationSecuritySchemes,
+  getOperationTokenRequirement,
   hasSecurityOverride,
 } from "./security.js";
 import {
@@ -33,13 +41,24 @@ import {
   buildTypeAliases,
   renderOperationFunction,
 } from "./templates/operation-templates.js";
+import { renderPaginateFunction } from "./templates/pagination-templates.js";
 
 /* Result of generating a function with imports */
 export interface GeneratedFunction {
+  /* Import declarations of the custom formats used by the inline schemas */
+  formatImports: Set<string>;
   functionCode: string;
   typeImports: Set<string>;
 }
 
+/* Options of operation function generation */
+export interface GenerateOperationFunctionOptions {
+  /* Custom string and number formats of the parameter and header schemas */
+  formats?: FormatRegistry;
+  /* Parameter names recognizing paginated operations without x-pagination */
+  pagination?: PaginationSettings;
+}
+
 /**
  * extractOperationMetadata
  * Pure function that extracts and assembles all metadata needed for generating an operation function.
@@ -52,6 +71,7 @@ export function extractOperationMetadata(
   operation: OperationObject,
   pathLevelParameters: (ParameterObject | ReferenceObject)[] = [],
   doc: OpenAPIObject,
+  formats: FormatRegistry = {},
 ): OperationMetadata {
   assert(operation.operationId, "Operation ID is required");
   const functionName: string = sanitizeIdentifier(operation.operationId);
@@ -69,6 +89,7 @@ export function extractOperationMetadata(
   );
   const hasBody = !!operation.requestBody;
   const operationSecurityHeaders = getOperationSecuritySchemes(operation, doc);
+  const styledParameters = collectStyledParameters(parameterGroups, doc);
 
   /* Body & content type meta */
   /* Collect body related type info + request/response content-type maps (if any) */
@@ -91,15 +112,26 @@ export function extractOperationMetadata(
     bodyInfo.shouldGenerateResponseMap, // This controls generic params, keep as false for unknown mode
     bodyInfo.requestMapTypeName,
     bodyInfo.responseMapTypeName,
+    { styledParameters, typeNamePrefix: functionName },
   );
 
   /* Responses & union return type */
+  /* Declared response headers are parsed into typed headers fields */
+  const responseHeaders = generateResponseHeaderSchemas(
+    operation,
+    operation.operationId,
+    doc,
+    formats,
+  );
+  responseHeaders.typeImports.forEach((imp) => typeImports.add(imp));
+
   /* Build response handlers + discriminated union return type (ApiResponse<code, data>) */
   const responseHandlers = generateResponseHandlers(
     operation,
     typeImports,
     bodyInfo.shouldExportResponseMap,
     bodyInfo.shouldExportResponseMap ? bodyInfo.responseMapTypeName : undefined,
+    responseHeaders.statuses,
   );
 
   /* Security overrides/auth headers */
@@ -111,6 +143,7 @@ export function extractOperationMetadata(
   const functionBodyCode = generateFunctionBody({
     authHeaders,
     contentTypeMaps: bodyInfo.contentTypeMaps,
+    credentialSchemes: getOperationCredentialSchemes(operation, doc),
     hasBody,
     method,
     operationSecurityHeaders,
@@ -121,6 +154,8 @@ export function extractOperationMetadata(
     responseHandlers: responseHandlers.responseHandlers,
     shouldGenerateRequestMap: bodyInfo.shouldGenerateRequestMap,
     shouldGenerateResponseMap: bodyInfo.shouldGenerateResponseMap,
+    styledParameters,
+    tokenRequirement: getOperationTokenRequirement(operation, doc),
   });
 
   return {
@@ -135,6 +170,8 @@ export function extractOperationMetadata(
     parameterGroups,
     parameterStructures,
     responseHandlers,
+    responseHeaders,
+    styledParameters,
     summary,
     typeImports,
   };
@@ -151,6 +188,7 @@ export function extractOperationMetadata(
  * 5. Build response handlers & union return type
  * 6. Compute generics (<TRequestContentType, TResponseContentType>) when maps exist
  * 7. Emit type map aliases, function signature & body (calling code-generation for internals)
+ * 8. Emit the paginate<Operation>() helper of paginated operations
  * Returns the generated code and the set of type imports required by the operation.
  * NOTE: The produced code references GlobalConfig/globalConfig which are emitted by the config generator, not imported here.
  */
@@ -160,6 +198,7 @@ export function generateOperationFunction(
   operation: OperationObject,
   pathLevelParameters: (ParameterObject | ReferenceObject)[] = [],
   doc: OpenAPIObject,
+  options: GenerateOperationFunctionOptions = {},
 ): GeneratedFunction {
   /* Extract all metadata using pure logic function */
   const metadata = extractOperationMetadata(
@@ -168,6 +207,7 @@ export function generateOperationFunction(
     operation,
     pathLevelParameters,
     doc,
+    options.formats,
   );
 
   /* Render using template functions */
@@ -189,16 +229,20 @@ export function generateOperationFunction(
   });
 
   /* Emit request/response map type aliases (only when non-empty / applicable) */
+  const formatImports = new Set(metadata.responseHeaders.formatImports);
   const typeAliases = buildTypeAliases({
     contentTypeMaps: metadata.bodyInfo.contentTypeMaps,
     discriminatedUnionTypeDefinition:
       metadata.responseHandlers.discriminatedUnionTypeDefinition,
     discriminatedUnionTypeName:
       metadata.responseHandlers.discriminatedUnionTypeName,
+    formatImports,
+    formats: options.formats,
     /* Parameter schema generation */
     operationId: operation.operationId,
     parameterGroups: metadata.parameterGroups,
     requestMapTypeName: metadata.bodyInfo.requestMapTypeName,
+    responseHeadersCode: metadata.responseHeaders.schemaCode,
     responseMapName: metadata.responseHandlers.responseMapName,
     responseMapType: metadata.responseHandlers.responseMapType,
     responseMapTypeName: metadata.bodyInfo.responseMapTypeName,
@@ -222,7 +266,18 @@ export function generateOperationFunction(
     updatedReturnType,
   });
 
-  return { functionCode: functionStr, typeImports: metadata.typeImports };
+  const pagination = resolveOperationPagination(
+    method,
+    operation,
+    metadata.parameterGroups.queryParams,
+    doc,
+    options.pagination,
+  );
+  const functionCode = pagination
+    ? `${functionStr}\n\n${renderPaginateFunction(metadata.functionName, metadata.operationName, pagination)}`
+    : functionStr;
+
+  return { formatImports, functionCode, typeImports: metadata.typeImports };
 }
 
 /* ---------------- Helper extraction functions (kept local to module) ---------------- */
@@ -241,6 +296,7 @@ function buildParameterStructures(
   shouldGenerateResponseMap: boolean,
   requestMapTypeName: string,
   responseMapTypeName: string,
+  parameterTyping: ParameterTyping,
 ) {
   const destructuredParams = buildDestructuredParameters(
     parameterGroups,
@@ -258,6 +314,7 @@ function buildParameterStructures(
     operationSecurityHeaders,
     shouldGenerateRequestMap ? requestMapTypeName : undefined,
     shouldGenerateResponseMap ? responseMapTypeName : undefined,
+    parameterTyping,
   );
 
   return { destructuredParams, paramsInterface };
@@ -0,0 +1,223 @@
+/* Pure analysis functions recognizing paginated operations */
+
+import type {
+  OpenAPIObject,
+  OperationObject,
+  ParameterObject,
+  ReferenceObject,
+  ResponseObject,
+  SchemaObject,
+} from "openapi3-ts/oas31";
+
+import { isReferenceObject } from "openapi3-ts/oas31";
+
+import type {
+  OperationPagination,
+  PaginationExtension,
+  PaginationSettings,
+  PaginationStrategy,
+} from "./models/pagination-models.js";
+
+import { resolveSchemaReference } from "../schema-generator/schema-references.js";
+import { toCamelCase } from "./utils.js";
+
+/* Success response whose body holds the items of a page */
+interface PageResponse {
+  contentType: string;
+  response: ResponseObject;
+  schema: ReferenceObject | SchemaObject;
+  status: string;
+}
+
+/**
+ * Resolves the pagination of an operation: declared by its x-pagination
+ * extension, or recognized from the parameter names of the settings for GET
+ * operations. Operations without a JSON success response are not paginated.
+ *
+ * @throws {Error} When x-pagination is invalid (e.g. an unknown parameter)
+ */
+export function resolveOperationPagination(
+  method: string,
+  operation: OperationObject,
+  queryParams: ParameterObject[],
+  doc: OpenAPIObject,
+  settings?: PaginationSettings,
+): OperationPagination | undefined {
+  const extension = operation["x-pagination"] as
+    | PaginationExtension
+    | undefined;
+  if (!extension && (!settings || method !== "get")) return undefined;
+
+  const page = findPageResponse(operation);
+  const queryNames = Object.fromEntries(
+    queryParams.map((param) => [param.name, toCamelCase(param.name)]),
+  );
+  if (extension) {
+    const fail = (reason: string): never => {
+      throw new Error(
+        `Invalid x-pagination of operation ${operation.operationId}: ${reason}`,
+      );
+    };
+    if (!page) return fail("no JSON success response");
+    const items = extension.items ?? findItemsPath(page.schema, doc);
+    if (items === null) return fail("no items array in the response");
+    return {
+      contentType: page.contentType,
+      items,
+      queryNames,
+      status: page.status,
+      strategy: strategyFromExtension(extension, queryNames, fail),
+    };
+  }
+
+  if (!page || !settings) return undefined;
+  const items = findItemsPath(page.schema, doc, settings.items);
+  const strategy = detectStrategy(settings, queryNames, page, doc);
+  if (items === null || !strategy) return undefined;
+  return {
+    contentType: page.contentType,
+    items,
+    queryNames,
+    status: page.status,
+    strategy,
+  };
+}
+
+/* Properties of an object schema, merging the ones of its allOf members */
+function collectProperties(
+  schema: ReferenceObject | SchemaObject,
+  doc: OpenAPIObject,
+  seen = new Set<string>(),
+): Record<string, ReferenceObject | SchemaObject> {
+  if (isReferenceObject(schema)) {
+    if (seen.has(schema.$ref)) return {};
+    seen.add(schema.$ref);
+  }
+  const resolved = resolveSchemaReference(schema, doc);
+  if (!resolved) return {};
+  return Object.assign(
+    {},
+    ...(resolved.allOf ?? []).map((item) => collectProperties(item, doc, seen)),
+    resolved.properties,
+  );
+}
+
+/* Recognizes the first strategy of the settings matching the operation */
+function detectStrategy(
+  settings: PaginationSettings,
+  queryNames: Record<string, string>,
+  page: PageResponse,
+  doc: OpenAPIObject,
+): PaginationStrategy | undefined {
+  const { cursor, link, offset } = settings;
+  if (
+    cursor &&
+    cursor.param in queryNames &&
+    hasPath(page.schema, cursor.next.split("."), doc)
+  ) {
+    return {
+      cursorParam: queryNames[cursor.param],
+      kind: "cursor",
+      nextCursor: cursor.next,
+    };
+  }
+  if (offset && offset.offset in queryNames && offset.limit in queryNames) {
+    return {
+      kind: "offset",
+      limitParam: queryNames[offset.limit],
+      offsetParam: queryNames[offset.offset],
+    };
+  }
+  if (settings.page && settings.page.param in queryNames) {
+    return {
+      firstPage: settings.page.firstPage ?? 1,
+      kind: "page",
+      pageParam: queryNames[settings.page.param],
+    };
+  }
+  const headers = Object.keys(page.response.headers ?? {});
+  if (link && headers.some((name) => name.toLowerCase() === "link")) {
+    return { kind: "link" };
+  }
+  return undefined;
+}
+
+/*
+ * Dotted path of the items: the body itself when it is an array, else the
+ * preferred property, else the first array property. Null without any array.
+ */
+function findItemsPath(
+  schema: ReferenceObject | SchemaObject,
+  doc: OpenAPIObject,
+  preferred?: string,
+): null | string | undefined {
+  const resolved = resolveSchemaReference(schema, doc);
+  if (resolved?.type === "array") return undefined;
+  const properties = collectProperties(schema, doc);
+  if (preferred && preferred in properties) return preferred;
+  const arrayProperty = Object.entries(properties).find(
+    ([, property]) => resolveSchemaReference(property, doc)?.type === "array",
+  );
+  return arrayProperty ? arrayProperty[0] : null;
+}
+
+/* First 2xx response with a JSON body */
+function findPageResponse(
+  operation: OperationObject,
+): PageResponse | undefined {
+  for (const [status, response] of Object.entries(operation.responses ?? {})) {
+    if (!/^2\d\d$/.test(status) || isReferenceObject(response)) continue;
+    for (const [contentType, media] of Object.entries(
+      (response as ResponseObject).content ?? {},
+    )) {
+      if (media.schema && contentType.includes("json")) {
+        return { contentType, response, schema: media.schema, status };
+      }
+    }
+  }
+  return undefined;
+}
+
+function hasPath(
+  schema: ReferenceObject | SchemaObject,
+  path: string[],
+  doc: OpenAPIObject,
+): boolean {
+  if (path.length === 0) return true;
+  const property = collectProperties(schema, doc)[path[0]];
+  return property !== undefined && hasPath(property, path.slice(1), doc);
+}
+
+/* Strategy of an x-pagination extension, with the default parameter names */
+function strategyFromExtension(
+  extension: PaginationExtension,
+  queryNames: Record<string, string>,
+  fail: (reason: string) => never,
+): PaginationStrategy {
+  const param = (name: string): string =>
+    queryNames[name] ?? fail(`unknown query parameter ${name}`);
+  switch (extension.type) {
+    case "cursor":
+      return {
+        cursorParam: param(extension.cursorParam ?? "cursor"),
+        kind: "cursor",
+        nextCursor: extension.nextCursor ?? fail("nextCursor is required"),
+      };
+    case "link":
+      return { kind: "link" };
+    case "offset":
+      return {
+        kind: "offset",
+        limitParam: param(extension.limitParam ?? "limit"),
+        offsetParam: param(extension.offsetParam ?? "offset"),
+      };
+    case "page":
+      return {
+        firstPage: extension.firstPage ?? 1,
+        kind: "page",
+        pageParam: param(extension.pageParam ?? "page"),
+      };
+    default:
+      return fail(`unknown type ${String(extension.type)}`);
+  }
+}
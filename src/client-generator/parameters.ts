@@ -8,11 +8,13 @@ import type {
 import { assert } from "console";
 import { isReferenceObject } from "openapi3-ts/oas31";
 
+import type { ParameterSerialization } from "../shared/parameter-serialization.js";
 import type {
   ParameterAnalysis,
   ParameterGroups,
   ParameterOptionalityRules,
   ParameterStructure,
+  ParameterTyping,
   ProcessedParameterGroup,
 } from "./models/parameter-models.js";
 import type { RequestBodyTypeInfo } from "./request-body.js";
@@ -43,6 +45,7 @@ export function analyzeParameters(
   hasResponseMap = false,
   requestMapTypeName?: string,
   responseMapTypeName?: string,
+  parameterTyping?: ParameterTyping,
 ): ParameterAnalysis {
   const structure = determineParameterStructure(
     parameterGroups,
@@ -53,6 +56,7 @@ export function analyzeParameters(
     hasResponseMap,
     requestMapTypeName,
     responseMapTypeName,
+    parameterTyping,
   );
 
   const optionalityRules = determineParameterOptionalityRules(structure);
@@ -83,6 +87,13 @@ export function analyzeParameters(
     };
   });
 
+  /* Analyze cookie parameters, suffixed to avoid clashes with query names */
+  const cookieProperties = structure.processed.cookieParams.map((param) => ({
+    isRequired: param.required === true,
+    name: param.name,
+    varName: `${toValidVariableName(param.name)}Cookie`,
+  }));
+
   /* Analyze security headers */
   const securityHeaderProperties = structure.processed.securityHeaders.map(
     (securityHeader) => ({
@@ -93,6 +104,7 @@ export function analyzeParameters(
   );
 
   return {
+    cookieProperties,
     headerProperties,
     optionalityRules,
     pathProperties,
@@ -135,6 +147,7 @@ export function buildParameterInterface(
   operationSecurityHeaders?: SecurityHeader[],
   requestMapTypeName?: string,
   responseMapTypeName?: string,
+  parameterTyping?: ParameterTyping,
 ): string {
   const analysis = analyzeParameters(
     parameterGroups,
@@ -145,6 +158,7 @@ export function buildParameterInterface(
     !!responseMapTypeName,
     requestMapTypeName,
     responseMapTypeName,
+    parameterTyping,
   );
 
   return renderParameterInterface(analysis);
@@ -158,6 +172,7 @@ export function determineParameterOptionalityRules(
 ): ParameterOptionalityRules {
   return {
     isBodyOptional: !structure.hasBody || !structure.bodyTypeInfo?.isRequired,
+    isCookiesOptional: structure.processed.isCookiesOptional,
     isHeadersOptional: structure.processed.isHeadersOptional,
     isQueryOptional: structure.processed.isQueryOptional,
   };
@@ -175,6 +190,7 @@ export function determineParameterStructure(
   hasResponseMap = false,
   requestMapTypeName?: string,
   responseMapTypeName?: string,
+  parameterTyping?: ParameterTyping,
 ): ParameterStructure {
   const processed = processParameterGroups(
     parameterGroups,
@@ -186,6 +202,7 @@ export function determineParameterStructure(
     hasBody,
     hasRequestMap,
     hasResponseMap,
+    parameterTyping,
     processed,
     requestMapTypeName,
     responseMapTypeName,
@@ -213,19 +230,30 @@ export function extractParameterGroups(
   ];
 
   return {
+    cookieParams: allParameters.filter((p) => p.in === "cookie"),
     headerParams: allParameters.filter((p) => p.in === "header"),
     pathParams: allParameters.filter((p) => p.in === "path"),
     queryParams: allParameters.filter((p) => p.in === "query"),
   };
 }
 
+/**
+ * Generates cookie parameter handling code
+ */
+export function generateCookieParamHandling(
+  cookieParams: ParameterObject[],
+): string {
+  return renderParameterHandling("cookie", cookieParams);
+}
+
 /**
  * Generates header parameter handling code
  */
 export function generateHeaderParamHandling(
   headerParams: ParameterObject[],
+  styledParameters?: ParameterSerialization[],
 ): string {
-  return renderParameterHandling("header", headerParams);
+  return renderParameterHandling("header", headerParams, styledParameters);
 }
 
 /**
@@ -233,8 +261,9 @@ export function generateHeaderParamHandling(
  */
 export function generateQueryParamHandling(
   queryParams: ParameterObject[],
+  styledParameters?: ParameterSerialization[],
 ): string {
-  return renderParameterHandling("query", queryParams);
+  return renderParameterHandling("query", queryParams, styledParameters);
 }
 
 /**
@@ -244,19 +273,25 @@ export function processParameterGroups(
   parameterGroups: ParameterGroups,
   operationSecurityHeaders?: SecurityHeader[],
 ): ProcessedParameterGroup {
-  const { headerParams, pathParams, queryParams } = parameterGroups;
+  const { cookieParams, headerParams, pathParams, queryParams } =
+    parameterGroups;
   const securityHeaders = operationSecurityHeaders || [];
 
   // Determine if query section is optional (all query params are optional)
   const isQueryOptional = queryParams.every((p) => p.required !== true);
 
+  // Determine if cookies section is optional (all cookies are optional)
+  const isCookiesOptional = cookieParams.every((p) => p.required !== true);
+
   // Determine if headers section is optional (all headers are optional)
   const isHeadersOptional =
     headerParams.every((p) => p.required !== true) &&
     securityHeaders.every((h) => !h.isRequired);
 
   return {
+    cookieParams,
     headerParams,
+    isCookiesOptional,
     isHeadersOptional,
     isQueryOptional,
     pathParams,
@@ -13,9 +13,10 @@ import type {
   ResponseInfo,
 } from "./models/response-models.js";
 
+import { getComponentSchemaName } from "../schema-generator/schema-references.js";
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
 import { generateDiscriminatedUnionTypes } from "./discriminated-union-generator.js";
-import { getResponseContentType } from "./utils.js";
+import { getResponseContentType, isStreamingContentType } from "./utils.js";
 
 /*
  * Analyzes the content type structure of a response
@@ -47,7 +48,12 @@ export function analyzeContentTypes(
 export function analyzeResponseStructure(
   config: ResponseAnalysisConfig,
 ): ResponseAnalysis {
-  const { hasResponseContentTypeMap = false, operation, typeImports } = config;
+  const {
+    hasResponseContentTypeMap = false,
+    operation,
+    responseHeaders,
+    typeImports,
+  } = config;
   const responses: ResponseInfo[] = [];
 
   if (operation.responses) {
@@ -67,7 +73,8 @@ export function analyzeResponseStructure(
         hasResponseContentTypeMap,
       );
 
-      responses.push(responseInfo);
+      const headers = responseHeaders?.get(code);
+      responses.push(headers ? { ...responseInfo, headers } : responseInfo);
     }
   }
 
@@ -87,14 +94,12 @@ export function analyzeResponseStructure(
   const unionTypes: string[] = [];
   if (discriminatedUnionResult?.responseMapName) {
     for (const responseInfo of responses) {
-      if (responseInfo.hasSchema) {
-        unionTypes.push(
-          `(TForceValidation extends true ? ApiResponseWithForcedParse<${responseInfo.statusCode}, typeof ${discriminatedUnionResult.responseMapName}> : ApiResponseWithParse<${responseInfo.statusCode}, typeof ${discriminatedUnionResult.responseMapName}>)`,
-        );
-      } else {
-        const dataType = responseInfo.contentType ? "unknown" : "void";
-        unionTypes.push(`ApiResponse<${responseInfo.statusCode}, ${dataType}>`);
-      }
+      unionTypes.push(
+        resolveResponseMapUnionType(
+          responseInfo,
+          discriminatedUnionResult.responseMapName,
+        ),
+      );
     }
   } else {
     /* Fallback to standard ApiResponse types */
@@ -108,6 +113,14 @@ export function analyzeResponseStructure(
     }
   }
 
+  /* Responses declaring headers expose them parsed */
+  responses.forEach((responseInfo, index) => {
+    if (responseInfo.headers) {
+      unionTypes[index] =
+        `(${unionTypes[index]} & { readonly headers: ${responseInfo.headers.typeName} })`;
+    }
+  });
+
   /* Always add ApiResponseError to the union for error handling */
   unionTypes.push("ApiResponseError");
 
@@ -156,12 +169,27 @@ export function buildResponseTypeInfo(
     hasResponseContentTypeMap,
   );
 
+  const schemaContentTypes = contentTypeAnalysis.allContentTypes.filter(
+    (ct) => response.content?.[ct]?.schema,
+  );
+  const streamingCount = schemaContentTypes.filter(
+    isStreamingContentType,
+  ).length;
+
   return {
     contentType,
     hasSchema,
     parsingStrategy,
     statusCode,
     typeName,
+    ...(streamingCount > 0
+      ? {
+          streaming:
+            streamingCount === schemaContentTypes.length
+              ? ("exclusive" as const)
+              : ("mixed" as const),
+        }
+      : {}),
   };
 }
 
@@ -187,6 +215,23 @@ export function determineParsingStrategy(
   };
 }
 
+/*
+ * Resolves the union member of a response when the operation has a response
+ * map: parsed on demand or eagerly, streamed, or without schema
+ */
+export function resolveResponseMapUnionType(
+  responseInfo: ResponseInfo,
+  responseMapName: string,
+): string {
+  const { contentType, hasSchema, statusCode, streaming } = responseInfo;
+  const parseType = `(TForceValidation extends true ? ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}> : ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>)`;
+  const streamType = `ApiStreamResponse<${statusCode}, (typeof ${responseMapName})["${statusCode}"]>`;
+  if (streaming === "exclusive") return streamType;
+  if (streaming === "mixed") return `(${streamType} | ${parseType})`;
+  if (hasSchema) return parseType;
+  return `ApiResponse<${statusCode}, ${contentType ? "unknown" : "void"}>`;
+}
+
 /*
  * Resolves a schema to a TypeScript type name and updates type imports
  */
@@ -197,14 +242,9 @@ export function resolveResponseTypeName(
   typeImports: Set<string>,
 ): string {
   if (isReferenceObject(schema)) {
-    const ref = schema.$ref;
-    assert(
-      ref.startsWith("#/components/schemas/"),
-      `Unsupported schema reference: ${ref}`,
-    );
-    const originalSchemaName = ref.split("/").pop();
-    assert(originalSchemaName, "Invalid $ref in response schema");
-    const typeName = sanitizeIdentifier(originalSchemaName as string);
+    const originalSchemaName = getComponentSchemaName(schema.$ref);
+    assert(originalSchemaName, `Unsupported schema reference: ${schema.$ref}`);
+    const typeName = sanitizeIdentifier(originalSchemaName);
     typeImports.add(typeName);
     return typeName;
   }
@@ -3,6 +3,8 @@ import type { OperationObject } from "openapi3-ts/oas31";
 import assert from "assert";
 import { isReferenceObject } from "openapi3-ts/oas31";
 
+import type { ResponseHeadersInfo } from "../shared/response-headers.js";
+
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
 import { generateRequestBodyMap } from "../shared/request-body-maps.js";
 import { generateResponseMap } from "../shared/response-maps.js";
@@ -88,11 +90,13 @@ export function generateResponseHandlers(
   typeImports: Set<string>,
   hasResponseContentTypeMap = false,
   responseMapName?: string,
+  responseHeaders?: ReadonlyMap<string, ResponseHeadersInfo>,
 ): ResponseHandlerResult {
   /* Analyze the response structure */
   const analysis = analyzeResponseStructure({
     hasResponseContentTypeMap,
     operation,
+    responseHeaders,
     typeImports,
   });
 
@@ -7,8 +7,10 @@ import type {
 import type {
   AnalyzedSecurityScheme,
   AuthHeaderRequirements,
+  CredentialScheme,
   GlobalSecurityAnalysis,
   OperationSecurityAnalysis,
+  OperationTokenRequirement,
   SecurityHeader,
 } from "./models/security-models.js";
 
@@ -18,6 +20,28 @@ import { renderSecurityHeaderHandling } from "./templates/security-templates.js"
  * Pure security analysis functions - separate from code generation
  */
 
+/**
+ * Analyzes a security scheme whose credential is sent from a typed config
+ * field: apiKey in query or cookie, or HTTP Basic
+ */
+export function analyzeCredentialScheme(
+  schemeName: string,
+  scheme: SecuritySchemeObject,
+): CredentialScheme | undefined {
+  if (
+    scheme.type === "apiKey" &&
+    scheme.name &&
+    (scheme.in === "query" || scheme.in === "cookie")
+  ) {
+    return { location: scheme.in, parameterName: scheme.name, schemeName };
+  }
+  /* HTTP auth scheme names are case-insensitive (RFC 7235) */
+  if (scheme.type === "http" && scheme.scheme?.toLowerCase() === "basic") {
+    return { location: "basic", schemeName };
+  }
+  return undefined;
+}
+
 /**
  * Analyzes global security schemes from OpenAPI document
  */
@@ -74,7 +98,10 @@ export function analyzeSecurityScheme(
   if (scheme.type === "apiKey" && scheme.in === "header" && scheme.name) {
     headerName = scheme.name;
     isHeaderBased = true;
-  } else if (scheme.type === "http" && scheme.scheme === "bearer") {
+  } else if (
+    scheme.type === "http" &&
+    scheme.scheme?.toLowerCase() === "bearer"
+  ) {
     headerName = "Authorization";
     isHeaderBased = true;
   }
@@ -106,6 +133,19 @@ export function determineAuthHeaderRequirements(
   };
 }
 
+/**
+ * Extracts the names of every apiKey scheme sent in query or cookie, used to
+ * type the apiKeys field of the client configuration
+ */
+export function extractApiKeySchemeNames(doc: OpenAPIObject): string[] {
+  return Object.entries(doc.components?.securitySchemes || {})
+    .map(([name, scheme]) =>
+      analyzeCredentialScheme(name, scheme as SecuritySchemeObject),
+    )
+    .filter((credential) => credential && credential.location !== "basic")
+    .map((credential) => (credential as CredentialScheme).schemeName);
+}
+
 /**
  * Extracts global auth header names from security schemes (only those used globally)
  */
@@ -118,6 +158,31 @@ export function extractAuthHeaders(doc: OpenAPIObject): string[] {
  * Legacy API compatibility functions - maintain existing public API
  */
 
+/**
+ * Finds the HTTP security schemes the client cannot send credentials for,
+ * i.e. any scheme other than basic and bearer (digest, negotiate...).
+ * Operations requiring them are sent without credentials.
+ *
+ * @example
+ * ```javascript
+ * findUnsupportedSecuritySchemes(doc);
+ * // [{ scheme: "digest", schemeName: "legacyAuth" }]
+ * ```
+ */
+export function findUnsupportedSecuritySchemes(
+  doc: OpenAPIObject,
+): { scheme: string; schemeName: string }[] {
+  return Object.entries(doc.components?.securitySchemes || {}).flatMap(
+    ([schemeName, scheme]) => {
+      const { scheme: httpScheme = "", type } = scheme as SecuritySchemeObject;
+      if (type !== "http") return [];
+      /* HTTP auth scheme names are case-insensitive (RFC 7235) */
+      const supported = ["basic", "bearer"].includes(httpScheme.toLowerCase());
+      return supported ? [] : [{ scheme: httpScheme, schemeName }];
+    },
+  );
+}
+
 /**
  * Generates security header handling code from params
  * @deprecated Use renderSecurityHeaderHandling from templates/security-templates.ts
@@ -128,6 +193,47 @@ export function generateSecurityHeaderHandling(
   return renderSecurityHeaderHandling(operationSecurityHeaders);
 }
 
+/**
+ * Gets the credential schemes of every alternative security requirement of an
+ * operation (its own security, or the global one when not overridden).
+ * Requirements without credential schemes are kept as empty lists, since they
+ * may be satisfied by other means (e.g. headers or no authentication at all).
+ */
+export function getOperationCredentialRequirements(
+  operation: OperationObject,
+  doc: OpenAPIObject,
+): CredentialScheme[][] {
+  const requirements = operation.security ?? doc.security ?? [];
+  const schemes = doc.components?.securitySchemes || {};
+
+  return requirements.map((securityRequirement) =>
+    Object.keys(securityRequirement).flatMap((schemeName) => {
+      const scheme = schemes[schemeName] as SecuritySchemeObject | undefined;
+      const credential = scheme && analyzeCredentialScheme(schemeName, scheme);
+      return credential ? [credential] : [];
+    }),
+  );
+}
+
+/**
+ * Gets the distinct credential schemes an operation may send
+ */
+export function getOperationCredentialSchemes(
+  operation: OperationObject,
+  doc: OpenAPIObject,
+): CredentialScheme[] {
+  const credentials = new Map<string, CredentialScheme>();
+  for (const requirement of getOperationCredentialRequirements(
+    operation,
+    doc,
+  )) {
+    for (const credential of requirement) {
+      credentials.set(credential.schemeName, credential);
+    }
+  }
+  return [...credentials.values()];
+}
+
 /**
  * Gets operation-specific security schemes that are not global
  */
@@ -139,6 +245,31 @@ export function getOperationSecuritySchemes(
   return analysis.operationHeaders;
 }
 
+/**
+ * Gets the OAuth2 / OpenID Connect token required by an operation.
+ * The operation security (or the global one when not overridden) is scanned in
+ * order and the first requirement referencing a token based scheme wins,
+ * since requirements are alternatives.
+ */
+export function getOperationTokenRequirement(
+  operation: OperationObject,
+  doc: OpenAPIObject,
+): OperationTokenRequirement | undefined {
+  const requirements = operation.security ?? doc.security ?? [];
+  const schemes = doc.components?.securitySchemes;
+  if (!schemes) return undefined;
+
+  for (const securityRequirement of requirements) {
+    for (const [schemeName, scopes] of Object.entries(securityRequirement)) {
+      const scheme = schemes[schemeName] as SecuritySchemeObject | undefined;
+      if (scheme && isTokenBasedScheme(scheme)) {
+        return { schemeName, scopes: [...scopes], type: scheme.type };
+      }
+    }
+  }
+  return undefined;
+}
+
 /**
  * Checks if an operation overrides global security (either empty or with specific schemes)
  */
@@ -146,6 +277,16 @@ export function hasSecurityOverride(operation: OperationObject): boolean {
   return operation.security !== undefined;
 }
 
+/**
+ * Checks if a security scheme is satisfied by a bearer access token supplied
+ * at runtime (OAuth2, any flow, or OpenID Connect)
+ */
+export function isTokenBasedScheme(
+  scheme: SecuritySchemeObject,
+): scheme is SecuritySchemeObject & { type: "oauth2" | "openIdConnect" } {
+  return scheme.type === "oauth2" || scheme.type === "openIdConnect";
+}
+
 /**
  * Processes operation-specific security requirements
  */
@@ -2,6 +2,22 @@
 
 import type { ConfigStructure } from "../models/config-models.js";
 
+import { renderPaginationRuntime } from "./pagination-templates.js";
+import { renderStreamingRuntime } from "./streaming-templates.js";
+
+/*
+ * Renders the ApiKeySchemeName type export (if needed)
+ */
+export function renderApiKeySchemeNameType(config: ConfigStructure): string {
+  const { credentials } = config;
+
+  if (!credentials?.hasApiKeySchemes) {
+    return "";
+  }
+
+  return `export type ApiKeySchemeName = ${credentials.apiKeySchemeNamesType};`;
+}
+
 /*
  * Renders the API response type definitions
  */
@@ -38,6 +54,14 @@ export type ApiResponseError = {
       readonly kind: "unexpected-error";
       readonly error: unknown;
     }
+  | {
+      readonly kind: "timeout";
+      readonly error: unknown;
+    }
+  | {
+      readonly kind: "aborted";
+      readonly error: unknown;
+    }
   | {
       readonly kind: "unexpected-response";
       readonly result: ApiResponseErrorResult;
@@ -174,17 +198,32 @@ export function renderConfigImports(): string {
  * Renders the GlobalConfig interface
  */
 export function renderConfigInterface(config: ConfigStructure): string {
-  const { auth, server } = config;
+  const { auth, credentials, server } = config;
 
   return `// Configuration types
 export interface GlobalConfig {
+  /* API keys sent in query or cookie, keyed by security scheme name */
+  apiKeys?: {
+    [K in ${credentials?.hasApiKeySchemes ? "ApiKeySchemeName" : "string"}]?: string;
+  };
   baseURL: ${server.baseURLType};
+  /* Credentials sent as "Authorization: Basic" to operations secured by HTTP Basic */
+  basicAuth?: BasicCredentials;
   fetch: typeof fetch;
   headers: {
     [K in ${auth.hasAuthHeaders ? `AuthHeaders` : "string"}]?: string;
   } & Record<string, string>;
   deserializers?: DeserializerMap;
   forceValidation?: boolean;
+  /* Hooks run around every operation call, see Middleware */
+  middlewares?: Middleware[];
+  retry?: RetryPolicy;
+  /* Aborts every call made with this configuration */
+  signal?: AbortSignal;
+  /* Supplies access tokens to operations secured by OAuth2 / OpenID Connect */
+  tokenProvider?: TokenProvider;
+  /* Timeout in milliseconds applied to each request attempt, until response headers are received */
+  timeoutMs?: number;
 }`;
 }
 
@@ -199,10 +238,88 @@ export function renderConfigSupport(): string {
     "",
     renderUtilityFunctions(),
     "",
+    renderRetryPolicy(),
+    "",
+    renderMiddlewareTypes(),
+    "",
+    renderTokenProviderTypes(),
+    "",
+    renderCredentialHelpers(),
+    "",
+    renderParameterSerialization(),
+    "",
+    renderRequestExecution(),
+    "",
     renderOperationUtilities(),
+    "",
+    renderPaginationRuntime(),
+    "",
+    renderStreamingRuntime(),
   ].join("\n");
 }
 
+/*
+ * Renders the helpers used to send apiKey (cookie) and HTTP Basic credentials
+ */
+export function renderCredentialHelpers(): string {
+  return `/* Username and password of the HTTP Basic authentication scheme */
+export interface BasicCredentials {
+  password: string;
+  username: string;
+}
+
+/* Appends a cookie to the Cookie header, keeping the cookies already set */
+export function appendCookie(
+  headers: Record<string, string>,
+  name: string,
+  value: string,
+): void {
+  const cookie = \`\${name}=\${encodeURIComponent(value)}\`;
+  headers["Cookie"] = headers["Cookie"] ? \`\${headers["Cookie"]}; \${cookie}\` : cookie;
+}
+
+/* Encodes the "Authorization: Basic" header value (UTF-8, RFC 7617) */
+export function encodeBasicAuth(credentials: BasicCredentials): string {
+  const bytes = new TextEncoder().encode(
+    \`\${credentials.username}:\${credentials.password}\`,
+  );
+  return \`Basic \${btoa(String.fromCharCode(...bytes))}\`;
+}`;
+}
+
+/*
+ * Renders the middleware types used to hook into every operation call
+ */
+export function renderMiddlewareTypes(): string {
+  return `/* Request of a generated operation, as seen by middlewares */
+export interface OperationRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: RequestBody;
+}
+
+/*
+ * Hooks run around every operation call. onRequest hooks run in order and may
+ * mutate or replace the request; onResponse and onError hooks run in reverse
+ * order. onResponse may replace the raw response; onError may recover by
+ * returning a response, or rethrow to replace the error.
+ */
+export interface Middleware {
+  onRequest?: (
+    request: OperationRequest,
+  ) => OperationRequest | void | Promise<OperationRequest | void>;
+  onResponse?: (
+    response: Response,
+    request: OperationRequest,
+  ) => Response | void | Promise<Response | void>;
+  onError?: (
+    error: unknown,
+    request: OperationRequest,
+  ) => Response | void | Promise<Response | void>;
+}`;
+}
+
 /*
  * Renders operation binding utilities
  */
@@ -248,12 +365,18 @@ type ForceAdjust<R, TForce extends boolean> = TForce extends true
     ? Promise<RemoveForcedParse<U>>
     : RemoveForcedParse<R>;
 
+/* Per-call options accepted by bound operations */
+export interface CallOptions {
+  /* Aborts this call only, in addition to the signal of the bound configuration */
+  signal?: AbortSignal;
+}
+
 type BoundOperation<TOp, TForce extends boolean> = ForceAdjust<
   ExtractOverloadForForce<TOp, TForce> extends (params: any) => infer R ? R : never,
   TForce
 > extends infer Adjusted
   ? ExtractOverloadForForce<TOp, TForce> extends (params: infer P) => any
-    ? (params: P) => Adjusted
+    ? (params: P, options?: CallOptions) => Adjusted
     : never
   : never;
 
@@ -273,13 +396,16 @@ export function configureOperations<TOperations extends Record<string, Operation
   operations: TOperations,
   config: (Omit<GlobalConfig, 'forceValidation'> & { forceValidation: boolean }) | Omit<GlobalConfig, 'forceValidation'>
 ): { [K in keyof TOperations]: BoundOperation<TOperations[K], boolean> } {
-  const bound: Partial<Record<keyof TOperations, (params: unknown) => unknown>> = {};
+  const bound: Partial<Record<keyof TOperations, (params: unknown, options?: CallOptions) => unknown>> = {};
   for (const key in operations) {
     const op = operations[key];
     /* Preserve runtime guard (test expects the string below to appear) */
     if (typeof operations[key] === 'function') {
-      bound[key] = (params: unknown) => {
-        return (op as (...args: any[]) => unknown)(params, config);
+      bound[key] = (params: unknown, options?: CallOptions) => {
+        const callConfig = options?.signal
+          ? { ...config, signal: combineSignals(config.signal, options.signal) }
+          : config;
+        return (op as (...args: any[]) => unknown)(params, callConfig);
       };
     }
   }
@@ -288,27 +414,402 @@ export function configureOperations<TOperations extends Record<string, Operation
 }`;
 }
 
+/*
+ * Renders the parameter serializers implementing the OpenAPI style/explode
+ * matrix for query, path and header parameters
+ */
+export function renderParameterSerialization(): string {
+  return `/* OpenAPI parameter serialization style */
+export type ParameterStyle =
+  | "deepObject"
+  | "form"
+  | "label"
+  | "matrix"
+  | "pipeDelimited"
+  | "simple"
+  | "spaceDelimited";
+
+/* Appends a query parameter following its style (form by default) and explode settings */
+export function appendQueryParameter(
+  searchParams: URLSearchParams,
+  name: string,
+  value: unknown,
+  style: ParameterStyle = "form",
+  explode: boolean = style === "form",
+): void {
+  if (value === undefined) return;
+  if (style === "deepObject" && isParameterObject(value)) {
+    appendDeepObject(searchParams, name, value);
+  } else if (Array.isArray(value) && explode) {
+    for (const item of value) searchParams.append(name, stringifyParameter(item));
+  } else if (isParameterObject(value) && explode) {
+    for (const [key, item] of parameterEntries(value)) {
+      searchParams.append(key, stringifyParameter(item));
+    }
+  } else {
+    const delimiter =
+      style === "spaceDelimited" ? " " : style === "pipeDelimited" ? "|" : ",";
+    searchParams.append(name, serializeParameterItems(value, false, String).join(delimiter));
+  }
+}
+
+/* Serializes a header parameter (simple style) */
+export function serializeHeaderParameter(value: unknown, explode = false): string {
+  return serializeParameterItems(value, explode, String).join(",");
+}
+
+/* Serializes a path parameter following its style (simple by default) and explode settings, URI-encoding values */
+export function serializePathParameter(
+  name: string,
+  value: unknown,
+  style: ParameterStyle = "simple",
+  explode = false,
+): string {
+  const items = serializeParameterItems(value, explode, encodeURIComponent);
+  if (style === "label") return "." + items.join(explode ? "." : ",");
+  if (style !== "matrix") return items.join(",");
+  if (!explode || (!Array.isArray(value) && !isParameterObject(value))) {
+    return ";" + name + "=" + items.join(",");
+  }
+  /* Exploded objects already render key=value pairs */
+  return items
+    .map((item) => ";" + (Array.isArray(value) ? name + "=" + item : item))
+    .join("");
+}
+
+function appendDeepObject(
+  searchParams: URLSearchParams,
+  prefix: string,
+  value: Record<string, unknown>,
+): void {
+  for (const [key, item] of parameterEntries(value)) {
+    const name = prefix + "[" + key + "]";
+    if (isParameterObject(item)) {
+      appendDeepObject(searchParams, name, item);
+    } else {
+      for (const entry of [item].flat()) {
+        searchParams.append(name, stringifyParameter(entry));
+      }
+    }
+  }
+}
+
+function isParameterObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function parameterEntries(value: Record<string, unknown>): [string, unknown][] {
+  return Object.entries(value).filter(([, item]) => item !== undefined);
+}
+
+/* Array items, object keys and values (or key=value pairs when exploded), or the primitive value */
+function serializeParameterItems(
+  value: unknown,
+  explode: boolean,
+  encode: (value: string) => string,
+): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => encode(stringifyParameter(item)));
+  }
+  if (isParameterObject(value)) {
+    return parameterEntries(value).flatMap(([key, item]) =>
+      explode
+        ? [encode(key) + "=" + encode(stringifyParameter(item))]
+        : [encode(key), encode(stringifyParameter(item))],
+    );
+  }
+  return [encode(stringifyParameter(value))];
+}
+
+function stringifyParameter(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}`;
+}
+
 /* Render RequestBody alias used across generated clients */
 export function renderRequestBodyType(): string {
   return `/* Common request body union for generated clients */
 export type RequestBody = string | Blob | ArrayBuffer | FormData | undefined;`;
 }
 
+/*
+ * Renders the request execution helpers used by every operation:
+ * middleware chain, retries, timeout and cancellation
+ */
+export function renderRequestExecution(): string {
+  return `/* Combines the given signals into one that aborts as soon as any of them does */
+export function combineSignals(
+  ...signals: (AbortSignal | undefined)[]
+): AbortSignal | undefined {
+  const defined = signals.filter((signal): signal is AbortSignal => !!signal);
+  return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+}
+
+/* Checks whether an error was raised by the per-attempt timeout signal */
+export function isTimeoutError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "name" in error &&
+    error.name === "TimeoutError"
+  );
+}
+
+/*
+ * Sends an operation request through the configured middleware chain,
+ * applying the timeout and retry policy. Responses recovered by onError are
+ * passed to the onResponse hooks like any other response.
+ */
+export async function sendRequest(
+  request: OperationRequest,
+  config: GlobalConfig,
+): Promise<Response> {
+  const middlewares = config.middlewares ?? [];
+  const reversed = [...middlewares].reverse();
+
+  let current = request;
+  for (const middleware of middlewares) {
+    current = (await middleware.onRequest?.(current)) ?? current;
+  }
+
+  let response: Response | undefined;
+  try {
+    response = await fetchWithRetry(current, config);
+  } catch (error) {
+    let lastError = error;
+    for (const middleware of reversed) {
+      if (!middleware.onError) {
+        continue;
+      }
+      try {
+        response = (await middleware.onError(lastError, current)) ?? undefined;
+      } catch (rethrown) {
+        lastError = rethrown;
+      }
+      if (response) {
+        break;
+      }
+    }
+    if (!response) {
+      throw lastError;
+    }
+  }
+
+  for (const middleware of reversed) {
+    response = (await middleware.onResponse?.(response, current)) ?? response;
+  }
+  return response;
+}
+
+/*
+ * Sends a request applying the configured timeout and retry policy.
+ * Retryable responses are retried after an exponential backoff, or after the
+ * delay requested by the Retry-After header when present. The last response
+ * is always returned, and the last error is rethrown once attempts run out.
+ */
+async function fetchWithRetry(
+  { url, ...init }: OperationRequest,
+  config: GlobalConfig,
+): Promise<Response> {
+  const policy: RetryPolicy = config.retry ?? { maxAttempts: 1 };
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+  const retryableStatuses = policy.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= maxAttempts;
+    const attemptSignal = createAttemptSignal(config);
+    let response: Response;
+    try {
+      response = await config.fetch(url, { ...init, signal: attemptSignal.signal });
+    } catch (error) {
+      if (
+        isLastAttempt ||
+        policy.retryOnNetworkError === false ||
+        config.signal?.aborted
+      ) {
+        throw error;
+      }
+      await wait(computeRetryDelay(policy, attempt), config.signal);
+      continue;
+    } finally {
+      attemptSignal.dispose();
+    }
+
+    if (isLastAttempt || !retryableStatuses.includes(response.status)) {
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    /* Release the connection of the discarded response */
+    await response.body?.cancel().catch(() => undefined);
+    await wait(computeRetryDelay(policy, attempt, retryAfterMs), config.signal);
+  }
+}
+
+/*
+ * Creates the signal of a single attempt, aborted by the configured signal or
+ * once config.timeoutMs elapses. dispose() only stops the timeout when the
+ * attempt settles: the configured signal stays linked, so that aborting it
+ * still cancels reading the response body.
+ */
+function createAttemptSignal(config: GlobalConfig): {
+  signal: AbortSignal | undefined;
+  dispose: () => void;
+} {
+  const { signal, timeoutMs } = config;
+  if (timeoutMs === undefined) {
+    return { signal, dispose: () => undefined };
+  }
+  const timeout = new AbortController();
+  const timer = setTimeout(
+    () =>
+      timeout.abort(
+        new DOMException(${"`Request timed out after ${timeoutMs}ms`"}, "TimeoutError"),
+      ),
+    timeoutMs,
+  );
+  return {
+    signal: combineSignals(signal, timeout.signal),
+    dispose: () => clearTimeout(timer),
+  };
+}`;
+}
+
+/*
+ * Renders the retry policy type and the backoff helpers
+ */
+export function renderRetryPolicy(): string {
+  return `/* Retry policy applied to every operation call */
+export interface RetryPolicy {
+  /* Total number of attempts, including the first one */
+  maxAttempts: number;
+  /* Delay before the first retry in milliseconds. Default: 200 */
+  initialDelayMs?: number;
+  /* Multiplier applied to the delay after each retry. Default: 2 */
+  backoffFactor?: number;
+  /* Upper bound of a single delay, including Retry-After. Default: 30000 */
+  maxDelayMs?: number;
+  /* Randomize half of each delay to avoid synchronized retries. Default: true */
+  jitter?: boolean;
+  /* Response statuses that trigger a retry. Default: 408, 429, 502, 503, 504 */
+  retryableStatuses?: readonly number[];
+  /* Retry when fetch throws (network failures, timeouts). Default: true */
+  retryOnNetworkError?: boolean;
+}
+
+const DEFAULT_RETRYABLE_STATUSES: readonly number[] = [408, 429, 502, 503, 504];
+
+/* Computes the delay before the given retry (1-based) */
+function computeRetryDelay(
+  policy: RetryPolicy,
+  retry: number,
+  retryAfterMs?: number,
+): number {
+  const {
+    backoffFactor = 2,
+    initialDelayMs = 200,
+    jitter = true,
+    maxDelayMs = 30000,
+  } = policy;
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+  const delay = Math.min(initialDelayMs * backoffFactor ** (retry - 1), maxDelayMs);
+  return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/* Parses a Retry-After header (delay in seconds or HTTP date) into milliseconds */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/* Resolves after the given delay, or rejects as soon as the signal aborts */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}`;
+}
+
+/*
+ * Renders the token provider types used by OAuth2 / OpenID Connect operations
+ */
+export function renderTokenProviderTypes(): string {
+  return `/* Access token requested by an operation */
+export interface TokenRequest {
+  /* Name of the security scheme in components.securitySchemes */
+  schemeName: string;
+  /* Scopes listed in the security requirement of the operation */
+  scopes: readonly string[];
+  type: "oauth2" | "openIdConnect";
+}
+
+/*
+ * Returns the access token to send as "Authorization: Bearer <token>".
+ * Called before every secured operation, so it may cache and refresh tokens
+ * asynchronously. Returning undefined sends the request without a token.
+ */
+export type TokenProvider = (
+  request: TokenRequest,
+) => string | undefined | Promise<string | undefined>;`;
+}
+
 /*
  * Renders utility functions for response handling
  */
 export function renderUtilityFunctions(): string {
-  return `/* Helper function to parse response body based on content type */
-export async function parseResponseBody(response: Response): Promise<unknown | Blob | FormData | ReadableStream | Response> {
+  return `/*
+ * Helper function to parse response body based on content type. Unparsable
+ * bodies are returned as null, while reading errors caused by the aborted
+ * signal of the request are rethrown.
+ */
+export async function parseResponseBody(response: Response, signal?: AbortSignal): Promise<unknown | Blob | FormData | ReadableStream | Response> {
+  /* Streamed bodies are read lazily by streamResponseItems() */
+  if (isStreamingResponse(response)) {
+    return response.body;
+  }
+  const unreadable = (error: unknown): null => {
+    if (signal?.aborted) {
+      throw error;
+    }
+    return null;
+  };
   const contentType = response.headers.get('content-type') || '';
   if (contentType.includes('application/json') ||
       contentType.includes('+json')) {
-    return response.json().catch(() => null);
+    return response.json().catch(unreadable);
   }
   if (contentType.includes('text/') ||
       contentType.includes('application/xml') ||
       contentType.includes('application/xhtml+xml')) {
-    return response.text().catch(() => null);
+    return response.text().catch(unreadable);
   }
   if (contentType.includes('image/') ||
       contentType.includes('video/') ||
@@ -320,15 +821,15 @@ export async function parseResponseBody(response: Response): Promise<unknown | B
       contentType.includes('application/msword') ||
       contentType.includes('application/vnd.') ||
       contentType.includes('binary')) {
-    return response.blob().catch(() => null);
+    return response.blob().catch(unreadable);
   }
   if (contentType.includes('multipart/form-data')) {
-    return response.formData().catch(() => null);
+    return response.formData().catch(unreadable);
   }
   if (contentType.includes('application/x-www-form-urlencoded')) {
-    return response.text().catch(() => null);
+    return response.text().catch(unreadable);
   }
-  return response.text().catch(() => null);
+  return response.text().catch(unreadable);
 }
 
 /* Normalize Content-Type header */
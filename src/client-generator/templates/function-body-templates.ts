@@ -102,7 +102,8 @@ ${headersContent}
     const url = new URL(\`${finalPath}\`, config.baseURL);
     ${queryParamLines ? `    ${queryParamLines}` : ""}
 
-    const response = await config.fetch(url.toString(), {
+    const response = await sendRequest({
+      url: url.toString(),
       method: "${method.toUpperCase()}",
       headers: finalHeaders,${
         hasBody
@@ -110,7 +111,7 @@ ${headersContent}
       body: bodyContent,`
           : ""
       }
-    });
+    }, config);
 
     /*
      * The response body is consumed immediately to prevent holding onto the raw
@@ -118,7 +119,7 @@ ${headersContent}
      * the necessary properties, and headers are copied to a Map to break the
      * reference to the original response object.
      */
-    const data = await parseResponseBody(response);
+    const data = await parseResponseBody(response, config.signal);
     const minimalResponse = {
       status: response.status,
       headers: new Map(response.headers.entries()),
@@ -141,6 +142,20 @@ ${responseHandlers.join("\n")}
       }
     }
   } catch (error) {
+    if (config.signal?.aborted) {
+      return {
+        success: false,
+        kind: "aborted",
+        error,
+      } as const;
+    }
+    if (isTimeoutError(error)) {
+      return {
+        success: false,
+        kind: "timeout",
+        error,
+      } as const;
+    }
     return {
       success: false,
       kind: "unexpected-error",
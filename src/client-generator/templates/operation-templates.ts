@@ -1,3 +1,6 @@
+import type { FormatRegistry } from "../../schema-generator/formats.js";
+import type { ParameterSerialization } from "../../shared/parameter-serialization.js";
+import type { ResponseHeadersResult } from "../../shared/response-headers.js";
 import type { extractParameterGroups } from "../parameters.js";
 import type { resolveRequestBodyType } from "../request-body.js";
 import type {
@@ -62,6 +65,10 @@ export interface OperationMetadata {
     paramsInterface: string;
   };
   responseHandlers: ResponseHandlerResult;
+  /* Schemas of the headers declared by each response status */
+  responseHeaders: ResponseHeadersResult;
+  /* Parameters serialized according to their style/explode settings */
+  styledParameters: ParameterSerialization[];
   summary: string;
   typeImports: Set<string>;
 }
@@ -74,9 +81,15 @@ export interface ParameterDeclarationConfig {
 export type TypeAliasesConfig = ContentTypeMapsConfig & {
   discriminatedUnionTypeDefinition?: string;
   discriminatedUnionTypeName?: string;
+  /* Import declarations of the custom formats, merged with the parameter ones */
+  formatImports?: Set<string>;
+  /* Custom string and number formats of the parameter schemas */
+  formats?: FormatRegistry;
   /* Parameter schema generation */
   operationId: string | undefined;
   parameterGroups: ReturnType<typeof extractParameterGroups>;
+  /* Response header schemas and types */
+  responseHeadersCode?: string;
   responseMapName?: string;
   responseMapType?: string;
   /* Type imports to merge parameter schema imports */
@@ -146,6 +159,7 @@ export function buildTypeAliases(config: TypeAliasesConfig): string {
       config.operationId,
       config.parameterGroups,
       {
+        formats: config.formats,
         strictValidation: false,
       },
     );
@@ -156,10 +170,18 @@ export function buildTypeAliases(config: TypeAliasesConfig): string {
       parameterSchemas.typeImports.forEach((imp) =>
         config.typeImports.add(imp),
       );
+      parameterSchemas.formatImports.forEach((declaration) =>
+        config.formatImports?.add(declaration),
+      );
       typeAliases += `/* Parameter schemas for type-safe inputs */\n${parameterSchemas.schemaCode}\n\n`;
     }
   }
 
+  if (config.responseHeadersCode) {
+    config.typeImports.add("z");
+    typeAliases += `/* Response header schemas */\n${config.responseHeadersCode}\n\n`;
+  }
+
   /* Add discriminated union response type if available */
   if (config.discriminatedUnionTypeDefinition) {
     typeAliases += `${config.discriminatedUnionTypeDefinition}\n\n`;
@@ -0,0 +1,175 @@
+/* Templates of the paginate<Operation>() helpers and of their runtime */
+
+import type { OperationPagination } from "../models/pagination-models.js";
+
+/**
+ * Renders the paginate<Operation>() async iterator of a paginated operation,
+ * along with the type of its items
+ */
+export function renderPaginateFunction(
+  functionName: string,
+  operationName: string,
+  pagination: OperationPagination,
+): string {
+  const { contentType, items, queryNames, status, strategy } = pagination;
+  const itemType = `${operationName}PageItem`;
+  const bodyType = `${operationName}ResponseMap[${JSON.stringify(status)}][${JSON.stringify(contentType)}]`;
+  const itemsType = (items?.split(".") ?? []).reduce(
+    (type, property) => `NonNullable<${type}>[${JSON.stringify(property)}]`,
+    bodyType,
+  );
+  const options = { ...strategy, items, queryNames };
+  return `/* Item of the ${functionName} pages */
+export type ${itemType} = NonNullable<${itemsType}>[number];
+
+/*
+ * Iterates over the parsed items of every ${functionName} page (${strategy.kind} pagination),
+ * requesting the next page once the current one is consumed. Failures are thrown as ApiResponseError.
+ */
+export function paginate${operationName}(
+  params: Parameters<typeof ${functionName}>[0],
+  config: GlobalConfig = globalConfig,
+): AsyncGenerator<${itemType}, void, undefined> {
+  return paginate<${itemType}>(
+    (query) =>
+      ${functionName}({ ...params, query } as Parameters<typeof ${functionName}>[0], config),
+    { ...(params as { query?: object }).query },
+    ${JSON.stringify(options)},
+  );
+}`;
+}
+
+/**
+ * Renders the pagination runtime of the config module: paginate() requests
+ * the pages of an operation and yields their items
+ */
+export function renderPaginationRuntime(): string {
+  return `/* How the query of the next page is derived from the current page */
+export type PaginationStrategy =
+  | { cursorParam: string; kind: "cursor"; nextCursor: string }
+  | { firstPage: number; kind: "page"; pageParam: string }
+  | { kind: "link" }
+  | { kind: "offset"; limitParam: string; offsetParam: string };
+
+export type PaginationOptions = PaginationStrategy & {
+  /* Dotted path of the items in the parsed body, the body itself when undefined */
+  items?: string;
+  /* Operation names of the query parameters, keyed by their name in next links */
+  queryNames: Record<string, string>;
+};
+
+/* Page as returned by an operation, parsed according to its configuration */
+type PageResponse =
+  | ApiResponseError
+  | {
+      readonly data: unknown;
+      readonly parse?: () => unknown;
+      readonly parsed?: unknown;
+      readonly response: Response;
+      readonly status: number;
+      readonly success: true;
+    };
+
+/*
+ * Iterates over the items of every page of an operation. The next page is
+ * only requested once the items of the current one are consumed, and the
+ * iteration ends after an empty page or without a next cursor or link.
+ * Failures, non 2xx statuses and invalid pages are thrown as ApiResponseError.
+ */
+export async function* paginate<TItem>(
+  fetchPage: (query: Record<string, unknown>) => Promise<PageResponse>,
+  query: Record<string, unknown>,
+  options: PaginationOptions,
+): AsyncGenerator<TItem, void, undefined> {
+  let current: Record<string, unknown> | undefined = query;
+  while (current) {
+    const page = await fetchPage(current);
+    if (!page.success) throw page;
+    const result = { data: page.data, response: page.response, status: page.status };
+    if (page.status < 200 || page.status > 299) {
+      throw pageError(result, \`Unexpected page status \${page.status}\`);
+    }
+    const parsed = page.parsed ?? page.parse?.() ?? { parsed: page.data };
+    if (!isRecord(parsed) || !("parsed" in parsed)) {
+      throw { ...(parsed as object), result, success: false } as ApiResponseError;
+    }
+    const items = valueAt(parsed.parsed, options.items);
+    if (!Array.isArray(items)) {
+      throw pageError(result, \`Missing page items at \${options.items ?? "the body"}\`);
+    }
+    yield* items as TItem[];
+    current =
+      items.length > 0
+        ? nextPageQuery(current, options, parsed.parsed, page.response, items.length)
+        : undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/* Query of the page following the current one, undefined after the last page */
+function nextPageQuery(
+  current: Record<string, unknown>,
+  options: PaginationOptions,
+  body: unknown,
+  response: Response,
+  count: number,
+): Record<string, unknown> | undefined {
+  switch (options.kind) {
+    case "cursor": {
+      const cursor = valueAt(body, options.nextCursor);
+      const isLast = cursor === undefined || cursor === null || cursor === "";
+      return isLast || cursor === current[options.cursorParam]
+        ? undefined
+        : { ...current, [options.cursorParam]: cursor };
+    }
+    case "link": {
+      const next = parseNextLink(response.headers.get("link"));
+      if (!next) return undefined;
+      const query: Record<string, unknown> = { ...current };
+      for (const [name, value] of new URL(next, "http://localhost").searchParams) {
+        query[options.queryNames[name] ?? name] = value;
+      }
+      return query;
+    }
+    case "offset": {
+      const limit = Number(current[options.limitParam]);
+      if (count < limit) return undefined;
+      const offset = Number(current[options.offsetParam] ?? 0);
+      return { ...current, [options.offsetParam]: offset + count };
+    }
+    case "page": {
+      const page = Number(current[options.pageParam] ?? options.firstPage);
+      return { ...current, [options.pageParam]: page + 1 };
+    }
+  }
+}
+
+function pageError(
+  result: { data: unknown; response: Response; status: number },
+  error: string,
+): ApiResponseError {
+  return { error, kind: "unexpected-response", result, success: false };
+}
+
+/* Target of the rel="next" link of a Link header (RFC 8288) */
+function parseNextLink(header: null | string): string | undefined {
+  for (const link of header?.split(/,(?=\\s*<)/) ?? []) {
+    const match = /^\\s*<([^>]*)>(.*)$/.exec(link);
+    if (match && /;\\s*rel="?([^";]*\\s)?next(\\s[^";]*)?"?/i.test(match[2])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/* Value at a dotted path of a parsed body, the body itself without path */
+function valueAt(value: unknown, path: string | undefined): unknown {
+  return (path?.split(".") ?? []).reduce<unknown>(
+    (current, property) => (isRecord(current) ? current[property] : undefined),
+    value,
+  );
+}`;
+}
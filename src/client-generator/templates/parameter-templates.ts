@@ -1,7 +1,9 @@
 import type { ParameterObject } from "openapi3-ts/oas31";
 
+import type { ParameterSerialization } from "../../shared/parameter-serialization.js";
 import type { ParameterAnalysis } from "../models/parameter-models.js";
 
+import { findStyledParameter } from "../../shared/parameter-serialization.js";
 import { toCamelCase, toValidVariableName } from "../utils.js";
 
 /**
@@ -60,6 +62,19 @@ export function renderDestructuredParameters(
     );
   }
 
+  // Cookie parameters
+  if (structure.processed.cookieParams.length > 0) {
+    const cookieProperties = analysis.cookieProperties.map(
+      (prop) => `${JSON.stringify(prop.name)}: ${prop.varName}`,
+    );
+    const defaultValue = analysis.optionalityRules.isCookiesOptional
+      ? " = {}"
+      : "";
+    destructureParams.push(
+      `cookies: { ${cookieProperties.join(", ")} }${defaultValue}`,
+    );
+  }
+
   // Body parameter
   if (structure.hasBody && structure.bodyTypeInfo) {
     const defaultValue = structure.bodyTypeInfo.isRequired
@@ -79,18 +94,32 @@ export function renderDestructuredParameters(
 }
 
 /**
- * Renders parameter handling code for headers
+ * Renders parameter handling code for cookies, headers and query parameters.
+ * Styled parameters (arrays, objects) go through the style/explode aware
+ * serializers of the config module, other values are converted with String().
  */
 export function renderParameterHandling(
-  paramType: "header" | "query",
+  paramType: "cookie" | "header" | "query",
   params: ParameterObject[],
+  styledParameters?: ParameterSerialization[],
 ): string {
   if (params.length === 0) return "";
 
-  if (paramType === "header") {
+  if (paramType === "cookie") {
+    return params
+      .map((p) => {
+        const varName = `${toValidVariableName(p.name)}Cookie`;
+        return `if (${varName} !== undefined) appendCookie(finalHeaders, ${JSON.stringify(p.name)}, String(${varName}));`;
+      })
+      .join("\n    ");
+  } else if (paramType === "header") {
     return params
       .map((p) => {
         const varName = toValidVariableName(p.name);
+        const styled = findStyledParameter(styledParameters, p);
+        if (styled) {
+          return `if (${varName} !== undefined) finalHeaders['${p.name}'] = serializeHeaderParameter(${varName}, ${styled.explode});`;
+        }
         // Use the sanitized variable name on the LHS, original header string as key
         return `if (${varName} !== undefined) finalHeaders['${p.name}'] = String(${varName});`;
       })
@@ -99,6 +128,10 @@ export function renderParameterHandling(
     return params
       .map((p) => {
         const varName = toCamelCase(p.name);
+        const styled = findStyledParameter(styledParameters, p);
+        if (styled) {
+          return `if (${varName} !== undefined) appendQueryParameter(url.searchParams, '${p.name}', ${varName}, "${styled.style}", ${styled.explode});`;
+        }
         return `if (${varName} !== undefined) url.searchParams.append('${p.name}', String(${varName}));`;
       })
       .join("\n    ");
@@ -115,7 +148,12 @@ export function renderParameterInterface(analysis: ParameterAnalysis): string {
   // Path parameters section (never optional if present)
   if (structure.processed.pathParams.length > 0) {
     const pathProperties = analysis.pathProperties.map(
-      (name) => `${name}: string`,
+      (name, index) =>
+        `${name}: ${renderParameterType(
+          analysis,
+          structure.processed.pathParams[index],
+          "Path",
+        )}`,
     );
     sections.push(`path: {\n    ${pathProperties.join(";\n    ")};\n  }`);
   }
@@ -123,7 +161,12 @@ export function renderParameterInterface(analysis: ParameterAnalysis): string {
   // Query parameters section
   if (structure.processed.queryParams.length > 0) {
     const queryProperties = analysis.queryProperties.map(
-      (prop) => `${prop.name}${prop.isRequired ? "" : "?"}: string`,
+      (prop, index) =>
+        `${prop.name}${prop.isRequired ? "" : "?"}: ${renderParameterType(
+          analysis,
+          structure.processed.queryParams[index],
+          "Query",
+        )}`,
     );
     const optionalMarker = analysis.optionalityRules.isQueryOptional ? "?" : "";
     sections.push(
@@ -139,13 +182,18 @@ export function renderParameterInterface(analysis: ParameterAnalysis): string {
     const headerProperties: string[] = [];
 
     // Regular header parameters
-    analysis.headerProperties.forEach((prop) => {
+    analysis.headerProperties.forEach((prop, index) => {
       const requiredMarker = prop.isRequired ? "" : "?";
+      const type = renderParameterType(
+        analysis,
+        structure.processed.headerParams[index],
+        "Headers",
+      );
       if (prop.needsQuoting) {
-        headerProperties.push(`"${prop.name}"${requiredMarker}: string`);
+        headerProperties.push(`"${prop.name}"${requiredMarker}: ${type}`);
       } else {
         /* Use the sanitized variable name consistently */
-        headerProperties.push(`${prop.varName}${requiredMarker}: string`);
+        headerProperties.push(`${prop.varName}${requiredMarker}: ${type}`);
       }
     });
 
@@ -163,6 +211,20 @@ export function renderParameterInterface(analysis: ParameterAnalysis): string {
     );
   }
 
+  // Cookie parameters section
+  if (structure.processed.cookieParams.length > 0) {
+    const cookieProperties = analysis.cookieProperties.map(
+      (prop) =>
+        `${JSON.stringify(prop.name)}${prop.isRequired ? "" : "?"}: string`,
+    );
+    const optionalMarker = analysis.optionalityRules.isCookiesOptional
+      ? "?"
+      : "";
+    sections.push(
+      `cookies${optionalMarker}: {\n    ${cookieProperties.join(";\n    ")};\n  }`,
+    );
+  }
+
   // Body parameter
   if (structure.hasBody && structure.bodyTypeInfo) {
     const requiredMarker = structure.bodyTypeInfo.isRequired ? "" : "?";
@@ -193,3 +255,24 @@ export function renderParameterInterface(analysis: ParameterAnalysis): string {
 
   return sections.length > 0 ? `{\n  ${sections.join(";\n  ")};\n}` : "{}";
 }
+
+/**
+ * Renders the type of a parameter: path and styled parameters (arrays,
+ * objects) are typed from their schema, other parameters are sent as strings
+ */
+function renderParameterType(
+  analysis: ParameterAnalysis,
+  param: ParameterObject | undefined,
+  typeSuffix: "Headers" | "Path" | "Query",
+): string {
+  const typing = analysis.structure.parameterTyping;
+  if (
+    !typing ||
+    !param ||
+    (typeSuffix !== "Path" &&
+      !findStyledParameter(typing.styledParameters, param))
+  ) {
+    return "string";
+  }
+  return `${typing.typeNamePrefix}${typeSuffix}[${JSON.stringify(param.name)}]`;
+}
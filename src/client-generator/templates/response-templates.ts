@@ -12,21 +12,41 @@ export function renderResponseHandler(
   responseInfo: ResponseInfo,
   responseMapName?: string,
 ): string {
-  const { contentType, statusCode, typeName } = responseInfo;
+  const { contentType, headers, statusCode, typeName } = responseInfo;
+  const headersParse = renderHeadersParse(responseInfo);
+  const headersField = renderHeadersField(responseInfo);
+  const withHeaders = (type: string) =>
+    headers ? `${type} & { readonly headers: ${headers.typeName} }` : type;
 
   if (typeName || contentType) {
+    const streamResult =
+      responseInfo.streaming && responseMapName
+        ? renderStreamResult(responseInfo, responseMapName, withHeaders)
+        : undefined;
+    if (streamResult && responseInfo.streaming === "exclusive") {
+      return `    case ${statusCode}: {${headersParse}
+      ${streamResult}
+    }`;
+    }
+    /* Other content types of a mixed status are parsed as usual */
+    const streamBranch = streamResult
+      ? `
+      if (isStreamingResponse(minimalResponse)) {
+        ${streamResult}
+      }`
+      : "";
     /* Use string-literal indexing for numeric HTTP status codes to preserve literal key types */
     if (responseInfo.hasSchema && responseMapName) {
       /* Always generate dynamic validation logic (forceValidation flag removed) */
       return `    case ${statusCode}: {
-${!responseInfo.hasSchema ? "      const data = undefined;" : ""}
+${!responseInfo.hasSchema ? "      const data = undefined;" : ""}${headersParse}${streamBranch}
       if (config.forceValidation) {
         /* Force validation: automatically parse and return result */
         const parseResult = parseApiResponseUnknownData(minimalResponse, data, ${responseMapName}["${statusCode}"], config.deserializers ?? {});
         if ("parsed" in parseResult) {
-          const forcedResult = { success: true as const, status: ${statusCode} as const, data, response, parsed: parseResult } satisfies ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}>;
+          const forcedResult = { success: true as const, status: ${statusCode} as const, data, response, parsed: parseResult${headersField} } satisfies ${withHeaders(`ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}>`)};
           // Need a bridge assertion to the conditional return type because generic TForceValidation isn't narrowed by runtime branch
-          return forcedResult as unknown as (TForceValidation extends true ? ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}> : ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>);
+          return forcedResult as unknown as ${withHeaders(`(TForceValidation extends true ? ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}> : ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>)`)};
         }
         if (parseResult.kind) {
           const errorResult = {
@@ -44,20 +64,27 @@ ${!responseInfo.hasSchema ? "      const data = undefined;" : ""}
           status: ${statusCode} as const,
           data,
           response,
-          parse: () => parseApiResponseUnknownData(minimalResponse, data, ${responseMapName}["${statusCode}"], config.deserializers ?? {})
-        } satisfies ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>;
-        return manualResult as unknown as (TForceValidation extends true ? ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}> : ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>);
+          parse: () => parseApiResponseUnknownData(minimalResponse, data, ${responseMapName}["${statusCode}"], config.deserializers ?? {})${headersField}
+        } satisfies ${withHeaders(`ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>`)};
+        return manualResult as unknown as ${withHeaders(`(TForceValidation extends true ? ApiResponseWithForcedParse<${statusCode}, typeof ${responseMapName}> : ApiResponseWithParse<${statusCode}, typeof ${responseMapName}>)`)};
       }
     }`;
     } else {
       /* No schema or response map: return simple response */
       return `    case ${statusCode}: {
-${!responseInfo.hasSchema ? "      const data = undefined;" : ""}
-  return { success: true as const, status: ${statusCode} as const, data, response };
+${!responseInfo.hasSchema ? "      const data = undefined;" : ""}${headersParse}
+  return { success: true as const, status: ${statusCode} as const, data, response${headersField} };
     }`;
     }
   }
 
+  if (headers) {
+    return `    case ${statusCode}: {
+      const data = undefined;${headersParse}
+  return { success: true as const, status: ${statusCode} as const, data, response${headersField} };
+    }`;
+  }
+
   return `    case ${statusCode}:
   return { success: true as const, status: ${statusCode} as const, data: undefined, response };`;
 }
@@ -78,3 +105,56 @@ export function renderResponseHandlers(
 
   return handlers;
 }
+
+/*
+ * Renders the declared headers field of a response, parsed when first read
+ * unless they were already validated under forceValidation
+ */
+function renderHeadersField({ headers }: ResponseInfo): string {
+  return headers ? ", get headers() { return readHeaders(); }" : "";
+}
+
+/*
+ * Renders the parsing of the declared response headers. Under
+ * forceValidation they are validated up front, a malformed or missing
+ * required header being reported as a parse-error. They are otherwise
+ * parsed when read, like the body is by parse().
+ */
+function renderHeadersParse({ headers, statusCode }: ResponseInfo): string {
+  if (!headers) return "";
+  return `
+      let parsedHeaders: ${headers.typeName} | undefined;
+      const readHeaders = () => (parsedHeaders ??= ${headers.schemaName}.parse(Object.fromEntries(minimalResponse.headers)));
+      if (config.forceValidation) {
+        const headersParse = ${headers.schemaName}.safeParse(Object.fromEntries(minimalResponse.headers));
+        if (!headersParse.success) {
+          return {
+            kind: "parse-error" as const,
+            error: headersParse.error,
+            success: false as const,
+            result: { data, status: ${statusCode}, response },
+          } satisfies ApiResponseError;
+        }
+        parsedHeaders = headersParse.data;
+      }`;
+}
+
+/*
+ * Renders the return of a streamed response, whose items are read and
+ * validated by stream()
+ */
+function renderStreamResult(
+  responseInfo: ResponseInfo,
+  responseMapName: string,
+  withHeaders: (type: string) => string,
+): string {
+  const { statusCode } = responseInfo;
+  const headersField = renderHeadersField(responseInfo);
+  return `return {
+        success: true as const,
+        status: ${statusCode} as const,
+        data,
+        response,
+        stream: () => streamResponseItems(minimalResponse, data, ${responseMapName}["${statusCode}"], { data, status: ${statusCode}, response }, config.signal)${headersField},
+      } satisfies ${withHeaders(`ApiStreamResponse<${statusCode}, (typeof ${responseMapName})["${statusCode}"]>`)};`;
+}
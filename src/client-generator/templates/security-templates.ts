@@ -1,4 +1,8 @@
-import type { SecurityHeader } from "../models/security-models.js";
+import type {
+  CredentialScheme,
+  OperationTokenRequirement,
+  SecurityHeader,
+} from "../models/security-models.js";
 
 import { toValidVariableName } from "../utils.js";
 
@@ -18,6 +22,43 @@ export function renderAuthHeaderValidation(authHeaders: string[]): string {
   return validationChecks.join("\n  ");
 }
 
+/**
+ * Renders the Cookie and Basic Authorization headers sent from the apiKeys and
+ * basicAuth config fields. An explicitly provided Authorization header takes
+ * precedence over the Basic credentials.
+ */
+export function renderCredentialHeaderHandling(
+  credentialSchemes: CredentialScheme[],
+): string {
+  const lines = credentialSchemes.map((credential) => {
+    const schemeKey = JSON.stringify(credential.schemeName);
+    if (credential.location === "cookie") {
+      return `if (config.apiKeys?.[${schemeKey}] !== undefined) appendCookie(finalHeaders, ${JSON.stringify(credential.parameterName)}, config.apiKeys[${schemeKey}]);`;
+    }
+    if (credential.location === "basic") {
+      return `if (config.basicAuth && finalHeaders['Authorization'] === undefined) finalHeaders['Authorization'] = encodeBasicAuth(config.basicAuth);`;
+    }
+    return "";
+  });
+  /* Several Basic schemes share the same Authorization header line */
+  return [...new Set(lines)].filter(Boolean).join("\n    ");
+}
+
+/**
+ * Renders the query parameters sent from the apiKeys config field
+ */
+export function renderCredentialQueryHandling(
+  credentialSchemes: CredentialScheme[],
+): string {
+  return credentialSchemes
+    .filter((credential) => credential.location === "query")
+    .map((credential) => {
+      const schemeKey = JSON.stringify(credential.schemeName);
+      return `if (config.apiKeys?.[${schemeKey}] !== undefined) url.searchParams.set(${JSON.stringify(credential.parameterName)}, config.apiKeys[${schemeKey}]);`;
+    })
+    .join("\n    ");
+}
+
 /**
  * Renders security header handling code from security headers
  */
@@ -53,3 +94,22 @@ export function renderSecurityParameterExtraction(
 
   return extractions.join("\n  ");
 }
+
+/**
+ * Renders the access token retrieval for OAuth2 / OpenID Connect operations.
+ * An explicitly provided Authorization header takes precedence over the
+ * configured token provider.
+ */
+export function renderTokenProviderHandling(
+  tokenRequirement: OperationTokenRequirement | undefined,
+): string {
+  if (!tokenRequirement) return "";
+
+  const scopes = tokenRequirement.scopes
+    .map((scope) => JSON.stringify(scope))
+    .join(", ");
+  return `if (config.tokenProvider && finalHeaders['Authorization'] === undefined) {
+      const accessToken = await config.tokenProvider({ schemeName: ${JSON.stringify(tokenRequirement.schemeName)}, scopes: [${scopes}], type: "${tokenRequirement.type}" });
+      if (accessToken) finalHeaders['Authorization'] = \`Bearer \${accessToken}\`;
+    }`;
+}
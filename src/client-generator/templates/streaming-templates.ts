@@ -0,0 +1,182 @@
+/* Templates of the streaming runtime of the config module */
+
+/**
+ * Renders the streaming runtime of the config module: responses of a
+ * streaming media type (Server-Sent Events, line-delimited JSON) are not
+ * buffered, and stream() yields their validated items as they arrive
+ */
+export function renderStreamingRuntime(): string {
+  return `/* Media types whose bodies are streamed item by item instead of being buffered */
+const STREAMING_CONTENT_TYPES = [
+  "application/jsonl",
+  "application/ndjson",
+  "application/x-jsonlines",
+  "application/x-ndjson",
+  "text/event-stream",
+] as const;
+
+export type StreamingContentType = (typeof STREAMING_CONTENT_TYPES)[number];
+
+/* Event of a text/event-stream response, data being its validated payload */
+export interface ServerSentEvent<T> {
+  data: T;
+  event?: string;
+  id?: string;
+  retry?: number;
+}
+
+/* Items of a streamed body: events for text/event-stream, records for line-delimited JSON */
+export type StreamItem<TSchemaMap> = {
+  [K in keyof TSchemaMap]: K extends "text/event-stream"
+    ? ServerSentEvent<z.infer<TSchemaMap[K]>>
+    : z.infer<TSchemaMap[K]>;
+}[keyof TSchemaMap & StreamingContentType];
+
+/*
+ * Successful response of a streaming media type. The body is left unread
+ * until stream() is iterated, and can only be iterated once.
+ */
+export type ApiStreamResponse<S extends number, TSchemaMap> = {
+  readonly success: true;
+  readonly status: S;
+  readonly data: unknown;
+  readonly response: Response;
+  readonly stream: () => AsyncGenerator<StreamItem<TSchemaMap>, void, undefined>;
+};
+
+/* Checks whether the body of a response is streamed */
+export function isStreamingResponse(response: MinimalResponse): boolean {
+  const contentType = getResponseContentType(response);
+  return (STREAMING_CONTENT_TYPES as readonly string[]).includes(contentType);
+}
+
+/*
+ * Iterates over the items of a streamed body, validated against the schema of
+ * the response content type. Chunks are only read when the next item is
+ * requested, and the body is cancelled once the iteration stops or the signal
+ * aborts. Failures and invalid items are thrown as ApiResponseError.
+ */
+export function streamResponseItems<
+  TSchemaMap extends Record<string, { safeParse: (value: unknown) => z.ZodSafeParseResult<unknown> }>,
+>(
+  response: MinimalResponse,
+  body: unknown,
+  schemaMap: TSchemaMap,
+  result: ApiResponseErrorResult,
+  signal?: AbortSignal,
+): AsyncGenerator<StreamItem<TSchemaMap>, void, undefined> {
+  return readStreamItems(response, body, schemaMap, result, signal) as AsyncGenerator<
+    StreamItem<TSchemaMap>,
+    void,
+    undefined
+  >;
+}
+
+/* Reads the items of streamResponseItems(), typed by its signature */
+async function* readStreamItems(
+  response: MinimalResponse,
+  body: unknown,
+  schemaMap: Record<string, { safeParse: (value: unknown) => z.ZodSafeParseResult<unknown> }>,
+  result: ApiResponseErrorResult,
+  signal?: AbortSignal,
+): AsyncGenerator<unknown, void, undefined> {
+  const contentType = getResponseContentType(response);
+  const schema = schemaMap[contentType];
+  if (!schema || !(body instanceof ReadableStream)) {
+    throw {
+      kind: "missing-schema",
+      error: \`No stream schema found for content-type: \${contentType}\`,
+      result,
+      success: false,
+    } satisfies ApiResponseError;
+  }
+
+  const reader = (body as ReadableStream<Uint8Array>).getReader();
+  const onAbort = () => void reader.cancel(signal?.reason).catch(() => undefined);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    const lines = readStreamLines(reader, signal);
+    const isEventStream = contentType === "text/event-stream";
+    for await (const record of isEventStream ? readServerSentEvents(lines) : lines) {
+      const raw = typeof record === "string" ? record : record.data;
+      if (!isEventStream && raw.trim() === "") continue;
+      let value: unknown;
+      try {
+        value = JSON.parse(raw);
+      } catch (error) {
+        /* Event data is not necessarily JSON, unlike every line of line-delimited JSON */
+        if (!isEventStream) {
+          throw { kind: "deserialization-error", error, result: { ...result, data: raw }, success: false } satisfies ApiResponseError;
+        }
+        value = raw;
+      }
+      const parsed = schema.safeParse(value);
+      if (!parsed.success) {
+        throw { kind: "parse-error", error: parsed.error, result: { ...result, data: value }, success: false } satisfies ApiResponseError;
+      }
+      yield typeof record === "string" ? parsed.data : { ...record, data: parsed.data };
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+/* Decodes the lines of a body, reading a chunk only once the previous ones are consumed */
+async function* readStreamLines(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  signal?: AbortSignal,
+): AsyncGenerator<string, void, undefined> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    let chunk;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      throw streamReadError(error, signal);
+    }
+    /* A cancelled reader reports the end of the body */
+    if (signal?.aborted) throw streamReadError(signal.reason, signal);
+    if (chunk.done) break;
+    buffer += decoder.decode(chunk.value, { stream: true });
+    const lines = buffer.split(/\\r?\\n/);
+    buffer = lines.pop() ?? "";
+    yield* lines;
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/* Groups the lines of a text/event-stream body into events (incomplete trailing events are dropped) */
+async function* readServerSentEvents(
+  lines: AsyncIterable<string>,
+): AsyncGenerator<ServerSentEvent<string>, void, undefined> {
+  let fields: Omit<ServerSentEvent<string>, "data"> = {};
+  let data: string[] = [];
+  for await (const line of lines) {
+    if (line === "") {
+      if (data.length > 0) yield { ...fields, data: data.join("\\n") };
+      /* The last event id carries over to the next events */
+      fields = fields.id === undefined ? {} : { id: fields.id };
+      data = [];
+      continue;
+    }
+    if (line.startsWith(":")) continue;
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+    if (field === "data") data.push(value);
+    if (field === "event") fields.event = value;
+    if (field === "id") fields.id = value;
+    if (field === "retry" && /^\\d+$/.test(value)) fields.retry = Number(value);
+  }
+}
+
+function streamReadError(error: unknown, signal?: AbortSignal): ApiResponseError {
+  if (signal?.aborted) return { kind: "aborted", error, success: false };
+  if (isTimeoutError(error)) return { kind: "timeout", error, success: false };
+  return { kind: "unexpected-error", error, success: false };
+}`;
+}
@@ -2,17 +2,26 @@
  * Utility functions for string manipulation and validation
  */
 
+import type { ParameterSerialization } from "../shared/parameter-serialization.js";
+
+import { findStyledParameter } from "../shared/parameter-serialization.js";
+
 /**
- * Generates URL path with parameter interpolation
+ * Generates URL path with parameter interpolation, values are URI-encoded
  */
 export function generatePathInterpolation(
   pathKey: string,
   pathParams: import("openapi3-ts/oas31").ParameterObject[],
+  styledParameters?: ParameterSerialization[],
 ): string {
   let finalPath = pathKey;
   for (const param of pathParams) {
     const varName = toCamelCase(param.name);
-    finalPath = finalPath.replace(`{${param.name}}`, `\${${varName}}`);
+    const styled = findStyledParameter(styledParameters, param);
+    const expression = styled
+      ? `serializePathParameter("${param.name}", ${varName}, "${styled.style}", ${styled.explode})`
+      : `encodeURIComponent(String(${varName}))`;
+    finalPath = finalPath.replace(`{${param.name}}`, `\${${expression}}`);
   }
   return finalPath;
 }
@@ -41,6 +50,20 @@ export function getResponseContentType(
   return contentTypes.length > 0 ? contentTypes[0] : null;
 }
 
+/**
+ * Determines if a response content type is streamed item by item: Server-Sent
+ * Events or line-delimited JSON
+ */
+export function isStreamingContentType(contentType: string): boolean {
+  return [
+    "application/jsonl",
+    "application/ndjson",
+    "application/x-jsonlines",
+    "application/x-ndjson",
+    "text/event-stream",
+  ].includes(contentType.split(";")[0].trim().toLowerCase());
+}
+
 /**
  * Converts kebab-case or similar to camelCase.
  * Preserves already camelCased parts.
@@ -1,14 +1,34 @@
 import { promises as fs } from "fs";
+import path from "path";
 import { format } from "prettier";
 
+/**
+ * Destination of generated files. Paths are relative to the output root and
+ * always use forward slashes (e.g. "schemas/Pet.ts").
+ */
+export interface GenerationOutput {
+  writeFile: (relativePath: string, content: string) => Promise<void>;
+}
+
+/**
+ * Output collecting generated files in memory instead of writing them to disk
+ */
+export type InMemoryGenerationOutput = GenerationOutput & {
+  files: Map<string, string>;
+};
+
 /**
  * Builds the complete operation file content with imports and function code
  */
 export function buildOperationFileContent(
   typeImports: Set<string>,
   functionCode: string,
+  formatImports = new Set<string>(),
 ): string {
-  const importLines = buildOperationImports(typeImports, functionCode);
+  const importLines = [
+    ...buildOperationImports(typeImports, functionCode),
+    ...formatImports,
+  ];
   return `${importLines.join("\n")}\n\n${functionCode}`;
 }
 
@@ -38,6 +58,8 @@ export function buildOperationImports(
     "parseResponseBody",
     "parseApiResponseUnknownData",
     "ApiResponseError",
+    "sendRequest",
+    "isTimeoutError",
   ];
 
   /* Add ApiResponseWithParse if used in the function */
@@ -55,6 +77,35 @@ export function buildOperationImports(
     configImports.push("formUrlEncode");
   }
 
+  /* Credential helpers (apiKey cookie, HTTP Basic) and parameter serializers */
+  for (const helper of [
+    "appendCookie",
+    "appendQueryParameter",
+    "encodeBasicAuth",
+    "serializeHeaderParameter",
+    "serializePathParameter",
+  ]) {
+    if (functionCode && functionCode.includes(`${helper}(`)) {
+      configImports.push(helper);
+    }
+  }
+
+  /* Pagination runtime used by the paginate<Operation>() helpers */
+  if (functionCode && functionCode.includes("paginate<")) {
+    configImports.push("paginate");
+  }
+
+  /* Streaming runtime used by the responses of streaming media types */
+  for (const helper of [
+    "ApiStreamResponse",
+    "isStreamingResponse",
+    "streamResponseItems",
+  ]) {
+    if (functionCode && functionCode.includes(helper)) {
+      configImports.push(helper);
+    }
+  }
+
   /* RequestBody alias used by generated operation body typing */
   if (functionCode && functionCode.includes("RequestBody")) {
     configImports.push("RequestBody");
@@ -79,6 +130,33 @@ export function buildOperationImports(
   return imports;
 }
 
+/**
+ * Creates an output that writes files below the given directory,
+ * creating intermediate directories as needed
+ */
+export function createFileSystemOutput(outputDir: string): GenerationOutput {
+  return {
+    writeFile: async (relativePath, content) => {
+      const filePath = path.join(outputDir, relativePath);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    },
+  };
+}
+
+/**
+ * Creates an output that keeps generated files in a Map keyed by relative path
+ */
+export function createInMemoryOutput(): InMemoryGenerationOutput {
+  const files = new Map<string, string>();
+  return {
+    files,
+    writeFile: async (relativePath, content) => {
+      files.set(relativePath, content);
+    },
+  };
+}
+
 /**
  * Creates a directory if it doesn't exist
  */
@@ -98,16 +176,17 @@ export async function formatTypeScript(code: string): Promise<string> {
 }
 
 /**
- * Writes formatted TypeScript content to a file
+ * Writes formatted TypeScript content to a file of the given output
  */
 export async function writeFormattedFile(
-  filePath: string,
+  output: GenerationOutput,
+  relativePath: string,
   content: string,
 ): Promise<void> {
   try {
     const formattedContent = await formatTypeScript(content);
-    await fs.writeFile(filePath, formattedContent);
+    await output.writeFile(relativePath, formattedContent);
   } catch (error) {
-    throw new Error(`Failed to write file ${filePath}: ${error}`);
+    throw new Error(`Failed to write file ${relativePath}: ${error}`);
   }
 }
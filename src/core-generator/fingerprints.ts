@@ -0,0 +1,138 @@
+import type { OpenAPIObject } from "openapi3-ts/oas31";
+
+import { createHash } from "crypto";
+
+import type { PaginationSettings } from "../client-generator/models/pagination-models.js";
+
+import { extractAllOperations } from "../client-generator/operation-extractor.js";
+import { resolveOperationPagination } from "../client-generator/pagination.js";
+import { extractParameterGroups } from "../client-generator/parameters.js";
+import { collectStyledParameters } from "../shared/parameter-serialization.js";
+import { generateResponseHeaderSchemas } from "../shared/response-headers.js";
+import { collectSchemaSources, findRecursiveSchemaSources } from "./index.js";
+
+/**
+ * Changes between two fingerprint maps
+ */
+export interface FingerprintChanges {
+  /* Keys that were added or whose source subtree changed */
+  changed: Set<string>;
+  /* Keys that no longer exist */
+  removed: Set<string>;
+}
+
+/**
+ * Content hashes of the source subtree behind every generated schema and
+ * operation file, keyed by schema name and operation ID
+ */
+export interface GenerationFingerprints {
+  operations: Map<string, string>;
+  schemas: Map<string, string>;
+}
+
+/**
+ * Computes the fingerprints of every schema and operation of a document.
+ *
+ * A schema file depends on its own subtree, since references to other
+ * schemas are emitted as imports by name. The members of a reference cycle
+ * (hoisted targets included) reference each other lazily, so they share the
+ * fingerprint of the whole cycle. An operation file depends on its own
+ * subtree plus the document-level context it may resolve: global security,
+ * every non-schema component (parameters, security schemes...), the
+ * serialization of its parameters, its response header schemas and its
+ * pagination under the given settings, all of which follow schema
+ * references.
+ */
+export function computeFingerprints(
+  openApiDoc: OpenAPIObject,
+  pagination?: PaginationSettings,
+): GenerationFingerprints {
+  const sources = collectSchemaSources(openApiDoc);
+  const schemas = new Map<string, string>();
+  for (const source of sources) {
+    schemas.set(source.identifier, hashValue([source.kind, source.schema]));
+  }
+
+  const cycleHashes = new Map<string, string>();
+  for (const [name, cycle] of findRecursiveSchemaSources(sources)) {
+    cycleHashes.set(
+      name,
+      hashValue([
+        "cycle",
+        ...[...cycle].sort().map((member) => schemas.get(member)),
+      ]),
+    );
+  }
+  for (const [name, hash] of cycleHashes) schemas.set(name, hash);
+
+  const sharedContext = hashValue([
+    openApiDoc.security,
+    Object.entries(openApiDoc.components || {}).filter(
+      ([key]) => key !== "schemas",
+    ),
+  ]);
+
+  const operations = new Map<string, string>();
+  for (const {
+    method,
+    operation,
+    operationId,
+    pathKey,
+    pathLevelParameters,
+  } of extractAllOperations(openApiDoc)) {
+    const parameterGroups = extractParameterGroups(
+      operation,
+      pathLevelParameters,
+      openApiDoc,
+    );
+    operations.set(
+      operationId,
+      hashValue([
+        sharedContext,
+        method,
+        pathKey,
+        pathLevelParameters,
+        operation,
+        collectStyledParameters(parameterGroups, openApiDoc),
+        generateResponseHeaderSchemas(operation, operationId, openApiDoc)
+          .schemaCode,
+        resolveOperationPagination(
+          method,
+          operation,
+          parameterGroups.queryParams,
+          openApiDoc,
+          pagination,
+        ),
+      ]),
+    );
+  }
+
+  return { operations, schemas };
+}
+
+/**
+ * Compares two fingerprint maps and returns added/changed and removed keys
+ */
+export function diffFingerprints(
+  previous: ReadonlyMap<string, string>,
+  next: ReadonlyMap<string, string>,
+): FingerprintChanges {
+  const changed = new Set<string>();
+  const removed = new Set<string>();
+
+  for (const [key, hash] of next) {
+    if (previous.get(key) !== hash) changed.add(key);
+  }
+  for (const key of previous.keys()) {
+    if (!next.has(key)) removed.add(key);
+  }
+
+  return { changed, removed };
+}
+
+/* Stable hash of a JSON-serializable value */
+function hashValue(value: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify(value) ?? "")
+    .digest("hex");
+}
@@ -7,24 +7,45 @@ import type {
   SchemaObject,
 } from "openapi3-ts/oas31";
 
-import $RefParser from "@apidevtools/json-schema-ref-parser";
+import { $RefParser } from "@apidevtools/json-schema-ref-parser";
 import assert from "assert";
 import { promises as fs } from "fs";
 import { isReferenceObject } from "openapi3-ts/oas31";
 import pLimit from "p-limit";
 import path from "path";
 
-import { generateOperations } from "../client-generator/index.js";
+import {
+  findUnsupportedSecuritySchemes,
+  generateOperations,
+  type PaginationSettings,
+} from "../client-generator/index.js";
+import { generateFactories } from "../factory-generator/index.js";
+import {
+  generateMockServer,
+  generateMswHandlers,
+} from "../mock-generator/index.js";
 import { applyGeneratedOperationIds } from "../operation-id-generator/index.js";
+import { generateQueryHooks } from "../query-generator/index.js";
 import {
+  findDroppedKeywords,
+  findRecursiveSchemas,
+  type FormatRegistry,
   generateRequestSchemaFile,
   generateResponseSchemaFile,
   generateSchemaFile,
+  type SchemaFileResult,
+  type SchemaGenerationOptions,
 } from "../schema-generator/index.js";
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
 import { generateServerOperations } from "../server-generator/index.js";
 import { convertToOpenAPI31 } from "./converter.js";
+import {
+  createFileSystemOutput,
+  createInMemoryOutput,
+  type GenerationOutput,
+} from "./file-writer.js";
 import { parseOpenAPI } from "./parser.js";
+import { hoistSchemaReferences } from "./references.js";
 
 const DEFAULT_CONCURRENCY = 10;
 
@@ -42,16 +63,67 @@ const DEFAULT_CONCURRENCY = 10;
  * };
  * ```
  */
-export interface GenerationOptions {
+export interface GenerationOptions extends GenerationSettings {
+  input: string;
+  output: string;
+}
+
+/**
+ * Subset of schemas and operations to (re)generate. Used by watch mode to
+ * regenerate only the files whose source subtree changed.
+ */
+export interface GenerationSelection {
+  operationIds: ReadonlySet<string>;
+  schemaNames: ReadonlySet<string>;
+}
+
+/**
+ * Code generation settings, independent of where the spec is read from
+ * and where the generated files are written to
+ */
+export interface GenerationSettings {
   /**
    * The maximum number of parallel tasks to run during generation.
    * @default 10
    */
   concurrency?: number;
+  /**
+   * Custom string and number formats of the schemas (e.g. iban, semver),
+   * mapped to the Zod code validating them, the imports it needs and the
+   * TypeScript type of the parsed values. They take precedence over the
+   * built-in formats.
+   */
+  formats?: FormatRegistry;
   generateClient: boolean;
+  /**
+   * Generate seedable fake data factories (build<Schema>()) for every schema.
+   * @default false
+   */
+  generateFactories?: boolean;
+  /**
+   * Generate a node:http mock server answering with spec examples or
+   * synthesized data. Implies generateServer, which the mock builds on.
+   * @default false
+   */
+  generateMock?: boolean;
+  /**
+   * Generate Mock Service Worker handlers with typed resolvers. Implies
+   * generateServer, which the handlers build on.
+   * @default false
+   */
+  generateMsw?: boolean;
+  /**
+   * Generate TanStack Query hooks (use<Operation>Query / use<Operation>Mutation).
+   * Implies generateClient, which the hooks build on.
+   * @default false
+   */
+  generateQueryHooks?: boolean;
   generateServer?: boolean;
-  input: string;
-  output: string;
+  /**
+   * Parameter names recognizing paginated GET operations, in addition to the
+   * ones declaring x-pagination. Both get a paginate<Operation>() helper.
+   */
+  pagination?: PaginationSettings;
   /**
    * Use strict object validation (z.strictObject) instead of loose validation (z.object).
    * When false (default), allows additional properties in objects for client-side flexibility.
@@ -61,28 +133,222 @@ export interface GenerationOptions {
   strictValidation?: boolean;
 }
 
+/**
+ * OpenAPI document ready for generation along with the local files it was
+ * assembled from (the input spec plus every external file pulled in by
+ * $RefParser.bundle)
+ */
+export interface LoadedOpenAPIDocument {
+  document: OpenAPIObject;
+  sources: string[];
+}
+
+/**
+ * A schema that produces a single file in the schemas directory
+ */
+export interface SchemaSource {
+  description?: string;
+  /* Exported schema identifier, also used as file name */
+  identifier: string;
+  kind: "component" | "request" | "response";
+  /* Name passed to the schema file generator */
+  name: string;
+  schema: SchemaObject;
+}
+
+/**
+ * Collects every schema that results in a file in the schemas directory:
+ * component schemas plus inline request and response schemas.
+ * Returns an empty list when the document has no component schemas.
+ */
+export function collectSchemaSources(
+  openApiDoc: OpenAPIObject,
+): SchemaSource[] {
+  if (!openApiDoc.components?.schemas) {
+    return [];
+  }
+
+  const sources: SchemaSource[] = [];
+
+  for (const [name, schema] of Object.entries(openApiDoc.components.schemas)) {
+    if (!isPlainSchemaObject(schema)) {
+      console.warn(
+        `⚠️ Skipping ${name}: not a plain OpenAPI schema object. Value:`,
+        schema,
+      );
+      continue;
+    }
+    const sanitizedName = sanitizeIdentifier(name);
+    sources.push({
+      description: schema.description ? schema.description.trim() : undefined,
+      identifier: sanitizedName,
+      kind: "component",
+      name: sanitizedName,
+      schema,
+    });
+  }
+
+  for (const [name, schema] of extractRequestSchemas(openApiDoc)) {
+    /* Request schema files are generated with a capitalized identifier */
+    const identifier = name.charAt(0).toUpperCase() + name.slice(1);
+    sources.push({ identifier, kind: "request", name, schema });
+  }
+
+  for (const [name, schema] of extractResponseSchemas(openApiDoc)) {
+    sources.push({ identifier: name, kind: "response", name, schema });
+  }
+
+  return sources;
+}
+
+/**
+ * Finds the component schema sources taking part in a reference cycle, each
+ * one mapped to the identifiers of its cycle
+ */
+export function findRecursiveSchemaSources(
+  sources: SchemaSource[],
+): Map<string, ReadonlySet<string>> {
+  return findRecursiveSchemas(
+    Object.fromEntries(
+      sources
+        .filter((source) => source.kind === "component")
+        .map((source) => [source.identifier, source.schema]),
+    ),
+  );
+}
+
 /**
  * Generates TypeScript schemas and optional API client from OpenAPI specification
  */
 export async function generate(options: GenerationOptions): Promise<void> {
+  const { document } = await loadOpenAPIDocument(options.input);
+  await fs.mkdir(options.output, { recursive: true });
+  await generateFromDocument(
+    document,
+    createFileSystemOutput(options.output),
+    options,
+  );
+}
+
+/**
+ * Generates schemas, client and server from an already loaded document.
+ * When a selection is provided, only the listed schemas and operations are
+ * written; aggregate files (index, config, package.json) are always rewritten.
+ */
+export async function generateFromDocument(
+  openApiDoc: OpenAPIObject,
+  output: GenerationOutput,
+  settings: GenerationSettings,
+  selection?: GenerationSelection,
+): Promise<void> {
   const {
     concurrency = DEFAULT_CONCURRENCY,
-    generateClient: genClient,
-    generateServer: genServer = false,
-    input,
-    output,
+    generateFactories: genFactories = false,
+    generateMock: genMock = false,
+    generateMsw: genMsw = false,
+    generateQueryHooks: genQueryHooks = false,
     strictValidation = false,
-  } = options;
+  } = settings;
+  const genClient = settings.generateClient || genQueryHooks;
+  const genServer = (settings.generateServer ?? false) || genMock || genMsw;
+
+  const schemaSources = collectSchemaSources(openApiDoc);
+  const schemaNames = selection?.schemaNames;
+  await writeSchemaFiles(schemaSources, output, {
+    concurrency,
+    formats: settings.formats,
+    schemaNames,
+    strictValidation,
+  });
+
+  console.log("✅ Schemas generated successfully");
 
-  await fs.mkdir(output, { recursive: true });
+  if (genFactories) {
+    await generateFactories(schemaSources, output, { schemaNames });
+    console.log("✅ Factories generated successfully");
+  }
+
+  if (genClient) {
+    warnUnsupportedSecuritySchemes(openApiDoc);
+    await generateOperations(openApiDoc, output, concurrency, {
+      formats: settings.formats,
+      operationIds: selection?.operationIds,
+      pagination: settings.pagination,
+    });
+  }
+
+  if (genQueryHooks) {
+    await generateQueryHooks(openApiDoc, output);
+    console.log("✅ Query hooks generated successfully");
+  }
+
+  if (genServer) {
+    await generateServerOperations(openApiDoc, output, concurrency, {
+      formats: settings.formats,
+      operationIds: selection?.operationIds,
+    });
+    console.log("✅ Server operations generated successfully");
+  }
 
+  if (genMock) {
+    await generateMockServer(openApiDoc, output);
+    console.log("✅ Mock server generated successfully");
+  }
+
+  if (genMsw) {
+    await generateMswHandlers(openApiDoc, output);
+    console.log("✅ MSW handlers generated successfully");
+  }
+
+  await writePackageJson(output, { queryHooks: genQueryHooks });
+}
+
+/**
+ * Generates schemas, client and server without touching the file system.
+ * Accepts either a spec path/URL or an already parsed OpenAPI document and
+ * returns the generated files keyed by their path relative to the output
+ * root (e.g. "schemas/Pet.ts", "client/getPet.ts", "package.json").
+ *
+ * @example
+ * ```javascript
+ * const files = await generateToMemory(spec, { generateClient: true });
+ * const petSchema = files.get("schemas/Pet.ts");
+ * ```
+ */
+export async function generateToMemory(
+  spec: object | string,
+  settings: GenerationSettings,
+): Promise<Map<string, string>> {
+  const { document } = await loadOpenAPIDocument(spec);
+  const output = createInMemoryOutput();
+  await generateFromDocument(document, output, settings);
+
+  /* Files are written concurrently: sort them for a stable iteration order */
+  return new Map(
+    [...output.files].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+}
+
+/**
+ * Loads an OpenAPI document, resolves external references, converts it to
+ * OpenAPI 3.1 and applies the pre-processing steps required by generation
+ * (generated operation IDs, renaming of conflicting schema names).
+ * The input may be a spec path/URL or an already parsed document, which is
+ * never mutated.
+ */
+export async function loadOpenAPIDocument(
+  input: object | string,
+): Promise<LoadedOpenAPIDocument> {
   // Pre-process: Resolve external $ref pointers before parsing to avoid parsing failures
   let openApiDoc: OpenAPIObject;
+  let sources: string[] = [];
   try {
     // Bundle external references first, then convert to OpenAPI 3.1
-    const bundled = await $RefParser.bundle(input, {
+    const parser = new $RefParser();
+    const bundled = await parser.bundle(input, {
       mutateInputSchema: false, // Don't modify the original
     });
+    sources = parser.$refs.paths("file");
     console.log("✅ Successfully resolved external $ref pointers");
 
     // Convert the bundled document to OpenAPI 3.1
@@ -92,13 +358,31 @@ export async function generate(options: GenerationOptions): Promise<void> {
       "⚠️ Failed to resolve external $ref pointers, falling back to regular parsing:",
       error,
     );
-    openApiDoc = await parseOpenAPI(input);
+    if (typeof input === "string") {
+      openApiDoc = await parseOpenAPI(input);
+      sources = [path.resolve(input)];
+    } else {
+      openApiDoc = await convertToOpenAPI31(structuredClone(input));
+      sources = [];
+    }
   }
 
   // Apply generated operation IDs for operations that don't have them
   applyGeneratedOperationIds(openApiDoc);
   console.log("✅ Applied generated operation IDs where missing");
 
+  /*
+   * Pre-process: resolve schema $ref pointers to other locations than
+   * components/schemas/<Name>, hoisting their targets into named component
+   * schemas. Unresolved references fail the generation.
+   */
+  const hoistedCount = hoistSchemaReferences(openApiDoc);
+  if (hoistedCount > 0) {
+    console.log(
+      `✅ Hoisted ${hoistedCount} schema(s) referenced by non-local $ref pointers`,
+    );
+  }
+
   /*
    * Pre-process: rename component schemas whose names would collide with
    * internal generator types or global / built-in JavaScript identifiers.
@@ -115,109 +399,7 @@ export async function generate(options: GenerationOptions): Promise<void> {
     );
   }
 
-  const limit = pLimit(concurrency);
-  const schemaGenerationPromises: Promise<void>[] = [];
-
-  if (openApiDoc.components?.schemas) {
-    const schemasDir = path.join(output, "schemas");
-    await fs.mkdir(schemasDir, { recursive: true });
-
-    function isPlainSchemaObject(obj: unknown): obj is SchemaObject {
-      if (!obj || typeof obj !== "object") return false;
-      // Must have at least one OpenAPI schema property
-      return (
-        "type" in obj ||
-        "allOf" in obj ||
-        "anyOf" in obj ||
-        "oneOf" in obj ||
-        "properties" in obj ||
-        "additionalProperties" in obj ||
-        "array" in obj
-      );
-    }
-
-    // Generate schemas from components/schemas
-    for (const [name, schema] of Object.entries(
-      openApiDoc.components.schemas,
-    )) {
-      if (!isPlainSchemaObject(schema)) {
-        console.warn(
-          `⚠️ Skipping ${name}: not a plain OpenAPI schema object. Value:`,
-          schema,
-        );
-        continue;
-      }
-
-      const sanitizedName = sanitizeIdentifier(name);
-
-      const description = schema.description
-        ? schema.description.trim()
-        : undefined;
-      const promise = limit(() =>
-        generateSchemaFile(sanitizedName, schema, description, {
-          strictValidation,
-        }).then((schemaFile) => {
-          const filePath = path.join(schemasDir, schemaFile.fileName);
-          return fs.writeFile(filePath, schemaFile.content);
-        }),
-      );
-      schemaGenerationPromises.push(promise);
-    }
-
-    // Generate request schemas from operations
-    const requestSchemas = extractRequestSchemas(openApiDoc);
-    for (const [name, schema] of requestSchemas) {
-      const promise = limit(() =>
-        generateRequestSchemaFile(name, schema, { strictValidation }).then(
-          (schemaFile) => {
-            const filePath = path.join(schemasDir, schemaFile.fileName);
-            return fs.writeFile(filePath, schemaFile.content);
-          },
-        ),
-      );
-      schemaGenerationPromises.push(promise);
-    }
-
-    // Generate response schemas from operations
-    const responseSchemas = extractResponseSchemas(openApiDoc);
-    for (const [name, schema] of responseSchemas) {
-      const promise = limit(() =>
-        generateResponseSchemaFile(name, schema, { strictValidation }).then(
-          (schemaFile) => {
-            const filePath = path.join(schemasDir, schemaFile.fileName);
-            return fs.writeFile(filePath, schemaFile.content);
-          },
-        ),
-      );
-      schemaGenerationPromises.push(promise);
-    }
-  }
-
-  await Promise.all(schemaGenerationPromises);
-  console.log("✅ Schemas generated successfully");
-
-  if (genClient) {
-    await generateOperations(openApiDoc, output, concurrency);
-  }
-
-  if (genServer) {
-    await generateServerOperations(openApiDoc, output, concurrency);
-    console.log("✅ Server operations generated successfully");
-  }
-
-  const packageJsonContent = {
-    dependencies: {
-      zod: "^4.0.0",
-    },
-    name: "generated-client",
-    type: "module",
-    version: "1.0.0",
-  };
-  const packageJsonPath = path.join(output, "package.json");
-  await fs.writeFile(
-    packageJsonPath,
-    JSON.stringify(packageJsonContent, null, 2),
-  );
+  return { document: openApiDoc, sources };
 }
 
 /**
@@ -416,6 +598,49 @@ function forEachOperation(
   }
 }
 
+/**
+ * Generates the file content for a collected schema source
+ */
+function generateSchemaSourceFile(
+  source: SchemaSource,
+  options: SchemaGenerationOptions,
+): Promise<SchemaFileResult> {
+  switch (source.kind) {
+    case "component":
+      return generateSchemaFile(
+        source.name,
+        source.schema,
+        source.description,
+        options,
+      );
+    case "request":
+      return generateRequestSchemaFile(source.name, source.schema, options);
+    case "response":
+      return generateResponseSchemaFile(source.name, source.schema, options);
+  }
+}
+
+/**
+ * Checks that a component schema is a plain OpenAPI schema object
+ */
+function isPlainSchemaObject(obj: unknown): obj is SchemaObject {
+  if (!obj || typeof obj !== "object") return false;
+  // Must have at least one OpenAPI schema property
+  return (
+    "type" in obj ||
+    "allOf" in obj ||
+    "anyOf" in obj ||
+    "oneOf" in obj ||
+    "properties" in obj ||
+    "additionalProperties" in obj ||
+    "array" in obj ||
+    "const" in obj ||
+    "not" in obj ||
+    "patternProperties" in obj ||
+    "prefixItems" in obj
+  );
+}
+
 /*
  * Renames schemas in components/schemas that conflict with:
  *  - Internal generator exported type names (e.g. ApiResponse)
@@ -516,3 +741,96 @@ function renameConflictingSchemas(openApiDoc: OpenAPIObject) {
   visit(openApiDoc);
   return renameMap.size;
 }
+
+/* Warns about the keywords of the schema sources the Zod conversion drops */
+function warnDroppedKeywords(sources: SchemaSource[]): void {
+  for (const source of sources) {
+    const dropped = findDroppedKeywords(
+      source.schema,
+      source.kind === "component"
+        ? `#/components/schemas/${source.name}`
+        : source.identifier,
+    );
+    if (dropped.length === 0) continue;
+    console.warn(
+      `⚠️ ${source.identifier}: dropped JSON Schema keywords without Zod equivalent: ${dropped
+        .map(({ keyword, location }) => `${keyword} (${location})`)
+        .join(", ")}`,
+    );
+  }
+}
+
+/* Warns about the HTTP auth schemes the client sends no credentials for */
+function warnUnsupportedSecuritySchemes(openApiDoc: OpenAPIObject): void {
+  for (const { scheme, schemeName } of findUnsupportedSecuritySchemes(
+    openApiDoc,
+  )) {
+    console.warn(
+      `⚠️ ${schemeName}: unsupported HTTP auth scheme "${scheme}", requests are sent without its credentials`,
+    );
+  }
+}
+
+/* Writes the package.json of the generated code, listing its runtime dependencies */
+async function writePackageJson(
+  output: GenerationOutput,
+  options: { queryHooks: boolean },
+): Promise<void> {
+  const packageJsonContent = {
+    dependencies: {
+      ...(options.queryHooks && { "@tanstack/react-query": "^5.0.0" }),
+      zod: "^4.0.0",
+    },
+    name: "generated-client",
+    type: "module",
+    version: "1.0.0",
+  };
+  await output.writeFile(
+    "package.json",
+    JSON.stringify(packageJsonContent, null, 2),
+  );
+}
+
+/*
+ * Writes the schema files, generating at most `concurrency` of them at once.
+ * Cycles are found among every source, so that a selection covering part of
+ * a cycle still gets its lazy references.
+ */
+async function writeSchemaFiles(
+  sources: SchemaSource[],
+  output: GenerationOutput,
+  options: {
+    concurrency: number;
+    formats?: FormatRegistry;
+    /* When set, only the listed schemas are (re)written */
+    schemaNames?: ReadonlySet<string>;
+    strictValidation: boolean;
+  },
+): Promise<void> {
+  const limit = pLimit(options.concurrency);
+  const recursiveSchemas = findRecursiveSchemaSources(sources);
+  const selected = sources.filter(
+    (source) =>
+      !options.schemaNames || options.schemaNames.has(source.identifier),
+  );
+  warnDroppedKeywords(selected);
+  await Promise.all(
+    selected.map((source) =>
+      limit(() =>
+        generateSchemaSourceFile(source, {
+          formats: options.formats,
+          lazyReferences:
+            source.kind === "component"
+              ? recursiveSchemas.get(source.identifier)
+              : undefined,
+          strictValidation: options.strictValidation,
+        }).then((schemaFile) =>
+          output.writeFile(
+            `schemas/${schemaFile.fileName}`,
+            schemaFile.content,
+          ),
+        ),
+      ),
+    ),
+  );
+}
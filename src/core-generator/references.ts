@@ -0,0 +1,283 @@
+import type { OpenAPIObject, SchemaObject } from "openapi3-ts/oas31";
+
+const COMPONENT_SCHEMA_PREFIX = "#/components/schemas/";
+
+/* Schema keywords whose values are data, not schemas */
+const DATA_KEYWORDS = new Set([
+  "const",
+  "default",
+  "enum",
+  "example",
+  "examples",
+]);
+
+/* Schema keywords whose values map names to schemas */
+const SCHEMA_MAP_KEYWORDS = new Set([
+  "$defs",
+  "definitions",
+  "dependentSchemas",
+  "patternProperties",
+  "properties",
+]);
+
+/* Pointer segments left out of hoisted schema names */
+const STRUCTURAL_SEGMENTS = new Set([
+  "$defs",
+  "additionalProperties",
+  "allOf",
+  "anyOf",
+  "components",
+  "content",
+  "definitions",
+  "headers",
+  "items",
+  "not",
+  "oneOf",
+  "parameters",
+  "paths",
+  "prefixItems",
+  "properties",
+  "requestBody",
+  "responses",
+  "schema",
+  "schemas",
+]);
+
+/* Pointer segments whose values are lists */
+const LIST_SEGMENTS = new Set([
+  "allOf",
+  "anyOf",
+  "oneOf",
+  "parameters",
+  "prefixItems",
+]);
+
+/* Component schema a pointer amounts to, or object to hoist and its location */
+type PointerTarget =
+  | {
+      key: string;
+      parent: Record<string, unknown>;
+      pointer: string;
+      value: object;
+    }
+  | { ref: string };
+
+/* Reference object found where a schema is expected */
+interface SchemaReference {
+  /* JSON Pointer of the reference object, for error messages */
+  location: string;
+  node: { $ref: string };
+}
+
+/**
+ * Rewrites every schema $ref to the `#/components/schemas/<Name>` form the
+ * generators understand. Pointers to other locations of the document (a
+ * property of a component, an inline schema of an operation, refs left by
+ * $RefParser.bundle...) are resolved, and their target is hoisted into a
+ * named component schema referenced from both places. Returns the number of
+ * hoisted schemas, and throws an error listing every unresolved reference.
+ *
+ * @example
+ * ```javascript
+ * // { $ref: "#/components/schemas/Book/properties/author" }
+ * hoistSchemaReferences(openApiDoc);
+ * // { $ref: "#/components/schemas/BookAuthor" }
+ * ```
+ */
+export function hoistSchemaReferences(openApiDoc: OpenAPIObject): number {
+  const references: SchemaReference[] = [];
+  collectSchemaReferences(openApiDoc, "#", false, references);
+  const seen = new Set(references.map(({ node }) => node));
+  const unresolved: string[] = [];
+  let hoisted = 0;
+
+  /* References of hoisted schemas are appended while iterating */
+  for (const { location, node } of references) {
+    const target = resolveSchemaPointer(openApiDoc, node.$ref);
+    if (!target) {
+      unresolved.push(`"${node.$ref}" at ${location}`);
+      continue;
+    }
+    if ("ref" in target) {
+      node.$ref = target.ref;
+      continue;
+    }
+
+    const schemas = ((openApiDoc.components ??= {}).schemas ??= {});
+    const name = uniqueSchemaName(target.pointer, schemas);
+    schemas[name] = target.value as SchemaObject;
+    target.parent[target.key] = { $ref: `${COMPONENT_SCHEMA_PREFIX}${name}` };
+    node.$ref = `${COMPONENT_SCHEMA_PREFIX}${name}`;
+    hoisted++;
+
+    /* Schemas hoisted from outside of a schema position were not walked yet */
+    const nested: SchemaReference[] = [];
+    collectSchemaReferences(target.value, node.$ref, true, nested);
+    for (const reference of nested) {
+      if (seen.has(reference.node)) continue;
+      seen.add(reference.node);
+      references.push(reference);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Unresolved $ref pointers:\n${unresolved.map((ref) => `  - ${ref}`).join("\n")}`,
+    );
+  }
+  return hoisted;
+}
+
+/* Collects the reference objects found in schema positions of a subtree */
+function collectSchemaReferences(
+  node: unknown,
+  location: string,
+  inSchema: boolean,
+  references: SchemaReference[],
+  isSchemaMap = false,
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) =>
+      collectSchemaReferences(
+        item,
+        `${location}/${index}`,
+        inSchema,
+        references,
+      ),
+    );
+    return;
+  }
+  if (!node || typeof node !== "object") return;
+
+  const record = node as Record<string, unknown>;
+  if (inSchema && !isSchemaMap && typeof record.$ref === "string") {
+    references.push({ location, node: record as { $ref: string } });
+  }
+  for (const [key, value] of Object.entries(record)) {
+    const childLocation = `${location}/${encodePointerSegment(key)}`;
+    if (isSchemaMap) {
+      collectSchemaReferences(value, childLocation, true, references);
+    } else if (inSchema) {
+      if (DATA_KEYWORDS.has(key)) continue;
+      collectSchemaReferences(
+        value,
+        childLocation,
+        true,
+        references,
+        SCHEMA_MAP_KEYWORDS.has(key),
+      );
+    } else if (key !== "example" && key !== "examples") {
+      const isComponentSchemas =
+        location === "#/components" && key === "schemas";
+      collectSchemaReferences(
+        value,
+        childLocation,
+        key === "schema",
+        references,
+        isComponentSchemas,
+      );
+    }
+  }
+}
+
+function decodePointerSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    /* Not percent-encoded */
+  }
+  return decoded.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function encodePointerSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/*
+ * Resolves a local JSON Pointer, following the references met along the way,
+ * to either the component schema it amounts to or the object to hoist
+ */
+function resolveSchemaPointer(
+  openApiDoc: OpenAPIObject,
+  pointer: string,
+  seen = new Set<string>(),
+): PointerTarget | undefined {
+  if (!pointer.startsWith("#/") || seen.has(pointer)) return undefined;
+  seen.add(pointer);
+
+  const segments = pointer.slice(2).split("/").map(decodePointerSegment);
+  if (
+    segments.length === 3 &&
+    segments[0] === "components" &&
+    segments[1] === "schemas"
+  ) {
+    const schemas = openApiDoc.components?.schemas;
+    return schemas && Object.hasOwn(schemas, segments[2])
+      ? { ref: pointer }
+      : undefined;
+  }
+
+  let parent: Record<string, unknown> = {};
+  let value: unknown = openApiDoc;
+  for (const [index, segment] of segments.entries()) {
+    if (!value || typeof value !== "object") return undefined;
+    const container = value as Record<string, unknown>;
+    if (
+      typeof container.$ref === "string" &&
+      !Object.hasOwn(container, segment)
+    ) {
+      /* Continue from the target of a reference met mid-pointer */
+      const rest = segments.slice(index).map(encodePointerSegment).join("/");
+      return resolveSchemaPointer(
+        openApiDoc,
+        `${container.$ref}/${rest}`,
+        seen,
+      );
+    }
+    if (!Object.hasOwn(container, segment)) return undefined;
+    parent = container;
+    value = container[segment];
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const { $ref } = value as { $ref?: unknown };
+  if (typeof $ref === "string") {
+    return resolveSchemaPointer(openApiDoc, $ref, seen);
+  }
+  return { key: segments[segments.length - 1], parent, pointer, value };
+}
+
+/*
+ * Names a hoisted schema after the meaningful segments of its pointer
+ * (#/components/schemas/Book/properties/author → BookAuthor), with a numeric
+ * suffix when taken
+ */
+function uniqueSchemaName(
+  pointer: string,
+  schemas: Record<string, unknown>,
+): string {
+  const segments = pointer.slice(2).split("/").map(decodePointerSegment);
+  const words = segments.filter((segment, index) => {
+    const previous = segments[index - 1];
+    if (STRUCTURAL_SEGMENTS.has(segment) || previous === "content") {
+      return false;
+    }
+    /* Indexes of schema lists, unlike status codes */
+    return !(/^\d+$/.test(segment) && LIST_SEGMENTS.has(previous ?? ""));
+  });
+  const base =
+    words
+      .flatMap((word) => word.split(/[^A-Za-z0-9]+/))
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join("")
+      .replace(/^(?=\d)/, "Schema") || "Schema";
+
+  let name = base;
+  for (let counter = 2; Object.hasOwn(schemas, name); counter++) {
+    name = `${base}${counter}`;
+  }
+  return name;
+}
@@ -0,0 +1,193 @@
+/* eslint-disable no-console */
+import { promises as fs, type FSWatcher, watch } from "fs";
+import path from "path";
+
+import { sanitizeIdentifier } from "../schema-generator/utils.js";
+import { createFileSystemOutput } from "./file-writer.js";
+import {
+  computeFingerprints,
+  diffFingerprints,
+  type FingerprintChanges,
+  type GenerationFingerprints,
+} from "./fingerprints.js";
+import {
+  generateFromDocument,
+  type GenerationOptions,
+  loadOpenAPIDocument,
+} from "./index.js";
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+/**
+ * Handle returned by watchGenerate to stop watching
+ */
+export interface GenerationWatcher {
+  close: () => void;
+  /* Local files currently watched (input spec plus bundled external files) */
+  sources: () => string[];
+}
+
+/**
+ * Summary of a single incremental regeneration
+ */
+export interface RegenerationSummary {
+  operations: FingerprintChanges;
+  schemas: FingerprintChanges;
+}
+
+/**
+ * Options for watch mode
+ */
+export interface WatchOptions {
+  /* Delay used to coalesce bursts of file system events */
+  debounceMs?: number;
+  /* Called when a regeneration fails (e.g. the spec is temporarily invalid) */
+  onError?: (error: unknown) => void;
+  /* Called after each incremental regeneration */
+  onRegenerate?: (summary: RegenerationSummary) => void;
+}
+
+/**
+ * Generates once, then watches the input spec and every external file pulled
+ * in by $RefParser.bundle. On change, only the schemas and operations whose
+ * source subtree changed are regenerated: untouched files are not rewritten
+ * and files of removed schemas/operations are deleted.
+ */
+export async function watchGenerate(
+  options: GenerationOptions,
+  watchOptions: WatchOptions = {},
+): Promise<GenerationWatcher> {
+  const {
+    debounceMs = DEFAULT_DEBOUNCE_MS,
+    onError = (error: unknown) =>
+      console.error("❌ An error occurred during regeneration:", error),
+    onRegenerate,
+  } = watchOptions;
+
+  if (isUrl(options.input)) {
+    throw new Error("Watch mode requires a local input file, got a URL");
+  }
+
+  const initial = await loadOpenAPIDocument(options.input);
+  const output = createFileSystemOutput(options.output);
+  await generateFromDocument(initial.document, output, options);
+
+  let fingerprints: GenerationFingerprints = computeFingerprints(
+    initial.document,
+    options.pagination,
+  );
+  let sources = initial.sources;
+  const watchers = new Map<string, FSWatcher>();
+  let closed = false;
+  let debounceTimer: NodeJS.Timeout | undefined;
+  /* Regenerations are serialized: a change arriving mid-run schedules another one */
+  let running: Promise<void> = Promise.resolve();
+
+  const scheduleRegeneration = () => {
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      running = running.then(regenerate);
+    }, debounceMs);
+  };
+
+  /* Keeps one watcher per source file, dropping files no longer referenced */
+  const syncWatchers = (files: string[]) => {
+    for (const [file, watcher] of watchers) {
+      if (!files.includes(file)) {
+        watcher.close();
+        watchers.delete(file);
+      }
+    }
+    for (const file of files) {
+      if (watchers.has(file)) continue;
+      try {
+        const watcher = watch(file, (eventType) => {
+          /* Editors that save via rename replace the inode: re-attach after regeneration */
+          if (eventType === "rename") {
+            watcher.close();
+            watchers.delete(file);
+          }
+          scheduleRegeneration();
+        });
+        watchers.set(file, watcher);
+      } catch (error) {
+        console.warn(`⚠️ Unable to watch ${file}:`, error);
+      }
+    }
+  };
+
+  const regenerate = async () => {
+    if (closed) return;
+    try {
+      const next = await loadOpenAPIDocument(options.input);
+      const nextFingerprints = computeFingerprints(
+        next.document,
+        options.pagination,
+      );
+      const summary: RegenerationSummary = {
+        operations: diffFingerprints(
+          fingerprints.operations,
+          nextFingerprints.operations,
+        ),
+        schemas: diffFingerprints(
+          fingerprints.schemas,
+          nextFingerprints.schemas,
+        ),
+      };
+
+      await removeGeneratedFiles(options.output, summary);
+      await generateFromDocument(next.document, output, options, {
+        operationIds: summary.operations.changed,
+        schemaNames: summary.schemas.changed,
+      });
+
+      fingerprints = nextFingerprints;
+      sources = next.sources;
+      syncWatchers(sources);
+      console.log(
+        `🔄 Regenerated ${summary.schemas.changed.size} schema(s) and ${summary.operations.changed.size} operation(s)`,
+      );
+      onRegenerate?.(summary);
+    } catch (error) {
+      /* Keep watching: the spec may be temporarily invalid while being edited */
+      syncWatchers(sources);
+      onError(error);
+    }
+  };
+
+  syncWatchers(sources);
+
+  return {
+    close: () => {
+      closed = true;
+      clearTimeout(debounceTimer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+    sources: () => [...watchers.keys()],
+  };
+}
+
+/* Checks if the input string is a URL rather than a local path */
+function isUrl(input: string): boolean {
+  return /^https?:\/\//i.test(input);
+}
+
+/* Deletes the files generated for schemas and operations that no longer exist */
+async function removeGeneratedFiles(
+  outputDir: string,
+  summary: RegenerationSummary,
+): Promise<void> {
+  const files = [
+    ...[...summary.schemas.removed].flatMap((name) => [
+      path.join(outputDir, "schemas", `${name}.ts`),
+      path.join(outputDir, "factories", `${name}.ts`),
+    ]),
+    ...[...summary.operations.removed].flatMap((operationId) => [
+      path.join(outputDir, "client", `${sanitizeIdentifier(operationId)}.ts`),
+      path.join(outputDir, "server", `${operationId}.ts`),
+    ]),
+  ];
+
+  await Promise.all(files.map((file) => fs.rm(file, { force: true })));
+}
@@ -0,0 +1,67 @@
+import prettier from "prettier";
+
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+import type { SchemaSource } from "../core-generator/index.js";
+
+import { renderSynthesizer } from "../mock-generator/templates/synthesizer-templates.js";
+import {
+  renderFactory,
+  renderFactoryIndex,
+  renderFactoryRuntime,
+} from "./templates/factory-templates.js";
+
+/* Factory files are written below this directory of the output */
+const FACTORIES_DIR = "factories";
+
+/**
+ * Options for factory generation
+ */
+export interface GenerateFactoriesOptions {
+  /* When set, only the factories of the listed schemas are (re)written */
+  schemaNames?: ReadonlySet<string>;
+}
+
+/**
+ * Generates a fake data factory for every schema file: build<Schema>()
+ * returns a value satisfying the schema, deterministic for a given seed.
+ * Values are synthesized from the Zod schemas, with the synthesizer of the
+ * mock server, so custom formats and references are honored as validated.
+ */
+export async function generateFactories(
+  sources: SchemaSource[],
+  output: GenerationOutput,
+  options: GenerateFactoriesOptions = {},
+): Promise<void> {
+  for (const source of sources) {
+    if (options.schemaNames && !options.schemaNames.has(source.identifier)) {
+      continue;
+    }
+    await writeFactoryFile(
+      source.identifier,
+      renderFactory(source.identifier),
+      output,
+    );
+  }
+
+  await writeFactoryFile("runtime", renderFactoryRuntime(), output);
+  await writeFactoryFile("synthesizer", renderSynthesizer(), output);
+  await writeFactoryFile(
+    "index",
+    renderFactoryIndex(sources.map(({ identifier }) => identifier)),
+    output,
+  );
+}
+
+async function writeFactoryFile(
+  name: string,
+  code: string,
+  output: GenerationOutput,
+): Promise<void> {
+  const formatted = await prettier.format(code, {
+    parser: "typescript",
+    semi: true,
+    singleQuote: false,
+    trailingComma: "all",
+  });
+  await output.writeFile(`${FACTORIES_DIR}/${name}.ts`, formatted);
+}
@@ -0,0 +1,140 @@
+/* Seedable fake data factories of the generated schemas */
+
+/**
+ * Renders the factory module of a schema (factories/<Schema>.ts), exporting
+ * build<Schema>(). Values are synthesized from the Zod schema, so that the
+ * module only depends on the schema name.
+ */
+export function renderFactory(identifier: string): string {
+  return `import { ${identifier} } from "../schemas/${identifier}.js";
+import {
+  type FactoryOptions,
+  factoryContext,
+  type Overrides,
+  withOverrides,
+} from "./runtime.js";
+
+/* Builds a fake ${identifier}, deterministic for a given seed */
+export function build${identifier}(
+  overrides?: Overrides<${identifier}>,
+  options: FactoryOptions = {},
+): ${identifier} {
+  return withOverrides<${identifier}>(
+    factoryContext(options).build(${identifier}),
+    overrides,
+  );
+}
+`;
+}
+
+/**
+ * Renders the factories index (factories/index.ts), re-exporting every
+ * build function along with the seeding helpers
+ */
+export function renderFactoryIndex(identifiers: string[]): string {
+  return `/* Fake data factories of every schema */
+
+${identifiers
+  .map(
+    (identifier) => `export { build${identifier} } from "./${identifier}.js";`,
+  )
+  .join("\n")}
+export {
+  createFactoryContext,
+  type FactoryContext,
+  type FactoryOptions,
+  type Overrides,
+  seedFactories,
+} from "./runtime.js";
+`;
+}
+
+/**
+ * Renders the factory runtime (factories/runtime.ts): seedable pseudo random
+ * generators driving the synthesizer shared with the mock server
+ */
+export function renderFactoryRuntime(): string {
+  return `/* Seedable random data helpers shared by the factories */
+
+import type { z } from "zod";
+
+import { synthesize } from "./synthesizer.js";
+
+/* Random value generator, deterministic for a given seed */
+export interface FactoryContext {
+  /* Synthesizes a value of the schema, again (a few times at most) until it is valid, and returns it parsed */
+  build<T extends z.ZodType>(schema: T): z.output<T>;
+}
+
+/* Options of the build functions */
+export interface FactoryOptions {
+  /* Builds with a fresh generator seeded with this value instead of the shared one */
+  seed?: number;
+}
+
+/* Overrides of a built value: some properties of objects, a replacement of other values */
+export type Overrides<T> = T extends readonly unknown[]
+  ? T
+  : T extends Record<string, unknown>
+    ? Partial<T>
+    : T;
+
+const DEFAULT_SEED = 1;
+
+const MAX_ATTEMPTS = 10;
+
+let sharedContext = createFactoryContext(DEFAULT_SEED);
+
+/* Creates a generator producing the same sequence of values for the same seed */
+export function createFactoryContext(seed: number): FactoryContext {
+  const random = mulberry32(seed);
+  return {
+    build: <T extends z.ZodType>(schema: T): z.output<T> => {
+      let value: unknown;
+      for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        value = synthesize(schema, random);
+        const result = schema.safeParse(value);
+        if (result.success) return result.data;
+      }
+      return value as z.output<T>;
+    },
+  };
+}
+
+/* Shared generator, or a fresh one when a seed is given */
+export function factoryContext(options: FactoryOptions = {}): FactoryContext {
+  return options.seed === undefined
+    ? sharedContext
+    : createFactoryContext(options.seed);
+}
+
+/* Resets the shared generator, e.g. before each test */
+export function seedFactories(seed: number): void {
+  sharedContext = createFactoryContext(seed);
+}
+
+/* Applies the overrides to a built value, objects being shallow merged */
+export function withOverrides<T>(value: T, overrides?: Overrides<T>): T {
+  if (overrides === undefined) return value;
+  return isRecord(value) && isRecord(overrides)
+    ? ({ ...value, ...overrides } as T)
+    : (overrides as T);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/* Small and fast seedable pseudo random generator, returning values in [0, 1) */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+`;
+}
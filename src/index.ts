@@ -1,9 +1,26 @@
 #!/usr/bin/env node
 /* eslint-disable no-console */
 
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 
-import { generate } from "./core-generator/index.js";
+import { generate, type GenerationOptions } from "./core-generator/index.js";
+import { watchGenerate } from "./core-generator/watch.js";
+
+/* Options of the generate command, as parsed by commander */
+interface GenerateCommandOptions extends GenerationOptions {
+  watch: boolean;
+}
+
+/* Parses a JSON option value, commander reporting the flag when invalid */
+function parseJsonOption(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new InvalidArgumentError(
+      `Not valid JSON (${(error as Error).message}).`,
+    );
+  }
+}
 
 const program = new Command();
 
@@ -22,6 +39,41 @@ program
   .requiredOption("-o, --output <path>", "Path to the output directory.")
   .option("--generate-client", "Generate the full HTTP client.", false)
   .option("--generate-server", "Generate server endpoint wrappers.", false)
+  .option(
+    "--generate-factories",
+    "Generate seedable fake data factories for every schema.",
+    false,
+  )
+  .option(
+    "--generate-mock",
+    "Generate a node:http mock server (implies --generate-server).",
+    false,
+  )
+  .option(
+    "--generate-msw",
+    "Generate Mock Service Worker handlers (implies --generate-server).",
+    false,
+  )
+  .option(
+    "--generate-query-hooks",
+    "Generate TanStack Query hooks (implies --generate-client).",
+    false,
+  )
+  .option(
+    "--pagination <json>",
+    'Parameter names recognizing paginated operations, e.g. \'{"cursor":{"param":"cursor","next":"next_cursor"}}\'.',
+    parseJsonOption,
+  )
+  .option(
+    "--formats <json>",
+    'Custom string and number formats of the schemas, e.g. \'{"semver":{"code":"z.string().regex(/^\\\\d+\\\\.\\\\d+\\\\.\\\\d+$/)"}}\'.',
+    parseJsonOption,
+  )
+  .option(
+    "-w, --watch",
+    "Watch the input specification (and referenced files) and regenerate on change.",
+    false,
+  )
   // Disable strict validation setting, this should remain strict for the server
   // and loose for the client
   // .option(
@@ -29,10 +81,16 @@ program
   //   "Use strict object validation (reject unknown properties)",
   //   false,
   // )
-  .action(async (options: Record<string, unknown>) => {
+  .action(async ({ watch, ...options }: GenerateCommandOptions) => {
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await generate(options as any);
+      if (watch) {
+        const watcher = await watchGenerate(options);
+        console.log(
+          `👀 Watching ${watcher.sources().length} file(s) for changes...`,
+        );
+        return;
+      }
+      await generate(options);
       console.log("✅ Client generated successfully!");
     } catch (error) {
       console.error("❌ An error occurred during generation:", error);
@@ -0,0 +1,76 @@
+import type {
+  ExampleObject,
+  MediaTypeObject,
+  OpenAPIObject,
+  OperationObject,
+  ReferenceObject,
+  ResponseObject,
+  SchemaObject,
+} from "openapi3-ts/oas31";
+
+import { isReferenceObject } from "openapi3-ts/oas31";
+
+/* Spec examples of an operation, keyed by status code and content type */
+export type ResponseExamples = Record<string, Record<string, unknown>>;
+
+/**
+ * Collects the examples of every response of an operation. The example of a
+ * media type wins over its named examples (the first one is used), which win
+ * over the example of its schema. Media types without any example are left
+ * out, so that their data is synthesized from the schema.
+ */
+export function extractResponseExamples(
+  operation: OperationObject,
+  doc: OpenAPIObject,
+): ResponseExamples {
+  const examples: ResponseExamples = {};
+  for (const [statusCode, response] of Object.entries(
+    operation.responses ?? {},
+  )) {
+    const resolved = resolveComponent<ResponseObject>(
+      response as ReferenceObject | ResponseObject,
+      doc,
+      "responses",
+    );
+    for (const [contentType, media] of Object.entries(
+      resolved?.content ?? {},
+    )) {
+      const example = mediaExample(media, doc);
+      if (example === undefined) continue;
+      examples[statusCode] = {
+        ...examples[statusCode],
+        [contentType]: example,
+      };
+    }
+  }
+  return examples;
+}
+
+/* Example of a media type, undefined when the spec provides none */
+function mediaExample(media: MediaTypeObject, doc: OpenAPIObject): unknown {
+  if (media.example !== undefined) return media.example;
+  for (const example of Object.values(media.examples ?? {})) {
+    const resolved = resolveComponent<ExampleObject>(example, doc, "examples");
+    if (resolved?.value !== undefined) return resolved.value;
+  }
+  const schema = media.schema
+    ? resolveComponent<SchemaObject>(media.schema, doc, "schemas")
+    : undefined;
+  return schema?.example ?? (schema?.examples as undefined | unknown[])?.[0];
+}
+
+/* Follows a reference to a components section, undefined when unresolvable */
+function resolveComponent<T extends object>(
+  value: ReferenceObject | T,
+  doc: OpenAPIObject,
+  section: "examples" | "responses" | "schemas",
+): T | undefined {
+  if (!isReferenceObject(value)) return value;
+  const prefix = `#/components/${section}/`;
+  if (!value.$ref.startsWith(prefix)) return undefined;
+  const components = doc.components?.[section] as
+    | Record<string, ReferenceObject | T>
+    | undefined;
+  const resolved = components?.[value.$ref.slice(prefix.length)];
+  return resolved && !isReferenceObject(resolved) ? resolved : undefined;
+}
@@ -0,0 +1,68 @@
+import prettier from "prettier";
+
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+
+import {
+  type MockOperationSource,
+  renderMockIndex,
+  renderMockRuntime,
+  renderMockServer,
+} from "./templates/mock-templates.js";
+import {
+  type MswOperationSource,
+  renderMswIndex,
+} from "./templates/msw-templates.js";
+import { renderSynthesizer } from "./templates/synthesizer-templates.js";
+
+/* Mock files are written below this directory of the output */
+const MOCK_DIR = "mock";
+
+/* MSW handlers are written below this directory of the output */
+const MSW_DIR = "msw";
+
+/**
+ * Writes the mock server modules: runtime helpers, the mock responses of
+ * every operation, the runnable node:http server and the synthesizer
+ */
+export async function writeMockFiles(
+  operations: MockOperationSource[],
+  output: GenerationOutput,
+): Promise<void> {
+  const files: [string, string][] = [
+    ["runtime", renderMockRuntime()],
+    ["index", renderMockIndex(operations)],
+    ["server", renderMockServer()],
+    ["synthesizer", renderSynthesizer()],
+  ];
+  for (const [name, code] of files) {
+    await writeFormatted(`${MOCK_DIR}/${name}.ts`, code, output);
+  }
+}
+
+/**
+ * Writes the MSW module with the handler factories of every operation
+ */
+export async function writeMswFiles(
+  operations: MswOperationSource[],
+  output: GenerationOutput,
+): Promise<void> {
+  await writeFormatted(
+    `${MSW_DIR}/index.ts`,
+    renderMswIndex(operations),
+    output,
+  );
+}
+
+async function writeFormatted(
+  path: string,
+  code: string,
+  output: GenerationOutput,
+): Promise<void> {
+  const formatted = await prettier.format(code, {
+    parser: "typescript",
+    semi: true,
+    singleQuote: false,
+    trailingComma: "all",
+  });
+  await output.writeFile(path, formatted);
+}
@@ -0,0 +1,50 @@
+import type { OpenAPIObject } from "openapi3-ts/oas31";
+
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+
+import { extractAllOperations } from "../client-generator/operation-extractor.js";
+import { generateResponseHeaderSchemas } from "../shared/response-headers.js";
+import { extractResponseExamples } from "./examples.js";
+import { writeMockFiles, writeMswFiles } from "./file-writer.js";
+
+/**
+ * Generates a node:http mock server answering every operation with the
+ * examples of the spec, or with data synthesized from the Zod schemas.
+ * The mock builds on the server wrappers, which must be generated as well.
+ */
+export async function generateMockServer(
+  doc: OpenAPIObject,
+  output: GenerationOutput,
+): Promise<void> {
+  const operations = extractAllOperations(doc).map(
+    ({ operation, operationId }) => ({
+      examples: extractResponseExamples(operation, doc),
+      headerSchemas: new Map(
+        [
+          ...generateResponseHeaderSchemas(operation, operationId, doc)
+            .statuses,
+        ].map(([status, { schemaName }]) => [status, schemaName]),
+      ),
+      operationId,
+    }),
+  );
+  await writeMockFiles(operations, output);
+}
+
+/**
+ * Generates Mock Service Worker handlers for every operation, whose resolvers
+ * are typed with the parsed parameters and the responses of the operation.
+ * The handlers build on the server wrappers, which must be generated as well.
+ */
+export async function generateMswHandlers(
+  doc: OpenAPIObject,
+  output: GenerationOutput,
+): Promise<void> {
+  const operations = extractAllOperations(doc).map(
+    ({ method, operationId, pathKey }) => ({ method, operationId, pathKey }),
+  );
+  await writeMswFiles(operations, output);
+}
+
+export { extractResponseExamples } from "./examples.js";
+export type { ResponseExamples } from "./examples.js";
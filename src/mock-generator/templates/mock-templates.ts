@@ -0,0 +1,223 @@
+/* Mock server modules answering every operation of the spec */
+
+import { sanitizeIdentifier } from "../../schema-generator/utils.js";
+
+/**
+ * Mock responses of an operation, rendered in the mock index
+ */
+export interface MockOperationSource {
+  /* Example values keyed by status code and content type */
+  examples: Record<string, Record<string, unknown>>;
+  /* Response header schema names keyed by status code */
+  headerSchemas: Map<string, string>;
+  operationId: string;
+}
+
+/**
+ * Renders the mock index (mock/index.ts): the mock responses of every
+ * operation, handlers answering with them and a node:http request listener
+ * selecting the response from the request headers
+ */
+export function renderMockIndex(operations: MockOperationSource[]): string {
+  const imports = operations
+    .map(({ headerSchemas, operationId }) => {
+      const names = [
+        `${sanitizeIdentifier(operationId)}ResponseSchemas`,
+        ...headerSchemas.values(),
+      ];
+      return `import { ${names.join(", ")} } from "../server/${operationId}.js";`;
+    })
+    .join("\n");
+
+  const entries = operations
+    .map(({ examples, headerSchemas, operationId }) => {
+      const headers = [...headerSchemas]
+        .map(([status, name]) => `${JSON.stringify(status)}: ${name}`)
+        .join(", ");
+      return `  ${operationId}: {
+    examples: ${JSON.stringify(examples)},
+    headers: { ${headers} },
+    responses: ${sanitizeIdentifier(operationId)}ResponseSchemas,
+  },`;
+    })
+    .join("\n");
+
+  return `/* Mock implementation of every operation, answering with spec examples or synthesized data */
+
+import type { ServerHandlers } from "../server/index.js";
+import type { NodeRequestLike } from "../server/adapters/node-http.js";
+
+import { type NodeResponseLike, writeNodeResponse } from "../server/adapters/common.js";
+import { createRouter } from "../server/router.js";
+${imports}
+import {
+  MOCK_CONTENT_TYPE_HEADER,
+  MOCK_STATUS_HEADER,
+  type MockOperation,
+  mockResponse,
+} from "./runtime.js";
+
+/* Mock responses of every operation, keyed by operation id */
+export const mockOperations: Record<string, MockOperation> = {
+${entries}
+};
+
+/* Handlers answering every operation with its default mock response */
+export const mockHandlers = Object.fromEntries(
+  Object.entries(mockOperations).map(([operationId, operation]) => [
+    operationId,
+    async () => mockResponse(operation),
+  ]),
+) as unknown as ServerHandlers;
+
+/*
+ * Creates a request listener for http.createServer() answering every
+ * operation with a mock response. The x-mock-status and x-mock-content-type
+ * request headers select the status code and content type of the response.
+ */
+export function createMockRequestListener(): (
+  req: NodeRequestLike,
+  res: NodeResponseLike,
+) => Promise<void> {
+  const router = createRouter(mockHandlers);
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const match = router.match(req.method ?? "GET", url.pathname);
+    if (match.kind === "not-found") {
+      return writeNodeResponse(res, { status: 404 });
+    }
+    if (match.kind === "method-not-allowed") {
+      return writeNodeResponse(res, {
+        headers: { allow: match.allow.join(", ") },
+        status: 405,
+      });
+    }
+    const response = mockResponse(mockOperations[match.route.operationId], {
+      contentType: firstHeaderValue(req.headers[MOCK_CONTENT_TYPE_HEADER]),
+      status: firstHeaderValue(req.headers[MOCK_STATUS_HEADER]),
+    });
+    await writeNodeResponse(res, response);
+  };
+}
+
+function firstHeaderValue(
+  value: string | string[] | undefined,
+): string | undefined {
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+`;
+}
+
+/**
+ * Renders the mock runtime (mock/runtime.ts), selecting the mock response of
+ * an operation and synthesizing data from the Zod schemas without examples,
+ * the lowest values being picked
+ */
+export function renderMockRuntime(): string {
+  return `/* Mock responses built from spec examples or synthesized from the Zod schemas */
+
+import type { z } from "zod";
+
+import type { OperationResponse } from "../server/router.js";
+import type { ResponseSchemas } from "../server/runtime.js";
+
+import { synthesize } from "./synthesizer.js";
+
+/* Request header selecting the status code of the mock response */
+export const MOCK_STATUS_HEADER = "x-mock-status";
+
+/* Request header selecting the content type of the mock response */
+export const MOCK_CONTENT_TYPE_HEADER = "x-mock-content-type";
+
+/* Responses of an operation */
+export interface MockOperation {
+  /* Spec examples keyed by status code and content type */
+  examples: Record<string, Record<string, unknown>>;
+  /* Schemas of the declared response headers, keyed by status code */
+  headers: Record<string, z.ZodType>;
+  responses: ResponseSchemas;
+}
+
+/* Status code and content type of the requested mock response */
+export interface MockSelection {
+  contentType?: string;
+  status?: string;
+}
+
+/*
+ * Builds the mock response of an operation. Without selection, the first
+ * declared 2xx status and its first content type are used. The data is the
+ * spec example, or is synthesized from the schema. Undeclared selections
+ * (without a default response) get a 400 response describing the mistake.
+ */
+export function mockResponse(
+  operation: MockOperation,
+  selection: MockSelection = {},
+): OperationResponse {
+  const status = selection.status ?? defaultStatus(operation.responses);
+  if (!/^[1-5]\\d\\d$/.test(status)) {
+    return mockError("Invalid mock status " + status);
+  }
+  const key = status in operation.responses ? status : "default";
+  const contents = operation.responses[key];
+  if (!contents) return mockError("Undeclared response status " + status);
+
+  const headerSchema = operation.headers[key];
+  const headers = headerSchema
+    ? (synthesize(headerSchema) as Record<string, unknown>)
+    : undefined;
+  const contentTypes = Object.keys(contents);
+  if (contentTypes.length === 0) return { headers, status: Number(status) };
+
+  const contentType = selection.contentType ?? contentTypes[0];
+  const schema = contents[contentType];
+  if (!schema) {
+    return mockError(
+      "Undeclared content type " + contentType + " for status " + status,
+    );
+  }
+  const examples = operation.examples[key] ?? {};
+  return {
+    contentType,
+    data: contentType in examples ? examples[contentType] : synthesize(schema),
+    headers,
+    status: Number(status),
+  };
+}
+
+/* Lowest declared 2xx status, or the first declared one */
+function defaultStatus(responses: ResponseSchemas): string {
+  const statuses = Object.keys(responses)
+    .filter((status) => status !== "default")
+    .sort();
+  return statuses.find((status) => status.startsWith("2")) ?? statuses[0] ?? "200";
+}
+
+function mockError(message: string): OperationResponse {
+  return {
+    contentType: "application/json",
+    data: { kind: "mock-error", message },
+    status: 400,
+  };
+}
+`;
+}
+
+/**
+ * Renders the runnable mock server (mock/server.ts), listening on the PORT
+ * environment variable (4010 by default)
+ */
+export function renderMockServer(): string {
+  return `/* Runnable mock server, e.g. PORT=4010 npx tsx mock/server.ts */
+
+import { createServer } from "node:http";
+
+import { createMockRequestListener } from "./index.js";
+
+const port = Number(process.env.PORT ?? 4010);
+
+createServer(createMockRequestListener()).listen(port, () => {
+  console.log("Mock server listening on http://localhost:" + port);
+});
+`;
+}
@@ -0,0 +1,137 @@
+/* Mock Service Worker handlers of every operation of the spec */
+
+import { sanitizeIdentifier } from "../../schema-generator/utils.js";
+
+/**
+ * Operation rendered as an MSW handler factory
+ */
+export interface MswOperationSource {
+  /* HTTP method in lowercase */
+  method: string;
+  operationId: string;
+  /* OpenAPI path template (e.g. "/pets/{petId}") */
+  pathKey: string;
+}
+
+/**
+ * Renders the MSW module (msw/index.ts): a factory of typed `http.<method>()`
+ * handlers for every operation, answering through the server wrappers
+ */
+export function renderMswIndex(operations: MswOperationSource[]): string {
+  const imports = operations
+    .map(({ operationId }) => {
+      const identifier = sanitizeIdentifier(operationId);
+      return `import { type ${identifier}Handler, ${identifier}Wrapper } from "../server/${operationId}.js";`;
+    })
+    .join("\n");
+
+  const signatures = operations
+    .map(({ method, operationId, pathKey }) => {
+      const identifier = sanitizeIdentifier(operationId);
+      return `  /* ${method.toUpperCase()} ${pathKey.replace(/\*\//g, "*\\/")} */
+  ${operationId}(resolver: ${identifier}Handler): THandler;`;
+    })
+    .join("\n");
+
+  const factories = operations
+    .map(({ method, operationId, pathKey }) => {
+      const identifier = sanitizeIdentifier(operationId);
+      const parameters = [...pathKey.matchAll(/\{([^}]+)\}/g)].map(
+        (match) => match[1],
+      );
+      let index = 0;
+      const mswPath = pathKey.replace(/\{[^}]+\}/g, () => ":param" + index++);
+      return `    ${operationId}: (resolver) =>
+      http.${method}(path(${JSON.stringify(mswPath)}), (info) =>
+        respond(${identifier}Wrapper(resolver, options), info, ${JSON.stringify(parameters)}),
+      ),`;
+    })
+    .join("\n");
+
+  return `/* Mock Service Worker request handlers, typed after the server handlers of every operation */
+
+import {
+  fromColonParams,
+  normalizeContentType,
+  parseQueryString,
+  parseRequestBody,
+  toFetchResponse,
+} from "../server/adapters/common.js";
+import type { OperationRequest, OperationResponse } from "../server/router.js";
+import type { ServerWrapperOptions } from "../server/runtime.js";
+${imports}
+
+/* Request information passed by MSW to the resolvers */
+export interface MswResolverInfo {
+  params: Record<string, readonly string[] | string | undefined>;
+  request: Request;
+}
+
+/* Resolver registered with MSW, answering with a Fetch API response */
+export type MswResolver = (info: MswResolverInfo) => Promise<Response>;
+
+/* Subset of the MSW \`http\` namespace used to create the request handlers */
+export interface MswHttpLike<THandler> {
+  delete(path: string, resolver: MswResolver): THandler;
+  get(path: string, resolver: MswResolver): THandler;
+  patch(path: string, resolver: MswResolver): THandler;
+  post(path: string, resolver: MswResolver): THandler;
+  put(path: string, resolver: MswResolver): THandler;
+}
+
+export interface MswOptions extends ServerWrapperOptions {
+  /* Prefix of the handler paths (e.g. "https://api.example.com"), every origin by default */
+  baseURL?: string;
+}
+
+/*
+ * MSW handler factory of every operation: the resolver receives the parsed
+ * request parameters and must return one of the responses of the operation
+ */
+export interface MswHandlers<THandler> {
+${signatures}
+}
+
+/*
+ * Creates the MSW handler factories from the \`http\` namespace of msw:
+ *
+ *   const msw = createMswHandlers(http);
+ *   server.use(msw.getPetById(async () => ({ status: 404 })));
+ */
+export function createMswHandlers<THandler>(
+  http: MswHttpLike<THandler>,
+  options: MswOptions = {},
+): MswHandlers<THandler> {
+  const path = (template: string): string => (options.baseURL ?? "*") + template;
+  return {
+${factories}
+  };
+}
+
+/*
+ * Converts an MSW request for the wrapper, and its response back. Wrappers
+ * narrow the content types they accept, which they check at runtime anyway.
+ */
+async function respond(
+  wrapper: (request: never) => Promise<OperationResponse>,
+  { params, request }: MswResolverInfo,
+  pathParameters: string[],
+): Promise<Response> {
+  const handle = wrapper as (
+    request: OperationRequest,
+  ) => Promise<OperationResponse>;
+  const contentType = normalizeContentType(
+    request.headers.get("content-type") ?? undefined,
+  );
+  const bytes = new Uint8Array(await request.arrayBuffer());
+  const response = await handle({
+    body: parseRequestBody(bytes, contentType),
+    contentType,
+    headers: Object.fromEntries(request.headers),
+    path: fromColonParams(pathParameters, params),
+    query: parseQueryString(new URL(request.url).search),
+  });
+  return toFetchResponse(response);
+}
+`;
+}
@@ -0,0 +1,424 @@
+/* Synthesizer of values satisfying Zod schemas, shared by the generated mock server and factories */
+
+/**
+ * Renders the synthesizer module (synthesizer.ts, written next to the mock
+ * and factory runtimes): it builds values from the Zod schemas, so that the
+ * custom formats and every reference are honored as validated. Choices are
+ * drawn from a random source, the lowest ones being made by default.
+ */
+export function renderSynthesizer(): string {
+  return `/* Values synthesized from Zod schemas */
+
+import { globalRegistry, type z } from "zod";
+
+/* Random source returning values in [0, 1), () => 0 making the lowest choices */
+export type RandomSource = () => number;
+
+/* Random integer between two bounds (both included) */
+type IntegerSource = (min: number, max: number) => number;
+
+/* Constraints of a schema, as collected by Zod */
+interface SchemaBag {
+  exclusiveMaximum?: number;
+  exclusiveMinimum?: number;
+  format?: string;
+  maximum?: number;
+  minimum?: number;
+  multipleOf?: number;
+  patterns?: Set<RegExp>;
+}
+
+/* Definition of a check, as read by the synthesizer */
+interface CheckDefinition {
+  check: string;
+  inclusive?: boolean;
+  value?: number;
+}
+
+/* Definition of a schema, as read by the synthesizer */
+interface SchemaDefinition {
+  [key: string]: unknown;
+  type: string;
+}
+
+const ALPHABET = "abcdefghijklmnopqrstuvwxyz";
+
+/* Samples of the Zod string formats, a random word being used for the others */
+const FORMAT_SAMPLES: Record<string, (integer: IntegerSource) => string> = {
+  base64: (integer) => btoa(sampleWord(integer(3, 8), integer)),
+  date: (integer) => sampleDate(integer).toISOString().slice(0, 10),
+  datetime: (integer) => sampleDate(integer).toISOString(),
+  duration: (integer) => "P" + integer(1, 30) + "D",
+  email: (integer) =>
+    sampleWord(integer(3, 8), integer) + "." + sampleWord(integer(3, 8), integer) + "@example.com",
+  guid: (integer) => sampleUuid(integer),
+  hostname: (integer) => sampleWord(integer(3, 8), integer) + ".example.com",
+  ipv4: (integer) => Array.from({ length: 4 }, () => integer(0, 255)).join("."),
+  ipv6: (integer) =>
+    Array.from({ length: 8 }, () => integer(0, 65535).toString(16)).join(":"),
+  time: (integer) => sampleDate(integer).toISOString().slice(11, 19),
+  url: (integer) => "https://example.com/" + sampleWord(integer(3, 8), integer),
+  uuid: (integer) => sampleUuid(integer),
+};
+
+/* Attempts at sampling a pattern within the length constraints */
+const MAX_ATTEMPTS = 10;
+
+/* Recursion depth after which optional properties and array items are omitted */
+const MAX_DEPTH = 4;
+
+/*
+ * Synthesizes a value satisfying a schema where possible: enum values,
+ * literals and union options are picked, numbers and lengths drawn within
+ * their bounds, and strings sampled from their format or pattern.
+ * Refinements are not honored, values being checked by the caller if needed.
+ */
+export function synthesize(
+  schema: z.ZodType,
+  random: RandomSource = () => 0,
+): unknown {
+  const integer: IntegerSource = (min, max) =>
+    min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(values: readonly T[]): T =>
+    values[integer(0, values.length - 1)];
+
+  const build = (current: z.ZodType, depth: number): unknown => {
+    const def = current._zod.def as unknown as SchemaDefinition;
+    const bag = current._zod.bag as SchemaBag;
+    const inner = (key: string, nextDepth = depth): unknown =>
+      build(def[key] as z.ZodType, nextDepth);
+    switch (def.type) {
+      case "any": {
+        /* oneOf schemas list their options in their metadata */
+        const options = globalRegistry.get(current)?.oneOf;
+        return Array.isArray(options) ? build(pick(options as z.ZodType[]), depth) : null;
+      }
+      case "array": {
+        const { maximum = Infinity, minimum = 0 } = bag;
+        const least = Math.min(
+          Math.max(minimum, depth < MAX_DEPTH ? 1 : 0),
+          maximum,
+        );
+        const length = integer(least, Math.min(maximum, least + 2));
+        return Array.from({ length }, () => inner("element", depth + 1));
+      }
+      case "boolean":
+        return random() < 0.5;
+      case "catch":
+      case "default":
+      case "nonoptional":
+      case "nullable":
+      case "optional":
+      case "prefault":
+      case "readonly":
+        return inner("innerType");
+      case "custom":
+        /* Blobs are the only instances checked by the generated schemas */
+        return current.safeParse(new Blob([])).success ? new Blob([]) : null;
+      case "date":
+        return sampleDate(integer);
+      case "enum":
+        return pick(Object.values(def.entries as Record<string, unknown>));
+      case "intersection": {
+        const left = inner("left");
+        const right = inner("right");
+        return isRecord(left) && isRecord(right) ? { ...left, ...right } : left;
+      }
+      case "lazy":
+        return depth < MAX_DEPTH
+          ? build((def.getter as () => z.ZodType)(), depth + 1)
+          : null;
+      case "literal":
+        return pick(def.values as unknown[]);
+      case "number":
+        return sampleNumber(numberConstraints(current), random, integer);
+      case "object":
+        return Object.fromEntries(
+          Object.entries(def.shape as Record<string, z.ZodType>).flatMap(
+            ([key, value]) => {
+              if (value._zod.optin !== "optional") {
+                return [[key, build(value, depth + 1)]];
+              }
+              if (depth >= MAX_DEPTH || random() >= 0.5) return [];
+              /* Optional properties are left out unless valid (e.g. patterns) */
+              const item = build(value, depth + 1);
+              return item !== undefined && value.safeParse(item).success
+                ? [[key, item]]
+                : [];
+            },
+          ),
+        );
+      case "pipe":
+        /* Values are synthesized before transforms, after preprocessing */
+        return (def.out as z.ZodType)._zod.def.type === "transform"
+          ? inner("in")
+          : inner("out");
+      case "record":
+        return {};
+      case "string":
+        return sampleString(bag, integer);
+      case "tuple":
+        return (def.items as z.ZodType[]).map((item) => build(item, depth + 1));
+      case "union": {
+        const options = def.options as z.ZodType[];
+        const values = options.filter((item) => item._zod.def.type !== "null");
+        return build(pick(values.length > 0 ? values : options), depth);
+      }
+      default:
+        /* any, unknown, null and schemas without a JSON representation */
+        return null;
+    }
+  };
+
+  return build(schema, 0);
+}
+
+${renderSamplers()}${renderRegexSampler()}`;
+}
+
+/* Renders the regular expression sampler of the synthesizer */
+function renderRegexSampler(): string {
+  return `/*
+ * Generates a string matching a regular expression: literals, escapes,
+ * character classes, groups, alternations and quantifiers are supported,
+ * lookarounds and backreferences are not
+ */
+function sampleRegex(pattern: string, integer: IntegerSource): string {
+  let index = 0;
+  const printable = Array.from({ length: 95 }, (_, code) =>
+    String.fromCharCode(code + 32),
+  );
+  const classes: Record<string, string[]> = {
+    d: printable.filter((char) => /\\d/.test(char)),
+    s: [" "],
+    w: printable.filter((char) => /\\w/.test(char)),
+  };
+
+  const escaped = (char: string): string[] => {
+    const lower = char.toLowerCase();
+    if (lower in classes) {
+      return char === lower
+        ? classes[lower]
+        : printable.filter((item) => !classes[lower].includes(item));
+    }
+    if (char === "u") {
+      const code = pattern.slice(index, index + 4);
+      index += 4;
+      return [String.fromCharCode(parseInt(code, 16))];
+    }
+    const controls: Record<string, string> = { n: "\\n", r: "\\r", t: "\\t" };
+    return [controls[char] ?? char];
+  };
+
+  const characterClass = (): string[] => {
+    const negated = pattern[index] === "^";
+    if (negated) index++;
+    const chars: string[] = [];
+    while (index < pattern.length && pattern[index] !== "]") {
+      let char = pattern[index++];
+      if (char === "\\\\") {
+        const items = escaped(pattern[index++]);
+        if (items.length > 1) {
+          chars.push(...items);
+          continue;
+        }
+        char = items[0];
+      }
+      if (pattern[index] === "-" && pattern[index + 1] !== "]") {
+        index++;
+        let end = pattern[index++];
+        if (end === "\\\\") end = escaped(pattern[index++])[0];
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars.push(String.fromCharCode(code));
+        }
+      } else {
+        chars.push(char);
+      }
+    }
+    index++;
+    return negated ? printable.filter((char) => !chars.includes(char)) : chars;
+  };
+
+  /* Parses an atom, returning a function generating one occurrence */
+  const atom = (): (() => string) => {
+    const char = pattern[index++];
+    if (char === "(") {
+      if (pattern[index] === "?") {
+        /* Non capturing (?:) and named (?<name>) groups */
+        index = pattern[index + 1] === "<" ? pattern.indexOf(">", index) + 1 : index + 2;
+      }
+      const branches = alternation();
+      index++;
+      return () => sampleBranches(branches);
+    }
+    if (char === "^" || char === "$") return () => "";
+    if (char === "\\\\" && (pattern[index] === "b" || pattern[index] === "B")) {
+      index++;
+      return () => "";
+    }
+    const chars =
+      char === "["
+        ? characterClass()
+        : char === "\\\\"
+          ? escaped(pattern[index++])
+          : char === "."
+            ? classes.w
+            : [char];
+    return () => chars[integer(0, chars.length - 1)] ?? "";
+  };
+
+  /* Parses the quantifier following an atom, defaulting to exactly once */
+  const quantifier = (): [number, number] => {
+    const char = pattern[index];
+    let range: [number, number] = [1, 1];
+    if (char === "*" || char === "+" || char === "?") {
+      index++;
+      range = char === "*" ? [0, 3] : char === "+" ? [1, 4] : [0, 1];
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", index);
+      const [min, max] = pattern.slice(index + 1, end).split(",");
+      index = end + 1;
+      range = [
+        Number(min),
+        max === undefined ? Number(min) : max === "" ? Number(min) + 3 : Number(max),
+      ];
+    }
+    if (pattern[index] === "?") index++;
+    return range;
+  };
+
+  /* Parses alternatives up to the end of the current group */
+  const alternation = (): (() => string)[][] => {
+    const branches: (() => string)[][] = [[]];
+    while (index < pattern.length && pattern[index] !== ")") {
+      if (pattern[index] === "|") {
+        index++;
+        branches.push([]);
+        continue;
+      }
+      const generate = atom();
+      const [min, max] = quantifier();
+      branches[branches.length - 1].push(() =>
+        Array.from({ length: integer(min, max) }, generate).join(""),
+      );
+    }
+    return branches;
+  };
+
+  const sampleBranches = (branches: (() => string)[][]): string =>
+    branches[integer(0, branches.length - 1)]
+      .map((generate) => generate())
+      .join("");
+
+  return sampleBranches(alternation());
+}
+`;
+}
+
+/* Renders the number, string and format samplers of the synthesizer */
+function renderSamplers(): string {
+  return `function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/*
+ * Bounds of a number schema, read from its checks: .int() widens the bounds
+ * of the bag to the safe integers whatever the checks preceding it
+ */
+function numberConstraints(schema: z.ZodType): SchemaBag {
+  const bag = schema._zod.bag as SchemaBag;
+  const def = schema._zod.def as unknown as SchemaDefinition;
+  const checks = ((def.checks ?? []) as { _zod: { def: CheckDefinition } }[]).map(
+    (check) => check._zod.def,
+  );
+  const inclusive = (kind: string): number[] =>
+    checks.flatMap((check) =>
+      check.check === kind && check.inclusive && check.value !== undefined
+        ? [check.value]
+        : [],
+    );
+  /* Number format schemas (e.g. z.int32()) keep the bounds of their format */
+  const own = def.check === "number_format";
+  return {
+    ...bag,
+    maximum: Math.min(...inclusive("less_than"), own ? (bag.maximum ?? Infinity) : Infinity),
+    minimum: Math.max(...inclusive("greater_than"), own ? (bag.minimum ?? -Infinity) : -Infinity),
+  };
+}
+
+function sampleDate(integer: IntegerSource): Date {
+  const day = Date.UTC(2000, 0, 1) + integer(0, 30 * 365) * 86400000;
+  return new Date(day + integer(0, 86399) * 1000);
+}
+
+/*
+ * Draws a number within the bounds, near zero when they allow it, on the
+ * multiples of the step of integers and multipleOf
+ */
+function sampleNumber(
+  bag: SchemaBag,
+  random: RandomSource,
+  integer: IntegerSource,
+): number {
+  const { exclusiveMaximum, exclusiveMinimum, multipleOf } = bag;
+  const lower = Math.max(bag.minimum ?? -Infinity, exclusiveMinimum ?? -Infinity);
+  const upper = Math.min(bag.maximum ?? Infinity, exclusiveMaximum ?? Infinity);
+  const from = Math.max(lower, Math.min(0, upper - 1000));
+  const to = Math.min(upper, from + 1000);
+
+  const step =
+    multipleOf ?? (bag.format !== undefined && bag.format.includes("int") ? 1 : undefined);
+  if (step === undefined) {
+    const value = from + random() * (to - from);
+    return value === exclusiveMinimum || value === exclusiveMaximum
+      ? (from + to) / 2
+      : value;
+  }
+  /* Multiples of the step within the bounds, rounded to the step decimals */
+  const decimals = (String(step).split(".")[1] ?? "").length;
+  let first = Math.ceil(from / step);
+  let last = Math.floor(to / step);
+  if (first * step === exclusiveMinimum) first++;
+  if (last * step === exclusiveMaximum) last--;
+  const value = integer(first, Math.max(first, last)) * step;
+  return Number(value.toFixed(decimals));
+}
+
+/*
+ * Samples a string of the format when it matches the patterns, else of the
+ * last pattern (the ones of formats coming first), within the lengths
+ */
+function sampleString(bag: SchemaBag, integer: IntegerSource): string {
+  const { maximum = Infinity, minimum = 0 } = bag;
+  const patterns = [...(bag.patterns ?? [])];
+  const format = bag.format ? FORMAT_SAMPLES[bag.format] : undefined;
+  const sample = format?.(integer);
+  if (sample !== undefined && patterns.every((pattern) => pattern.test(sample))) {
+    return sample;
+  }
+  const pattern = patterns.at(-1);
+  if (pattern) {
+    let value = "";
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      value = sampleRegex(pattern.source, integer);
+      if (value.length >= minimum && value.length <= maximum) break;
+    }
+    return value;
+  }
+  const lower = Math.min(Math.max(minimum, 3), maximum);
+  return sampleWord(integer(lower, Math.max(lower, Math.min(maximum, lower + 12))), integer);
+}
+
+function sampleUuid(integer: IntegerSource): string {
+  const hex = (length: number): string =>
+    Array.from({ length }, () => integer(0, 15).toString(16)).join("");
+  const variant = "89ab"[integer(0, 3)];
+  return [hex(8), hex(4), "4" + hex(3), variant + hex(3), hex(12)].join("-");
+}
+
+function sampleWord(length: number, integer: IntegerSource): string {
+  return Array.from({ length }, () => ALPHABET[integer(0, 25)]).join("");
+}
+
+`;
+}
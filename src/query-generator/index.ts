@@ -0,0 +1,33 @@
+import type { OpenAPIObject } from "openapi3-ts/oas31";
+
+import prettier from "prettier";
+
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+
+import { extractAllOperations } from "../client-generator/operation-extractor.js";
+import { renderQueryIndex } from "./templates/query-templates.js";
+
+/* Hooks are written below this directory of the output */
+const QUERIES_DIR = "queries";
+
+/**
+ * Generates TanStack Query hooks wrapping the client operations: queries for
+ * GET operations and mutations for the other ones, resolving with the
+ * successful responses and failing with ApiResponseError. The hooks build on
+ * the client, which must be generated as well.
+ */
+export async function generateQueryHooks(
+  doc: OpenAPIObject,
+  output: GenerationOutput,
+): Promise<void> {
+  const operations = extractAllOperations(doc).map(
+    ({ method, operationId, pathKey }) => ({ method, operationId, pathKey }),
+  );
+  const formatted = await prettier.format(renderQueryIndex(operations), {
+    parser: "typescript",
+    semi: true,
+    singleQuote: false,
+    trailingComma: "all",
+  });
+  await output.writeFile(`${QUERIES_DIR}/index.ts`, formatted);
+}
@@ -0,0 +1,173 @@
+/* TanStack Query hooks wrapping the generated client operations */
+
+import { sanitizeIdentifier } from "../../schema-generator/utils.js";
+
+/**
+ * Operation rendered as a query (GET) or a mutation (other methods)
+ */
+export interface QueryOperationSource {
+  /* HTTP method in lowercase */
+  method: string;
+  operationId: string;
+  /* OpenAPI path template (e.g. "/pets/{petId}") */
+  pathKey: string;
+}
+
+/**
+ * Renders the hooks module (queries/index.ts): query key factories, query
+ * options and a use<Operation>Query hook for every GET operation, a
+ * use<Operation>Mutation hook for every other one
+ */
+export function renderQueryIndex(operations: QueryOperationSource[]): string {
+  const imports = operations
+    .map(({ operationId }) => {
+      const identifier = sanitizeIdentifier(operationId);
+      return `import { ${identifier} } from "../client/${identifier}.js";`;
+    })
+    .join("\n");
+
+  const queries = operations.filter(({ method }) => method === "get");
+  const mutations = operations.filter(({ method }) => method !== "get");
+  const keys = queries
+    .map(({ operationId }) => {
+      const identifier = sanitizeIdentifier(operationId);
+      const name = JSON.stringify(identifier);
+      return `  ${identifier}: (params?: OperationParams<typeof ${identifier}>) =>
+    params === undefined ? ([${name}] as const) : ([${name}, params] as const),`;
+    })
+    .join("\n");
+
+  return `/* TanStack Query hooks and query keys of every operation */
+
+import {
+  type UseMutationOptions,
+  type UseMutationResult,
+  type UseQueryOptions,
+  type UseQueryResult,
+  useMutation,
+  useQuery,
+} from "@tanstack/react-query";
+
+import { type ApiResponseError, type GlobalConfig, globalConfig } from "../client/config.js";
+${imports}
+
+/* Parameters of an operation, the first argument of its client function */
+export type OperationParams<T extends (...args: never[]) => unknown> =
+  Parameters<T>[0];
+
+/* Successful response of an operation: ApiResponseError failures are thrown */
+export type OperationSuccess<
+  T extends (...args: never[]) => Promise<{ success: boolean }>,
+> = Extract<Awaited<ReturnType<T>>, { success: true }>;
+
+/* Options of the query hooks, along with the client configuration of the calls */
+export type QueryHookOptions<TData> = Omit<
+  UseQueryOptions<TData, ApiResponseError>,
+  "queryFn" | "queryKey"
+> & { config?: GlobalConfig };
+
+/* Key and function of a query, for the hooks as well as QueryClient methods (e.g. prefetchQuery) */
+export interface OperationQueryOptions<TData> {
+  queryFn: (context: { signal: AbortSignal }) => Promise<TData>;
+  queryKey: readonly unknown[];
+}
+
+/* Options of the mutation hooks, along with the client configuration of the calls */
+export type MutationHookOptions<TData, TParams> = Omit<
+  UseMutationOptions<TData, ApiResponseError, TParams>,
+  "mutationFn"
+> & { config?: GlobalConfig };
+
+/*
+ * Query key factories of the GET operations. Without parameters, the key
+ * matches every query of the operation (e.g. to invalidate them all).
+ */
+export const queryKeys = {
+${keys}
+};
+
+${queries.map(renderQueryHook).join("\n\n")}
+
+${mutations.map(renderMutationHook).join("\n\n")}
+
+/* Resolves with the successful responses, rejects with the ApiResponseError ones */
+async function successOrThrow<T extends { success: boolean }>(
+  call: Promise<T>,
+): Promise<Extract<T, { success: true }>> {
+  const response = await call;
+  if (!response.success) throw response;
+  return response as Extract<T, { success: true }>;
+}
+
+/* Aborts the call when the query is cancelled, or when the configured signal aborts */
+function withSignal(config: GlobalConfig, signal: AbortSignal): GlobalConfig {
+  return {
+    ...config,
+    signal: config.signal ? AbortSignal.any([config.signal, signal]) : signal,
+  };
+}
+`;
+}
+
+/* Paths may contain "*\/", which would end the comment they are rendered in */
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, "*\\/");
+}
+
+function hookName(operationId: string, suffix: string): string {
+  const identifier = sanitizeIdentifier(operationId);
+  return `use${identifier.charAt(0).toUpperCase()}${identifier.slice(1)}${suffix}`;
+}
+
+function renderMutationHook({
+  method,
+  operationId,
+  pathKey,
+}: QueryOperationSource): string {
+  const identifier = sanitizeIdentifier(operationId);
+  const data = `OperationSuccess<typeof ${identifier}>`;
+  const params = `OperationParams<typeof ${identifier}>`;
+  return `/* ${method.toUpperCase()} ${escapeComment(pathKey)} */
+export function ${hookName(operationId, "Mutation")}(
+  options: MutationHookOptions<${data}, ${params}> = {},
+): UseMutationResult<${data}, ApiResponseError, ${params}> {
+  const { config = globalConfig, ...mutationOptions } = options;
+  return useMutation({
+    mutationKey: [${JSON.stringify(identifier)}],
+    ...mutationOptions,
+    mutationFn: (params) => successOrThrow(${identifier}(params, config)),
+  });
+}`;
+}
+
+function renderQueryHook({
+  operationId,
+  pathKey,
+}: QueryOperationSource): string {
+  const identifier = sanitizeIdentifier(operationId);
+  const data = `OperationSuccess<typeof ${identifier}>`;
+  const params = `OperationParams<typeof ${identifier}>`;
+  return `/* Query of GET ${escapeComment(pathKey)} */
+export function ${identifier}QueryOptions(
+  params: ${params},
+  config: GlobalConfig = globalConfig,
+): OperationQueryOptions<${data}> {
+  return {
+    queryFn: ({ signal }) =>
+      successOrThrow(${identifier}(params, withSignal(config, signal))),
+    queryKey: queryKeys.${identifier}(params),
+  };
+}
+
+/* GET ${escapeComment(pathKey)} */
+export function ${hookName(operationId, "Query")}(
+  params: ${params},
+  options: QueryHookOptions<${data}> = {},
+): UseQueryResult<${data}, ApiResponseError> {
+  const { config, ...queryOptions } = options;
+  return useQuery({
+    ...queryOptions,
+    ...${identifier}QueryOptions(params, config),
+  });
+}`;
+}
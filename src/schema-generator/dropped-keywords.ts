@@ -0,0 +1,147 @@
+import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
+
+/**
+ * Keyword the Zod conversion cannot translate, along with its location
+ */
+export interface DroppedKeyword {
+  keyword: string;
+  location: string;
+}
+
+/* Validation keywords without Zod equivalent */
+const UNSUPPORTED_KEYWORDS = [
+  "$dynamicRef",
+  "additionalItems",
+  "dependencies",
+  "unevaluatedItems",
+  "unevaluatedProperties",
+];
+
+/* Validation keywords ignored next to a $ref, only its target being validated */
+const VALIDATION_KEYWORDS = [
+  "additionalProperties",
+  "allOf",
+  "anyOf",
+  "const",
+  "contains",
+  "dependentRequired",
+  "dependentSchemas",
+  "else",
+  "enum",
+  "exclusiveMaximum",
+  "exclusiveMinimum",
+  "format",
+  "if",
+  "items",
+  "maxContains",
+  "maximum",
+  "maxItems",
+  "maxLength",
+  "maxProperties",
+  "minContains",
+  "minimum",
+  "minItems",
+  "minLength",
+  "minProperties",
+  "multipleOf",
+  "not",
+  "oneOf",
+  "pattern",
+  "patternProperties",
+  "prefixItems",
+  "properties",
+  "propertyNames",
+  "required",
+  "then",
+  "type",
+  "uniqueItems",
+];
+
+/* Keywords whose value is a schema */
+const SCHEMA_KEYWORDS = [
+  "additionalItems",
+  "additionalProperties",
+  "contains",
+  "else",
+  "if",
+  "items",
+  "not",
+  "propertyNames",
+  "then",
+  "unevaluatedItems",
+  "unevaluatedProperties",
+];
+
+/* Keywords whose value is a list of schemas */
+const SCHEMA_LIST_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems"];
+
+/* Keywords whose value maps names to schemas */
+const SCHEMA_MAP_KEYWORDS = [
+  "$defs",
+  "dependentSchemas",
+  "patternProperties",
+  "properties",
+];
+
+/**
+ * Finds the validation keywords of a schema and its subschemas that the Zod
+ * conversion drops: keywords without Zod equivalent, and keywords next to a
+ * $ref. Locations are JSON Pointers relative to the given one.
+ *
+ * @example
+ * ```javascript
+ * findDroppedKeywords(
+ *   { properties: { tags: { unevaluatedItems: false } } },
+ *   "#/components/schemas/Post",
+ * );
+ * // [{ keyword: "unevaluatedItems", location: "#/components/schemas/Post/properties/tags" }]
+ * ```
+ */
+export function findDroppedKeywords(
+  schema: ReferenceObject | SchemaObject,
+  location = "#",
+): DroppedKeyword[] {
+  const dropped: DroppedKeyword[] = [];
+  collectDroppedKeywords(schema, location, dropped);
+  return dropped;
+}
+
+function collectDroppedKeywords(
+  schema: unknown,
+  location: string,
+  dropped: DroppedKeyword[],
+): void {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) return;
+  const record = schema as Record<string, unknown>;
+
+  const unsupported =
+    typeof record.$ref === "string"
+      ? [...UNSUPPORTED_KEYWORDS, ...VALIDATION_KEYWORDS]
+      : UNSUPPORTED_KEYWORDS;
+  for (const keyword of unsupported) {
+    if (keyword in record) dropped.push({ keyword, location });
+  }
+
+  for (const keyword of SCHEMA_KEYWORDS) {
+    collectDroppedKeywords(record[keyword], `${location}/${keyword}`, dropped);
+  }
+  for (const keyword of SCHEMA_LIST_KEYWORDS) {
+    const schemas = record[keyword];
+    if (!Array.isArray(schemas)) continue;
+    schemas.forEach((item, index) =>
+      collectDroppedKeywords(item, `${location}/${keyword}/${index}`, dropped),
+    );
+  }
+  for (const keyword of SCHEMA_MAP_KEYWORDS) {
+    const schemas = record[keyword];
+    if (!schemas || typeof schemas !== "object") continue;
+    for (const [name, item] of Object.entries(schemas)) {
+      const segment = name.replace(/~/g, "~0").replace(/\//g, "~1");
+      collectDroppedKeywords(
+        item,
+        `${location}/${keyword}/${segment}`,
+        dropped,
+      );
+    }
+  }
+}
@@ -13,9 +13,11 @@ export interface ExtensibleEnumResult {
 /**
  * Handles x-extensible-enum for string schemas
  * Always generates inline array format for consistency
+ * Values outside of the enum are validated with stringCode
  */
 export function handleExtensibleEnum(
   schema: SchemaObject,
+  stringCode = "z.string()",
 ): ExtensibleEnumResult | null {
   const extensibleEnum = schema["x-extensible-enum"];
   if (!extensibleEnum || !Array.isArray(extensibleEnum)) {
@@ -26,7 +28,7 @@ export function handleExtensibleEnum(
   const enumValues = extensibleEnum
     .map((e: unknown) => JSON.stringify(e))
     .join(", ");
-  let code = `z.enum([${enumValues}]).or(z.string())`;
+  let code = `z.enum([${enumValues}]).or(${stringCode})`;
 
   // Add default value if present
   code = addDefaultValue(code, schema.default);
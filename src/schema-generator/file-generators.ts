@@ -2,7 +2,9 @@ import type { SchemaObject } from "openapi3-ts/oas31";
 
 import { format } from "prettier";
 
+import { collectFormatImports, type FormatRegistry } from "./formats.js";
 import { zodSchemaToCode } from "./schema-converter.js";
+import { schemaToTypeScript } from "./type-generator.js";
 
 /**
  * Schema file generation result
@@ -16,6 +18,13 @@ export interface SchemaFileResult {
  * Options for schema file generation
  */
 export interface SchemaGenerationOptions {
+  /* Custom string and number formats, whose imports are added to the file */
+  formats?: FormatRegistry;
+  /*
+   * Schemas of the reference cycle of the generated one (itself included),
+   * referenced lazily. The schema is then annotated with an explicit type.
+   */
+  lazyReferences?: ReadonlySet<string>;
   strictValidation?: boolean;
 }
 
@@ -55,9 +64,11 @@ export async function generateSchemaFile(
   description?: string,
   options: SchemaGenerationOptions = {},
 ): Promise<SchemaFileResult> {
-  const { strictValidation = false } = options;
+  const { formats = {}, lazyReferences, strictValidation = false } = options;
   const schemaResult = zodSchemaToCode(schema, {
+    formats,
     isTopLevel: true,
+    lazyReferences,
     strictValidation,
   });
 
@@ -71,10 +82,14 @@ export async function generateSchemaFile(
     : "";
 
   // Generate imports for dependencies
-  const imports = Array.from(schemaResult.imports)
-    .filter((importName) => importName !== name) // Don't import self
-    .map((importName) => `import { ${importName} } from "./${importName}.js";`)
-    .join("\n");
+  const imports = [
+    ...Array.from(schemaResult.imports)
+      .filter((importName) => importName !== name) // Don't import self
+      .map(
+        (importName) => `import { ${importName} } from "./${importName}.js";`,
+      ),
+    ...collectFormatImports(schema, formats),
+  ].join("\n");
 
   const importsSection = imports ? `${imports}\n` : "";
 
@@ -89,6 +104,12 @@ export async function generateSchemaFile(
     const schemaContent = `${commentSection}export const ${name} = ${schemaResult.code};`;
 
     content = `import { z } from 'zod';\n${importsSection}\n${schemaContent}\n${typeContent}`;
+  } else if (lazyReferences?.size) {
+    /* z.infer cannot infer the type of a schema that references itself */
+    const typeContent = `export type ${name} = ${schemaToTypeScript(schema, formats)};`;
+    const schemaContent = `${commentSection}export const ${name}: z.ZodType<${name}> = ${schemaResult.code};`;
+
+    content = `import { z } from 'zod';\n${importsSection}\n${typeContent}\n${schemaContent}`;
   } else {
     const schemaContent = `${commentSection}export const ${name} = ${schemaResult.code};`;
     const typeContent = `export type ${name} = z.infer<typeof ${name}>;`;
@@ -0,0 +1,121 @@
+import type { SchemaObject } from "openapi3-ts/oas31";
+
+import { inferEffectiveType } from "./utils.js";
+
+/**
+ * Validation of a string or number format
+ *
+ * @example
+ * ```javascript
+ * const iban: FormatDefinition = {
+ *   code: "z.string().refine(isValidIban)",
+ *   imports: ['import { isValidIban } from "../../validators.js";'],
+ * };
+ * ```
+ */
+export interface FormatDefinition {
+  /* Zod schema replacing z.string() or z.number(), constraints being added to it */
+  code: string;
+  /* Import declarations the code depends on, relative to the schemas directory
+     (the client and server directories sit at the same depth) */
+  imports?: string[];
+  /* TypeScript type of the parsed values, for the explicit types of recursive schemas */
+  type?: string;
+}
+
+/**
+ * Format definitions by format name
+ */
+export type FormatRegistry = Record<string, FormatDefinition>;
+
+/* Formats registered by JSON Schema and OpenAPI for strings */
+const STRING_FORMATS: FormatRegistry = {
+  byte: { code: "z.base64()" },
+  date: { code: "z.iso.date()" },
+  "date-time": { code: "z.iso.datetime({ offset: true, local: true })" },
+  duration: { code: "z.iso.duration()" },
+  email: { code: "z.email()" },
+  hostname: { code: "z.hostname()" },
+  ipv4: { code: "z.ipv4()" },
+  ipv6: { code: "z.ipv6()" },
+  time: { code: "z.iso.time()" },
+  uri: { code: "z.url()" },
+  uuid: { code: "z.uuid()" },
+};
+
+/*
+ * Formats registered by OpenAPI for numbers. They start with z.number() so
+ * that parameters can still be coerced.
+ */
+const NUMBER_FORMATS: FormatRegistry = {
+  double: { code: "z.number()" },
+  float: {
+    code: "z.number().min(-3.4028234663852886e38).max(3.4028234663852886e38)",
+  },
+  int32: { code: "z.number().int().min(-2147483648).max(2147483647)" },
+  int64: { code: "z.number().int()" },
+};
+
+/* Keywords whose values are data, not schemas */
+const DATA_KEYWORDS = new Set([
+  "const",
+  "default",
+  "enum",
+  "example",
+  "examples",
+]);
+
+/**
+ * Collects the import declarations of the formats used by a schema and its
+ * subschemas, referenced schemas being generated in their own file
+ */
+export function collectFormatImports(
+  schema: unknown,
+  formats: FormatRegistry,
+  imports = new Set<string>(),
+): Set<string> {
+  if (Array.isArray(schema)) {
+    for (const item of schema) collectFormatImports(item, formats, imports);
+    return imports;
+  }
+  if (!schema || typeof schema !== "object") return imports;
+
+  const { format } = schema as { format?: unknown };
+  if (typeof format === "string" && Object.hasOwn(formats, format)) {
+    for (const declaration of formats[format].imports ?? []) {
+      imports.add(declaration);
+    }
+  }
+  for (const [key, value] of Object.entries(schema)) {
+    if (!DATA_KEYWORDS.has(key)) collectFormatImports(value, formats, imports);
+  }
+  return imports;
+}
+
+/**
+ * Finds the definition of the format of a schema: the custom one when
+ * registered, otherwise the built-in one for its type
+ *
+ * @example
+ * ```javascript
+ * findFormat({ type: "string", format: "ipv4" });
+ * // { code: "z.ipv4()" }
+ * ```
+ */
+export function findFormat(
+  schema: SchemaObject,
+  formats: FormatRegistry = {},
+): FormatDefinition | undefined {
+  const { format } = schema;
+  if (!format) return undefined;
+  if (Object.hasOwn(formats, format)) return formats[format];
+
+  const type = inferEffectiveType(schema);
+  const builtIns =
+    type === "string"
+      ? STRING_FORMATS
+      : type === "integer" || type === "number"
+        ? NUMBER_FORMATS
+        : {};
+  return Object.hasOwn(builtIns, format) ? builtIns[format] : undefined;
+}
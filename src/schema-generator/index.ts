@@ -1,3 +1,8 @@
+export {
+  type DroppedKeyword,
+  findDroppedKeywords,
+} from "./dropped-keywords.js";
+
 // Advanced exports for custom usage
 export type { ExtensibleEnumResult } from "./enum-handlers.js";
 
@@ -9,8 +14,22 @@ export {
   generateResponseSchemaFile,
   generateSchemaFile,
   type SchemaFileResult,
+  type SchemaGenerationOptions,
 } from "./file-generators.js";
 
+export {
+  collectFormatImports,
+  findFormat,
+  type FormatDefinition,
+  type FormatRegistry,
+} from "./formats.js";
+
+export {
+  handleConditionalKeywords,
+  handleConst,
+  handleInPlaceSubschema,
+} from "./keyword-handlers.js";
+
 export { handleObjectType } from "./object-types.js";
 
 export {
@@ -20,6 +39,8 @@ export {
   handleStringType,
 } from "./primitive-types.js";
 
+export { findRecursiveSchemas } from "./recursion.js";
+
 export { handleReference } from "./reference-handlers.js";
 
 // Main exports - commonly used functions and types
@@ -30,11 +51,18 @@ export {
   zodSchemaToCode,
 } from "./schema-converter.js";
 
+export {
+  getComponentSchemaName,
+  resolveSchemaReference,
+} from "./schema-references.js";
+
+export { schemaToTypeScript } from "./type-generator.js";
+
 export type { DiscriminatorConfig, UnionType } from "./union-types.js";
 
 export { handleAllOfSchema, handleUnionSchema } from "./union-types.js";
 
-export type { EffectiveType } from "./utils.js";
+export type { EffectiveType, JsonSchemaObject } from "./utils.js";
 
 // Utility exports
 export {
@@ -0,0 +1,115 @@
+import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
+
+import { isSchemaObject } from "openapi3-ts/oas31";
+
+import type { FormatRegistry } from "./formats.js";
+
+import {
+  inferEffectiveType,
+  type JsonSchemaObject,
+  mergeImports,
+} from "./utils.js";
+
+interface ZodSchemaCodeOptions {
+  formats?: FormatRegistry;
+  imports?: Set<string>;
+  isTopLevel?: boolean;
+  lazyReferences?: ReadonlySet<string>;
+  strictValidation?: boolean;
+}
+
+// Import from schema-converter to avoid circular dependencies
+interface ZodSchemaResult {
+  code: string;
+  extensibleEnumValues?: unknown[];
+  imports: Set<string>;
+}
+
+/**
+ * Handle the not and if/then/else keywords with refinements of the
+ * converted schema
+ */
+export function handleConditionalKeywords(
+  schema: JsonSchemaObject,
+  result: ZodSchemaResult,
+  zodSchemaToCode: (
+    schema: ReferenceObject | SchemaObject,
+    options?: ZodSchemaCodeOptions,
+  ) => ZodSchemaResult,
+  options: Pick<
+    ZodSchemaCodeOptions,
+    "formats" | "lazyReferences" | "strictValidation"
+  > = {},
+): ZodSchemaResult {
+  const matches = (subschema: ReferenceObject | SchemaObject) =>
+    `${handleInPlaceSubschema(subschema, schema, result, zodSchemaToCode, options)}.safeParse(value).success`;
+
+  if (schema.not) {
+    result.code += `.refine((value) => !${matches(schema.not)}, { message: "Invalid input: Should not match the not schema" })`;
+  }
+  if (schema.if && schema.then) {
+    result.code += `.refine((value) => !${matches(schema.if)} || ${matches(schema.then)}, { message: "Invalid input: Should match the then schema when matching the if schema" })`;
+  }
+  if (schema.if && schema.else) {
+    result.code += `.refine((value) => ${matches(schema.if)} || ${matches(schema.else)}, { message: "Invalid input: Should match the else schema when not matching the if schema" })`;
+  }
+  return result;
+}
+
+/**
+ * Handle const values. Objects and arrays are matched structurally, any
+ * other property or item being rejected.
+ */
+export function handleConst(value: unknown): string {
+  if (value === null) return "z.null()";
+  if (Array.isArray(value)) {
+    return `z.tuple([${value.map(handleConst).join(", ")}])`;
+  }
+  if (typeof value === "object") {
+    const shape = Object.entries(value).map(
+      ([key, property]) => `${JSON.stringify(key)}: ${handleConst(property)}`,
+    );
+    return `z.strictObject({${shape.join(", ")}})`;
+  }
+  return `z.literal(${JSON.stringify(value)})`;
+}
+
+/**
+ * Converts a subschema applying to the same value as its parent schema (not,
+ * if/then/else, dependentSchemas). Without a type of its own it inherits the
+ * type of its parent, so that { required: ["id"] } checks objects. It is
+ * never strict, since it only constrains part of the value.
+ */
+export function handleInPlaceSubschema(
+  subschema: ReferenceObject | SchemaObject,
+  parent: SchemaObject,
+  result: ZodSchemaResult,
+  zodSchemaToCode: (
+    schema: ReferenceObject | SchemaObject,
+    options?: ZodSchemaCodeOptions,
+  ) => ZodSchemaResult,
+  options: Pick<ZodSchemaCodeOptions, "formats" | "lazyReferences"> = {},
+): string {
+  const parentType = inferEffectiveType(parent);
+  const inheritsType =
+    isSchemaObject(subschema) &&
+    inferEffectiveType(subschema) === undefined &&
+    subschema.const === undefined &&
+    !subschema.allOf &&
+    !subschema.anyOf &&
+    !subschema.oneOf &&
+    typeof parentType === "string";
+  const subResult = zodSchemaToCode(
+    inheritsType
+      ? ({ ...subschema, type: parentType } as SchemaObject)
+      : subschema,
+    {
+      formats: options.formats,
+      imports: result.imports,
+      lazyReferences: options.lazyReferences,
+      strictValidation: false,
+    },
+  );
+  mergeImports(result.imports, subResult.imports);
+  return subResult.code;
+}
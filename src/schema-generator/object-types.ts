@@ -1,11 +1,22 @@
 import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
 
-import { addDefaultValue } from "./utils.js";
+import { isSchemaObject } from "openapi3-ts/oas31";
+
+import type { FormatRegistry } from "./formats.js";
+
+import { handleInPlaceSubschema } from "./keyword-handlers.js";
+import {
+  addDefaultValue,
+  type JsonSchemaObject,
+  mergeImports,
+} from "./utils.js";
 
 /**
  * Options for object type generation
  */
 interface ObjectTypeOptions {
+  formats?: FormatRegistry;
+  lazyReferences?: ReadonlySet<string>;
   strictValidation?: boolean;
 }
 
@@ -22,7 +33,9 @@ interface ZodSchemaResult {
 }
 
 /**
- * Handle object type conversion
+ * Handle object type conversion. Keywords constraining every property
+ * (patternProperties, propertyNames, minProperties...) keep the undeclared
+ * properties so that they can be checked.
  */
 export function handleObjectType(
   schema: SchemaObject,
@@ -34,44 +47,50 @@ export function handleObjectType(
   options: ObjectTypeOptions = {},
 ): ZodSchemaResult {
   const { strictValidation = false } = options;
+  const objectSchema: JsonSchemaObject = schema;
   const shape: string[] = [];
   const requiredFields = schema.required || [];
+  const properties = schema.properties || {};
+  const convert = (propSchema: ReferenceObject | SchemaObject) => {
+    const propResult = zodSchemaToCode(propSchema, {
+      ...options,
+      imports: result.imports,
+    });
+    result.imports = new Set([...propResult.imports, ...result.imports]);
+    return propResult.code;
+  };
 
-  if (schema.properties) {
-    for (const [key, propSchema] of Object.entries(schema.properties)) {
-      const propResult = zodSchemaToCode(propSchema, {
-        imports: result.imports,
-        strictValidation,
-      });
-      result.imports = new Set([...propResult.imports, ...result.imports]);
-
-      const isRequired = requiredFields.includes(key);
-      const propCode = isRequired
-        ? propResult.code
-        : `${propResult.code}.optional()`;
-
-      shape.push(`${JSON.stringify(key)}: ${propCode}`);
-    }
+  for (const [key, propSchema] of Object.entries(properties)) {
+    const propCode = convert(propSchema);
+    const isRequired = requiredFields.includes(key);
+    shape.push(
+      `${JSON.stringify(key)}: ${isRequired ? propCode : `${propCode}.optional()`}`,
+    );
+  }
+  /* Required properties without a schema are only checked for presence */
+  const undeclaredRequired = requiredFields.filter(
+    (key) => !Object.hasOwn(properties, key),
+  );
+  for (const key of undeclaredRequired) {
+    shape.push(`${JSON.stringify(key)}: z.unknown()`);
   }
 
-  const objectMethod = strictValidation ? "z.strictObject" : "z.object";
+  const objectMethod =
+    strictValidation && !objectSchema.patternProperties
+      ? "z.strictObject"
+      : "z.object";
   let code = `${objectMethod}({${shape.join(", ")}})`;
+  code += renderUndeclaredProperties(
+    objectSchema,
+    Object.keys(properties),
+    convert,
+    strictValidation,
+  );
 
-  if (schema.additionalProperties) {
-    if (typeof schema.additionalProperties === "boolean") {
-      code += ".catchall(z.unknown())";
-    } else {
-      const additionalResult = zodSchemaToCode(schema.additionalProperties, {
-        imports: result.imports,
-        strictValidation,
-      });
-      result.imports = new Set([
-        ...additionalResult.imports,
-        ...result.imports,
-      ]);
-      code += `.catchall(${additionalResult.code})`;
-    }
+  if (undeclaredRequired.length > 0) {
+    code += `.refine((value) => ${JSON.stringify(undeclaredRequired)}.every((key) => key in value), { message: "Invalid input: Missing required properties ${undeclaredRequired.join(", ")}" })`;
   }
+  code += renderPropertyChecks(objectSchema, result, zodSchemaToCode, options);
 
   // Add default value if present
   code = addDefaultValue(code, schema.default);
@@ -79,3 +98,130 @@ export function handleObjectType(
   result.code = code;
   return result;
 }
+
+/*
+ * Check of the properties matching a pattern against its schema. The other
+ * undeclared properties are checked against additionalProperties, or
+ * rejected when it is false or validation is strict.
+ */
+function renderPatternProperties(
+  schema: JsonSchemaObject,
+  declared: string[],
+  convert: (schema: ReferenceObject | SchemaObject) => string,
+  strictValidation: boolean,
+): string {
+  const { additionalProperties } = schema;
+  const checksAdditional =
+    additionalProperties === false ||
+    typeof additionalProperties === "object" ||
+    (additionalProperties === undefined && strictValidation);
+  const lines = Object.entries(schema.patternProperties ?? {}).map(
+    ([
+      pattern,
+      patternSchema,
+    ]) => `    if (new RegExp(${JSON.stringify(pattern)}).test(key)) {${checksAdditional ? "\n      matched = true;" : ""}
+      if (!${convert(patternSchema)}.safeParse(item).success) {
+        ctx.addIssue({ code: "custom", message: ${JSON.stringify(`Invalid input: Should match the schema of properties matching ${pattern}`)}, path: [key] });
+      }
+    }`,
+  );
+  if (checksAdditional) {
+    const isInvalid =
+      typeof additionalProperties === "object"
+        ? `!matched && !${convert(additionalProperties)}.safeParse(item).success`
+        : "!matched";
+    lines.unshift(
+      `    let matched = ${declared.length > 0 ? `${JSON.stringify(declared)}.includes(key)` : "false"};`,
+    );
+    lines.push(`    if (${isInvalid}) {
+      ctx.addIssue({ code: "custom", message: "Invalid input: Unexpected property", path: [key] });
+    }`);
+  }
+  return `.superRefine((value, ctx) => {
+  for (const [key, item] of Object.entries(value)) {
+${lines.join("\n")}
+  }
+})`;
+}
+
+/* Refinements of the property names, property count and dependencies */
+function renderPropertyChecks(
+  schema: JsonSchemaObject,
+  result: ZodSchemaResult,
+  zodSchemaToCode: (
+    schema: ReferenceObject | SchemaObject,
+    options?: ZodSchemaCodeOptions,
+  ) => ZodSchemaResult,
+  options: ObjectTypeOptions,
+): string {
+  let code = "";
+  if (schema.propertyNames) {
+    /* Property names are strings, whether their schema says so or not */
+    const names = isSchemaObject(schema.propertyNames)
+      ? { type: "string" as const, ...schema.propertyNames }
+      : schema.propertyNames;
+    const namesResult = zodSchemaToCode(names, {
+      ...options,
+      imports: result.imports,
+    });
+    mergeImports(result.imports, namesResult.imports);
+    code += `.refine((value) => Object.keys(value).every((key) => ${namesResult.code}.safeParse(key).success), { message: "Invalid input: Should have valid property names" })`;
+  }
+  if (schema.minProperties !== undefined) {
+    code += `.refine((value) => Object.keys(value).length >= ${schema.minProperties}, { message: "Too small: expected object to have >=${schema.minProperties} properties" })`;
+  }
+  if (schema.maxProperties !== undefined) {
+    code += `.refine((value) => Object.keys(value).length <= ${schema.maxProperties}, { message: "Too big: expected object to have <=${schema.maxProperties} properties" })`;
+  }
+  for (const [key, dependencies] of Object.entries(
+    schema.dependentRequired ?? {},
+  )) {
+    code += `.refine((value) => !(${JSON.stringify(key)} in value) || ${JSON.stringify(dependencies)}.every((dependency) => dependency in value), { message: ${JSON.stringify(`Invalid input: Should have properties ${dependencies.join(", ")} along with ${key}`)} })`;
+  }
+  for (const [key, dependentSchema] of Object.entries(
+    schema.dependentSchemas ?? {},
+  )) {
+    const dependentCode = handleInPlaceSubschema(
+      dependentSchema,
+      schema,
+      result,
+      zodSchemaToCode,
+      options,
+    );
+    code += `.refine((value) => !(${JSON.stringify(key)} in value) || ${dependentCode}.safeParse(value).success, { message: ${JSON.stringify(`Invalid input: Should match the dependent schema of ${key}`)} })`;
+  }
+  return code;
+}
+
+/*
+ * Validation of the undeclared properties. They are kept when checked by
+ * other keywords (property names, count...) unless validation is strict.
+ */
+function renderUndeclaredProperties(
+  schema: JsonSchemaObject,
+  declared: string[],
+  convert: (schema: ReferenceObject | SchemaObject) => string,
+  strictValidation: boolean,
+): string {
+  if (schema.patternProperties) {
+    /* Undeclared properties are checked against their pattern instead */
+    return `.catchall(z.unknown())${renderPatternProperties(schema, declared, convert, strictValidation)}`;
+  }
+  if (schema.additionalProperties) {
+    return `.catchall(${
+      typeof schema.additionalProperties === "boolean"
+        ? "z.unknown()"
+        : convert(schema.additionalProperties)
+    })`;
+  }
+  const checksAllProperties = [
+    schema.propertyNames,
+    schema.minProperties,
+    schema.maxProperties,
+    schema.dependentRequired,
+    schema.dependentSchemas,
+  ].some((keyword) => keyword !== undefined);
+  return checksAllProperties && !strictValidation
+    ? ".catchall(z.unknown())"
+    : "";
+}
@@ -1,11 +1,15 @@
 import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
 
 import { handleExtensibleEnum, handleRegularEnum } from "./enum-handlers.js";
-import { addDefaultValue } from "./utils.js";
+import { findFormat, type FormatRegistry } from "./formats.js";
+import { addDefaultValue, type JsonSchemaObject } from "./utils.js";
 
 interface ZodSchemaCodeOptions {
+  coercePrimitives?: boolean;
+  formats?: FormatRegistry;
   imports?: Set<string>;
   isTopLevel?: boolean;
+  lazyReferences?: ReadonlySet<string>;
   strictValidation?: boolean;
 }
 
@@ -17,7 +21,8 @@ interface ZodSchemaResult {
 }
 
 /**
- * Handle array type conversion
+ * Handle array type conversion. prefixItems become a tuple whose first
+ * minItems elements are required, followed by the items.
  */
 export function handleArrayType(
   schema: SchemaObject,
@@ -26,26 +31,47 @@ export function handleArrayType(
     schema: ReferenceObject | SchemaObject,
     options?: ZodSchemaCodeOptions,
   ) => ZodSchemaResult,
-  options: { strictValidation?: boolean } = {},
+  options: Pick<
+    ZodSchemaCodeOptions,
+    "formats" | "lazyReferences" | "strictValidation"
+  > = {},
 ): ZodSchemaResult {
-  const { strictValidation = false } = options;
-  if (!schema.items) {
-    let code = "z.array(z.unknown())";
-    code = addDefaultValue(code, schema.default);
-    result.code = code;
-    return result;
+  const arraySchema: JsonSchemaObject = schema;
+  const convert = (itemSchema: ReferenceObject | SchemaObject) => {
+    const itemResult = zodSchemaToCode(itemSchema, {
+      ...options,
+      imports: result.imports,
+    });
+    result.imports = new Set([...itemResult.imports, ...result.imports]);
+    return itemResult.code;
+  };
+  /* items: false forbids any item after the prefixItems */
+  const noItems = (schema.items as unknown) === false;
+
+  let code: string;
+  if (schema.prefixItems || noItems) {
+    code = renderTuple(schema, noItems, convert);
+  } else {
+    code = `z.array(${schema.items ? convert(schema.items) : "z.unknown()"})`;
+    if (schema.minItems !== undefined) code += `.min(${schema.minItems})`;
+    if (schema.maxItems !== undefined) code += `.max(${schema.maxItems})`;
   }
 
-  const itemsResult = zodSchemaToCode(schema.items, {
-    imports: result.imports,
-    strictValidation,
-  });
-  let code = `z.array(${itemsResult.code})`;
-  result.imports = new Set([...itemsResult.imports, ...result.imports]);
-
-  if (schema.minItems !== undefined) code += `.min(${schema.minItems})`;
-  if (schema.maxItems !== undefined) code += `.max(${schema.maxItems})`;
-  // uniqueItems not representable in code string
+  if (schema.uniqueItems) {
+    /* Items are compared with their keys sorted, objects being equal whatever their key order */
+    const canonical = `JSON.stringify(item, (_, value) => value && typeof value === "object" && !Array.isArray(value) ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]])) : value)`;
+    code += `.refine((items) => new Set(items.map((item) => ${canonical})).size === items.length, { message: "Invalid input: Should have unique items" })`;
+  }
+  if (arraySchema.contains) {
+    const contains = `items.filter((item) => ${convert(arraySchema.contains)}.safeParse(item).success).length`;
+    const minContains = arraySchema.minContains ?? 1;
+    if (minContains > 0) {
+      code += `.refine((items) => ${contains} >= ${minContains}, { message: "Invalid input: Should contain at least ${minContains} matching item(s)" })`;
+    }
+    if (arraySchema.maxContains !== undefined) {
+      code += `.refine((items) => ${contains} <= ${arraySchema.maxContains}, { message: "Invalid input: Should contain at most ${arraySchema.maxContains} matching item(s)" })`;
+    }
+  }
 
   // Add default value if present
   code = addDefaultValue(code, schema.default);
@@ -55,17 +81,20 @@ export function handleArrayType(
 }
 
 /**
- * Handle boolean type conversion
+ * Handle boolean type conversion. Coerced booleans are parsed from "true"
+ * and "false" (among others), enums being checked once parsed.
  */
 export function handleBooleanType(
   schema: SchemaObject,
   result: ZodSchemaResult,
+  options: Pick<ZodSchemaCodeOptions, "coercePrimitives"> = {},
 ): ZodSchemaResult {
-  let code = "z.boolean()";
+  let code = options.coercePrimitives ? "z.stringbool()" : "z.boolean()";
 
   // Handle enums for booleans (both single and multi-value, though rare)
   if (schema.enum && schema.enum.length >= 1) {
     code = handleRegularEnum(schema.enum, schema.default);
+    if (options.coercePrimitives) code = `z.stringbool().pipe(${code})`;
   } else {
     // Add default value if present and no enum
     code = addDefaultValue(code, schema.default);
@@ -76,13 +105,18 @@ export function handleBooleanType(
 }
 
 /**
- * Handle number/integer type conversion
+ * Handle number/integer type conversion. A known format replaces the base
+ * validator, integers included. Coerced numbers are parsed from strings
+ * before being checked by the format, constraints or enum.
  */
 export function handleNumberType(
   schema: SchemaObject,
   result: ZodSchemaResult,
+  options: Pick<ZodSchemaCodeOptions, "coercePrimitives" | "formats"> = {},
 ): ZodSchemaResult {
-  let code = "z.number()";
+  const format = findFormat(schema, options.formats);
+  let code = format?.code ?? "z.number()";
+  if (options.coercePrimitives && !format) code = "z.coerce.number()";
 
   if (schema.minimum !== undefined) code += `.min(${schema.minimum})`;
   if (schema.maximum !== undefined) code += `.max(${schema.maximum})`;
@@ -90,12 +124,17 @@ export function handleNumberType(
     code += `.gt(${schema.exclusiveMinimum})`;
   if (schema.exclusiveMaximum !== undefined)
     code += `.lt(${schema.exclusiveMaximum})`;
-  if (schema.type === "integer") code += ".int()";
+  if (schema.multipleOf !== undefined) {
+    code += `.multipleOf(${schema.multipleOf})`;
+  }
+  if (schema.type === "integer" && !format) code += ".int()";
 
   // Handle enums for numbers (both single and multi-value)
   if (schema.enum && schema.enum.length >= 1) {
     code = handleRegularEnum(schema.enum, schema.default);
+    if (options.coercePrimitives) code = coerceNumber(code);
   } else {
+    if (options.coercePrimitives && format) code = coerceNumber(code);
     // Add default value if present and no enum
     code = addDefaultValue(code, schema.default);
   }
@@ -105,55 +144,78 @@ export function handleNumberType(
 }
 
 /**
- * Handle string type conversion
+ * Handle string type conversion. The format picks the base validator, to
+ * which the length and pattern constraints are added; an enum is then piped
+ * through them so that its values are checked against every constraint.
  */
 export function handleStringType(
   schema: SchemaObject,
   result: ZodSchemaResult,
+  options: Pick<ZodSchemaCodeOptions, "formats"> = {},
 ): ZodSchemaResult {
-  // Handle x-extensible-enum first, as it takes precedence over regular enum
-  const extensibleEnumResult = handleExtensibleEnum(schema);
-  if (extensibleEnumResult) {
-    result.code = extensibleEnumResult.code;
-    result.extensibleEnumValues = extensibleEnumResult.enumValues;
+  // Although Blob and File (which extends Blob) can be used interchangeably,
+  // it is recommended to use a File instance when uploading files.
+  // Using File ensures the uploaded file retains its original name;
+  // otherwise, the server will assign a default name.
+  // When downloading files, browsers typically return a File instance,
+  // while in Node.js, fetch returns a Blob instance.
+  // String constraints, enums and defaults do not apply to file contents.
+  if (schema.format === "binary") {
+    result.code = "z.instanceof(Blob)";
     return result;
   }
 
-  let code = "z.string()";
+  let code = findFormat(schema, options.formats)?.code ?? "z.string()";
 
   // Add string constraints
   if (schema.minLength !== undefined) code += `.min(${schema.minLength})`;
   if (schema.maxLength !== undefined) code += `.max(${schema.maxLength})`;
-
   if (schema.pattern)
     code += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
 
-  // Handle format-specific validations
-  if (schema.format === "email") code = "z.email()";
-  if (schema.format === "uuid") code = "z.uuid()";
-  if (schema.format === "uri") code = "z.url()";
-  if (schema.format === "date") code = "z.iso.date()";
-  if (schema.format === "date-time")
-    code = "z.iso.datetime({ offset: true, local: true })";
-  if (schema.format === "time") code = "z.iso.time()";
-  if (schema.format === "duration") code = "z.iso.duration()";
-
-  // Although Blob and File (which extends Blob) can be used interchangeably,
-  // it is recommended to use a File instance when uploading files.
-  // Using File ensures the uploaded file retains its original name;
-  // otherwise, the server will assign a default name.
-  // When downloading files, browsers typically return a File instance,
-  // while in Node.js, fetch returns a Blob instance.
-  if (schema.format === "binary") code = "z.instanceof(Blob)";
+  // Handle x-extensible-enum first, as it takes precedence over regular enum
+  const extensibleEnumResult = handleExtensibleEnum(schema, code);
+  if (extensibleEnumResult) {
+    result.code = extensibleEnumResult.code;
+    result.extensibleEnumValues = extensibleEnumResult.enumValues;
+    return result;
+  }
 
   // Handle enums for strings (both single and multi-value)
   if (schema.enum && schema.enum.length >= 1) {
-    code = handleRegularEnum(schema.enum, schema.default);
-  } else {
-    // Add default value if present and no enum
-    code = addDefaultValue(code, schema.default);
+    const enumCode = handleRegularEnum(schema.enum);
+    code = code === "z.string()" ? enumCode : `${code}.pipe(${enumCode})`;
   }
 
-  result.code = code;
+  result.code = addDefaultValue(code, schema.default);
   return result;
 }
+
+/* Parses numeric strings for validators that only accept numbers */
+function coerceNumber(code: string): string {
+  return `z.preprocess((value) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value), ${code})`;
+}
+
+/* Tuple of the prefixItems, followed by the items unless forbidden */
+function renderTuple(
+  schema: SchemaObject,
+  noItems: boolean,
+  convert: (schema: ReferenceObject | SchemaObject) => string,
+): string {
+  const prefixItems = schema.prefixItems ?? [];
+  const minItems = schema.minItems ?? 0;
+  const elements = prefixItems.map((item, index) =>
+    index < minItems ? convert(item) : `${convert(item)}.optional()`,
+  );
+  let code = `z.tuple([${elements.join(", ")}])`;
+  if (!noItems) {
+    code += `.rest(${schema.items ? convert(schema.items) : "z.unknown()"})`;
+  }
+  if (minItems > prefixItems.length) {
+    code += `.refine((items) => items.length >= ${minItems}, { message: "Too small: expected array to have >=${minItems} items" })`;
+  }
+  if (schema.maxItems !== undefined) {
+    code += `.refine((items) => items.length <= ${schema.maxItems}, { message: "Too big: expected array to have <=${schema.maxItems} items" })`;
+  }
+  return code;
+}
@@ -0,0 +1,125 @@
+import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
+
+import { getComponentSchemaName } from "./schema-references.js";
+import { sanitizeIdentifier } from "./utils.js";
+
+/**
+ * Finds the component schemas taking part in a reference cycle, either
+ * directly (a tree node referencing itself) or through other schemas
+ * (A → B → A). Each one is mapped to the schemas of its cycle, whose
+ * references must be lazy to avoid use-before-define errors and circular
+ * import crashes. Schema names are sanitized identifiers.
+ *
+ * @example
+ * ```javascript
+ * findRecursiveSchemas({
+ *   Comment: { properties: { replies: { items: { $ref: "#/components/schemas/Comment" } } } },
+ *   User: { properties: { name: { type: "string" } } },
+ * });
+ * // Map { "Comment" => Set { "Comment" } }
+ * ```
+ */
+export function findRecursiveSchemas(
+  schemas: Record<string, ReferenceObject | SchemaObject>,
+): Map<string, ReadonlySet<string>> {
+  const graph = new Map<string, Set<string>>();
+  for (const [name, schema] of Object.entries(schemas)) {
+    const references = new Set<string>();
+    collectReferences(schema, references);
+    graph.set(sanitizeIdentifier(name), references);
+  }
+
+  const recursive = new Map<string, ReadonlySet<string>>();
+  for (const component of findStronglyConnectedComponents(graph)) {
+    const [first] = component;
+    const isCycle = component.size > 1 || graph.get(first)?.has(first);
+    if (!isCycle) continue;
+    for (const name of component) recursive.set(name, component);
+  }
+  return recursive;
+}
+
+/* Collects the component schemas referenced anywhere within a schema */
+function collectReferences(value: unknown, references: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectReferences(item, references));
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+  for (const [key, nested] of Object.entries(value)) {
+    if (key === "$ref" && typeof nested === "string") {
+      const name = getComponentSchemaName(nested);
+      if (name !== undefined) references.add(sanitizeIdentifier(name));
+    } else if (key !== "example" && key !== "examples" && key !== "default") {
+      collectReferences(nested, references);
+    }
+  }
+}
+
+/* Tarjan's algorithm, iterative to support deep reference chains */
+function findStronglyConnectedComponents(
+  graph: Map<string, Set<string>>,
+): Set<string>[] {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: Set<string>[] = [];
+
+  for (const root of graph.keys()) {
+    if (indexes.has(root)) continue;
+    const work: { iterator: Iterator<string>; node: string }[] = [];
+    const visit = (node: string) => {
+      indexes.set(node, indexes.size);
+      lowLinks.set(node, indexes.get(node) as number);
+      stack.push(node);
+      onStack.add(node);
+      work.push({ iterator: (graph.get(node) ?? new Set()).values(), node });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const next = frame.iterator.next();
+      if (!next.done) {
+        const target = next.value;
+        if (!graph.has(target)) continue;
+        if (!indexes.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowLinks.set(
+            frame.node,
+            Math.min(
+              lowLinks.get(frame.node) as number,
+              indexes.get(target) as number,
+            ),
+          );
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowLinks.set(
+          parent.node,
+          Math.min(
+            lowLinks.get(parent.node) as number,
+            lowLinks.get(frame.node) as number,
+          ),
+        );
+      }
+      if (lowLinks.get(frame.node) === indexes.get(frame.node)) {
+        const component = new Set<string>();
+        let member: string | undefined;
+        do {
+          member = stack.pop() as string;
+          onStack.delete(member);
+          component.add(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+  return components;
+}
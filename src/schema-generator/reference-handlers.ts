@@ -1,5 +1,6 @@
 import type { ReferenceObject } from "openapi3-ts/oas31";
 
+import { getComponentSchemaName } from "./schema-references.js";
 import { sanitizeIdentifier } from "./utils.js";
 
 // Import from schema-converter to avoid circular dependencies
@@ -10,24 +11,24 @@ interface ZodSchemaResult {
 }
 
 /**
- * Handle $ref references
+ * Handle $ref references. References to the schemas of the reference cycle
+ * being converted are lazy, since they are not yet defined when evaluated.
+ * Other pointers are hoisted into component schemas when the document is
+ * loaded, so any left is an error.
  */
 export function handleReference(
   schema: ReferenceObject,
   result: ZodSchemaResult,
+  lazyReferences?: ReadonlySet<string>,
 ): ZodSchemaResult {
-  if ("$ref" in schema && schema.$ref) {
-    const ref = schema.$ref;
-    // Check if it's a local reference to components/schemas
-    if (ref.startsWith("#/components/schemas/")) {
-      const originalSchemaName = ref.replace("#/components/schemas/", "");
-      const schemaName: string = sanitizeIdentifier(originalSchemaName);
-      result.imports.add(schemaName);
-      result.code = schemaName;
-      return result;
-    }
+  const originalSchemaName = getComponentSchemaName(schema.$ref);
+  if (originalSchemaName === undefined) {
+    throw new Error(`Unresolved $ref pointer: ${schema.$ref}`);
   }
-  // For non-local refs or other cases, fall back to z.unknown()
-  result.code = "z.unknown()";
+  const schemaName: string = sanitizeIdentifier(originalSchemaName);
+  result.imports.add(schemaName);
+  result.code = lazyReferences?.has(schemaName)
+    ? `z.lazy(() => ${schemaName})`
+    : schemaName;
   return result;
 }
@@ -9,8 +9,15 @@ export type OpenAPISchema = ReferenceObject | SchemaObject;
  * Options for zodSchemaToCode function
  */
 export interface ZodSchemaCodeOptions {
+  /* Parse numbers and booleans from their string representation (headers,
+     parameters), array items and union members included */
+  coercePrimitives?: boolean;
+  /* Custom string and number formats, taking precedence over the built-in ones */
+  formats?: FormatRegistry;
   imports?: Set<string>;
   isTopLevel?: boolean;
+  /* Schemas of the reference cycle being converted, referenced through z.lazy() */
+  lazyReferences?: ReadonlySet<string>;
   strictValidation?: boolean;
 }
 
@@ -32,7 +39,10 @@ export interface ZodSchemaResult {
 }
 import { isSchemaObject } from "openapi3-ts/oas31";
 
+import type { FormatRegistry } from "./formats.js";
+
 import { handleRegularEnum } from "./enum-handlers.js";
+import { handleConditionalKeywords, handleConst } from "./keyword-handlers.js";
 import { handleObjectType } from "./object-types.js";
 import {
   handleArrayType,
@@ -50,6 +60,12 @@ import {
   mergeImports,
 } from "./utils.js";
 
+/* Options forwarded to the conversion of nested schemas */
+type ConversionOptions = Pick<
+  ZodSchemaCodeOptions,
+  "coercePrimitives" | "formats" | "lazyReferences" | "strictValidation"
+>;
+
 /**
  * Converts an OpenAPI schema object to Zod validation code
  */
@@ -57,53 +73,66 @@ export function zodSchemaToCode(
   schema: ReferenceObject | SchemaObject,
   options: ZodSchemaCodeOptions = {},
 ): ZodSchemaResult {
-  const { imports, strictValidation = false } = options;
+  const {
+    coercePrimitives,
+    formats,
+    imports,
+    lazyReferences,
+    strictValidation = false,
+  } = options;
   const result = createResult(imports);
+  const conversion = {
+    coercePrimitives,
+    formats,
+    lazyReferences,
+    strictValidation,
+  };
 
   /* References */
   if (!isSchemaObject(schema)) {
-    return handleReference(schema, result);
+    return handleReference(schema, result, lazyReferences);
+  }
+
+  /* Constant values, whatever their type */
+  if (schema.const !== undefined) {
+    result.code = handleConst(schema.const);
+    return result;
   }
 
   const effectiveType = inferEffectiveType(schema);
 
   /* Multi-type (array) declarations */
   if (Array.isArray(effectiveType)) {
-    return handleMultiTypeArray(
-      schema,
-      effectiveType,
-      result,
-      strictValidation,
-    );
+    return handleMultiTypeArray(schema, effectiveType, result, conversion);
   }
 
-  /* Non-string enums (string enums handled inside string primitive for extensibility) */
-  if (schema.enum && Array.isArray(schema.enum) && effectiveType !== "string") {
+  /* Non-string enums (string enums handled inside string primitive for extensibility,
+     coerced ones by their primitive to be parsed first) */
+  if (
+    schema.enum &&
+    Array.isArray(schema.enum) &&
+    effectiveType !== "string" &&
+    !(coercePrimitives && isCoercible(effectiveType))
+  ) {
     result.code = handleRegularEnum(schema.enum, schema.default);
     return result;
   }
 
   /* Nullable (OpenAPI 3.0) */
   if (isNullable(schema)) {
-    return handleNullableSchema(schema, result, strictValidation);
+    return handleNullableSchema(schema, result, conversion);
   }
 
-  /* Composition: allOf / anyOf / oneOf */
-  const composition = tryHandleCompositions(schema, result, strictValidation);
-  if (composition) return composition;
-
-  /* Primitives & structured */
-  const primitiveHandled = handlePrimitive(
-    schema,
-    effectiveType,
-    result,
-    strictValidation,
-  );
-  if (primitiveHandled) return primitiveHandled;
+  /* Composition: allOf / anyOf / oneOf, then primitives & structured */
+  const handled =
+    tryHandleCompositions(schema, result, conversion) ??
+    handlePrimitive(schema, effectiveType, result, conversion);
 
   /* Unknown fallback */
-  result.code = "z.unknown()";
-  return result;
+  if (!handled) result.code = "z.unknown()";
+
+  /* Applicators to the whole value: not / if-then-else */
+  return handleConditionalKeywords(schema, result, zodSchemaToCode, conversion);
 }
 
 /* Internal helper: creates an empty ZodSchemaResult reusing provided imports set when present */
@@ -116,14 +145,14 @@ function handleMultiTypeArray(
   schema: SchemaObject,
   effectiveType: string[],
   result: ZodSchemaResult,
-  strictValidation: boolean,
+  options: ConversionOptions,
 ): ZodSchemaResult {
   const { isNullable: hasNull, nonNullTypes } = analyzeTypeArray(effectiveType);
   if (nonNullTypes.length === 1 && hasNull) {
     const clone = { ...schema, type: nonNullTypes[0] };
     const subResult = zodSchemaToCode(clone as SchemaObject, {
+      ...options,
       imports: result.imports,
-      strictValidation,
     });
     result.code = `(${subResult.code}).nullable()`;
     mergeImports(result.imports, subResult.imports);
@@ -131,8 +160,8 @@ function handleMultiTypeArray(
   }
   const subResults = effectiveType.map((t: string) =>
     zodSchemaToCode({ ...schema, type: t } as SchemaObject, {
+      ...options,
       imports: result.imports,
-      strictValidation,
     }),
   );
   const schemas = subResults.map((r) => r.code);
@@ -145,12 +174,12 @@ function handleMultiTypeArray(
 function handleNullableSchema(
   schema: SchemaObject,
   result: ZodSchemaResult,
-  strictValidation: boolean,
+  options: ConversionOptions,
 ): ZodSchemaResult {
   const clone = cloneWithoutNullable(schema);
   const subResult = zodSchemaToCode(clone, {
+    ...options,
     imports: result.imports,
-    strictValidation,
   });
   result.code = `(${subResult.code}).nullable()`;
   mergeImports(result.imports, subResult.imports);
@@ -162,36 +191,43 @@ function handlePrimitive(
   schema: SchemaObject,
   effectiveType: string | undefined,
   result: ZodSchemaResult,
-  strictValidation: boolean,
+  options: ConversionOptions,
 ): undefined | ZodSchemaResult {
-  if (effectiveType === "string") return handleStringType(schema, result);
+  if (effectiveType === "string") {
+    return handleStringType(schema, result, options);
+  }
   if (effectiveType === "number" || effectiveType === "integer") {
-    return handleNumberType(schema, result);
+    return handleNumberType(schema, result, options);
+  }
+  if (effectiveType === "boolean") {
+    return handleBooleanType(schema, result, options);
   }
-  if (effectiveType === "boolean") return handleBooleanType(schema, result);
   if (effectiveType === "array") {
-    return handleArrayType(schema, result, zodSchemaToCode, {
-      strictValidation,
-    });
+    return handleArrayType(schema, result, zodSchemaToCode, options);
   }
   if (effectiveType === "object") {
-    return handleObjectType(schema, result, zodSchemaToCode, {
-      strictValidation,
-    });
+    return handleObjectType(schema, result, zodSchemaToCode, options);
   }
   return undefined;
 }
 
+/* Internal helper: whether a type is parsed from strings by coercePrimitives */
+function isCoercible(effectiveType: string | undefined): boolean {
+  return (
+    effectiveType === "boolean" ||
+    effectiveType === "integer" ||
+    effectiveType === "number"
+  );
+}
+
 /* Internal helper: handles composition (allOf / anyOf / oneOf). Returns result when handled, undefined otherwise */
 function tryHandleCompositions(
   schema: SchemaObject,
   result: ZodSchemaResult,
-  strictValidation: boolean,
+  options: ConversionOptions,
 ): undefined | ZodSchemaResult {
   if (schema.allOf) {
-    return handleAllOfSchema(schema.allOf, result, zodSchemaToCode, {
-      strictValidation,
-    });
+    return handleAllOfSchema(schema.allOf, result, zodSchemaToCode, options);
   }
   if (schema.anyOf) {
     return handleUnionSchema(
@@ -200,7 +236,7 @@ function tryHandleCompositions(
       result,
       zodSchemaToCode,
       schema.discriminator,
-      { strictValidation },
+      options,
     );
   }
   if (schema.oneOf) {
@@ -210,7 +246,7 @@ function tryHandleCompositions(
       result,
       zodSchemaToCode,
       schema.discriminator,
-      { strictValidation },
+      options,
     );
   }
   return undefined;
@@ -0,0 +1,55 @@
+import type {
+  OpenAPIObject,
+  ReferenceObject,
+  SchemaObject,
+} from "openapi3-ts/oas31";
+
+import { isReferenceObject } from "openapi3-ts/oas31";
+
+const COMPONENT_SCHEMA_PREFIX = "#/components/schemas/";
+
+/**
+ * Name of the component schema a reference points to, as written in the
+ * document. Undefined for any other pointer.
+ *
+ * @example
+ * ```javascript
+ * getComponentSchemaName("#/components/schemas/User"); // "User"
+ * getComponentSchemaName("#/components/parameters/Id"); // undefined
+ * ```
+ */
+export function getComponentSchemaName(ref: string): string | undefined {
+  return ref.startsWith(COMPONENT_SCHEMA_PREFIX)
+    ? ref.slice(COMPONENT_SCHEMA_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Follows component schema references until a schema object. Undefined when
+ * a reference is missing, points outside the component schemas or loops
+ * back (A → B → A). References in `seen` count as already followed, so
+ * callers walking nested schemas can pass the ones of their current path.
+ *
+ * @example
+ * ```javascript
+ * resolveSchemaReference({ $ref: "#/components/schemas/Id" }, {
+ *   components: { schemas: { Id: { type: "integer" } } },
+ * });
+ * // { type: "integer" }
+ * ```
+ */
+export function resolveSchemaReference(
+  schema: ReferenceObject | SchemaObject | undefined,
+  doc: OpenAPIObject,
+  seen: ReadonlySet<string> = new Set(),
+): SchemaObject | undefined {
+  const followed = new Set(seen);
+  let current = schema;
+  while (current && isReferenceObject(current)) {
+    const name = getComponentSchemaName(current.$ref);
+    if (name === undefined || followed.has(current.$ref)) return undefined;
+    followed.add(current.$ref);
+    current = doc.components?.schemas?.[name];
+  }
+  return current;
+}
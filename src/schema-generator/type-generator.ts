@@ -0,0 +1,187 @@
+import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
+
+import { isSchemaObject } from "openapi3-ts/oas31";
+
+import { findFormat, type FormatRegistry } from "./formats.js";
+import { getComponentSchemaName } from "./schema-references.js";
+import {
+  analyzeTypeArray,
+  cloneWithoutNullable,
+  inferEffectiveType,
+  isNullable,
+  sanitizeIdentifier,
+} from "./utils.js";
+
+/**
+ * Converts an OpenAPI schema to the TypeScript type of the values parsed by
+ * its Zod schema. Recursive schemas are annotated with it, since z.infer
+ * cannot infer the type of a schema referencing itself.
+ *
+ * @example
+ * ```javascript
+ * schemaToTypeScript({
+ *   type: "object",
+ *   required: ["name"],
+ *   properties: {
+ *     name: { type: "string" },
+ *     children: { type: "array", items: { $ref: "#/components/schemas/Tree" } },
+ *   },
+ * });
+ * // '{ "name": string; "children"?: Tree[] }'
+ * ```
+ */
+export function schemaToTypeScript(
+  schema: ReferenceObject | SchemaObject,
+  formats: FormatRegistry = {},
+): string {
+  if (!isSchemaObject(schema)) {
+    const name = getComponentSchemaName(schema.$ref);
+    if (name === undefined) {
+      throw new Error(`Unresolved $ref pointer: ${schema.$ref}`);
+    }
+    return sanitizeIdentifier(name);
+  }
+
+  if (schema.const !== undefined) return constToTypeScript(schema.const);
+
+  const effectiveType = inferEffectiveType(schema);
+  if (Array.isArray(effectiveType)) {
+    const { isNullable: hasNull, nonNullTypes } =
+      analyzeTypeArray(effectiveType);
+    if (nonNullTypes.length === 1 && hasNull) {
+      return `${schemaToTypeScript({ ...schema, type: nonNullTypes[0] } as SchemaObject, formats)} | null`;
+    }
+    return effectiveType
+      .map((type) =>
+        schemaToTypeScript({ ...schema, type } as SchemaObject, formats),
+      )
+      .join(" | ");
+  }
+  if (schema.enum && Array.isArray(schema.enum) && effectiveType !== "string") {
+    return renderLiterals(schema.enum);
+  }
+  if (isNullable(schema)) {
+    return `${schemaToTypeScript(cloneWithoutNullable(schema), formats)} | null`;
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.length === 0
+      ? "unknown"
+      : schema.allOf.map((member) => wrapType(member, formats)).join(" & ");
+  }
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union) {
+    return union.length === 0
+      ? "unknown"
+      : union.map((member) => wrapType(member, formats)).join(" | ");
+  }
+
+  return primitiveToTypeScript(schema, effectiveType, formats);
+}
+
+/* Type of the only value accepted by a const */
+function constToTypeScript(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(constToTypeScript).join(", ")}]`;
+  }
+  if (value && typeof value === "object") {
+    const members = Object.entries(value).map(
+      ([key, property]) =>
+        `${JSON.stringify(key)}: ${constToTypeScript(property)}`,
+    );
+    return `{ ${members.join("; ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/* Object type with optional properties for the non-required ones */
+function objectToTypeScript(
+  schema: SchemaObject,
+  formats: FormatRegistry,
+): string {
+  const required = schema.required ?? [];
+  const members = Object.entries(schema.properties ?? {}).map(
+    ([key, property]) =>
+      `${JSON.stringify(key)}${required.includes(key) ? "" : "?"}: ${schemaToTypeScript(property, formats)}`,
+  );
+  const shape = `{ ${members.join("; ")} }`;
+  if (!schema.additionalProperties) return shape;
+  const additional =
+    typeof schema.additionalProperties === "boolean"
+      ? "unknown"
+      : schemaToTypeScript(schema.additionalProperties, formats);
+  const record = `Record<string, ${additional}>`;
+  return members.length > 0 ? `${shape} & ${record}` : record;
+}
+
+/* Primitive and structured types, unknown when the type cannot be inferred */
+function primitiveToTypeScript(
+  schema: SchemaObject,
+  effectiveType: string | undefined,
+  formats: FormatRegistry,
+): string {
+  switch (effectiveType) {
+    case "array":
+      if (schema.prefixItems || (schema.items as unknown) === false) {
+        return tupleToTypeScript(schema, formats);
+      }
+      return schema.items
+        ? `${wrapType(schema.items, formats)}[]`
+        : "unknown[]";
+    case "boolean":
+    case "integer":
+    case "number":
+      if (schema.enum?.length) return renderLiterals(schema.enum);
+      if (effectiveType === "boolean") return "boolean";
+      return findFormat(schema, formats)?.type ?? "number";
+    case "object":
+      return objectToTypeScript(schema, formats);
+    case "string":
+      return stringToTypeScript(schema, formats);
+    default:
+      return "unknown";
+  }
+}
+
+function renderLiterals(values: unknown[]): string {
+  return values.map((value) => JSON.stringify(value)).join(" | ");
+}
+
+/* String type, narrowed by enums and formats */
+function stringToTypeScript(
+  schema: SchemaObject,
+  formats: FormatRegistry,
+): string {
+  if (schema.format === "binary") return "Blob";
+  const extensibleEnum = schema["x-extensible-enum"];
+  if (Array.isArray(extensibleEnum)) {
+    return `${renderLiterals(extensibleEnum)} | (string & {})`;
+  }
+  if (schema.enum?.length) return renderLiterals(schema.enum);
+  return findFormat(schema, formats)?.type ?? "string";
+}
+
+/* Tuple type of the prefixItems, the first minItems ones being required */
+function tupleToTypeScript(
+  schema: SchemaObject,
+  formats: FormatRegistry,
+): string {
+  const minItems = schema.minItems ?? 0;
+  const elements = (schema.prefixItems ?? []).map(
+    (item, index) => `${wrapType(item, formats)}${index < minItems ? "" : "?"}`,
+  );
+  if ((schema.items as unknown) !== false) {
+    const rest = schema.items ? wrapType(schema.items, formats) : "unknown";
+    elements.push(`...${rest}[]`);
+  }
+  return `[${elements.join(", ")}]`;
+}
+
+/* Parenthesizes a type so that it can be combined with others */
+function wrapType(
+  schema: ReferenceObject | SchemaObject,
+  formats: FormatRegistry,
+): string {
+  const type = schemaToTypeScript(schema, formats);
+  return /^[\w.]+(\[\])*$/.test(type) ? type : `(${type})`;
+}
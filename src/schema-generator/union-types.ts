@@ -1,5 +1,7 @@
 import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
 
+import type { FormatRegistry } from "./formats.js";
+
 import { mergeImports } from "./utils.js";
 
 /**
@@ -16,8 +18,10 @@ export interface DiscriminatorConfig {
 export type UnionType = "anyOf" | "oneOf";
 
 interface ZodSchemaCodeOptions {
+  formats?: FormatRegistry;
   imports?: Set<string>;
   isTopLevel?: boolean;
+  lazyReferences?: ReadonlySet<string>;
   strictValidation?: boolean;
 }
 
@@ -38,11 +42,13 @@ export function handleAllOfSchema(
     schema: ReferenceObject | SchemaObject,
     options?: ZodSchemaCodeOptions,
   ) => ZodSchemaResult,
-  options: { strictValidation?: boolean } = {},
+  options: Pick<
+    ZodSchemaCodeOptions,
+    "formats" | "lazyReferences" | "strictValidation"
+  > = {},
 ): ZodSchemaResult {
-  const { strictValidation = false } = options;
   const subResults = schemas.map((s) =>
-    zodSchemaToCode(s, { imports: result.imports, strictValidation }),
+    zodSchemaToCode(s, { ...options, imports: result.imports }),
   );
   const schemaCodes = subResults.map((r) => r.code);
   subResults.forEach((r) => {
@@ -77,14 +83,16 @@ export function handleUnionSchema(
     options?: ZodSchemaCodeOptions,
   ) => ZodSchemaResult,
   discriminator?: DiscriminatorConfig,
-  options: { strictValidation?: boolean } = {},
+  options: Pick<
+    ZodSchemaCodeOptions,
+    "formats" | "lazyReferences" | "strictValidation"
+  > = {},
 ): ZodSchemaResult {
-  const { strictValidation = false } = options;
   // Check if discriminator is present for discriminated unions
   if (discriminator && discriminator.propertyName) {
     const discriminatorProperty = discriminator.propertyName;
     const subResults = schemas.map((s) =>
-      zodSchemaToCode(s, { imports: result.imports, strictValidation }),
+      zodSchemaToCode(s, { ...options, imports: result.imports }),
     );
     const schemasCodes = subResults.map((r) => r.code);
     subResults.forEach((r) => {
@@ -107,7 +115,7 @@ export function handleUnionSchema(
 
   // Regular union without discriminator
   const subResults = schemas.map((s) =>
-    zodSchemaToCode(s, { imports: result.imports, strictValidation }),
+    zodSchemaToCode(s, { ...options, imports: result.imports }),
   );
   const schemasCodes = subResults.map((r) => r.code);
   subResults.forEach((r) => {
@@ -127,24 +135,25 @@ export function handleUnionSchema(
     // anyOf: accepts values that match any of the schemas
     result.code = `z.union([${schemasCodes.join(", ")}])`;
   } else {
-    // oneOf: must match exactly one schema - use superRefine for validation
-    result.code = `z.any().superRefine((x, ctx) => {
-  const schemas = [${schemasCodes.join(", ")}];
-  const errors = schemas.reduce<z.ZodError[]>(
-    (errors, schema) =>
-      ((result) => (result.error ? [...errors, result.error] : errors))(
-        schema.safeParse(x),
-      ),
-    [],
-  );
-  if (schemas.length - errors.length !== 1) {
-    ctx.addIssue({
-      code: "invalid_union",
-      errors: errors.map(error => error.issues),
-      message: "Invalid input: Should pass exactly one schema",
-    });
-  }
-})`;
+    // oneOf: must match exactly one schema - use superRefine for validation,
+    // the options being kept in the metadata for the synthesizer
+    result.code = `((schemas: z.ZodType[]) =>
+  z.any().superRefine((x, ctx) => {
+    const errors = schemas.reduce<z.ZodError[]>(
+      (errors, schema) =>
+        ((result) => (result.error ? [...errors, result.error] : errors))(
+          schema.safeParse(x),
+        ),
+      [],
+    );
+    if (schemas.length - errors.length !== 1) {
+      ctx.addIssue({
+        code: "invalid_union",
+        errors: errors.map(error => error.issues),
+        message: "Invalid input: Should pass exactly one schema",
+      });
+    }
+  }).meta({ oneOf: schemas }))([${schemasCodes.join(", ")}])`;
   }
   return result;
 }
@@ -1,4 +1,4 @@
-import type { SchemaObject } from "openapi3-ts/oas31";
+import type { ReferenceObject, SchemaObject } from "openapi3-ts/oas31";
 
 /**
  * Effective type after resolving union types and inference
@@ -13,6 +13,22 @@ export type EffectiveType =
   | string[]
   | undefined;
 
+/**
+ * Schema object along with the JSON Schema 2020-12 keywords missing from its
+ * OpenAPI 3.1 typings
+ */
+export type JsonSchemaObject = SchemaObject & {
+  contains?: ReferenceObject | SchemaObject;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, ReferenceObject | SchemaObject>;
+  else?: ReferenceObject | SchemaObject;
+  if?: ReferenceObject | SchemaObject;
+  maxContains?: number;
+  minContains?: number;
+  patternProperties?: Record<string, ReferenceObject | SchemaObject>;
+  then?: ReferenceObject | SchemaObject;
+};
+
 /**
  * Add default value to zod code if present in schema
  */
@@ -59,12 +75,16 @@ export function cloneWithoutNullable(schema: SchemaObject): SchemaObject {
 /**
  * Determine the type of a schema when it's not explicitly defined
  */
-export function inferEffectiveType(schema: SchemaObject): EffectiveType {
+export function inferEffectiveType(schema: JsonSchemaObject): EffectiveType {
   let effectiveType = schema.type as EffectiveType;
   if (!effectiveType) {
-    if (schema.properties || schema.additionalProperties) {
+    if (
+      schema.properties ||
+      schema.additionalProperties ||
+      schema.patternProperties
+    ) {
       effectiveType = "object";
-    } else if (schema.items) {
+    } else if (schema.items || schema.prefixItems) {
       effectiveType = "array";
     }
   }
@@ -1,18 +1,45 @@
-import { promises as fs } from "fs";
-import path from "path";
 import prettier from "prettier";
 
 import type { OperationMetadata } from "../client-generator/operation-extractor.js";
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+
+import {
+  renderAdapterCommon,
+  renderExpressAdapter,
+  renderFastifyAdapter,
+  renderHonoAdapter,
+  renderKoaAdapter,
+  renderNodeHttpAdapter,
+} from "./templates/adapter-templates.js";
+import { renderRouter } from "./templates/router-templates.js";
+import { renderServerRuntime } from "./templates/runtime-templates.js";
+
+/* Server files are written below this directory of the output */
+const SERVER_DIR = "server";
 
 /**
- * Creates server operations directory structure
+ * Writes the framework adapters mounting every server wrapper
  */
-export async function createServerOperationsDirectory(
-  outputDir: string,
-): Promise<string> {
-  const serverOperationsDir = path.join(outputDir, "server");
-  await fs.mkdir(serverOperationsDir, { recursive: true });
-  return serverOperationsDir;
+export async function writeServerAdapterFiles(
+  output: GenerationOutput,
+): Promise<void> {
+  const adapters: [string, string][] = [
+    ["common", renderAdapterCommon()],
+    ["express", renderExpressAdapter()],
+    ["fastify", renderFastifyAdapter()],
+    ["hono", renderHonoAdapter()],
+    ["koa", renderKoaAdapter()],
+    ["node-http", renderNodeHttpAdapter()],
+  ];
+  for (const [name, code] of adapters) {
+    const formatted = await prettier.format(code, {
+      parser: "typescript",
+      semi: true,
+      singleQuote: false,
+      trailingComma: "all",
+    });
+    await output.writeFile(`${SERVER_DIR}/adapters/${name}.ts`, formatted);
+  }
 }
 
 /**
@@ -20,7 +47,7 @@ export async function createServerOperationsDirectory(
  */
 export async function writeServerIndexFile(
   operations: OperationMetadata[],
-  serverOperationsDir: string,
+  output: GenerationOutput,
 ): Promise<void> {
   const exports = operations
     .map(
@@ -29,7 +56,14 @@ export async function writeServerIndexFile(
     )
     .join("\n");
 
-  const indexContent = `/* Server operation wrappers */
+  const indexContent = `${operations
+    .map(
+      ({ operationId }) =>
+        `import { route as ${operationId}Route, type ${operationId}Handler } from "./${operationId}.js";`,
+    )
+    .join("\n")}
+
+/* Server operation wrappers */
 ${exports}
 
 /* Re-export all handlers */
@@ -39,6 +73,16 @@ ${operations
       `export type { ${operationId}Handler } from "./${operationId}.js";`,
   )
   .join("\n")}
+
+/* Routes of every operation, keyed by operation id */
+export const routes = {
+${operations.map(({ operationId }) => `  ${operationId}: ${operationId}Route(),`).join("\n")}
+} as const;
+
+/* Handlers of every operation, keyed by operation id */
+export type ServerHandlers = {
+${operations.map(({ operationId }) => `  ${operationId}: ${operationId}Handler;`).join("\n")}
+};
 `;
 
   const formatted = await prettier.format(indexContent, {
@@ -48,8 +92,7 @@ ${operations
     trailingComma: "all",
   });
 
-  const filePath = path.join(serverOperationsDir, "index.ts");
-  await fs.writeFile(filePath, formatted);
+  await output.writeFile(`${SERVER_DIR}/index.ts`, formatted);
 }
 
 /**
@@ -59,12 +102,16 @@ export async function writeServerOperationFile(
   operationId: string,
   wrapperCode: string,
   typeImports: Set<string>,
-  serverOperationsDir: string,
+  output: GenerationOutput,
+  formatImports = new Set<string>(),
 ): Promise<void> {
-  /* Add schema imports */
-  const imports = Array.from(typeImports)
-    .map((imp) => `import { ${imp} } from "../schemas/${imp}.js";`)
-    .join("\n");
+  /* Add schema and custom format imports */
+  const imports = [
+    ...Array.from(typeImports).map(
+      (imp) => `import { ${imp} } from "../schemas/${imp}.js";`,
+    ),
+    ...formatImports,
+  ].join("\n");
 
   const fullCode = imports ? `${imports}\n\n${wrapperCode}` : wrapperCode;
 
@@ -76,6 +123,37 @@ export async function writeServerOperationFile(
     trailingComma: "all",
   });
 
-  const filePath = path.join(serverOperationsDir, `${operationId}.ts`);
-  await fs.writeFile(filePath, formatted);
+  await output.writeFile(`${SERVER_DIR}/${operationId}.ts`, formatted);
+}
+
+/**
+ * Writes the router dispatching requests to every server wrapper
+ */
+export async function writeServerRouterFile(
+  output: GenerationOutput,
+): Promise<void> {
+  const formatted = await prettier.format(renderRouter(), {
+    parser: "typescript",
+    semi: true,
+    singleQuote: false,
+    trailingComma: "all",
+  });
+
+  await output.writeFile(`${SERVER_DIR}/router.ts`, formatted);
+}
+
+/**
+ * Writes the runtime helpers shared by the server wrappers
+ */
+export async function writeServerRuntimeFile(
+  output: GenerationOutput,
+): Promise<void> {
+  const formatted = await prettier.format(renderServerRuntime(), {
+    parser: "typescript",
+    semi: true,
+    singleQuote: false,
+    trailingComma: "all",
+  });
+
+  await output.writeFile(`${SERVER_DIR}/runtime.ts`, formatted);
 }
@@ -2,36 +2,60 @@ import type { OpenAPIObject } from "openapi3-ts/oas31";
 
 import pLimit from "p-limit";
 
+import type { GenerationOutput } from "../core-generator/file-writer.js";
+import type { FormatRegistry } from "../schema-generator/formats.js";
+
 import {
   extractAllOperations,
   type OperationMetadata,
 } from "../client-generator/operation-extractor.js";
 import {
-  createServerOperationsDirectory,
+  writeServerAdapterFiles,
   writeServerIndexFile,
   writeServerOperationFile,
+  writeServerRouterFile,
+  writeServerRuntimeFile,
 } from "./file-writer.js";
 import { generateServerOperationWrapper } from "./operation-wrapper-generator.js";
 
+/**
+ * Options for server wrapper generation
+ */
+export interface GenerateServerOperationsOptions {
+  /* Custom string and number formats of the parameter and header schemas */
+  formats?: FormatRegistry;
+  /* When set, only the listed operations are (re)written */
+  operationIds?: ReadonlySet<string>;
+}
+
 /**
  * Generates server endpoint wrappers for all operations
  */
 export async function generateServerOperations(
   doc: OpenAPIObject,
-  outputDir: string,
+  output: GenerationOutput,
   concurrency: number,
+  options: GenerateServerOperationsOptions = {},
 ): Promise<void> {
-  const serverOperationsDir = await createServerOperationsDirectory(outputDir);
-
   // Process all operations and write server wrapper files
   const operations = await processServerOperations(
     doc,
-    serverOperationsDir,
+    output,
     concurrency,
+    options,
   );
 
+  // Write the runtime helpers imported by the wrappers
+  await writeServerRuntimeFile(output);
+
   // Write index file that exports all server wrappers
-  await writeServerIndexFile(operations, serverOperationsDir);
+  await writeServerIndexFile(operations, output);
+
+  // Write the router dispatching requests to the whole index
+  await writeServerRouterFile(output);
+
+  // Write the framework adapters mounting the whole index
+  await writeServerAdapterFiles(output);
 }
 
 /**
@@ -39,8 +63,9 @@ export async function generateServerOperations(
  */
 async function processServerOperations(
   doc: OpenAPIObject,
-  serverOperationsDir: string,
+  output: GenerationOutput,
   concurrency: number,
+  options: GenerateServerOperationsOptions,
 ): Promise<OperationMetadata[]> {
   const operations = extractAllOperations(doc);
   const limit = pLimit(concurrency);
@@ -53,20 +78,27 @@ async function processServerOperations(
     pathKey,
     pathLevelParameters,
   } of operations) {
+    if (options.operationIds && !options.operationIds.has(operationId)) {
+      continue;
+    }
+
     const promise = limit(async () => {
-      const { typeImports, wrapperCode } = generateServerOperationWrapper(
-        pathKey,
-        method,
-        operation,
-        pathLevelParameters,
-        doc,
-      );
+      const { formatImports, typeImports, wrapperCode } =
+        generateServerOperationWrapper(
+          pathKey,
+          method,
+          operation,
+          pathLevelParameters,
+          doc,
+          options.formats,
+        );
 
       await writeServerOperationFile(
         operationId,
         wrapperCode,
         typeImports,
-        serverOperationsDir,
+        output,
+        formatImports,
       );
     });
     operationPromises.push(promise);
@@ -7,19 +7,28 @@ import type {
 
 import assert from "assert";
 
+import type { FormatRegistry } from "../schema-generator/formats.js";
+import type { ParameterSerialization } from "../shared/parameter-serialization.js";
+import type { ResponseHeadersResult } from "../shared/response-headers.js";
+
 import { extractOperationMetadata } from "../client-generator/operation-function-generator.js";
 import { extractParameterGroups } from "../client-generator/parameters.js"; /* Kept for ServerOperationMetadata type compatibility */
 import { resolveRequestBodyType } from "../client-generator/request-body.js"; /* Kept for ServerOperationMetadata type compatibility */
 import { generateContentTypeMaps } from "../client-generator/responses.js"; /* Kept for ServerOperationMetadata type compatibility */
+import { getOperationCredentialRequirements } from "../client-generator/security.js";
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
+import { generateResponseHeaderSchemas } from "../shared/response-headers.js";
 import {
   buildServerRequestMap,
   buildServerResponseMap,
+  buildServerResponseSchemas,
   renderServerOperationWrapper,
 } from "./templates/server-operation-templates.js";
 
 /* Result of generating a server wrapper function with imports */
 export interface GeneratedServerWrapper {
+  /* Import declarations of the custom formats used by the inline schemas */
+  formatImports: Set<string>;
   typeImports: Set<string>;
   wrapperCode: string;
 }
@@ -41,6 +50,9 @@ export interface ServerOperationMetadata {
   operation: OperationObject;
   operationId: string;
   parameterGroups: ReturnType<typeof extractParameterGroups>;
+  /* Schemas of the headers declared by each response status */
+  responseHeaders: ResponseHeadersResult;
+  styledParameters: ParameterSerialization[];
   summary?: string;
 }
 
@@ -53,6 +65,7 @@ export function extractServerOperationMetadata(
   operation: OperationObject,
   pathLevelParameters: (ParameterObject | ReferenceObject)[] = [],
   doc: OpenAPIObject,
+  formats: FormatRegistry = {},
 ): ServerOperationMetadata {
   assert(operation.operationId, "Operation ID is required");
   const operationId = operation.operationId;
@@ -100,6 +113,13 @@ export function extractServerOperationMetadata(
     operation,
     operationId,
     parameterGroups,
+    responseHeaders: generateResponseHeaderSchemas(
+      operation,
+      operationId,
+      doc,
+      formats,
+    ),
+    styledParameters: clientMeta.styledParameters,
     summary: operation.summary?.trim(),
   };
 }
@@ -113,6 +133,7 @@ export function generateServerOperationWrapper(
   operation: OperationObject,
   pathLevelParameters: (ParameterObject | ReferenceObject)[] = [],
   doc: OpenAPIObject,
+  formats: FormatRegistry = {},
 ): GeneratedServerWrapper {
   const metadata = extractServerOperationMetadata(
     pathKey,
@@ -120,9 +141,11 @@ export function generateServerOperationWrapper(
     operation,
     pathLevelParameters,
     doc,
+    formats,
   );
 
   const typeImports = new Set<string>();
+  const formatImports = new Set(metadata.responseHeaders.formatImports);
 
   /* Build request map if needed */
   const requestMapCode = metadata.bodyInfo.shouldGenerateRequestMap
@@ -132,8 +155,14 @@ export function generateServerOperationWrapper(
   /* Build response map */
   const responseMapCode = buildServerResponseMap(metadata, typeImports);
 
+  /* Build the response schemas validating handler responses */
+  const responseSchemasCode = buildServerResponseSchemas(metadata, typeImports);
+
   /* Render the complete wrapper function */
   const wrapperCode = renderServerOperationWrapper({
+    credentialRequirements: getOperationCredentialRequirements(operation, doc),
+    formatImports,
+    formats,
     functionName: metadata.functionName,
     hasBody: metadata.bodyInfo.hasBody,
     method: method.toLowerCase(),
@@ -144,11 +173,14 @@ export function generateServerOperationWrapper(
     requestMapTypeName: metadata.bodyInfo.requestMapTypeName,
     responseMapCode,
     responseMapTypeName: metadata.bodyInfo.responseMapTypeName,
+    responseSchemasCode,
+    styledParameters: metadata.styledParameters,
     summary: metadata.summary,
     typeImports,
   });
 
   return {
+    formatImports,
     typeImports,
     wrapperCode,
   };
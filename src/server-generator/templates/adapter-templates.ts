@@ -0,0 +1,589 @@
+/* Framework adapters mounting the generated server wrappers */
+
+/*
+ * Adapters only rely on structural subsets of the framework APIs, so that the
+ * generated code compiles without depending on any of the frameworks.
+ */
+
+/**
+ * Renders the framework agnostic helpers shared by the adapters
+ * (server/adapters/common.ts)
+ */
+export function renderAdapterCommon(): string {
+  return `/* Framework agnostic helpers shared by the server adapters */
+
+import type { OperationResponse, RouteBinding } from "../router.js";
+
+/* Subset of the Node.js response (http.ServerResponse) written by the adapters */
+export interface NodeResponseLike {
+  end(body?: string | Uint8Array): unknown;
+  setHeader(name: string, value: readonly string[] | string): unknown;
+  statusCode: number;
+}
+
+/* Serialized response body, with the content type it is sent as */
+export interface SerializedBody {
+  body?: string | Uint8Array;
+  contentType?: string;
+}
+
+${renderAdapterRouting()}
+
+${renderAdapterMessages()}
+`;
+}
+
+/**
+ * Renders the Express adapter (server/adapters/express.ts)
+ */
+export function renderExpressAdapter(): string {
+  return `/* Mounts the generated server wrappers on an Express application or router */
+
+import type { ServerHandlers } from "../index.js";
+import type { ServerWrapperOptions } from "../runtime.js";
+
+import { bindRoutes } from "../router.js";
+import {
+  fromColonParams,
+  type NodeResponseLike,
+  normalizeContentType,
+  writeNodeResponse,
+} from "./common.js";
+
+/* Subset of the Express request read by the adapter (body parsed by middlewares) */
+export interface ExpressRequestLike {
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  params: unknown;
+  query: unknown;
+}
+
+/* Route handler registered on the Express application */
+export type ExpressRouteHandler = (
+  req: ExpressRequestLike,
+  res: NodeResponseLike,
+  next: (error?: unknown) => void,
+) => void;
+
+/* Subset of the Express application (or router) used to register routes */
+export interface ExpressRouterLike {
+  delete(path: string, handler: ExpressRouteHandler): unknown;
+  get(path: string, handler: ExpressRouteHandler): unknown;
+  head(path: string, handler: ExpressRouteHandler): unknown;
+  options(path: string, handler: ExpressRouteHandler): unknown;
+  patch(path: string, handler: ExpressRouteHandler): unknown;
+  post(path: string, handler: ExpressRouteHandler): unknown;
+  put(path: string, handler: ExpressRouteHandler): unknown;
+}
+
+/*
+ * Registers a route for every operation. Request bodies are read from
+ * req.body, so body parsing middlewares (e.g. express.json()) must be
+ * installed. Handler errors are forwarded to the Express error handlers.
+ */
+export function mountExpress(
+  app: ExpressRouterLike,
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): void {
+  for (const route of bindRoutes(handlers, options)) {
+    const method = route.method.toLowerCase() as keyof ExpressRouterLike;
+    if (typeof app[method] !== "function") continue;
+    app[method](toExpressPath(route.path), (req, res, next) => {
+      route
+        .handle({
+          body: req.body,
+          contentType: normalizeContentType(req.headers["content-type"]),
+          headers: req.headers,
+          path: fromColonParams(route.pathParameters, req.params),
+          query: req.query,
+        })
+        .then((response) => writeNodeResponse(res, response))
+        .catch(next);
+    });
+  }
+}
+
+/* Express 5 reserves some characters in paths, they are escaped */
+function toExpressPath(path: string): string {
+  let index = 0;
+  return path
+    .replace(/[()[\\]?+!*:]/g, "\\\\$&")
+    .replace(/\\{[^}]+\\}/g, () => ":param" + index++);
+}
+`;
+}
+
+/**
+ * Renders the Fastify adapter (server/adapters/fastify.ts)
+ */
+export function renderFastifyAdapter(): string {
+  return `/* Mounts the generated server wrappers on a Fastify instance */
+
+import type { ServerHandlers } from "../index.js";
+import type { ServerWrapperOptions } from "../runtime.js";
+
+import { bindRoutes } from "../router.js";
+import {
+  fromColonParams,
+  normalizeContentType,
+  responseHeaderEntries,
+  serializeResponseBody,
+  toColonPath,
+} from "./common.js";
+
+/* Subset of the Fastify reply written by the adapter */
+export interface FastifyReplyLike {
+  code(statusCode: number): unknown;
+  header(name: string, value: readonly string[] | string): unknown;
+  send(payload?: string | Uint8Array): unknown;
+}
+
+/* Subset of the Fastify request read by the adapter */
+export interface FastifyRequestLike {
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  params: unknown;
+  query: unknown;
+}
+
+/* Subset of the Fastify instance used to register routes */
+export interface FastifyInstanceLike {
+  route(options: {
+    handler: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+    ) => Promise<unknown>;
+    method: string;
+    url: string;
+  }): unknown;
+}
+
+/*
+ * Registers a route for every operation. Request bodies are parsed by the
+ * Fastify content type parsers, handler errors reach the Fastify error handler.
+ */
+export function mountFastify(
+  fastify: FastifyInstanceLike,
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): void {
+  for (const route of bindRoutes(handlers, options)) {
+    fastify.route({
+      handler: async (request, reply) => {
+        const response = await route.handle({
+          body: request.body,
+          contentType: normalizeContentType(request.headers["content-type"]),
+          headers: request.headers,
+          path: fromColonParams(route.pathParameters, request.params),
+          query: request.query,
+        });
+        const { body, contentType } = await serializeResponseBody(response);
+        reply.code(response.status);
+        if (contentType) reply.header("content-type", contentType);
+        for (const [name, value] of responseHeaderEntries(response)) {
+          reply.header(name, value);
+        }
+        return reply.send(body);
+      },
+      method: route.method,
+      url: toColonPath(route),
+    });
+  }
+}
+`;
+}
+
+/**
+ * Renders the Hono adapter (server/adapters/hono.ts)
+ */
+export function renderHonoAdapter(): string {
+  return `/* Mounts the generated server wrappers on a Hono application */
+
+import type { ServerHandlers } from "../index.js";
+import type { ServerWrapperOptions } from "../runtime.js";
+
+import { bindRoutes } from "../router.js";
+import {
+  fromColonParams,
+  normalizeContentType,
+  parseQueryString,
+  parseRequestBody,
+  toColonPath,
+  toFetchResponse,
+} from "./common.js";
+
+/* Subset of the Hono context read by the adapter */
+export interface HonoContextLike {
+  req: {
+    param(): Record<string, string>;
+    raw: Request;
+  };
+}
+
+/* Subset of the Hono application used to register routes */
+export interface HonoLike {
+  on(
+    method: string,
+    path: string,
+    handler: (c: HonoContextLike) => Promise<Response>,
+  ): unknown;
+}
+
+/*
+ * Registers a route for every operation. The adapter only relies on the
+ * Fetch API, so it runs on every runtime supported by Hono.
+ */
+export function mountHono(
+  app: HonoLike,
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): void {
+  for (const route of bindRoutes(handlers, options)) {
+    app.on(route.method, toColonPath(route), async (c) => {
+      const request = c.req.raw;
+      const contentType = normalizeContentType(
+        request.headers.get("content-type") ?? undefined,
+      );
+      const bytes = new Uint8Array(await request.arrayBuffer());
+      const response = await route.handle({
+        body: parseRequestBody(bytes, contentType),
+        contentType,
+        headers: Object.fromEntries(request.headers),
+        path: fromColonParams(route.pathParameters, c.req.param()),
+        query: parseQueryString(new URL(request.url).search),
+      });
+      return toFetchResponse(response);
+    });
+  }
+}
+`;
+}
+
+/**
+ * Renders the Koa adapter (server/adapters/koa.ts)
+ */
+export function renderKoaAdapter(): string {
+  return `/* Koa middleware serving the generated server wrappers */
+
+import type { ServerHandlers } from "../index.js";
+import type { ServerWrapperOptions } from "../runtime.js";
+
+import { createRouter } from "../router.js";
+import {
+  normalizeContentType,
+  parseRequestBody,
+  readRequestBody,
+  responseHeaderEntries,
+  serializeResponseBody,
+} from "./common.js";
+
+/* Subset of the Koa context used by the middleware */
+export interface KoaContextLike {
+  body: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  method: string;
+  path: string;
+  query: unknown;
+  req: AsyncIterable<unknown>;
+  request: { body?: unknown };
+  set(name: string, value: readonly string[] | string): void;
+  status: number;
+}
+
+/*
+ * Creates a middleware routing requests to the operation wrappers. Requests
+ * matching no operation path are passed to the next middleware, those with
+ * an unsupported method get a 405 response. Bodies already
+ * parsed by a body parser (ctx.request.body) are used, otherwise the raw
+ * request body is read and parsed according to its content type.
+ */
+export function createKoaMiddleware(
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<unknown> {
+  const router = createRouter(handlers, options);
+  return async (ctx, next) => {
+    const match = router.match(ctx.method, ctx.path);
+    if (match.kind === "not-found") return next();
+    if (match.kind === "method-not-allowed") {
+      ctx.status = 405;
+      ctx.set("allow", match.allow.join(", "));
+      ctx.body = "";
+      return;
+    }
+    const contentType = normalizeContentType(ctx.headers["content-type"]);
+    const body =
+      ctx.request.body !== undefined
+        ? ctx.request.body
+        : parseRequestBody(await readRequestBody(ctx.req), contentType);
+    const response = await match.route.handle({
+      body,
+      contentType,
+      headers: ctx.headers,
+      path: match.path,
+      query: ctx.query,
+    });
+    const serialized = await serializeResponseBody(response);
+    ctx.status = response.status;
+    if (serialized.contentType) ctx.set("content-type", serialized.contentType);
+    for (const [name, value] of responseHeaderEntries(response)) {
+      ctx.set(name, value);
+    }
+    /* Koa sends Buffers as they are and turns a missing body into a 204 */
+    ctx.body =
+      serialized.body instanceof Uint8Array
+        ? Buffer.from(serialized.body)
+        : (serialized.body ?? "");
+  };
+}
+`;
+}
+
+/**
+ * Renders the node:http adapter (server/adapters/node-http.ts)
+ */
+export function renderNodeHttpAdapter(): string {
+  return `/* node:http request listener serving the generated server wrappers */
+
+import type { ServerHandlers } from "../index.js";
+import type { ServerWrapperOptions } from "../runtime.js";
+
+import { createRouter } from "../router.js";
+import {
+  type NodeResponseLike,
+  normalizeContentType,
+  parseQueryString,
+  parseRequestBody,
+  readRequestBody,
+  writeNodeResponse,
+} from "./common.js";
+
+/* Subset of the Node.js request (http.IncomingMessage) read by the listener */
+export interface NodeRequestLike extends AsyncIterable<unknown> {
+  headers: Record<string, string | string[] | undefined>;
+  method?: string;
+  url?: string;
+}
+
+/*
+ * Creates a request listener for http.createServer(). Requests matching no
+ * operation path get a 404, those with an unsupported method a 405 and
+ * handler errors a 500 response.
+ */
+export function createNodeHttpHandler(
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): (req: NodeRequestLike, res: NodeResponseLike) => Promise<void> {
+  const router = createRouter(handlers, options);
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      const contentType = normalizeContentType(req.headers["content-type"]);
+      const response = await router.dispatch({
+        body: parseRequestBody(await readRequestBody(req), contentType),
+        contentType,
+        headers: req.headers,
+        method: req.method ?? "GET",
+        pathname: url.pathname,
+        query: parseQueryString(url.search),
+      });
+      await writeNodeResponse(res, response);
+    } catch {
+      res.statusCode = 500;
+      res.end();
+    }
+  };
+}
+`;
+}
+
+/*
+ * Renders the request parsing and response serialization helpers of the
+ * adapters
+ */
+function renderAdapterMessages(): string {
+  return `/* Strips the parameters of a content type header (e.g. charset) */
+export function normalizeContentType(
+  contentType: string | string[] | undefined,
+): string | undefined {
+  const value = Array.isArray(contentType) ? contentType[0] : contentType;
+  return value?.split(";")[0].trim().toLowerCase() || undefined;
+}
+
+/* Parses a raw request body according to its media type */
+export function parseRequestBody(
+  bytes: Uint8Array,
+  contentType: string | undefined,
+): unknown {
+  if (bytes.byteLength === 0) return undefined;
+  if (contentType === "application/json" || contentType?.endsWith("+json")) {
+    const text = new TextDecoder().decode(bytes);
+    try {
+      return JSON.parse(text);
+    } catch {
+      /* Left to the body schema validation of the wrapper */
+      return text;
+    }
+  }
+  if (contentType === "application/x-www-form-urlencoded") {
+    return Object.fromEntries(new URLSearchParams(new TextDecoder().decode(bytes)));
+  }
+  if (contentType?.startsWith("text/")) return new TextDecoder().decode(bytes);
+  return bytes;
+}
+
+/*
+ * Parses a query string, repeated keys are collected into arrays. The query
+ * has no prototype, so that keys like __proto__ stay plain properties.
+ */
+export function parseQueryString(
+  search: string,
+): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = Object.create(null);
+  for (const [key, value] of new URLSearchParams(search)) {
+    const current = Object.hasOwn(query, key) ? query[key] : undefined;
+    query[key] =
+      current === undefined
+        ? value
+        : Array.isArray(current)
+          ? [...current, value]
+          : [current, value];
+  }
+  return query;
+}
+
+/* Reads a request body stream (e.g. http.IncomingMessage) */
+export async function readRequestBody(
+  stream: AsyncIterable<unknown>,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stream) {
+    chunks.push(
+      typeof chunk === "string"
+        ? new TextEncoder().encode(chunk)
+        : (chunk as Uint8Array),
+    );
+  }
+  const bytes = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.byteLength, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/* Lists the response headers as strings, without undefined values */
+export function responseHeaderEntries(
+  response: OperationResponse,
+): [string, readonly string[] | string][] {
+  return Object.entries(response.headers ?? {}).flatMap(([name, value]) =>
+    value === undefined
+      ? []
+      : [[name, Array.isArray(value) ? value.map(String) : String(value)]],
+  );
+}
+
+/*
+ * Serializes the data of a wrapper response: strings and bytes are sent as
+ * they are, objects as JSON unless a form content type is declared
+ */
+export async function serializeResponseBody(
+  response: OperationResponse,
+): Promise<SerializedBody> {
+  const { contentType, data } = response;
+  if (data === undefined || data === null) return { contentType };
+  if (typeof data === "string") {
+    return { body: data, contentType: contentType ?? "text/plain" };
+  }
+  if (data instanceof Uint8Array) {
+    return { body: data, contentType: contentType ?? "application/octet-stream" };
+  }
+  if (data instanceof ArrayBuffer) {
+    return {
+      body: new Uint8Array(data),
+      contentType: contentType ?? "application/octet-stream",
+    };
+  }
+  if (data instanceof Blob) {
+    return {
+      body: new Uint8Array(await data.arrayBuffer()),
+      contentType: contentType ?? (data.type || "application/octet-stream"),
+    };
+  }
+  if (contentType === "application/x-www-form-urlencoded") {
+    const form = new URLSearchParams();
+    for (const [key, value] of Object.entries(data)) {
+      if (value !== undefined) form.append(key, String(value));
+    }
+    return { body: form.toString(), contentType };
+  }
+  return {
+    body: JSON.stringify(data),
+    contentType: contentType ?? "application/json",
+  };
+}
+
+/* Converts a wrapper response to a Fetch API response */
+export async function toFetchResponse(
+  response: OperationResponse,
+): Promise<Response> {
+  const { body, contentType } = await serializeResponseBody(response);
+  const headers = new Headers();
+  if (contentType) headers.set("content-type", contentType);
+  for (const [name, value] of responseHeaderEntries(response)) {
+    for (const item of [value].flat()) headers.append(name, item);
+  }
+  const isEmpty = [101, 204, 205, 304].includes(response.status);
+  return new Response(isEmpty ? null : body, {
+    headers,
+    status: response.status,
+  });
+}
+
+/* Writes a wrapper response to a Node.js response */
+export async function writeNodeResponse(
+  res: NodeResponseLike,
+  response: OperationResponse,
+): Promise<void> {
+  const { body, contentType } = await serializeResponseBody(response);
+  res.statusCode = response.status;
+  if (contentType) res.setHeader("content-type", contentType);
+  for (const [name, value] of responseHeaderEntries(response)) {
+    res.setHeader(name, value);
+  }
+  res.end(body);
+}`;
+}
+
+/*
+ * Renders the helpers mapping the colon paths of framework routers
+ */
+function renderAdapterRouting(): string {
+  return `/*
+ * Maps the positional parameters of a colon path back to their OpenAPI names.
+ * Framework routers decode them, so "%" is escaped back for the wrappers to
+ * decode them as they are (encoded delimiters can no longer be told apart).
+ */
+export function fromColonParams(
+  pathParameters: readonly string[],
+  params: unknown,
+): Record<string, string> {
+  const values = (params ?? {}) as Record<string, unknown>;
+  const path: Record<string, string> = {};
+  pathParameters.forEach((name, index) => {
+    const value = values["param" + index];
+    if (typeof value === "string") path[name] = value.replace(/%/g, "%25");
+  });
+  return path;
+}
+
+/* Converts an OpenAPI path template to the colon syntax of framework routers */
+export function toColonPath(route: RouteBinding): string {
+  let index = 0;
+  return route.path.replace(/\\{[^}]+\\}/g, () => ":param" + index++);
+}`;
+}
@@ -0,0 +1,186 @@
+/* Framework agnostic router of the generated server wrappers */
+
+/**
+ * Renders the router module (server/router.ts), dispatching requests to the
+ * handler of the operation matching their method and path. Handlers are
+ * required for every operation, so that a missing one is a compile error.
+ */
+export function renderRouter(): string {
+  return `/* Framework agnostic router dispatching requests to the server wrappers */
+
+import { routes, type ServerHandlers } from "./index.js";
+import type { ServerWrapperOptions } from "./runtime.js";
+
+/* Request parts consumed by the generated wrappers */
+export interface OperationRequest {
+  body?: unknown;
+  /* Media type of the body, without parameters (e.g. charset) */
+  contentType?: string;
+  /* Request headers with lowercase names */
+  headers: Record<string, string | string[] | undefined>;
+  /*
+   * Path parameters keyed by their OpenAPI name, still percent-encoded: the
+   * wrappers split styled values before decoding their items
+   */
+  path: Record<string, string>;
+  query: unknown;
+}
+
+/* Response returned by the generated wrappers */
+export interface OperationResponse {
+  contentType?: string;
+  data?: unknown;
+  /* Header values are sent as strings, arrays as repeated headers */
+  headers?: Record<string, unknown>;
+  status: number;
+}
+
+/* Operation route bound to its handler */
+export interface RouteBinding {
+  handle: (request: OperationRequest) => Promise<OperationResponse>;
+  /* HTTP method in uppercase */
+  method: string;
+  operationId: string;
+  /* OpenAPI path template (e.g. "/pets/{petId}") */
+  path: string;
+  /* Path parameter names, in template order */
+  pathParameters: string[];
+  /* Matches a request pathname, capturing the encoded path parameters */
+  pattern: RegExp;
+}
+
+/* Outcome of matching a request method and pathname */
+export type RouteMatch =
+  | { allow: string[]; kind: "method-not-allowed" }
+  | { kind: "found"; path: Record<string, string>; route: RouteBinding }
+  | { kind: "not-found" };
+
+/* Request dispatched by the router, path parameters come from the pathname */
+export interface RouterRequest extends Omit<OperationRequest, "path"> {
+  method: string;
+  /* Request pathname, still percent-encoded */
+  pathname: string;
+}
+
+export interface Router {
+  /* Dispatches a request: 404 without matching path, 405 (with Allow) without matching method */
+  dispatch(request: RouterRequest): Promise<OperationResponse>;
+  match(method: string, pathname: string): RouteMatch;
+  routes: readonly RouteBinding[];
+}
+
+/*
+ * Binds every operation route to its handler. Routes with more literal
+ * segments come first, so that "/pets/mine" wins over "/pets/{petId}"
+ * whatever the declaration order.
+ */
+export function bindRoutes(
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): RouteBinding[] {
+  const bindings = Object.entries(routes).map(([operationId, route]) => {
+    const bind = route.wrapper as unknown as (
+      handler: unknown,
+      options: ServerWrapperOptions,
+    ) => (request: OperationRequest) => Promise<OperationResponse>;
+    return {
+      handle: bind(handlers[operationId as keyof ServerHandlers], options),
+      method: route.method.toUpperCase(),
+      operationId,
+      path: route.path,
+      pathParameters: [...route.path.matchAll(/\\{([^}]+)\\}/g)].map(
+        (match) => match[1],
+      ),
+      pattern: compilePathPattern(route.path),
+    };
+  });
+  return bindings.sort(
+    (a, b) => countLiteralSegments(b.path) - countLiteralSegments(a.path),
+  );
+}
+
+/* Creates a router dispatching to the given handlers, one per operation */
+export function createRouter(
+  handlers: ServerHandlers,
+  options: ServerWrapperOptions = {},
+): Router {
+  const bindings = bindRoutes(handlers, options);
+  return {
+    async dispatch(request) {
+      const match = matchRoute(bindings, request.method, request.pathname);
+      if (match.kind === "not-found") return { status: 404 };
+      if (match.kind === "method-not-allowed") {
+        return { headers: { allow: match.allow.join(", ") }, status: 405 };
+      }
+      return match.route.handle({
+        body: request.body,
+        contentType: request.contentType,
+        headers: request.headers,
+        path: match.path,
+        query: request.query,
+      });
+    },
+    match: (method, pathname) => matchRoute(bindings, method, pathname),
+    routes: bindings,
+  };
+}
+
+/*
+ * Finds the route of a request, capturing its path parameters. HEAD requests
+ * fall back to the GET route of their path, whose body is left out by the
+ * HTTP server.
+ */
+export function matchRoute(
+  bindings: readonly RouteBinding[],
+  method: string,
+  pathname: string,
+): RouteMatch {
+  const requested = method.toUpperCase();
+  const allow = new Set<string>();
+  let fallback: { match: RegExpExecArray; route: RouteBinding } | undefined;
+  for (const route of bindings) {
+    const match = route.pattern.exec(pathname);
+    if (!match) continue;
+    if (route.method === requested) return foundRoute(route, match);
+    if (requested === "HEAD" && route.method === "GET") {
+      fallback ??= { match, route };
+    }
+    allow.add(route.method);
+    if (route.method === "GET") allow.add("HEAD");
+  }
+  if (fallback) return foundRoute(fallback.route, fallback.match);
+  return allow.size > 0
+    ? { allow: [...allow].sort(), kind: "method-not-allowed" }
+    : { kind: "not-found" };
+}
+
+/* Counts the path segments without parameters, specific routes having more */
+function countLiteralSegments(path: string): number {
+  return path
+    .split("/")
+    .filter((segment) => segment !== "" && !segment.includes("{")).length;
+}
+
+/* Match of a route, with its path parameters still percent-encoded */
+function foundRoute(route: RouteBinding, match: RegExpExecArray): RouteMatch {
+  const path: Record<string, string> = {};
+  route.pathParameters.forEach((name, index) => {
+    path[name] = match[index + 1];
+  });
+  return { kind: "found", path, route };
+}
+
+/* Matches a path template, parameters span a single path segment */
+function compilePathPattern(path: string): RegExp {
+  const source = path
+    .split(/(\\{[^}]+\\})/)
+    .map((part) =>
+      part.startsWith("{") && part.endsWith("}")
+        ? "([^/]+)"
+        : part.replace(/[.*+?^$()|[\\]\\\\]/g, "\\\\$&"),
+    )
+    .join("");
+  return new RegExp("^" + source + "/?$");
+}
+`;
+}
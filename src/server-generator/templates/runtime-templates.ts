@@ -0,0 +1,444 @@
+/* Runtime helpers shared by every generated server wrapper */
+
+/*
+ * Renders the helpers reading apiKey (query/cookie) and HTTP Basic credentials
+ */
+export function renderCredentialHelpers(): string {
+  return `/* Username and password of the HTTP Basic authentication scheme */
+export interface BasicCredentials {
+  password: string;
+  username: string;
+}
+
+/* Decodes an "Authorization: Basic" header value, undefined when missing or malformed */
+export function decodeBasicAuth(
+  header: string | undefined,
+): BasicCredentials | undefined {
+  const match = header?.match(/^Basic\\s+([A-Za-z0-9+/]+={0,2})\\s*$/i);
+  if (!match) return undefined;
+  try {
+    const bytes = Uint8Array.from(atob(match[1]), (char) => char.charCodeAt(0));
+    const decoded = new TextDecoder().decode(bytes);
+    const separator = decoded.indexOf(":");
+    if (separator < 0) return undefined;
+    return {
+      password: decoded.slice(separator + 1),
+      username: decoded.slice(0, separator),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/* Reads a request header, repeated values are joined with a comma */
+export function getHeader(headers: unknown, name: string): string | undefined {
+  const value = readProperty(headers, name.toLowerCase());
+  if (Array.isArray(value)) return value.join(", ");
+  return typeof value === "string" ? value : undefined;
+}
+
+/* Reads a single query parameter value, the first one when repeated */
+export function getQueryValue(query: unknown, name: string): string | undefined {
+  const value = readProperty(query, name);
+  const first: unknown = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" ? first : undefined;
+}
+
+/* Returns a shallow copy of the input object without the given keys */
+export function omitKeys(input: unknown, keys: readonly string[]): unknown {
+  if (!input || typeof input !== "object") return input;
+  return Object.fromEntries(
+    Object.entries(input).filter(([key]) => !keys.includes(key)),
+  );
+}
+
+/* Parses a Cookie header into a name to value map, first occurrence wins */
+export function parseCookieHeader(
+  header: string | undefined,
+): Record<string, string | undefined> {
+  const cookies: Record<string, string | undefined> = {};
+  for (const pair of header?.split(";") ?? []) {
+    const separator = pair.indexOf("=");
+    if (separator < 0) continue;
+    const name = pair.slice(0, separator).trim();
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) continue;
+    const value = pair.slice(separator + 1).trim().replace(/^"(.*)"$/, "$1");
+    cookies[name] = decodeComponent(value);
+  }
+  return cookies;
+}
+
+/* Decodes a percent-encoded value, keeping it verbatim when malformed */
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function readProperty(source: unknown, key: string): unknown {
+  return source && typeof source === "object"
+    ? (source as Record<string, unknown>)[key]
+    : undefined;
+}`;
+}
+
+/*
+ * Renders the helpers parsing style-serialized parameters (OpenAPI
+ * style/explode) back into arrays and objects
+ */
+export function renderParameterDeserialization(): string {
+  return `/* How a style-serialized parameter is parsed back (OpenAPI style/explode) */
+export interface ParameterSerialization {
+  explode: boolean;
+  /* Type array items are converted to, as they are parsed as strings */
+  itemType?: PrimitiveCoercion;
+  name: string;
+  /* Property names of exploded form objects, sent as top-level query keys */
+  properties?: readonly string[];
+  /* Types object properties are converted to, as they are parsed as strings */
+  propertyTypes?: Readonly<Record<string, PrimitiveCoercion>>;
+  shape: "array" | "object" | "primitive";
+  style:
+    | "deepObject"
+    | "form"
+    | "label"
+    | "matrix"
+    | "pipeDelimited"
+    | "simple"
+    | "spaceDelimited";
+}
+
+/* Non-string primitive type a serialized value is converted back to */
+export type PrimitiveCoercion = "boolean" | "number";
+
+/*
+ * Parses style-serialized parameters of a query or headers object back into
+ * arrays and objects, before schema validation (path parameters are parsed
+ * along with their decoding). Other keys are kept verbatim. Query inputs may
+ * come either flat (URLSearchParams-like) or already nested by the framework
+ * (e.g. qs).
+ */
+export function deserializeParameters(
+  input: unknown,
+  location: "header" | "query",
+  parameters: readonly ParameterSerialization[],
+): unknown {
+  if (!input || typeof input !== "object") return input;
+  const result: Record<string, unknown> = { ...(input as Record<string, unknown>) };
+  for (const parameter of parameters) {
+    const key = location === "header" ? parameter.name.toLowerCase() : parameter.name;
+    const value =
+      location === "query" ? takeQueryParameter(result, parameter) : result[key];
+    if (value === undefined) continue;
+    const parsed =
+      location === "query"
+        ? parseQueryParameter(value, parameter)
+        : parseStyledString(value, parameter, location === "header");
+    result[key] = coerceParameter(parsed, parameter);
+  }
+  return result;
+}
+
+/* Converts array items and object properties declared as numbers or booleans */
+function coerceParameter(
+  value: unknown,
+  parameter: ParameterSerialization,
+): unknown {
+  const { itemType, propertyTypes } = parameter;
+  if (Array.isArray(value)) {
+    return itemType ? value.map((item) => coercePrimitive(item, itemType)) : value;
+  }
+  if (!propertyTypes || !value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      propertyTypes[key] ? coercePrimitive(item, propertyTypes[key]) : item,
+    ]),
+  );
+}
+
+/* Malformed values are kept verbatim, so that schema validation reports them */
+function coercePrimitive(value: unknown, type: PrimitiveCoercion): unknown {
+  if (typeof value !== "string") return value;
+  if (type === "boolean") {
+    return value === "true" ? true : value === "false" ? false : value;
+  }
+  const number = Number(value);
+  return value.trim() !== "" && Number.isFinite(number) ? number : value;
+}
+
+/* Splits a delimited string, keeping non string values (e.g. repeated keys) as they are */
+function splitValue(value: unknown, delimiter: string): unknown[] {
+  if (Array.isArray(value)) return value.flatMap((item) => splitValue(item, delimiter));
+  if (typeof value !== "string") return [value];
+  return value === "" ? [] : value.split(delimiter);
+}
+
+/* Builds an object from key=value items, or from alternating keys and values */
+function toObject(items: unknown[], pairs: boolean): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (pairs) {
+    for (const item of items.map(String)) {
+      const separator = item.indexOf("=");
+      if (separator > 0) result[item.slice(0, separator)] = item.slice(separator + 1);
+    }
+  } else {
+    for (let index = 0; index + 1 < items.length; index += 2) {
+      result[String(items[index])] = items[index + 1];
+    }
+  }
+  return result;
+}
+
+/* Keys that would reach the prototype of the objects they are assigned to */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/* Collects the query value of a parameter, removing the keys it spans */
+function takeQueryParameter(
+  query: Record<string, unknown>,
+  parameter: ParameterSerialization,
+): unknown {
+  const { name, properties, style } = parameter;
+  if (query[name] !== undefined || (style !== "deepObject" && !properties)) {
+    return query[name];
+  }
+  const collected: Record<string, unknown> = Object.create(null);
+  for (const key of Object.keys(query)) {
+    if (properties?.includes(key)) {
+      collected[key] = query[key];
+      delete query[key];
+    } else if (style === "deepObject" && key.startsWith(name + "[")) {
+      /* name[a][b]=value is nested as { a: { b: value } } */
+      const path = (key.slice(name.length).match(/\\[([^\\]]*)\\]/g) ?? []).map(
+        (segment) => segment.slice(1, -1),
+      );
+      const value = query[key];
+      delete query[key];
+      /* Prototype keys are dropped, they would reach Object.prototype */
+      if (path.some((property) => UNSAFE_KEYS.has(property))) continue;
+      let target = collected;
+      path.forEach((property, index) => {
+        if (index === path.length - 1) {
+          target[property] = value;
+          return;
+        }
+        const next = Object.hasOwn(target, property) ? target[property] : undefined;
+        if (!next || typeof next !== "object") {
+          target[property] = Object.create(null);
+        }
+        target = target[property] as Record<string, unknown>;
+      });
+    }
+  }
+  return Object.keys(collected).length > 0 ? collected : undefined;
+}
+
+function parseQueryParameter(
+  value: unknown,
+  parameter: ParameterSerialization,
+): unknown {
+  const { explode, shape, style } = parameter;
+  if (shape === "primitive" || style === "deepObject") return value;
+  if (shape === "object" && (explode || typeof value === "object")) return value;
+  if (shape === "array" && explode) return Array.isArray(value) ? value : [value];
+  const delimiter =
+    style === "spaceDelimited" ? " " : style === "pipeDelimited" ? "|" : ",";
+  const items = splitValue(value, delimiter);
+  return shape === "array" ? items : toObject(items, false);
+}
+
+/* Parses simple (path, header), label and matrix serialized values */
+function parseStyledString(
+  value: unknown,
+  parameter: ParameterSerialization,
+  trimItems: boolean,
+): unknown {
+  const { explode, name, shape, style } = parameter;
+  if (typeof value !== "string") return value;
+  let content = value;
+  let delimiter = ",";
+  if (style === "label") {
+    if (!content.startsWith(".")) return value;
+    content = content.slice(1);
+    delimiter = explode ? "." : ",";
+  } else if (style === "matrix") {
+    const segments = content.split(";").filter(Boolean);
+    if (shape === "object" && explode) return toObject(segments, true);
+    const values = segments
+      .filter((segment) => segment === name || segment.startsWith(name + "="))
+      .map((segment) => segment.slice(name.length + 1));
+    if (shape === "array" && explode) return values;
+    if (values.length === 0) return value;
+    content = values[0];
+  }
+  if (shape === "primitive") return content;
+  /* Repeated headers are joined with ", " by Node.js */
+  const items = splitValue(content, delimiter).map((item) =>
+    trimItems && typeof item === "string" ? item.trim() : item,
+  );
+  return shape === "array" ? items : toObject(items, explode);
+}`;
+}
+
+/*
+ * Renders the decoding of the path parameters, matched percent-encoded by the
+ * router
+ */
+export function renderPathDecoding(): string {
+  return `/*
+ * Decodes the percent-encoded path parameters captured by the router. Styled
+ * values are split before their items are decoded, so that encoded
+ * delimiters (e.g. %2C in a simple array) stay within their item.
+ */
+export function decodePathParameters(
+  input: unknown,
+  parameters: readonly ParameterSerialization[],
+): unknown {
+  if (!input || typeof input !== "object") return input;
+  return Object.fromEntries(
+    Object.entries(input).map(([key, value]) => {
+      const parameter = parameters.find(({ name }) => name === key);
+      if (!parameter) return [key, decodeValue(value)];
+      const parsed = parseStyledString(value, parameter, false);
+      return [key, coerceParameter(decodeValue(parsed), parameter)];
+    }),
+  );
+}
+
+/* Decodes strings, array items and object entries, keeping malformed escapes verbatim */
+function decodeValue(value: unknown): unknown {
+  if (typeof value === "string") return decodeComponent(value);
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [decodeValue(key), decodeValue(item)]),
+  );
+}`;
+}
+
+/*
+ * Renders the opt-in validation of the responses returned by the handlers
+ * against the response schemas of the operation
+ */
+export function renderResponseValidation(): string {
+  return `/* Contract violation of a handler response */
+export interface ResponseValidationError {
+  contentType?: string;
+  issues: ResponseValidationIssue[];
+  kind: "response-error";
+  operationId: string;
+  status: number;
+}
+
+/* Response replacing a handler response that violates the contract */
+export interface ResponseValidationFailure {
+  contentType: "application/json";
+  data: unknown;
+  status: 500;
+}
+
+export interface ResponseValidationIssue {
+  message: string;
+  path: PropertyKey[];
+}
+
+/*
+ * Schemas of the declared responses, keyed by status code and content type.
+ * Statuses without content map to an empty object, a "default" key accepts
+ * any undeclared status.
+ */
+export type ResponseSchemas = Readonly<
+  Record<string, Readonly<Record<string, z.ZodType>>>
+>;
+
+/* Options of the generated server wrappers */
+export interface ServerWrapperOptions {
+  /* Builds the body of the 500 response, the structured error by default */
+  onResponseValidationError?: (error: ResponseValidationError) => unknown;
+  /* Validates the handler responses, stripping unknown properties */
+  validateResponse?: boolean;
+}
+
+/* Validates a handler response, its data is replaced by the parsed one */
+export function validateResponse<
+  TResponse extends { contentType?: string; data?: unknown; status: number },
+>(
+  operationId: string,
+  response: TResponse,
+  schemas: ResponseSchemas,
+  options: ServerWrapperOptions,
+): ResponseValidationFailure | TResponse {
+  const { contentType, data, status } = response;
+  const declared = schemas[String(status)];
+  let issues: ResponseValidationIssue[] = [];
+  if (!declared) {
+    if (schemas.default) return response;
+    issues = [{ message: "Undeclared response status " + status, path: [] }];
+  } else if (Object.keys(declared).length > 0) {
+    const schema = contentType ? declared[contentType] : undefined;
+    const result = schema?.safeParse(data);
+    if (result?.success) return { ...response, data: result.data };
+    issues = result
+      ? result.error.issues.map(({ message, path }) => ({ message, path }))
+      : [
+          {
+            message: "Undeclared content type " + (contentType ?? "(none)"),
+            path: [],
+          },
+        ];
+  } else {
+    return response;
+  }
+  const error: ResponseValidationError = {
+    contentType,
+    issues,
+    kind: "response-error",
+    operationId,
+    status,
+  };
+  return {
+    contentType: "application/json",
+    data: options.onResponseValidationError
+      ? options.onResponseValidationError(error)
+      : error,
+    status: 500,
+  };
+}
+
+/* Applies response validation to a wrapper, when enabled by the options */
+export function withResponseValidation<
+  TRequest,
+  TResponse extends { contentType?: string; data?: unknown; status: number },
+>(
+  wrapper: (req: TRequest) => Promise<TResponse>,
+  operationId: string,
+  schemas: ResponseSchemas,
+  options: ServerWrapperOptions,
+): (req: TRequest) => Promise<ResponseValidationFailure | TResponse> {
+  if (!options.validateResponse) return wrapper;
+  return async (req) =>
+    validateResponse(operationId, await wrapper(req), schemas, options);
+}`;
+}
+
+/**
+ * Renders the server runtime module (server/runtime.ts).
+ * Helpers take framework agnostic request parts (unknown query and headers
+ * objects, with lowercase header names as exposed by Node.js frameworks).
+ */
+export function renderServerRuntime(): string {
+  return `/* Runtime helpers shared by the generated server wrappers */
+
+import type { z } from "zod";
+
+${renderCredentialHelpers()}
+
+${renderParameterDeserialization()}
+
+${renderPathDecoding()}
+
+${renderResponseValidation()}
+`;
+}
@@ -1,4 +1,7 @@
 import type { ParameterGroups } from "../../client-generator/models/parameter-models.js";
+import type { CredentialScheme } from "../../client-generator/models/security-models.js";
+import type { FormatRegistry } from "../../schema-generator/formats.js";
+import type { ParameterSerialization } from "../../shared/parameter-serialization.js";
 import type { ServerOperationMetadata } from "../operation-wrapper-generator.js";
 
 import { sanitizeIdentifier } from "../../schema-generator/utils.js";
@@ -9,6 +12,12 @@ import { generateResponseUnion } from "../../shared/response-union-generator.js"
  * Template parameters for server operation wrapper generation
  */
 export interface ServerOperationTemplateParams {
+  /** Credential schemes (apiKey in query/cookie, HTTP Basic) of every alternative security requirement */
+  credentialRequirements?: CredentialScheme[][];
+  /** Import declarations of the custom formats, merged with the parameter ones */
+  formatImports?: Set<string>;
+  /** Custom string and number formats of the parameter schemas */
+  formats?: FormatRegistry;
   functionName: string;
   /** True if the operation defines a request body (even if only one content type) */
   hasBody: boolean;
@@ -22,10 +31,29 @@ export interface ServerOperationTemplateParams {
   requestMapTypeName?: string;
   responseMapCode: string;
   responseMapTypeName?: string;
+  /** Response schemas keyed by status code and content type, used by response validation */
+  responseSchemasCode: string;
+  /** Parameters serialized according to their style/explode settings */
+  styledParameters?: ParameterSerialization[];
   summary?: string;
   typeImports: Set<string>;
 }
 
+/**
+ * Generated code handling the credentials of operations secured by apiKey
+ * (query/cookie) or HTTP Basic schemes
+ */
+interface ServerCredentialsCode {
+  /* Credentials type definition, keyed by security scheme name */
+  credentialsType: string;
+  /* Query keys carrying credentials, excluded from query validation */
+  queryKeys: string[];
+  /* Helpers imported from the server runtime module */
+  runtimeImports: string[];
+  /* Extraction and enforcement statements of the wrapper */
+  validationCode: string;
+}
+
 /**
  * Builds server request map for operations with multiple content types
  */
@@ -56,14 +84,52 @@ export function buildServerResponseMap(
   typeImports: Set<string>,
 ): string {
   /* Use shared response union generation to ensure consistency with client generator */
+  const { responseHeaders } = metadata;
   const result = generateResponseUnion(
     metadata.operation,
     metadata.operationId,
     typeImports,
+    responseHeaders.statuses,
+  );
+
+  /* Declared response headers are typed by their schemas */
+  responseHeaders.typeImports.forEach((imp) => typeImports.add(imp));
+  return [responseHeaders.schemaCode, result.unionTypeDefinition]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Builds the response schemas of an operation, keyed by status code and
+ * content type, validating handler responses when enabled
+ */
+export function buildServerResponseSchemas(
+  metadata: ServerOperationMetadata,
+  typeImports: Set<string>,
+): string {
+  const { unionMembers } = generateResponseUnion(
+    metadata.operation,
+    metadata.operationId,
+    typeImports,
   );
+  const statuses = new Map<string, string[]>();
+  for (const { contentType, dataType, statusCode } of unionMembers) {
+    const entries = statuses.get(statusCode) ?? [];
+    if (contentType && dataType) {
+      entries.push(`${JSON.stringify(contentType)}: ${dataType}`);
+    }
+    statuses.set(statusCode, entries);
+  }
+  /* Undeclared statuses are accepted as they are when a default response exists */
+  if (metadata.operation.responses?.default) statuses.set("default", []);
 
-  /* Return the union type definition */
-  return result.unionTypeDefinition;
+  const entries = [...statuses].map(
+    ([statusCode, contentTypes]) =>
+      `  ${JSON.stringify(statusCode)}: ${contentTypes.length > 0 ? `{ ${contentTypes.join(", ")} }` : "{}"},`,
+  );
+  return `export const ${sanitizeIdentifier(metadata.operationId)}ResponseSchemas: ResponseSchemas = {
+${entries.join("\n")}
+};`;
 }
 
 /**
@@ -73,6 +139,7 @@ export function renderServerOperationWrapper(
   params: ServerOperationTemplateParams,
 ): string {
   const {
+    credentialRequirements = [],
     functionName,
     hasBody,
     method,
@@ -82,20 +149,49 @@ export function renderServerOperationWrapper(
     requestMapCode,
     requestMapTypeName,
     responseMapCode,
+    responseSchemasCode,
+    styledParameters = [],
     // responseMapTypeName,
     // summary,
   } = params;
 
   const sanitizedId = sanitizeIdentifier(operationId);
+  const hasCookieParams = parameterGroups.cookieParams.length > 0;
+  const hasPathParams = parameterGroups.pathParams.length > 0;
   const parameterSchemas = renderParameterSchemas(
     operationId,
     parameterGroups,
     params.typeImports,
+    params.formats,
+    params.formatImports,
+  );
+  const credentialsCode = renderCredentialsHandling(
+    sanitizedId,
+    credentialRequirements,
   );
   const validationLogic = renderValidationLogic(
     operationId,
     requestMapTypeName,
     hasBody,
+    credentialsCode,
+    styledParameters,
+    hasCookieParams,
+    hasPathParams,
+  );
+  const runtimeImports = [
+    ...new Set([
+      "type ResponseSchemas",
+      "type ServerWrapperOptions",
+      "withResponseValidation",
+      ...(credentialsCode?.runtimeImports ?? []),
+      ...(hasCookieParams ? ["getHeader", "parseCookieHeader"] : []),
+      ...(hasPathParams ? ["decodePathParameters"] : []),
+      ...(styledParameters.some(({ location }) => location !== "path")
+        ? ["deserializeParameters"]
+        : []),
+    ]),
+  ].sort((a, b) =>
+    a.replace("type ", "").localeCompare(b.replace("type ", "")),
   );
 
   /* Build handler and parsed params types */
@@ -110,23 +206,45 @@ export function renderServerOperationWrapper(
   | { kind: "query-error"; error: z.ZodError; success: false }
   | { kind: "path-error"; error: z.ZodError; success: false }
   | { kind: "headers-error"; error: z.ZodError; success: false }
-  | { kind: "body-error"; error: z.ZodError; success: false };`;
+  | { kind: "body-error"; error: z.ZodError; success: false }${
+    hasCookieParams
+      ? `
+  | { kind: "cookie-error"; error: z.ZodError; success: false }`
+      : ""
+  }${
+    credentialsCode
+      ? `
+  | { kind: "security-error"; error: string; success: false }`
+      : ""
+  };`;
 
   const parsedParamsType = `type ${sanitizedId}ParsedParams = {
   query: ${sanitizedId}Query;
   path: ${sanitizedId}Path;
-  headers: ${sanitizedId}Headers;
-  body?: ${bodyType};
+  headers: ${sanitizedId}Headers;${
+    hasCookieParams
+      ? `
+  cookies: ${sanitizedId}Cookies;`
+      : ""
+  }
+  body?: ${bodyType};${
+    credentialsCode
+      ? `
+  credentials: ${sanitizedId}Credentials;`
+      : ""
+  }
 };`;
 
   const handlerType = `export type ${sanitizedId}Handler = (
   params: { success: true; value: ${sanitizedId}ParsedParams } | ${sanitizedId}ValidationError,
 ) => Promise<${responseType}>;`;
 
+  /* Handler responses are validated against the response schemas when opted in */
   const wrapperFunction = `export function ${functionName}(
   handler: ${sanitizedId}Handler,
+  options: ServerWrapperOptions = {},
 ) {
-  return async (req: {
+  return withResponseValidation(async (req: {
     query: unknown;
     path: unknown;
     headers: unknown;
@@ -134,7 +252,7 @@ export function renderServerOperationWrapper(
     contentType?: ${requestMapTypeName ? `keyof ${requestMapTypeName}` : "string"};
   }): Promise<${responseType}> => {
 ${validationLogic}
-  };
+  }, "${sanitizedId}", ${sanitizedId}ResponseSchemas, options);
 }`;
 
   const routeFunction = `export function route() {
@@ -144,9 +262,14 @@ ${validationLogic}
   /* Combine all parts */
   const parts = [
     `import { z } from "zod";`,
+    runtimeImports.length > 0
+      ? `import { ${runtimeImports.join(", ")} } from "./runtime.js";`
+      : "",
     requestMapCode,
     responseMapCode,
+    responseSchemasCode,
     parameterSchemas,
+    credentialsCode?.credentialsType,
     validationErrorType,
     parsedParamsType,
     handlerType,
@@ -157,6 +280,101 @@ ${validationLogic}
   return parts.join("\n\n");
 }
 
+/**
+ * Renders the credentials extraction of operations secured by apiKey
+ * (query/cookie) or HTTP Basic schemes. Requests are rejected with a
+ * security-error only when every alternative security requirement relies on
+ * such credentials: other schemes (e.g. bearer tokens) are left to the handler.
+ */
+function renderCredentialsHandling(
+  sanitizedId: string,
+  credentialRequirements: CredentialScheme[][],
+): ServerCredentialsCode | undefined {
+  const schemes = new Map<string, CredentialScheme>();
+  for (const credential of credentialRequirements.flat()) {
+    schemes.set(credential.schemeName, credential);
+  }
+  if (schemes.size === 0) return undefined;
+
+  const credentials = [...schemes.values()];
+  const runtimeImports = new Set<string>();
+  const typeProps: string[] = [];
+  const extractions: string[] = [];
+  for (const { location, parameterName, schemeName } of credentials) {
+    const key = JSON.stringify(schemeName);
+    const name = JSON.stringify(parameterName);
+    if (location === "basic") {
+      runtimeImports
+        .add("decodeBasicAuth")
+        .add("getHeader")
+        .add("type BasicCredentials");
+      typeProps.push(`${key}?: BasicCredentials;`);
+      extractions.push(
+        `${key}: decodeBasicAuth(getHeader(req.headers, "authorization")),`,
+      );
+    } else if (location === "cookie") {
+      runtimeImports.add("getHeader").add("parseCookieHeader");
+      typeProps.push(`${key}?: string;`);
+      extractions.push(`${key}: cookies[${name}],`);
+    } else {
+      runtimeImports.add("getQueryValue");
+      typeProps.push(`${key}?: string;`);
+      extractions.push(`${key}: getQueryValue(req.query, ${name}),`);
+    }
+  }
+
+  const queryKeys = credentials
+    .filter((credential) => credential.location === "query")
+    .map((credential) => credential.parameterName as string);
+  if (queryKeys.length > 0) runtimeImports.add("omitKeys");
+
+  const isEnforceable = credentialRequirements.every(
+    (requirement) => requirement.length > 0,
+  );
+  const condition = credentialRequirements
+    .map(
+      (requirement) =>
+        `(${requirement
+          .map(
+            (credential) =>
+              `credentials[${JSON.stringify(credential.schemeName)}] !== undefined`,
+          )
+          .join(" && ")})`,
+    )
+    .join(" || ");
+  const enforcement = isEnforceable
+    ? `
+  if (!(${condition})) return handler({ kind: "security-error", error: "Missing or malformed credentials for security schemes: ${credentials.map((credential) => credential.schemeName).join(", ")}", success: false });`
+    : "";
+
+  return {
+    credentialsType: `type ${sanitizedId}Credentials = {
+  ${typeProps.join("\n  ")}
+};`,
+    queryKeys,
+    runtimeImports: [...runtimeImports],
+    validationCode: `  const credentials: ${sanitizedId}Credentials = {
+    ${extractions.join("\n    ")}
+  };${enforcement}
+
+`,
+  };
+}
+
+/**
+ * Renders the parsing of style-serialized parameters (arrays, objects, label
+ * and matrix styles) of a request part, before its schema validation
+ */
+function renderDeserialization(
+  input: string,
+  location: "header" | "query",
+  styledParameters: ParameterSerialization[],
+): string {
+  const parameters = serializationSettings(styledParameters, location);
+  if (parameters.length === 0) return input;
+  return `deserializeParameters(${input}, "${location}", ${JSON.stringify(parameters)})`;
+}
+
 /**
  * Renders Zod schema definitions for parameters
  */
@@ -164,20 +382,37 @@ function renderParameterSchemas(
   operationId: string,
   parameterGroups: ParameterGroups,
   typeImports: Set<string>,
+  formats?: FormatRegistry,
+  formatImports?: Set<string>,
 ): string {
   /* Use shared parameter schema generation logic with strict validation for server input */
   const result = generateParameterSchemas(operationId, parameterGroups, {
     coercePrimitives: true,
+    formats,
     lowercaseHeaderKeys: true,
     strictValidation: true,
   });
 
-  /* Merge type imports */
+  /* Merge type and format imports */
   result.typeImports.forEach((imp) => typeImports.add(imp));
+  result.formatImports.forEach((declaration) =>
+    formatImports?.add(declaration),
+  );
 
   return result.schemaCode;
 }
 
+/**
+ * Renders the decoding of the path parameters, still percent-encoded when
+ * matched by the router: styled ones are split before being decoded
+ */
+function renderPathDecoding(
+  styledParameters: ParameterSerialization[],
+): string {
+  const parameters = serializationSettings(styledParameters, "path");
+  return `decodePathParameters(req.path, ${JSON.stringify(parameters)})`;
+}
+
 /**
  * Renders validation logic for server wrapper
  */
@@ -185,19 +420,40 @@ function renderValidationLogic(
   operationId: string,
   requestMapTypeName: string | undefined,
   hasBody: boolean | undefined,
+  credentialsCode: ServerCredentialsCode | undefined,
+  styledParameters: ParameterSerialization[],
+  hasCookieParams: boolean,
+  hasPathParams: boolean,
 ): string {
   const sanitizedId = sanitizeIdentifier(operationId);
   const bodyType = requestMapTypeName
     ? `z.infer<(typeof ${requestMapTypeName})["application/json"]>`
     : "undefined";
-  const shared = `  const queryParse = ${sanitizedId}QuerySchema.safeParse(req.query);
+  /* Query credentials are not declared as parameters of strict query schemas */
+  const queryInput = credentialsCode?.queryKeys.length
+    ? `omitKeys(req.query, ${JSON.stringify(credentialsCode.queryKeys)})`
+    : "req.query";
+  /* The Cookie header is parsed once, for both credentials and parameters */
+  const cookieLine =
+    hasCookieParams ||
+    credentialsCode?.runtimeImports.includes("parseCookieHeader")
+      ? `  const cookies = parseCookieHeader(getHeader(req.headers, "cookie"));\n`
+      : "";
+  const shared = `${cookieLine}${credentialsCode?.validationCode ?? ""}  const queryParse = ${sanitizedId}QuerySchema.safeParse(${renderDeserialization(queryInput, "query", styledParameters)});
   if (!queryParse.success) return handler({ kind: "query-error", error: queryParse.error, success: false });
 
-  const pathParse = ${sanitizedId}PathSchema.safeParse(req.path);
+  const pathParse = ${sanitizedId}PathSchema.safeParse(${hasPathParams ? renderPathDecoding(styledParameters) : "req.path"});
   if (!pathParse.success) return handler({ kind: "path-error", error: pathParse.error, success: false });
 
-  const headersParse = ${sanitizedId}HeadersSchema.safeParse(req.headers);
-  if (!headersParse.success) return handler({ kind: "headers-error", error: headersParse.error, success: false });`;
+  const headersParse = ${sanitizedId}HeadersSchema.safeParse(${renderDeserialization("req.headers", "header", styledParameters)});
+  if (!headersParse.success) return handler({ kind: "headers-error", error: headersParse.error, success: false });${
+    hasCookieParams
+      ? `
+
+  const cookiesParse = ${sanitizedId}CookiesSchema.safeParse(cookies);
+  if (!cookiesParse.success) return handler({ kind: "cookie-error", error: cookiesParse.error, success: false });`
+      : ""
+  }`;
 
   const bodyLogic = requestMapTypeName
     ? `
@@ -232,10 +488,38 @@ function renderValidationLogic(
     value: {
       query: queryParse.data,
       path: pathParse.data,
-      headers: headersParse.data,
-      body: parsedBody
+      headers: headersParse.data,${hasCookieParams ? "\n      cookies: cookiesParse.data," : ""}
+      body: parsedBody${credentialsCode ? ",\n      credentials" : ""}
     },
   });`;
 
   return shared + bodyLogic + tail;
 }
+
+/* Runtime settings of the styled parameters of a request part */
+function serializationSettings(
+  styledParameters: ParameterSerialization[],
+  location: ParameterSerialization["location"],
+) {
+  return styledParameters
+    .filter((parameter) => parameter.location === location)
+    .map(
+      ({
+        explode,
+        itemType,
+        name,
+        properties,
+        propertyTypes,
+        shape,
+        style,
+      }) => ({
+        explode,
+        itemType,
+        name,
+        properties,
+        propertyTypes,
+        shape,
+        style,
+      }),
+    );
+}
@@ -11,6 +11,19 @@ export {
   generateParameterSchemas,
 } from "./parameter-schemas.js";
 
+// Parameter serialization (style/explode) exports
+export type {
+  ParameterSerialization,
+  ParameterStyle,
+  PrimitiveCoercion,
+} from "./parameter-serialization.js";
+
+export {
+  analyzeParameterSerialization,
+  collectStyledParameters,
+  findStyledParameter,
+} from "./parameter-serialization.js";
+
 // Request body mapping exports
 export type {
   RequestBodyMapOptions,
@@ -19,6 +32,14 @@ export type {
 
 export { generateRequestBodyMap } from "./request-body-maps.js";
 
+// Response header schema generation exports
+export type {
+  ResponseHeadersInfo,
+  ResponseHeadersResult,
+} from "./response-headers.js";
+
+export { generateResponseHeaderSchemas } from "./response-headers.js";
+
 // Response mapping exports
 export type { ResponseMapOptions, ResponseMapResult } from "./response-maps.js";
 
@@ -10,6 +10,10 @@ import { isReferenceObject } from "openapi3-ts/oas31";
 
 import type { ParameterGroups } from "../client-generator/models/parameter-models.js";
 
+import {
+  collectFormatImports,
+  type FormatRegistry,
+} from "../schema-generator/formats.js";
 import { zodSchemaToCode } from "../schema-generator/index.js";
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
 
@@ -18,6 +22,8 @@ import { sanitizeIdentifier } from "../schema-generator/utils.js";
  */
 export interface ParameterSchemaGenerationOptions {
   coercePrimitives?: boolean;
+  /* Custom string and number formats, whose imports are collected */
+  formats?: FormatRegistry;
   lowercaseHeaderKeys?: boolean;
   strictValidation?: boolean;
 }
@@ -26,10 +32,14 @@ export interface ParameterSchemaGenerationOptions {
  * Result of parameter schema generation
  */
 export interface ParameterSchemaResult {
+  /* Import declarations of the custom formats used */
+  formatImports: Set<string>;
   /* Generated Zod schemas and TypeScript types */
   schemaCode: string;
   /* Schema names for external reference */
   schemaNames: {
+    /* Only set when the operation declares cookie parameters */
+    cookiesSchema?: string;
     headersSchema: string;
     pathSchema: string;
     querySchema: string;
@@ -38,6 +48,7 @@ export interface ParameterSchemaResult {
   typeImports: Set<string>;
   /* Type names for external reference */
   typeNames: {
+    cookiesType?: string;
     headersType: string;
     pathType: string;
     queryType: string;
@@ -49,10 +60,11 @@ export interface ParameterSchemaResult {
  */
 export function generateParameterSchema(
   operationId: string,
-  parameterType: "headers" | "path" | "query",
+  parameterType: "cookies" | "headers" | "path" | "query",
   parameters: ParameterObject[],
   options: ParameterSchemaGenerationOptions = {},
 ): {
+  formatImports: Set<string>;
   schemaCode: string;
   schemaName: string;
   typeImports: Set<string>;
@@ -60,13 +72,16 @@ export function generateParameterSchema(
 } {
   const {
     coercePrimitives = false,
+    formats = {},
     lowercaseHeaderKeys = false,
     strictValidation = false,
   } = options;
   const sanitizedId = sanitizeIdentifier(operationId);
   const typeImports = new Set<string>();
+  const formatImports = new Set<string>();
 
   const paramTypeMap = {
+    cookies: "Cookies",
     headers: "Headers",
     path: "Path",
     query: "Query",
@@ -93,9 +108,11 @@ export function generateParameterSchema(
     let zodCode: string;
     if (schema) {
       const result = zodSchemaToCode(schema, {
+        formats,
         imports: typeImports,
         strictValidation,
       });
+      collectFormatImports(schema, formats, formatImports);
       zodCode = result.code;
 
       /* Apply coercion for primitive types when schema is a direct SchemaObject (not a $ref) */
@@ -132,6 +149,7 @@ export function generateParameterSchema(
   }
 
   return {
+    formatImports,
     schemaCode,
     schemaName,
     typeImports,
@@ -149,11 +167,13 @@ export function generateParameterSchemas(
 ): ParameterSchemaResult {
   const {
     coercePrimitives = false,
+    formats = {},
     lowercaseHeaderKeys = false,
     strictValidation = false,
   } = options;
   const sanitizedId = sanitizeIdentifier(operationId);
   const typeImports = new Set<string>();
+  const formatImports = new Set<string>();
   const schemas: string[] = [];
 
   /* Helper to build property entry using zodSchemaToCode; fallback to z.string()
@@ -172,9 +192,11 @@ export function generateParameterSchemas(
     let zodCode: string;
     if (schema) {
       const result = zodSchemaToCode(schema, {
+        formats,
         imports: typeImports,
         strictValidation,
       });
+      collectFormatImports(schema, formats, formatImports);
       zodCode = result.code;
       if (coercePrimitives && !isReferenceObject(schema)) {
         const schemaObj = schema as SchemaObject;
@@ -253,15 +275,37 @@ export function generateParameterSchemas(
     `type ${headersTypeName} = z.infer<typeof ${headersSchemaName}>;`,
   );
 
+  /* Cookies schema, only for operations declaring cookie parameters. Like
+     headers, unrelated cookies sent by user agents are always allowed */
+  const cookieNames =
+    parameterGroups.cookieParams.length > 0
+      ? {
+          cookiesSchema: `${sanitizedId}CookiesSchema`,
+          cookiesType: `${sanitizedId}Cookies`,
+        }
+      : undefined;
+  if (cookieNames) {
+    const cookieProps = parameterGroups.cookieParams
+      .map((p) => buildProp(p.name, p))
+      .join(", ");
+    schemas.push(
+      `const ${cookieNames.cookiesSchema} = ${headerObjectMethod}({ ${cookieProps} });`,
+      `type ${cookieNames.cookiesType} = z.infer<typeof ${cookieNames.cookiesSchema}>;`,
+    );
+  }
+
   return {
+    formatImports,
     schemaCode: schemas.join("\n"),
     schemaNames: {
+      ...(cookieNames ? { cookiesSchema: cookieNames.cookiesSchema } : {}),
       headersSchema: headersSchemaName,
       pathSchema: pathSchemaName,
       querySchema: querySchemaName,
     },
     typeImports,
     typeNames: {
+      ...(cookieNames ? { cookiesType: cookieNames.cookiesType } : {}),
       headersType: headersTypeName,
       pathType: pathTypeName,
       queryType: queryTypeName,
@@ -0,0 +1,159 @@
+/* Shared parameter serialization (style/explode) analysis */
+
+import type {
+  OpenAPIObject,
+  ParameterObject,
+  ReferenceObject,
+  SchemaObject,
+} from "openapi3-ts/oas31";
+
+import type { ParameterGroups } from "../client-generator/models/parameter-models.js";
+
+import { resolveSchemaReference } from "../schema-generator/schema-references.js";
+
+/**
+ * How a parameter is serialized by the client and parsed back by the server
+ */
+export interface ParameterSerialization {
+  explode: boolean;
+  /* Type array items are converted to, as they are parsed as strings */
+  itemType?: PrimitiveCoercion;
+  location: "header" | "path" | "query";
+  name: string;
+  /* Property names of exploded form objects, sent as top-level query keys */
+  properties?: string[];
+  /* Types object properties are converted to, as they are parsed as strings */
+  propertyTypes?: Record<string, PrimitiveCoercion>;
+  /* Shape of the parameter schema, strings are split according to it */
+  shape: "array" | "object" | "primitive";
+  style: ParameterStyle;
+}
+
+/**
+ * OpenAPI parameter serialization style
+ */
+export type ParameterStyle =
+  | "deepObject"
+  | "form"
+  | "label"
+  | "matrix"
+  | "pipeDelimited"
+  | "simple"
+  | "spaceDelimited";
+
+/**
+ * Non-string primitive type a serialized value is converted back to
+ */
+export type PrimitiveCoercion = "boolean" | "number";
+
+/* Default style of each parameter location (OpenAPI 3.1, 4.8.12.4) */
+const DEFAULT_STYLES: Record<
+  ParameterSerialization["location"],
+  ParameterStyle
+> = {
+  header: "simple",
+  path: "simple",
+  query: "form",
+};
+
+/**
+ * Analyzes the serialization of a parameter, resolving its schema references
+ * to determine the shape of the value
+ */
+export function analyzeParameterSerialization(
+  param: ParameterObject,
+  doc: OpenAPIObject,
+): ParameterSerialization {
+  const location = param.in as ParameterSerialization["location"];
+  const style =
+    (param.style as ParameterStyle | undefined) ?? DEFAULT_STYLES[location];
+  const explode = param.explode ?? style === "form";
+  const schema = resolveSchemaReference(param.schema, doc);
+  const types = [schema?.type].flat();
+
+  const shape = types.includes("array")
+    ? "array"
+    : types.includes("object") || schema?.properties
+      ? "object"
+      : "primitive";
+  const properties =
+    shape === "object" && style === "form" && explode
+      ? Object.keys(schema?.properties ?? {})
+      : undefined;
+
+  return {
+    explode,
+    location,
+    name: param.name,
+    ...(properties ? { properties } : {}),
+    ...analyzeCoercions(shape, schema, doc),
+    shape,
+    style,
+  };
+}
+
+/**
+ * Collects the parameters of an operation whose serialization differs from
+ * plain string conversion: arrays, objects, and label/matrix path styles
+ */
+export function collectStyledParameters(
+  parameterGroups: ParameterGroups,
+  doc: OpenAPIObject,
+): ParameterSerialization[] {
+  return [
+    ...parameterGroups.pathParams,
+    ...parameterGroups.queryParams,
+    ...parameterGroups.headerParams,
+  ]
+    .map((param) => analyzeParameterSerialization(param, doc))
+    .filter(
+      (serialization) =>
+        serialization.shape !== "primitive" ||
+        serialization.style === "label" ||
+        serialization.style === "matrix",
+    );
+}
+
+/**
+ * Finds the styled serialization of a parameter, if any
+ */
+export function findStyledParameter(
+  styledParameters: ParameterSerialization[] | undefined,
+  param: ParameterObject,
+): ParameterSerialization | undefined {
+  return styledParameters?.find(
+    (serialization) =>
+      serialization.location === param.in && serialization.name === param.name,
+  );
+}
+
+/* Collects the number/boolean array items or object properties of a schema */
+function analyzeCoercions(
+  shape: ParameterSerialization["shape"],
+  schema: SchemaObject | undefined,
+  doc: OpenAPIObject,
+): Pick<ParameterSerialization, "itemType" | "propertyTypes"> {
+  if (shape === "array" && schema?.items) {
+    const itemType = getPrimitiveCoercion(schema.items, doc);
+    return itemType ? { itemType } : {};
+  }
+  const propertyTypes: Record<string, PrimitiveCoercion> = {};
+  if (shape === "object") {
+    for (const [key, property] of Object.entries(schema?.properties ?? {})) {
+      const coercion = getPrimitiveCoercion(property, doc);
+      if (coercion) propertyTypes[key] = coercion;
+    }
+  }
+  return Object.keys(propertyTypes).length > 0 ? { propertyTypes } : {};
+}
+
+/* Determines whether a serialized value must be converted to a number or boolean */
+function getPrimitiveCoercion(
+  schema: ReferenceObject | SchemaObject | undefined,
+  doc: OpenAPIObject,
+): PrimitiveCoercion | undefined {
+  const types = [resolveSchemaReference(schema, doc)?.type].flat();
+  if (types.includes("string")) return undefined;
+  if (types.includes("number") || types.includes("integer")) return "number";
+  return types.includes("boolean") ? "boolean" : undefined;
+}
@@ -0,0 +1,156 @@
+/* Shared response header schema generation logic */
+
+import type {
+  HeaderObject,
+  OpenAPIObject,
+  OperationObject,
+  ReferenceObject,
+  ResponseObject,
+  SchemaObject,
+} from "openapi3-ts/oas31";
+
+import { isReferenceObject } from "openapi3-ts/oas31";
+
+import {
+  collectFormatImports,
+  type FormatRegistry,
+} from "../schema-generator/formats.js";
+import { zodSchemaToCode } from "../schema-generator/index.js";
+import { resolveSchemaReference } from "../schema-generator/schema-references.js";
+import { sanitizeIdentifier } from "../schema-generator/utils.js";
+
+/**
+ * Headers declared by a response status
+ */
+export interface ResponseHeadersInfo {
+  /* Whether at least one declared header is required */
+  hasRequired: boolean;
+  schemaName: string;
+  typeName: string;
+}
+
+/**
+ * Result of response header schema generation
+ */
+export interface ResponseHeadersResult {
+  /* Import declarations of the custom formats used */
+  formatImports: Set<string>;
+  /* Generated Zod schemas and TypeScript types, empty without declared headers */
+  schemaCode: string;
+  /* Declared headers keyed by status code */
+  statuses: Map<string, ResponseHeadersInfo>;
+  /* Type imports needed */
+  typeImports: Set<string>;
+}
+
+/**
+ * Generates a Zod schema of the headers declared by each response status.
+ * Header names are lowercased, as exposed by the Fetch API and Node.js, and
+ * values are parsed back from their string representation (simple style).
+ */
+export function generateResponseHeaderSchemas(
+  operation: OperationObject,
+  operationId: string,
+  doc?: OpenAPIObject,
+  formats: FormatRegistry = {},
+): ResponseHeadersResult {
+  const sanitizedId = sanitizeIdentifier(operationId);
+  const typeImports = new Set<string>();
+  const formatImports = new Set<string>();
+  const statuses = new Map<string, ResponseHeadersInfo>();
+  const schemas: string[] = [];
+
+  for (const [statusCode, response] of Object.entries(
+    operation.responses ?? {},
+  )) {
+    if (statusCode === "default") continue;
+    const headers = Object.entries(
+      (response as ResponseObject).headers ?? {},
+    ).flatMap(([name, header]) => {
+      const resolved = resolveHeader(header, doc);
+      /* Content-Type response headers are ignored (OpenAPI 3.1, 4.8.17.1) */
+      return resolved && name.toLowerCase() !== "content-type"
+        ? [{ header: resolved, name: name.toLowerCase() }]
+        : [];
+    });
+    if (headers.length === 0) continue;
+    for (const { header } of headers) {
+      collectFormatImports(
+        resolveHeaderSchema(header, doc),
+        formats,
+        formatImports,
+      );
+    }
+
+    const schemaName = `${sanitizedId}${statusCode}ResponseHeadersSchema`;
+    const typeName = `${sanitizedId}${statusCode}ResponseHeaders`;
+    const props = headers
+      .map(
+        ({ header, name }) =>
+          `${JSON.stringify(name)}: ${renderHeaderSchema(header, typeImports, formats, doc)}`,
+      )
+      .join(", ");
+    schemas.push(
+      `export const ${schemaName} = z.object({ ${props} });\nexport type ${typeName} = z.infer<typeof ${schemaName}>;`,
+    );
+    statuses.set(statusCode, {
+      hasRequired: headers.some(({ header }) => header.required === true),
+      schemaName,
+      typeName,
+    });
+  }
+
+  return {
+    formatImports,
+    schemaCode: schemas.join("\n"),
+    statuses,
+    typeImports,
+  };
+}
+
+/*
+ * Converts a header schema, parsing number, boolean and array values from
+ * strings. Referenced schemas are inlined, their component parsing JSON
+ * values instead.
+ */
+function renderHeaderSchema(
+  header: HeaderObject,
+  typeImports: Set<string>,
+  formats: FormatRegistry,
+  doc: OpenAPIObject | undefined,
+): string {
+  const schema = resolveHeaderSchema(header, doc);
+  let code = schema
+    ? zodSchemaToCode(schema, {
+        coercePrimitives: true,
+        formats,
+        imports: typeImports,
+      }).code
+    : "z.string()";
+  if (schema && !isReferenceObject(schema) && schema.type === "array") {
+    /* Arrays are serialized as comma separated values */
+    code = `z.preprocess((value) => (typeof value === "string" ? value.split(",").map((item) => item.trim()) : value), ${code})`;
+  }
+  return header.required === true ? code : `${code}.optional()`;
+}
+
+/* Follows a reference to a components header, undefined when unresolvable */
+function resolveHeader(
+  header: HeaderObject | ReferenceObject,
+  doc: OpenAPIObject | undefined,
+): HeaderObject | undefined {
+  if (!isReferenceObject(header)) return header;
+  const prefix = "#/components/headers/";
+  if (!header.$ref.startsWith(prefix)) return undefined;
+  const resolved = doc?.components?.headers?.[header.$ref.slice(prefix.length)];
+  return resolved && !isReferenceObject(resolved) ? resolved : undefined;
+}
+
+/* Schema of a header, following its reference to a component schema */
+function resolveHeaderSchema(
+  header: HeaderObject,
+  doc: OpenAPIObject | undefined,
+): ReferenceObject | SchemaObject | undefined {
+  const schema = header.schema as ReferenceObject | SchemaObject | undefined;
+  return (doc && resolveSchemaReference(schema, doc)) ?? schema;
+}
@@ -2,6 +2,8 @@
 
 import type { OperationObject } from "openapi3-ts/oas31";
 
+import type { ResponseHeadersInfo } from "./response-headers.js";
+
 import { extractResponseContentTypes } from "../client-generator/operation-extractor.js";
 import { resolveSchemaTypeName } from "../client-generator/responses.js";
 import { sanitizeIdentifier } from "../schema-generator/utils.js";
@@ -12,6 +14,8 @@ import { sanitizeIdentifier } from "../schema-generator/utils.js";
 export interface ResponseUnionMember {
   contentType?: string | undefined;
   dataType?: string | undefined;
+  /* Declared response headers of the status, if any */
+  headers?: ResponseHeadersInfo | undefined;
   statusCode: string;
 }
 
@@ -33,6 +37,7 @@ export function generateResponseUnion(
   operation: OperationObject,
   operationId: string,
   typeImports: Set<string>,
+  responseHeaders?: ReadonlyMap<string, ResponseHeadersInfo>,
 ): ResponseUnionResult {
   const unionMembers: ResponseUnionMember[] = [];
   const responseTypeName = `${sanitizeIdentifier(operationId)}Response`;
@@ -74,6 +79,7 @@ export function generateResponseUnion(
             unionMembers.push({
               contentType: mapping.contentType,
               dataType,
+              headers: responseHeaders?.get(statusCode),
               statusCode,
             });
           }
@@ -81,6 +87,7 @@ export function generateResponseUnion(
       } else {
         /* Status code has no content/schema - add void response */
         unionMembers.push({
+          headers: responseHeaders?.get(statusCode),
           statusCode,
         });
       }
@@ -124,9 +131,17 @@ function generateUnionTypeDefinition(
 
   const memberStrings = members.map(
     (member) =>
-      `  | { status: ${member.statusCode}; ${member.contentType ? `contentType: "${member.contentType}";` : ""} ${member.dataType ? `data: ${member.dataType};` : ""} }`,
+      `  | { status: ${member.statusCode}; ${member.contentType ? `contentType: "${member.contentType}";` : ""} ${member.dataType ? `data: ${member.dataType};` : ""}${renderHeadersProperty(member.headers)} }`,
   );
 
   return `export type ${typeName} =
 ${memberStrings.join("\n")};`;
 }
+
+/* Declared headers must be returned when at least one of them is required */
+function renderHeadersProperty(
+  headers: ResponseHeadersInfo | undefined,
+): string {
+  if (!headers) return "";
+  return ` headers${headers.hasRequired ? "" : "?"}: ${headers.typeName};`;
+}
@@ -2,12 +2,19 @@ import { describe, expect, it } from "vitest";
 
 import type { ConfigStructure } from "../../src/client-generator/models/config-models.js";
 import {
+  renderApiKeySchemeNameType,
   renderApiResponseTypes,
   renderAuthHeadersType,
   renderConfigImplementation,
   renderConfigInterface,
   renderConfigSupport,
+  renderCredentialHelpers,
+  renderMiddlewareTypes,
   renderOperationUtilities,
+  renderParameterSerialization,
+  renderRequestExecution,
+  renderRetryPolicy,
+  renderTokenProviderTypes,
   renderUtilityFunctions,
 } from "../../src/client-generator/templates/config-templates.js";
 
@@ -160,6 +167,8 @@ describe("client-generator config-templates", () => {
       /* Should also include the new ApiResponseError type */
       expect(result).toContain("export type ApiResponseError");
       expect(result).toContain('readonly kind: "unexpected-error"');
+      expect(result).toContain('readonly kind: "timeout"');
+      expect(result).toContain('readonly kind: "aborted"');
       expect(result).toContain('readonly kind: "parse-error"');
 
       /* The basic ApiResponse type should not contain error fields (they're in ApiResponseError) */
@@ -178,6 +187,111 @@ describe("client-generator config-templates", () => {
     });
   });
 
+  describe("renderRetryPolicy", () => {
+    it("should render the retry policy and backoff helpers", () => {
+      const result = renderRetryPolicy();
+
+      expect(result).toContain("export interface RetryPolicy");
+      expect(result).toContain("function computeRetryDelay(");
+      expect(result).toContain("function parseRetryAfter(");
+    });
+  });
+
+  describe("renderRequestExecution", () => {
+    it("should render the request execution helpers", () => {
+      const result = renderRequestExecution();
+
+      expect(result).toContain("export async function sendRequest(");
+      expect(result).toContain("export function isTimeoutError(");
+      expect(result).toContain("export function combineSignals(");
+      expect(result).toContain('response.headers.get("retry-after")');
+      expect(result).toContain('"TimeoutError"');
+    });
+  });
+
+  describe("renderTokenProviderTypes", () => {
+    it("should render the token provider types", () => {
+      const result = renderTokenProviderTypes();
+
+      expect(result).toContain("export interface TokenRequest");
+      expect(result).toContain("scopes: readonly string[];");
+      expect(result).toContain("export type TokenProvider = (");
+    });
+  });
+
+  describe("credentials", () => {
+    const config: ConfigStructure = {
+      auth: {
+        authHeaders: [],
+        authHeadersType: "string",
+        hasAuthHeaders: false,
+      },
+      credentials: {
+        apiKeySchemeNames: ["queryKey", "cookieKey"],
+        apiKeySchemeNamesType: '"queryKey" | "cookieKey"',
+        hasApiKeySchemes: true,
+      },
+      server: {
+        serverUrls: [],
+        baseURLType: "string",
+        defaultBaseURL: "",
+        hasServerUrls: false,
+      },
+    };
+
+    it("should type the apiKeys field with the scheme names", () => {
+      expect(renderConfigInterface(config)).toContain(
+        "[K in ApiKeySchemeName]?: string;",
+      );
+      expect(renderConfigInterface(config)).toContain(
+        "basicAuth?: BasicCredentials;",
+      );
+      expect(renderApiKeySchemeNameType(config)).toBe(
+        'export type ApiKeySchemeName = "queryKey" | "cookieKey";',
+      );
+    });
+
+    it("should fall back to string keys without apiKey schemes", () => {
+      const { credentials: _credentials, ...withoutCredentials } = config;
+
+      expect(renderConfigInterface(withoutCredentials)).toContain(
+        "[K in string]?: string;",
+      );
+      expect(renderApiKeySchemeNameType(withoutCredentials)).toBe("");
+    });
+
+    it("should render the credential helpers", () => {
+      const result = renderCredentialHelpers();
+
+      expect(result).toContain("export interface BasicCredentials");
+      expect(result).toContain("export function appendCookie(");
+      expect(result).toContain("export function encodeBasicAuth(");
+    });
+  });
+
+  describe("renderParameterSerialization", () => {
+    it("should render the style/explode serializers", () => {
+      const result = renderParameterSerialization();
+
+      expect(result).toContain("export type ParameterStyle =");
+      expect(result).toContain("export function appendQueryParameter(");
+      expect(result).toContain("export function serializeHeaderParameter(");
+      expect(result).toContain("export function serializePathParameter(");
+    });
+  });
+
+  describe("renderMiddlewareTypes", () => {
+    it("should render the middleware chain types", () => {
+      const result = renderMiddlewareTypes();
+
+      expect(result).toContain("export interface OperationRequest");
+      expect(result).toContain("export interface Middleware");
+      expect(result).toContain("onRequest?: (");
+      expect(result).toContain("onResponse?: (");
+      expect(result).toContain("onError?: (");
+    });
+  });
+
   describe("renderOperationUtilities", () => {
     it("should render operation utilities", () => {
       const result = renderOperationUtilities();
@@ -185,6 +299,10 @@ describe("client-generator config-templates", () => {
       expect(result).toContain("type Operation =");
       expect(result).toContain("export function configureOperations");
       expect(result).toContain("typeof operations[key] === 'function'");
+      expect(result).toContain("export interface CallOptions");
+      expect(result).toContain(
+        "(params: P, options?: CallOptions) => Adjusted",
+      );
     });
   });
 
@@ -202,6 +320,12 @@ describe("client-generator config-templates", () => {
       /* Verify that all individual template functions are included */
       expect(result).toContain(renderApiResponseTypes());
       expect(result).toContain(renderUtilityFunctions());
+      expect(result).toContain(renderRetryPolicy());
+      expect(result).toContain(renderMiddlewareTypes());
+      expect(result).toContain(renderTokenProviderTypes());
+      expect(result).toContain(renderCredentialHelpers());
+      expect(result).toContain(renderParameterSerialization());
+      expect(result).toContain(renderRequestExecution());
       expect(result).toContain(renderOperationUtilities());
     });
   });
@@ -69,6 +69,7 @@ describe("DeserializerMap Refactoring", () => {
 
   it("should generate content-type indexed deserializer map types", () => {
     const mockParameterGroups = {
+      cookieParams: [],
       queryParams: [],
       pathParams: [],
       headerParams: [],
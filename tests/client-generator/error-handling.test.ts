@@ -95,7 +95,6 @@ describe("error handling in client generator", () => {
         typeImports,
         true,
         "TestOperationResponseMap",
-        false,
       );
 
       /* Should include parse method that calls parseApiResponseUnknownData */
@@ -130,7 +129,6 @@ describe("error handling in client generator", () => {
         typeImports,
         true,
         "TestOperationResponseMap",
-        true,
       );
 
       /* Should include error handling in force validation mode */
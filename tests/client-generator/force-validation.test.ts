@@ -31,7 +31,6 @@ describe("force validation flag", () => {
         typeImports,
         true,
         "GetUserResponseMap",
-        false, // forceValidation parameter is now ignored
       );
 
       /* Verify response handler includes conditional logic for both modes */
@@ -86,7 +85,6 @@ describe("force validation flag", () => {
         typeImports,
         true,
         "GetUserResponseMap",
-        true, // forceValidation parameter is now ignored, should generate same result
       );
 
       /* Verify response handler includes conditional logic for both force and manual validation */
@@ -130,7 +128,6 @@ describe("force validation flag", () => {
         typeImports,
         false,
         undefined,
-        true, // forceValidation parameter is now ignored
       );
 
       /* Verify no conditional parsing logic is added for responses without schemas */
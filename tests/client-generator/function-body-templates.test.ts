@@ -275,5 +275,26 @@ describe("function-body-templates", () => {
       expect(result).not.toContain("finalHeaders['");
       expect(result).not.toContain("url.searchParams.append");
     });
+
+    it("should send the request through sendRequest and map timeouts", () => {
+      const result = renderFunctionBody(
+        "",
+        "",
+        "    ...config.headers,",
+        "/api/users",
+        "GET",
+        false,
+        ['    case "200": return { status: 200, data };'],
+      );
+
+      expect(result).toContain("const response = await sendRequest({");
+      expect(result).toContain("url: url.toString(),");
+      expect(result).toContain("}, config);");
+      expect(result).not.toContain("config.fetch(");
+      expect(result).toContain("if (config.signal?.aborted) {");
+      expect(result).toContain('kind: "aborted"');
+      expect(result).toContain("if (isTimeoutError(error)) {");
+      expect(result).toContain('kind: "timeout"');
+    });
   });
 });
@@ -87,7 +87,7 @@ describe("extractOperationMetadata", () => {
     expect(metadata.operationSecurityHeaders).toEqual([]);
 
     /* Function body should be generated */
-    expect(metadata.functionBodyCode).toContain("fetch");
+    expect(metadata.functionBodyCode).toContain("sendRequest(");
   });
 
   it("should extract metadata for GET operation without body", () => {
@@ -162,7 +162,7 @@ describe("extractOperationMetadata", () => {
     expect(metadata.parameterStructures.destructuredParams).toContain("path");
     expect(metadata.parameterStructures.destructuredParams).toContain("query");
     expect(metadata.parameterStructures.paramsInterface).toContain(
-      "id: string",
+      'id: getUserPath["id"]',
     );
   });
 
@@ -0,0 +1,172 @@
+import type {
+  OpenAPIObject,
+  OperationObject,
+  ParameterObject,
+} from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+
+import { resolveOperationPagination } from "../../src/client-generator/pagination.js";
+
+const doc: OpenAPIObject = {
+  components: {
+    schemas: {
+      Page: {
+        properties: {
+          meta: {
+            properties: { next: { type: "string" } },
+            type: "object",
+          },
+          results: { items: { type: "string" }, type: "array" },
+        },
+        type: "object",
+      },
+    },
+  },
+  info: { title: "Test", version: "1.0.0" },
+  openapi: "3.1.0",
+  paths: {},
+};
+
+function query(...names: string[]): ParameterObject[] {
+  return names.map((name) => ({ in: "query", name, schema: {} }));
+}
+
+function listOperation(extension?: object): OperationObject {
+  return {
+    operationId: "listThings",
+    responses: {
+      "200": {
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Page" },
+          },
+        },
+        description: "OK",
+      },
+    },
+    ...(extension ? { "x-pagination": extension } : {}),
+  };
+}
+
+describe("resolveOperationPagination", () => {
+  it("should not paginate operations without x-pagination nor settings", () => {
+    // Act
+    const result = resolveOperationPagination(
+      "get",
+      listOperation(),
+      query("cursor"),
+      doc,
+    );
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+
+  it("should resolve x-pagination with client parameter names", () => {
+    // Act
+    const result = resolveOperationPagination(
+      "get",
+      listOperation({ nextCursor: "meta.next", type: "cursor" }),
+      query("cursor"),
+      doc,
+    );
+
+    // Assert
+    expect(result).toEqual({
+      contentType: "application/json",
+      items: "results",
+      queryNames: { cursor: "cursor" },
+      status: "200",
+      strategy: {
+        cursorParam: "cursor",
+        kind: "cursor",
+        nextCursor: "meta.next",
+      },
+    });
+  });
+
+  it("should detect the pagination of GET operations from the settings", () => {
+    // Arrange
+    const settings = {
+      cursor: { next: "meta.missing", param: "cursor" },
+      offset: { limit: "page_size", offset: "start" },
+    };
+
+    // Act
+    const get = resolveOperationPagination(
+      "get",
+      listOperation(),
+      query("cursor", "start", "page_size"),
+      doc,
+      settings,
+    );
+    const post = resolveOperationPagination(
+      "post",
+      listOperation(),
+      query("cursor", "start", "page_size"),
+      doc,
+      settings,
+    );
+
+    // Assert
+    expect(get?.strategy).toEqual({
+      kind: "offset",
+      limitParam: "pageSize",
+      offsetParam: "start",
+    });
+    expect(post).toBeUndefined();
+  });
+
+  it("should throw on invalid x-pagination", () => {
+    // Act & Assert
+    expect(() =>
+      resolveOperationPagination(
+        "get",
+        listOperation({ type: "page" }),
+        query("p"),
+        doc,
+      ),
+    ).toThrow(
+      "Invalid x-pagination of operation listThings: unknown query parameter page",
+    );
+    expect(() =>
+      resolveOperationPagination(
+        "get",
+        listOperation({ type: "cursor" }),
+        query("cursor"),
+        doc,
+      ),
+    ).toThrow("nextCursor is required");
+  });
+
+  it("should not loop on self-referencing response schemas", () => {
+    // Arrange
+    const recursiveDoc: OpenAPIObject = {
+      ...doc,
+      components: {
+        schemas: {
+          Alias: { $ref: "#/components/schemas/Alias" },
+          Page: {
+            allOf: [{ $ref: "#/components/schemas/Page" }],
+            properties: { next: { $ref: "#/components/schemas/Alias" } },
+            type: "object",
+          },
+        },
+      },
+    };
+    const settings = { cursor: { next: "next", param: "cursor" } };
+
+    // Act
+    const result = resolveOperationPagination(
+      "get",
+      listOperation(),
+      query("cursor"),
+      recursiveDoc,
+      settings,
+    );
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+});
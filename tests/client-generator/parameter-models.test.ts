@@ -33,6 +33,7 @@ describe("parameter logic functions", () => {
   };
 
   const sampleParameterGroups: ParameterGroups = {
+    cookieParams: [],
     pathParams: [samplePathParam],
     queryParams: [sampleQueryParam],
     headerParams: [sampleHeaderParam],
@@ -51,6 +52,27 @@ describe("parameter logic functions", () => {
       expect(resultRequired.isQueryOptional).toBe(false);
     });
 
+    it("should determine cookie optionality correctly", () => {
+      const cookieGroups: ParameterGroups = {
+        ...sampleParameterGroups,
+        cookieParams: [
+          {
+            in: "cookie",
+            name: "session",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+      };
+
+      expect(
+        processParameterGroups(sampleParameterGroups).isCookiesOptional,
+      ).toBe(true);
+      expect(processParameterGroups(cookieGroups).isCookiesOptional).toBe(
+        false,
+      );
+    });
+
     it("should determine header optionality correctly", () => {
       const result = processParameterGroups(sampleParameterGroups);
       expect(result.isHeadersOptional).toBe(false); // header is required
@@ -167,6 +189,7 @@ describe("parameter logic functions", () => {
 
     it("should handle header names that need quoting", () => {
       const specialHeaderGroups: ParameterGroups = {
+        cookieParams: [],
         pathParams: [],
         queryParams: [],
         headerParams: [
@@ -15,10 +15,12 @@ describe("parameter template functions", () => {
   ): ParameterAnalysis => ({
     structure: {
       processed: {
+        cookieParams: [],
         pathParams: [],
         queryParams: [],
         headerParams: [],
         securityHeaders: [],
+        isCookiesOptional: true,
         isQueryOptional: true,
         isHeadersOptional: true,
       },
@@ -27,10 +29,12 @@ describe("parameter template functions", () => {
       hasResponseMap: false,
     },
     optionalityRules: {
+      isCookiesOptional: true,
       isQueryOptional: true,
       isHeadersOptional: true,
       isBodyOptional: true,
     },
+    cookieProperties: [],
     pathProperties: [],
     queryProperties: [],
     headerProperties: [],
@@ -227,6 +231,35 @@ describe("parameter template functions", () => {
     });
   });
 
+  describe("cookie parameters", () => {
+    const cookieAnalysis = createBasicAnalysis({
+      cookieProperties: [
+        { isRequired: false, name: "session-id", varName: "sessionIdCookie" },
+      ],
+      structure: {
+        ...createBasicAnalysis().structure,
+        processed: {
+          ...createBasicAnalysis().structure.processed,
+          cookieParams: [
+            { in: "cookie", name: "session-id", schema: { type: "string" } },
+          ],
+        },
+      },
+    });
+
+    it("should render an optional cookies section", () => {
+      expect(renderParameterInterface(cookieAnalysis)).toBe(
+        '{\n  cookies?: {\n    "session-id"?: string;\n  };\n}',
+      );
+    });
+
+    it("should destructure cookies into suffixed variables", () => {
+      expect(renderDestructuredParameters(cookieAnalysis)).toBe(
+        '{ cookies: { "session-id": sessionIdCookie } = {} }',
+      );
+    });
+  });
+
   describe("renderDestructuredParameters", () => {
     it("should render empty destructuring for no parameters", () => {
       const analysis = createBasicAnalysis();
@@ -375,6 +408,66 @@ describe("parameter template functions", () => {
       );
     });
 
+    it("should serialize styled parameters according to style/explode", () => {
+      const query: ParameterObject[] = [
+        {
+          in: "query",
+          name: "colors",
+          schema: { items: { type: "string" }, type: "array" },
+          style: "pipeDelimited",
+        },
+      ];
+      const headers: ParameterObject[] = [
+        {
+          in: "header",
+          name: "X-Trace",
+          schema: { items: { type: "string" }, type: "array" },
+        },
+      ];
+
+      const queryResult = renderParameterHandling("query", query, [
+        {
+          explode: false,
+          location: "query",
+          name: "colors",
+          shape: "array",
+          style: "pipeDelimited",
+        },
+      ]);
+      const headerResult = renderParameterHandling("header", headers, [
+        {
+          explode: false,
+          location: "header",
+          name: "X-Trace",
+          shape: "array",
+          style: "simple",
+        },
+      ]);
+
+      expect(queryResult).toBe(
+        `if (colors !== undefined) appendQueryParameter(url.searchParams, 'colors', colors, "pipeDelimited", false);`,
+      );
+      expect(headerResult).toBe(
+        "if (XTrace !== undefined) finalHeaders['X-Trace'] = serializeHeaderParameter(XTrace, false);",
+      );
+    });
+
+    it("should render cookie parameter handling code", () => {
+      const params: ParameterObject[] = [
+        {
+          in: "cookie",
+          name: "session-id",
+          required: true,
+          schema: { type: "string" },
+        },
+      ];
+
+      const result = renderParameterHandling("cookie", params);
+      expect(result).toBe(
+        'if (sessionIdCookie !== undefined) appendCookie(finalHeaders, "session-id", String(sessionIdCookie));',
+      );
+    });
+
     it("should return empty string for no parameters", () => {
       const result = renderParameterHandling("header", []);
       expect(result).toBe("");
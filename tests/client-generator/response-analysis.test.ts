@@ -249,6 +249,43 @@ describe("response-analysis", () => {
       expect(result.hasSchema).toBe(false);
       expect(result.parsingStrategy.useValidation).toBe(false);
     });
+
+    it("should mark streaming media types", () => {
+      const schema = { $ref: "#/components/schemas/Chunk" };
+      const streamed: ResponseObject = {
+        description: "Events",
+        content: { "text/event-stream": { schema } },
+      };
+      const mixed: ResponseObject = {
+        description: "Events or JSON",
+        content: {
+          "application/json": { schema },
+          "application/x-ndjson; charset=utf-8": { schema },
+        },
+      };
+      const operation: OperationObject = {
+        operationId: "streamChunks",
+        responses: { "200": streamed },
+      };
+
+      const exclusive = buildResponseTypeInfo(
+        "200",
+        streamed,
+        operation,
+        new Set(),
+        false,
+      );
+      const partial = buildResponseTypeInfo(
+        "200",
+        mixed,
+        operation,
+        new Set(),
+        true,
+      );
+
+      expect(exclusive.streaming).toBe("exclusive");
+      expect(partial.streaming).toBe("mixed");
+    });
   });
 
   describe("analyzeResponseStructure", () => {
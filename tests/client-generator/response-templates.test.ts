@@ -51,6 +51,38 @@ describe("response-templates", () => {
         "return { success: true as const, status: 200 as const, data, response };",
       );
     });
+
+    it("should parse the declared headers of the response when read", () => {
+      const responseInfo: ResponseInfo = {
+        statusCode: "204",
+        typeName: null,
+        contentType: null,
+        hasSchema: false,
+        headers: {
+          hasRequired: false,
+          schemaName: "getPet204ResponseHeadersSchema",
+          typeName: "getPet204ResponseHeaders",
+        },
+        parsingStrategy: {
+          useValidation: false,
+          isJsonLike: false,
+          requiresRuntimeContentTypeCheck: false,
+        },
+      };
+
+      const result = renderResponseHandler(responseInfo, "undefined");
+
+      expect(result).toContain(
+        "const readHeaders = () => (parsedHeaders ??= getPet204ResponseHeadersSchema.parse(Object.fromEntries(minimalResponse.headers)));",
+      );
+      expect(result).toContain(
+        "if (config.forceValidation) {\n        const headersParse = getPet204ResponseHeadersSchema.safeParse(Object.fromEntries(minimalResponse.headers));",
+      );
+      expect(result).toContain('kind: "parse-error" as const');
+      expect(result).toContain(
+        "return { success: true as const, status: 204 as const, data, response, get headers() { return readHeaders(); } };",
+      );
+    });
   });
 
   describe("renderResponseHandlers", () => {
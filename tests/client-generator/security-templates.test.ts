@@ -1,10 +1,16 @@
 import { describe, expect, it } from "vitest";
 
-import type { SecurityHeader } from "../../src/client-generator/models/security-models.js";
+import type {
+  CredentialScheme,
+  SecurityHeader,
+} from "../../src/client-generator/models/security-models.js";
 import {
   renderAuthHeaderValidation,
+  renderCredentialHeaderHandling,
+  renderCredentialQueryHandling,
   renderSecurityHeaderHandling,
   renderSecurityParameterExtraction,
+  renderTokenProviderHandling,
 } from "../../src/client-generator/templates/security-templates.js";
 
 describe("client-generator security templates", () => {
@@ -197,4 +203,66 @@ describe("client-generator security templates", () => {
       );
     });
   });
+
+  describe("renderTokenProviderHandling", () => {
+    it("should render nothing without a token requirement", () => {
+      expect(renderTokenProviderHandling(undefined)).toBe("");
+    });
+
+    it("should request a token with the operation scopes", () => {
+      const result = renderTokenProviderHandling({
+        schemeName: "petstore_auth",
+        scopes: ["read:pets", "write:pets"],
+        type: "oauth2",
+      });
+
+      expect(result).toContain(
+        "if (config.tokenProvider && finalHeaders['Authorization'] === undefined) {",
+      );
+      expect(result).toContain(
+        'await config.tokenProvider({ schemeName: "petstore_auth", scopes: ["read:pets", "write:pets"], type: "oauth2" })',
+      );
+      expect(result).toContain(
+        "if (accessToken) finalHeaders['Authorization'] = `Bearer ${accessToken}`;",
+      );
+    });
+  });
+
+  describe("credential handling", () => {
+    const credentials: CredentialScheme[] = [
+      { location: "query", parameterName: "api_key", schemeName: "queryKey" },
+      {
+        location: "cookie",
+        parameterName: "SESSIONID",
+        schemeName: "cookieKey",
+      },
+      { location: "basic", schemeName: "basic" },
+      { location: "basic", schemeName: "otherBasic" },
+    ];
+
+    it("should render the Cookie and Basic Authorization headers", () => {
+      const result = renderCredentialHeaderHandling(credentials);
+
+      expect(result.split("\n")).toHaveLength(2);
+      expect(result).toContain(
+        'if (config.apiKeys?.["cookieKey"] !== undefined) appendCookie(finalHeaders, "SESSIONID", config.apiKeys["cookieKey"]);',
+      );
+      expect(result).toContain(
+        "if (config.basicAuth && finalHeaders['Authorization'] === undefined) finalHeaders['Authorization'] = encodeBasicAuth(config.basicAuth);",
+      );
+    });
+
+    it("should render the query apiKeys", () => {
+      const result = renderCredentialQueryHandling(credentials);
+
+      expect(result).toBe(
+        'if (config.apiKeys?.["queryKey"] !== undefined) url.searchParams.set("api_key", config.apiKeys["queryKey"]);',
+      );
+    });
+
+    it("should render nothing without credential schemes", () => {
+      expect(renderCredentialHeaderHandling([])).toBe("");
+      expect(renderCredentialQueryHandling([])).toBe("");
+    });
+  });
 });
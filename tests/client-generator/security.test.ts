@@ -7,10 +7,17 @@ import type {
 import { describe, expect, it } from "vitest";
 
 import {
+  analyzeCredentialScheme,
+  extractApiKeySchemeNames,
   extractAuthHeaders,
+  findUnsupportedSecuritySchemes,
   generateSecurityHeaderHandling,
+  getOperationCredentialRequirements,
+  getOperationCredentialSchemes,
   getOperationSecuritySchemes,
+  getOperationTokenRequirement,
   hasSecurityOverride,
+  isTokenBasedScheme,
   type SecurityHeader,
 } from "../../src/client-generator/security.js";
 
@@ -427,4 +434,221 @@ describe("client-generator security", () => {
       expect(result).toBe("finalHeaders['X-Special@Header'] = XSpecialHeader;");
     });
   });
+
+  describe("getOperationTokenRequirement", () => {
+    const createDoc = (
+      security?: OpenAPIObject["security"],
+    ): OpenAPIObject => ({
+      components: {
+        securitySchemes: {
+          apiKey: { in: "header", name: "X-API-Key", type: "apiKey" },
+          oauth: {
+            flows: {
+              implicit: {
+                authorizationUrl: "https://example.com/authorize",
+                scopes: { "pets:read": "Read pets" },
+              },
+              password: {
+                scopes: { "pets:read": "Read pets" },
+                tokenUrl: "https://example.com/token",
+              },
+            },
+            type: "oauth2",
+          },
+          oidc: {
+            openIdConnectUrl:
+              "https://example.com/.well-known/openid-configuration",
+            type: "openIdConnect",
+          },
+        },
+      },
+      info: { title: "Test", version: "1.0.0" },
+      openapi: "3.1.0",
+      paths: {},
+      security,
+    });
+
+    it("should return the operation scopes of an OAuth2 requirement", () => {
+      const operation: OperationObject = {
+        responses: {},
+        security: [{ oauth: ["pets:read", "pets:write"] }],
+      };
+
+      const result = getOperationTokenRequirement(operation, createDoc());
+
+      expect(result).toEqual({
+        schemeName: "oauth",
+        scopes: ["pets:read", "pets:write"],
+        type: "oauth2",
+      });
+    });
+
+    it("should fall back to the global security requirement", () => {
+      const operation: OperationObject = { responses: {} };
+
+      const result = getOperationTokenRequirement(
+        operation,
+        createDoc([{ oidc: ["openid", "profile"] }]),
+      );
+
+      expect(result).toEqual({
+        schemeName: "oidc",
+        scopes: ["openid", "profile"],
+        type: "openIdConnect",
+      });
+    });
+
+    it("should pick the first token based alternative", () => {
+      const operation: OperationObject = {
+        responses: {},
+        security: [{ apiKey: [] }, { oauth: ["pets:read"] }, { oidc: [] }],
+      };
+
+      const result = getOperationTokenRequirement(operation, createDoc());
+
+      expect(result?.schemeName).toBe("oauth");
+    });
+
+    it("should return undefined when security is overridden with no token scheme", () => {
+      const operation: OperationObject = { responses: {}, security: [] };
+
+      const result = getOperationTokenRequirement(
+        operation,
+        createDoc([{ oauth: [] }]),
+      );
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe("isTokenBasedScheme", () => {
+    it("should recognise OAuth2 and OpenID Connect schemes only", () => {
+      const schemes: SecuritySchemeObject[] = [
+        { flows: {}, type: "oauth2" },
+        { openIdConnectUrl: "https://example.com", type: "openIdConnect" },
+        { scheme: "bearer", type: "http" },
+        { in: "header", name: "X-API-Key", type: "apiKey" },
+      ];
+
+      expect(schemes.map(isTokenBasedScheme)).toEqual([
+        true,
+        true,
+        false,
+        false,
+      ]);
+    });
+  });
+
+  describe("credential schemes", () => {
+    const createDoc = (
+      security?: OpenAPIObject["security"],
+    ): OpenAPIObject => ({
+      components: {
+        securitySchemes: {
+          basic: { scheme: "Basic", type: "http" },
+          bearer: { scheme: "bearer", type: "http" },
+          cookieKey: { in: "cookie", name: "SESSIONID", type: "apiKey" },
+          headerKey: { in: "header", name: "X-API-Key", type: "apiKey" },
+          queryKey: { in: "query", name: "api_key", type: "apiKey" },
+        },
+      },
+      info: { title: "Test", version: "1.0.0" },
+      openapi: "3.1.0",
+      paths: {},
+      security,
+    });
+
+    it("should analyze apiKey in query or cookie and HTTP Basic schemes only", () => {
+      const schemes = createDoc().components?.securitySchemes ?? {};
+
+      const result = Object.entries(schemes).map(([name, scheme]) =>
+        analyzeCredentialScheme(name, scheme as SecuritySchemeObject),
+      );
+
+      expect(result).toEqual([
+        { location: "basic", schemeName: "basic" },
+        undefined,
+        {
+          location: "cookie",
+          parameterName: "SESSIONID",
+          schemeName: "cookieKey",
+        },
+        undefined,
+        { location: "query", parameterName: "api_key", schemeName: "queryKey" },
+      ]);
+    });
+
+    it("should extract the apiKey scheme names sent in query or cookie", () => {
+      expect(extractApiKeySchemeNames(createDoc())).toEqual([
+        "cookieKey",
+        "queryKey",
+      ]);
+    });
+
+    it("should keep the credentials of every alternative requirement", () => {
+      const operation: OperationObject = {
+        responses: {},
+        security: [
+          { basic: [] },
+          { cookieKey: [], queryKey: [] },
+          { bearer: [] },
+        ],
+      };
+
+      const result = getOperationCredentialRequirements(operation, createDoc());
+
+      expect(result).toEqual([
+        [{ location: "basic", schemeName: "basic" }],
+        [
+          {
+            location: "cookie",
+            parameterName: "SESSIONID",
+            schemeName: "cookieKey",
+          },
+          {
+            location: "query",
+            parameterName: "api_key",
+            schemeName: "queryKey",
+          },
+        ],
+        [],
+      ]);
+    });
+
+    it("should fall back to the global security and dedupe schemes", () => {
+      const operation: OperationObject = { responses: {} };
+
+      const result = getOperationCredentialSchemes(
+        operation,
+        createDoc([{ queryKey: [] }, { basic: [], queryKey: [] }]),
+      );
+
+      expect(result.map((credential) => credential.schemeName)).toEqual([
+        "queryKey",
+        "basic",
+      ]);
+    });
+  });
+
+  describe("findUnsupportedSecuritySchemes", () => {
+    it("should report the HTTP schemes other than basic and bearer", () => {
+      const doc: OpenAPIObject = {
+        components: {
+          securitySchemes: {
+            basic: { scheme: "Basic", type: "http" },
+            bearer: { scheme: "Bearer", type: "http" },
+            digest: { scheme: "digest", type: "http" },
+            headerKey: { in: "header", name: "X-API-Key", type: "apiKey" },
+          },
+        },
+        info: { title: "Test", version: "1.0.0" },
+        openapi: "3.1.0",
+        paths: {},
+      };
+
+      expect(findUnsupportedSecuritySchemes(doc)).toEqual([
+        { scheme: "digest", schemeName: "digest" },
+      ]);
+    });
+  });
 });
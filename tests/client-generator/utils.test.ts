@@ -106,7 +106,7 @@ describe("client-generator utils", () => {
       ];
 
       const result = generatePathInterpolation("/users/{userId}", pathParams);
-      expect(result).toBe("/users/${userId}");
+      expect(result).toBe("/users/${encodeURIComponent(String(userId))}");
     });
 
     it("should interpolate multiple path parameters", () => {
@@ -119,7 +119,9 @@ describe("client-generator utils", () => {
         "/users/{userId}/posts/{postId}",
         pathParams,
       );
-      expect(result).toBe("/users/${userId}/posts/${postId}");
+      expect(result).toBe(
+        "/users/${encodeURIComponent(String(userId))}/posts/${encodeURIComponent(String(postId))}",
+      );
     });
 
     it("should convert kebab-case parameter names to camelCase", () => {
@@ -132,7 +134,28 @@ describe("client-generator utils", () => {
         "/users/{user-id}/posts/{post-id}",
         pathParams,
       );
-      expect(result).toBe("/users/${userId}/posts/${postId}");
+      expect(result).toBe(
+        "/users/${encodeURIComponent(String(userId))}/posts/${encodeURIComponent(String(postId))}",
+      );
+    });
+
+    it("should keep styled parameters to the path serializer", () => {
+      const pathParams: ParameterObject[] = [
+        { in: "path", name: "ids", required: true },
+      ];
+
+      const result = generatePathInterpolation("/items/{ids}", pathParams, [
+        {
+          explode: false,
+          location: "path",
+          name: "ids",
+          shape: "array",
+          style: "label",
+        },
+      ]);
+      expect(result).toBe(
+        '/items/${serializePathParameter("ids", ids, "label", false)}',
+      );
     });
 
     it("should handle paths with no parameters", () => {
@@ -164,7 +187,9 @@ describe("client-generator utils", () => {
         "/users/{user_id}/data/{complex-param-name}",
         pathParams,
       );
-      expect(result).toBe("/users/${userId}/data/${complexParamName}"); // Only complex-param-name gets converted
+      expect(result).toBe(
+        "/users/${encodeURIComponent(String(userId))}/data/${encodeURIComponent(String(complexParamName))}",
+      ); // Only complex-param-name gets converted
     });
   });
 
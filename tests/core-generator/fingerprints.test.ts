@@ -0,0 +1,235 @@
+import type { OpenAPIObject, SchemaObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  computeFingerprints,
+  diffFingerprints,
+} from "../../src/core-generator/fingerprints.js";
+
+function createDoc(): OpenAPIObject {
+  return {
+    components: {
+      parameters: {
+        Limit: { in: "query", name: "limit", schema: { type: "integer" } },
+      },
+      schemas: {
+        Pet: {
+          properties: { name: { type: "string" } },
+          type: "object",
+        },
+        User: {
+          properties: { pet: { $ref: "#/components/schemas/Pet" } },
+          type: "object",
+        },
+      },
+    },
+    info: { title: "Test", version: "1.0.0" },
+    openapi: "3.1.0",
+    paths: {
+      "/pets": {
+        get: {
+          operationId: "listPets",
+          parameters: [{ $ref: "#/components/parameters/Limit" }],
+          responses: { "200": { description: "ok" } },
+        },
+      },
+      "/users": {
+        post: {
+          operationId: "createUser",
+          requestBody: {
+            content: {
+              "application/json": {
+                schema: {
+                  properties: { name: { type: "string" } },
+                  type: "object",
+                },
+              },
+            },
+          },
+          responses: { "204": { description: "created" } },
+        },
+      },
+    },
+  };
+}
+
+describe("core-generator fingerprints", () => {
+  describe("computeFingerprints", () => {
+    it("should fingerprint component, request and response schemas", () => {
+      const fingerprints = computeFingerprints(createDoc());
+
+      expect([...fingerprints.schemas.keys()].sort()).toEqual([
+        "CreateUserRequest",
+        "Pet",
+        "User",
+      ]);
+      expect([...fingerprints.operations.keys()].sort()).toEqual([
+        "createUser",
+        "listPets",
+      ]);
+    });
+
+    it("should only change the fingerprint of the edited schema", () => {
+      const doc = createDoc();
+      const before = computeFingerprints(doc);
+
+      (doc.components!.schemas!.Pet as { required?: string[] }).required = [
+        "name",
+      ];
+      const after = computeFingerprints(doc);
+
+      expect(diffFingerprints(before.schemas, after.schemas)).toEqual({
+        changed: new Set(["Pet"]),
+        removed: new Set(),
+      });
+      expect(
+        diffFingerprints(before.operations, after.operations).changed.size,
+      ).toBe(0);
+    });
+
+    it("should change every member of a cycle when one of them changes", () => {
+      const doc = createDoc();
+      const pet = doc.components!.schemas!.Pet as {
+        properties: Record<string, object>;
+      };
+      const before = computeFingerprints(doc);
+
+      pet.properties.owner = { $ref: "#/components/schemas/User" };
+      const cycled = computeFingerprints(doc);
+      (doc.components!.schemas!.User as { required?: string[] }).required = [
+        "pet",
+      ];
+      const after = computeFingerprints(doc);
+
+      expect(diffFingerprints(before.schemas, cycled.schemas).changed).toEqual(
+        new Set(["Pet", "User"]),
+      );
+      expect(diffFingerprints(cycled.schemas, after.schemas).changed).toEqual(
+        new Set(["Pet", "User"]),
+      );
+    });
+
+    it("should change the operations whose parameter schema changed", () => {
+      const doc = createDoc();
+      doc.components!.parameters!.Filter = {
+        in: "query",
+        name: "filter",
+        schema: { $ref: "#/components/schemas/Pet" },
+      };
+      doc.paths!["/pets"].get!.parameters!.push({
+        $ref: "#/components/parameters/Filter",
+      });
+      const before = computeFingerprints(doc);
+
+      (doc.components!.schemas!.Pet as SchemaObject).properties!.name = {
+        type: "integer",
+      };
+      const after = computeFingerprints(doc);
+
+      expect(
+        diffFingerprints(before.operations, after.operations).changed,
+      ).toEqual(new Set(["listPets"]));
+    });
+
+    it("should change the operations whose response header schema changed", () => {
+      const doc = createDoc();
+      doc.components!.schemas!.Count = { type: "integer" };
+      doc.paths!["/pets"].get!.responses["200"].headers = {
+        "X-Count": { schema: { $ref: "#/components/schemas/Count" } },
+      };
+      const before = computeFingerprints(doc);
+
+      doc.components!.schemas!.Count = { type: "boolean" };
+      const after = computeFingerprints(doc);
+
+      expect(
+        diffFingerprints(before.operations, after.operations).changed,
+      ).toEqual(new Set(["listPets"]));
+    });
+
+    it("should change the operations whose pagination changed", () => {
+      const doc = createDoc();
+      doc.paths!["/pets"].get!.parameters!.push({
+        in: "query",
+        name: "cursor",
+        schema: { type: "string" },
+      });
+      doc.paths!["/pets"].get!.responses["200"].content = {
+        "application/json": { schema: { $ref: "#/components/schemas/Page" } },
+      };
+      doc.components!.schemas!.Page = {
+        properties: {
+          items: { items: { type: "string" }, type: "array" },
+          next: { type: "string" },
+        },
+        type: "object",
+      };
+      const settings = { cursor: { next: "next", param: "cursor" } };
+      const before = computeFingerprints(doc, settings);
+
+      (doc.components!.schemas!.Page as SchemaObject).properties!.cursor = {
+        type: "string",
+      };
+      const unchanged = computeFingerprints(doc, settings);
+      delete (doc.components!.schemas!.Page as SchemaObject).properties!.next;
+      const after = computeFingerprints(doc, settings);
+
+      expect(
+        diffFingerprints(before.operations, unchanged.operations).changed.size,
+      ).toBe(0);
+      expect(
+        diffFingerprints(before.operations, after.operations).changed,
+      ).toEqual(new Set(["listPets"]));
+    });
+
+    it("should change every operation when a shared component changes", () => {
+      const doc = createDoc();
+      const before = computeFingerprints(doc);
+
+      doc.components!.parameters!.Limit = {
+        in: "query",
+        name: "limit",
+        required: true,
+        schema: { type: "integer" },
+      };
+      const after = computeFingerprints(doc);
+
+      expect(
+        diffFingerprints(before.operations, after.operations).changed,
+      ).toEqual(new Set(["createUser", "listPets"]));
+      expect(diffFingerprints(before.schemas, after.schemas).changed.size).toBe(
+        0,
+      );
+    });
+  });
+
+  describe("diffFingerprints", () => {
+    it("should report added, changed and removed keys", () => {
+      const previous = new Map([
+        ["a", "1"],
+        ["b", "2"],
+        ["c", "3"],
+      ]);
+      const next = new Map([
+        ["a", "1"],
+        ["b", "20"],
+        ["d", "4"],
+      ]);
+
+      expect(diffFingerprints(previous, next)).toEqual({
+        changed: new Set(["b", "d"]),
+        removed: new Set(["c"]),
+      });
+    });
+
+    it("should report nothing for identical maps", () => {
+      const fingerprints = new Map([["a", "1"]]);
+
+      expect(diffFingerprints(fingerprints, new Map(fingerprints))).toEqual({
+        changed: new Set(),
+        removed: new Set(),
+      });
+    });
+  });
+});
@@ -0,0 +1,386 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createInMemoryOutput } from "../../src/core-generator/file-writer.js";
+import {
+  generate,
+  generateFromDocument,
+  generateToMemory,
+} from "../../src/core-generator/index.js";
+
+const createSpec = () => ({
+  components: {
+    schemas: {
+      Pet: {
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+        },
+        required: ["id"],
+        type: "object",
+      },
+    },
+  },
+  info: { title: "In-memory test", version: "1.0.0" },
+  openapi: "3.1.0",
+  paths: {
+    "/pets": {
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          content: {
+            "application/json": {
+              schema: {
+                properties: { name: { type: "string" } },
+                type: "object",
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+              },
+            },
+            description: "created",
+          },
+        },
+      },
+    },
+    "/pets/{petId}": {
+      get: {
+        operationId: "getPet",
+        parameters: [
+          {
+            in: "path",
+            name: "petId",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+              },
+            },
+            description: "ok",
+          },
+        },
+      },
+    },
+  },
+});
+
+describe("core-generator generateToMemory", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    workDir = await fs.mkdtemp(path.join(tmpdir(), "yanogen-memory-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workDir, { force: true, recursive: true });
+  });
+
+  it("should return schemas, client, server and package.json keyed by relative path", async () => {
+    // Arrange
+    const spec = createSpec();
+
+    // Act
+    const files = await generateToMemory(spec, {
+      generateClient: true,
+      generateServer: true,
+    });
+
+    // Assert
+    expect([...files.keys()]).toEqual([
+      "client/config.ts",
+      "client/createPet.ts",
+      "client/getPet.ts",
+      "client/index.ts",
+      "package.json",
+      "schemas/CreatePetRequest.ts",
+      "schemas/Pet.ts",
+      "server/adapters/common.ts",
+      "server/adapters/express.ts",
+      "server/adapters/fastify.ts",
+      "server/adapters/hono.ts",
+      "server/adapters/koa.ts",
+      "server/adapters/node-http.ts",
+      "server/createPet.ts",
+      "server/getPet.ts",
+      "server/index.ts",
+      "server/router.ts",
+      "server/runtime.ts",
+    ]);
+    expect(files.get("schemas/Pet.ts")).toContain("export const Pet");
+    expect(files.get("client/getPet.ts")).toContain("getPet");
+    expect(files.get("server/index.ts")).toContain("getPetWrapper");
+    expect(JSON.parse(files.get("package.json") ?? "{}")).toMatchObject({
+      name: "generated-client",
+    });
+  });
+
+  it("should only include the requested generators", async () => {
+    // Arrange
+    const spec = createSpec();
+
+    // Act
+    const files = await generateToMemory(spec, { generateClient: false });
+
+    // Assert
+    expect([...files.keys()]).toEqual([
+      "package.json",
+      "schemas/CreatePetRequest.ts",
+      "schemas/Pet.ts",
+    ]);
+  });
+
+  it("should generate the server along with the mock server", async () => {
+    // Arrange
+    const spec = createSpec();
+
+    // Act
+    const files = await generateToMemory(spec, {
+      generateClient: false,
+      generateMock: true,
+    });
+
+    // Assert
+    expect([...files.keys()]).toContain("server/router.ts");
+    expect(
+      [...files.keys()].filter((file) => file.startsWith("mock/")),
+    ).toEqual([
+      "mock/index.ts",
+      "mock/runtime.ts",
+      "mock/server.ts",
+      "mock/synthesizer.ts",
+    ]);
+    expect(files.get("mock/index.ts")).toContain(
+      'import { getPetResponseSchemas } from "../server/getPet.js";',
+    );
+  });
+
+  it("should generate the server along with the MSW handlers", async () => {
+    // Arrange
+    const spec = createSpec();
+
+    // Act
+    const files = await generateToMemory(spec, {
+      generateClient: false,
+      generateMsw: true,
+    });
+
+    // Assert
+    expect([...files.keys()]).toContain("server/router.ts");
+    expect(files.get("msw/index.ts")).toContain(
+      'http.get(path("/pets/:param0")',
+    );
+  });
+
+  it("should generate the client along with the query hooks", async () => {
+    // Arrange
+    const spec = createSpec();
+
+    // Act
+    const files = await generateToMemory(spec, {
+      generateClient: false,
+      generateQueryHooks: true,
+    });
+
+    // Assert
+    const hooks = files.get("queries/index.ts");
+    expect([...files.keys()]).toContain("client/getPet.ts");
+    expect(hooks).toContain("export function useGetPetQuery(");
+    expect(hooks).toContain("export function useCreatePetMutation(");
+  });
+
+  it("should warn about the dropped schema keywords and their location", async () => {
+    // Arrange
+    const spec = createSpec();
+    Object.assign(spec.components.schemas.Pet.properties, {
+      tags: { type: "array", unevaluatedItems: false },
+    });
+
+    // Act
+    await generateToMemory(spec, { generateClient: false });
+
+    // Assert
+    expect(console.warn).toHaveBeenCalledWith(
+      "⚠️ Pet: dropped JSON Schema keywords without Zod equivalent: unevaluatedItems (#/components/schemas/Pet/properties/tags)",
+    );
+  });
+
+  it("should warn about the HTTP auth schemes the client cannot send", async () => {
+    // Arrange
+    const spec = {
+      ...createSpec(),
+      components: {
+        ...createSpec().components,
+        securitySchemes: { legacyAuth: { scheme: "digest", type: "http" } },
+      },
+      security: [{ legacyAuth: [] }],
+    };
+
+    // Act
+    await generateToMemory(spec, { generateClient: true });
+
+    // Assert
+    expect(console.warn).toHaveBeenCalledWith(
+      '⚠️ legacyAuth: unsupported HTTP auth scheme "digest", requests are sent without its credentials',
+    );
+  });
+
+  it("should validate custom formats with their code and imports", async () => {
+    // Arrange
+    const spec = createSpec();
+    Object.assign(spec.components.schemas.Pet.properties, {
+      iban: { format: "iban", type: "string" },
+    });
+
+    // Act
+    const files = await generateToMemory(spec, {
+      formats: {
+        iban: {
+          code: "z.string().refine(isValidIban)",
+          imports: ['import { isValidIban } from "../../validators.js";'],
+        },
+      },
+      generateClient: false,
+    });
+
+    // Assert
+    const pet = files.get("schemas/Pet.ts");
+    expect(pet).toContain('import { isValidIban } from "../../validators.js";');
+    expect(pet).toContain("iban: z.string().refine(isValidIban).optional()");
+  });
+
+  it("should validate custom formats of parameters and response headers", async () => {
+    // Arrange
+    const spec = createSpec();
+    const getPet = spec.paths["/pets/{petId}"].get;
+    Object.assign(getPet, {
+      parameters: [
+        ...getPet.parameters,
+        {
+          in: "query",
+          name: "account",
+          schema: { format: "iban", type: "string" },
+        },
+      ],
+    });
+    Object.assign(getPet.responses["200"], {
+      headers: { "X-Account": { schema: { format: "iban", type: "string" } } },
+    });
+
+    // Act
+    const files = await generateToMemory(spec, {
+      formats: {
+        iban: {
+          code: "z.string().refine(isValidIban)",
+          imports: ['import { isValidIban } from "../../validators.js";'],
+        },
+      },
+      generateClient: true,
+      generateServer: true,
+    });
+
+    // Assert
+    for (const file of ["client/getPet.ts", "server/getPet.ts"]) {
+      const content = files.get(file);
+      expect(content, file).toContain(
+        'import { isValidIban } from "../../validators.js";',
+      );
+      expect(content, file).toContain(
+        "account: z.string().refine(isValidIban).optional()",
+      );
+      expect(content, file).toContain(
+        '"x-account": z.string().refine(isValidIban).optional()',
+      );
+    }
+    expect(files.get("client/createPet.ts")).not.toContain("isValidIban");
+  });
+
+  it("should keep the lazy references of a partially selected cycle", async () => {
+    // Arrange
+    const spec = createSpec();
+    Object.assign(spec.components.schemas, {
+      Owner: {
+        properties: {
+          pets: { items: { $ref: "#/components/schemas/Pet" }, type: "array" },
+        },
+        type: "object",
+      },
+    });
+    Object.assign(spec.components.schemas.Pet.properties, {
+      owner: { $ref: "#/components/schemas/Owner" },
+    });
+    const output = createInMemoryOutput();
+
+    // Act
+    await generateFromDocument(
+      spec as Parameters<typeof generateFromDocument>[0],
+      output,
+      { generateClient: false },
+      { operationIds: new Set(), schemaNames: new Set(["Pet"]) },
+    );
+
+    // Assert
+    expect([...output.files.keys()]).toEqual([
+      "schemas/Pet.ts",
+      "package.json",
+    ]);
+    expect(output.files.get("schemas/Pet.ts")).toContain(
+      "owner: z.lazy(() => Owner).optional()",
+    );
+  });
+
+  it("should not write to disk nor mutate the input document", async () => {
+    // Arrange
+    const spec = createSpec();
+    const original = structuredClone(spec);
+    const writeFileSpy = vi.spyOn(fs, "writeFile");
+    const mkdirSpy = vi.spyOn(fs, "mkdir");
+
+    // Act
+    await generateToMemory(spec, {
+      generateClient: true,
+      generateServer: true,
+    });
+
+    // Assert
+    expect(writeFileSpy).not.toHaveBeenCalled();
+    expect(mkdirSpy).not.toHaveBeenCalled();
+    expect(spec).toEqual(original);
+  });
+
+  it("should produce the same files as generate when given a spec path", async () => {
+    // Arrange
+    const specPath = path.join(workDir, "openapi.json");
+    const outputDir = path.join(workDir, "generated");
+    await fs.writeFile(specPath, JSON.stringify(createSpec()));
+    const settings = { generateClient: true, generateServer: true };
+
+    // Act
+    const files = await generateToMemory(specPath, settings);
+    await generate({ ...settings, input: specPath, output: outputDir });
+
+    // Assert
+    for (const [relativePath, content] of files) {
+      const written = await fs.readFile(
+        path.join(outputDir, relativePath),
+        "utf-8",
+      );
+      expect(written, relativePath).toBe(content);
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import type { OpenAPIObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+
+import { hoistSchemaReferences } from "../../src/core-generator/references.js";
+
+const createDocument = (
+  schemas: Record<string, unknown>,
+  paths: Record<string, unknown> = {},
+) =>
+  ({
+    components: { schemas },
+    info: { title: "References test", version: "1.0.0" },
+    openapi: "3.1.0",
+    paths,
+  }) as OpenAPIObject;
+
+describe("hoistSchemaReferences", () => {
+  it("should hoist the targets of pointers into other schemas", () => {
+    // Arrange
+    const author = {
+      properties: { name: { type: "string" } },
+      type: "object",
+    };
+    const doc = createDocument({
+      Book: { properties: { author }, type: "object" },
+      Review: {
+        properties: {
+          reviewer: { $ref: "#/components/schemas/Book/properties/author" },
+        },
+        type: "object",
+      },
+    });
+
+    // Act
+    const hoisted = hoistSchemaReferences(doc);
+
+    // Assert
+    expect(hoisted).toBe(1);
+    expect(doc.components?.schemas).toEqual({
+      Book: {
+        properties: { author: { $ref: "#/components/schemas/BookAuthor" } },
+        type: "object",
+      },
+      BookAuthor: author,
+      Review: {
+        properties: {
+          reviewer: { $ref: "#/components/schemas/BookAuthor" },
+        },
+        type: "object",
+      },
+    });
+  });
+
+  it("should hoist inline schemas of operations under a unique name", () => {
+    // Arrange
+    const doc = createDocument(
+      {
+        PetsGet200: { type: "string" },
+        Summary: {
+          $ref: "#/paths/~1pets/get/responses/200/content/application~1json/schema",
+        },
+      },
+      {
+        "/pets": {
+          get: {
+            responses: {
+              "200": {
+                content: {
+                  "application/json": {
+                    schema: { items: { type: "string" }, type: "array" },
+                  },
+                },
+                description: "ok",
+              },
+            },
+          },
+        },
+      },
+    );
+
+    // Act
+    hoistSchemaReferences(doc);
+
+    // Assert
+    expect(doc.components?.schemas?.Summary).toEqual({
+      $ref: "#/components/schemas/PetsGet2002",
+    });
+    expect(doc.components?.schemas?.PetsGet2002).toEqual({
+      items: { type: "string" },
+      type: "array",
+    });
+    expect(
+      doc.paths?.["/pets"].get?.responses?.["200"].content["application/json"]
+        .schema,
+    ).toEqual({ $ref: "#/components/schemas/PetsGet2002" });
+  });
+
+  it("should follow references met along a pointer", () => {
+    // Arrange
+    const doc = createDocument({
+      Alias: { $ref: "#/components/schemas/Node" },
+      Node: {
+        properties: {
+          next: { $ref: "#/components/schemas/Node" },
+          value: { type: "number" },
+        },
+        type: "object",
+      },
+      Value: { $ref: "#/components/schemas/Alias/properties/value" },
+    });
+
+    // Act
+    hoistSchemaReferences(doc);
+
+    // Assert
+    expect(doc.components?.schemas?.Value).toEqual({
+      $ref: "#/components/schemas/NodeValue",
+    });
+    expect(doc.components?.schemas?.NodeValue).toEqual({ type: "number" });
+  });
+
+  it("should leave property names and example values alone", () => {
+    // Arrange
+    const doc = createDocument({
+      Settings: {
+        example: { $ref: "#/not/a/schema" },
+        properties: {
+          default: { $ref: "#/components/schemas/Settings/properties/enum" },
+          enum: { type: "boolean" },
+        },
+        type: "object",
+      },
+    });
+
+    // Act
+    hoistSchemaReferences(doc);
+
+    // Assert
+    expect(doc.components?.schemas?.Settings).toMatchObject({
+      example: { $ref: "#/not/a/schema" },
+      properties: {
+        default: { $ref: "#/components/schemas/SettingsEnum" },
+        enum: { $ref: "#/components/schemas/SettingsEnum" },
+      },
+    });
+  });
+
+  it("should report every unresolved reference with its location", () => {
+    // Arrange
+    const doc = createDocument({
+      Order: {
+        items: { $ref: "./external.yaml#/Item" },
+        properties: {
+          customer: { $ref: "#/components/schemas/Missing" },
+        },
+        type: "object",
+      },
+    });
+
+    // Act & Assert
+    expect(() => hoistSchemaReferences(doc)).toThrow(
+      [
+        "Unresolved $ref pointers:",
+        '  - "./external.yaml#/Item" at #/components/schemas/Order/items',
+        '  - "#/components/schemas/Missing" at #/components/schemas/Order/properties/customer',
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  type GenerationWatcher,
+  type RegenerationSummary,
+  watchGenerate,
+} from "../../src/core-generator/watch.js";
+
+const mainSpec = `openapi: 3.1.0
+info:
+  title: Watch test
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        "200":
+          description: ok
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Pet"
+  /owners:
+    get:
+      operationId: listOwners
+      responses:
+        "200":
+          description: ok
+          content:
+            application/json:
+              schema:
+                $ref: "#/components/schemas/Owner"
+components:
+  schemas:
+    Pet:
+      $ref: "./definitions.yaml#/Pet"
+    Owner:
+      type: object
+      properties:
+        name:
+          type: string
+`;
+
+const definitions = (petNameType: string) => `Pet:
+  type: object
+  properties:
+    name:
+      type: ${petNameType}
+`;
+
+const filterSpec = (limitType: string) => `openapi: 3.1.0
+info:
+  title: Watch test
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      parameters:
+        - name: filter
+          in: query
+          schema:
+            $ref: "#/components/schemas/PetFilter"
+      responses:
+        "204":
+          description: ok
+components:
+  schemas:
+    PetFilter:
+      type: object
+      properties:
+        limit:
+          type: ${limitType}
+`;
+
+describe("core-generator watch mode", () => {
+  let workDir: string;
+  let outputDir: string;
+  let watcher: GenerationWatcher | undefined;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    workDir = await fs.mkdtemp(path.join(tmpdir(), "yanogen-watch-"));
+    outputDir = path.join(workDir, "generated");
+    await fs.writeFile(path.join(workDir, "openapi.yaml"), mainSpec);
+    await fs.writeFile(
+      path.join(workDir, "definitions.yaml"),
+      definitions("string"),
+    );
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    vi.restoreAllMocks();
+    await fs.rm(workDir, { force: true, recursive: true });
+  });
+
+  function startWatching() {
+    const regenerations: RegenerationSummary[] = [];
+    let notify: () => void = () => undefined;
+    const nextRegeneration = () =>
+      new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+
+    return watchGenerate(
+      {
+        generateClient: true,
+        input: path.join(workDir, "openapi.yaml"),
+        output: outputDir,
+      },
+      {
+        debounceMs: 20,
+        onRegenerate: (summary) => {
+          regenerations.push(summary);
+          notify();
+        },
+      },
+    ).then((handle) => {
+      watcher = handle;
+      return { nextRegeneration, regenerations };
+    });
+  }
+
+  it("should watch the input spec and the bundled external files", async () => {
+    await startWatching();
+
+    expect(watcher!.sources().sort()).toEqual([
+      path.join(workDir, "definitions.yaml"),
+      path.join(workDir, "openapi.yaml"),
+    ]);
+  });
+
+  it("should only rewrite the schema whose external source changed", async () => {
+    const { nextRegeneration } = await startWatching();
+    const ownerPath = path.join(outputDir, "schemas", "Owner.ts");
+    const petPath = path.join(outputDir, "schemas", "Pet.ts");
+    const ownerStatBefore = await fs.stat(ownerPath);
+    const ownerContentBefore = await fs.readFile(ownerPath, "utf-8");
+
+    const regenerated = nextRegeneration();
+    await fs.writeFile(
+      path.join(workDir, "definitions.yaml"),
+      definitions("integer"),
+    );
+    await regenerated;
+
+    expect(await fs.readFile(petPath, "utf-8")).toContain("z.number().int()");
+    expect(await fs.readFile(ownerPath, "utf-8")).toBe(ownerContentBefore);
+    expect((await fs.stat(ownerPath)).mtimeMs).toBe(ownerStatBefore.mtimeMs);
+  });
+
+  it("should delete files of removed operations", async () => {
+    const { nextRegeneration, regenerations } = await startWatching();
+    const listOwnersPath = path.join(outputDir, "client", "listOwners.ts");
+    await expect(fs.stat(listOwnersPath)).resolves.toBeDefined();
+
+    const regenerated = nextRegeneration();
+    await fs.writeFile(
+      path.join(workDir, "openapi.yaml"),
+      mainSpec.replace(/ {2}\/owners:[\s\S]*?(?= {2}\/|components:)/u, ""),
+    );
+    await regenerated;
+
+    expect(regenerations[0].operations.removed).toEqual(
+      new Set(["listOwners"]),
+    );
+    expect(regenerations[0].operations.changed.size).toBe(0);
+    await expect(fs.stat(listOwnersPath)).rejects.toThrow();
+    const index = await fs.readFile(
+      path.join(outputDir, "client", "index.ts"),
+      "utf-8",
+    );
+    expect(index).not.toContain("listOwners");
+  });
+
+  it("should rewrite the operations whose parameter schema changed", async () => {
+    await fs.writeFile(
+      path.join(workDir, "openapi.yaml"),
+      filterSpec("string"),
+    );
+    const { nextRegeneration, regenerations } = await startWatching();
+
+    const regenerated = nextRegeneration();
+    await fs.writeFile(
+      path.join(workDir, "openapi.yaml"),
+      filterSpec("integer"),
+    );
+    await regenerated;
+
+    expect(regenerations[0].schemas.changed).toEqual(new Set(["PetFilter"]));
+    expect(regenerations[0].operations.changed).toEqual(new Set(["listPets"]));
+  });
+
+  it("should reject URL inputs", async () => {
+    await expect(
+      watchGenerate({
+        generateClient: false,
+        input: "https://example.com/openapi.yaml",
+        output: outputDir,
+      }),
+    ).rejects.toThrow("Watch mode requires a local input file");
+  });
+});
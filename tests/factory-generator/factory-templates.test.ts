@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  renderFactory,
+  renderFactoryIndex,
+  renderFactoryRuntime,
+} from "../../src/factory-generator/templates/factory-templates.js";
+
+describe("factory-generator factory-templates", () => {
+  describe("renderFactory", () => {
+    it("should build values from the Zod schema", () => {
+      // Act
+      const result = renderFactory("Pet");
+
+      // Assert
+      expect(result).toContain('import { Pet } from "../schemas/Pet.js";');
+      expect(result).toContain("export function buildPet(");
+      expect(result).toContain("overrides?: Overrides<Pet>");
+      expect(result).toContain("factoryContext(options).build(Pet)");
+    });
+  });
+
+  describe("renderFactoryIndex", () => {
+    it("should re-export every factory and the seeding helpers", () => {
+      // Act
+      const result = renderFactoryIndex(["Pet", "User"]);
+
+      // Assert
+      expect(result).toContain('export { buildPet } from "./Pet.js";');
+      expect(result).toContain('export { buildUser } from "./User.js";');
+      expect(result).toContain("seedFactories,");
+      expect(result).toContain("type Overrides,");
+    });
+  });
+
+  describe("renderFactoryRuntime", () => {
+    it("should drive the shared synthesizer with a seeded generator", () => {
+      // Act
+      const result = renderFactoryRuntime();
+
+      // Assert
+      expect(result).toContain(
+        'import { synthesize } from "./synthesizer.js";',
+      );
+      expect(result).toContain("synthesize(schema, random)");
+      expect(result).toContain("function mulberry32(");
+    });
+  });
+});
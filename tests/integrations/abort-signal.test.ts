@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  configureOperations,
+  type GlobalConfig,
+  globalConfig,
+} from "./generated/client/config.js";
+import { testMultipleSuccess } from "./generated/client/testMultipleSuccess.js";
+import { testWithEmptyResponse } from "./generated/client/testWithEmptyResponse.js";
+
+/*
+ * Exercises request cancellation of the generated client against a fake fetch
+ */
+
+/* Fetch that never settles unless its signal aborts */
+const createHangingFetch = () =>
+  vi.fn<typeof fetch>(
+    (_input, init) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () =>
+          reject(init.signal?.reason),
+        );
+      }),
+  );
+
+const createConfig = (
+  fetchImpl: typeof fetch,
+  overrides: Partial<GlobalConfig> = {},
+): GlobalConfig => ({
+  ...globalConfig,
+  baseURL: "http://localhost",
+  fetch: fetchImpl,
+  ...overrides,
+});
+
+describe("Generated client abort signal", () => {
+  it("should return an aborted error when the config signal aborts", async () => {
+    // Arrange
+    const controller = new AbortController();
+    const fetchMock = createHangingFetch();
+
+    // Act
+    const pending = testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, { signal: controller.signal }),
+    );
+    controller.abort();
+    const result = await pending;
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("aborted");
+    }
+  });
+
+  it("should not send the request when the signal is already aborted", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(async (_input, init) => {
+      init?.signal?.throwIfAborted();
+      return new Response(null, { status: 200 });
+    });
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, { signal: AbortSignal.abort() }),
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("aborted");
+    }
+  });
+
+  it("should stop retrying when the signal aborts during backoff", async () => {
+    // Arrange
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async () => {
+      setTimeout(() => controller.abort(), 10);
+      return new Response(null, { status: 503 });
+    });
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, {
+        retry: { initialDelayMs: 10000, jitter: false, maxAttempts: 3 },
+        signal: controller.signal,
+      }),
+    );
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("aborted");
+    }
+  });
+
+  it("should accept a per-call signal on bound operations", async () => {
+    // Arrange
+    const controller = new AbortController();
+    const fetchMock = createHangingFetch();
+    const api = configureOperations(
+      { testWithEmptyResponse },
+      createConfig(fetchMock),
+    );
+
+    // Act
+    const pending = api.testWithEmptyResponse(
+      {},
+      { signal: controller.signal },
+    );
+    controller.abort();
+    const result = await pending;
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("aborted");
+    }
+  });
+
+  it("should abort bound operations through the configured signal", async () => {
+    // Arrange
+    const controller = new AbortController();
+    const fetchMock = createHangingFetch();
+    const api = configureOperations(
+      { testWithEmptyResponse },
+      createConfig(fetchMock, { signal: controller.signal }),
+    );
+
+    // Act
+    const pending = api.testWithEmptyResponse(
+      {},
+      {
+        signal: new AbortController().signal,
+      },
+    );
+    controller.abort();
+    const result = await pending;
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("aborted");
+    }
+  });
+
+  it("should abort while the response body is being read", async () => {
+    // Arrange
+    const controller = new AbortController();
+    /* Body that never ends unless the request signal aborts, as with fetch */
+    const fetchMock = vi.fn<typeof fetch>(async (_input, init) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(streamController) {
+          init?.signal?.addEventListener("abort", () =>
+            streamController.error(init.signal?.reason),
+          );
+        },
+      });
+      setTimeout(() => controller.abort(), 10);
+      return new Response(body, {
+        headers: { "Content-Type": "application/json" },
+        status: 200,
+      });
+    });
+
+    // Act
+    const result = await testMultipleSuccess(
+      {},
+      createConfig(fetchMock, { signal: controller.signal, timeoutMs: 1000 }),
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("aborted");
+    }
+  });
+
+  it("should keep reporting timeouts separately from aborts", async () => {
+    // Arrange
+    const fetchMock = createHangingFetch();
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, {
+        signal: new AbortController().signal,
+        timeoutMs: 20,
+      }),
+    );
+
+    // Assert
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("timeout");
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import * as factories from "./generated/factories/index.js";
+import { Profile } from "./generated/schemas/Profile.js";
+
+const schemaModules = import.meta.glob("./generated/schemas/*.ts", {
+  eager: true,
+}) as Record<
+  string,
+  Record<string, { safeParse: (value: unknown) => { success: boolean } }>
+>;
+
+/*
+ * OneOfTest lists two objects with optional properties only: any object
+ * matches both options, so no value satisfies the oneOf
+ */
+const UNSATISFIABLE_SCHEMAS = new Set(["OneOfTest"]);
+
+describe("generated factories", () => {
+  beforeEach(() => {
+    factories.seedFactories(1);
+  });
+
+  it("should build values satisfying every schema", () => {
+    // Arrange
+    const failures: string[] = [];
+
+    // Act
+    for (const [path, module] of Object.entries(schemaModules)) {
+      const name = path.replace(/^.*\/(\w+)\.ts$/, "$1");
+      if (UNSATISFIABLE_SCHEMAS.has(name)) continue;
+      const build = (factories as Record<string, unknown>)[`build${name}`] as (
+        overrides: undefined,
+        options: { seed: number },
+      ) => unknown;
+      for (let seed = 1; seed <= 20; seed++) {
+        const value = build(undefined, { seed });
+        if (!module[name].safeParse(value).success) {
+          failures.push(`${name}#${seed}`);
+        }
+      }
+    }
+
+    // Assert
+    expect(failures).toEqual([]);
+  });
+
+  it("should build the same value for the same seed", () => {
+    // Act
+    const first = factories.buildProfile({}, { seed: 42 });
+    const second = factories.buildProfile({}, { seed: 42 });
+    const other = factories.buildProfile({}, { seed: 43 });
+
+    // Assert
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it("should restart the shared sequence when reseeded", () => {
+    // Arrange
+    const first = [factories.buildProfile(), factories.buildProfile()];
+
+    // Act
+    factories.seedFactories(1);
+    const second = [factories.buildProfile(), factories.buildProfile()];
+
+    // Assert
+    expect(second).toEqual(first);
+    expect(first[1]).not.toEqual(first[0]);
+  });
+
+  it("should honor formats, patterns and required properties", () => {
+    // Act
+    const profile = factories.buildProfile({}, { seed: 7 });
+
+    // Assert
+    expect(Profile.safeParse(profile).success).toBe(true);
+    expect(profile.fiscal_code).toMatch(
+      /^[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/,
+    );
+    expect(profile.is_email_set).toBeTypeOf("boolean");
+  });
+
+  it("should apply partial overrides", () => {
+    // Act
+    const profile = factories.buildProfile(
+      { family_name: "Lovelace", name: "Ada" },
+      { seed: 3 },
+    );
+
+    // Assert
+    expect(profile.name).toBe("Ada");
+    expect(profile.family_name).toBe("Lovelace");
+    expect(profile.fiscal_code).toBeDefined();
+  });
+});
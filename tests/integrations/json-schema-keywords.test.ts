@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { ShippingRule } from "./generated/schemas/ShippingRule.js";
+
+const rule = {
+  country: "US",
+  dimensions: [10, 20],
+  kind: "parcel",
+  postalCode: "10001",
+  tags: ["fragile"],
+  weight: 1.5,
+  "x-carrier": "ups",
+};
+
+describe("JSON Schema 2020-12 keywords", () => {
+  it("should keep the properties matching a pattern", () => {
+    // Act
+    const result = ShippingRule.safeParse(rule);
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(rule);
+  });
+
+  it.each([
+    ["a different const", { kind: "letter" }],
+    ["a longer tuple", { dimensions: [1, 2, 3] }],
+    ["a weight which is not a multiple", { weight: 1.2 }],
+    ["duplicated items", { tags: ["a", "a"] }],
+    ["an invalid pattern property", { "x-carrier": 1 }],
+    ["a then schema mismatch", { postalCode: "ABC" }],
+  ])("should reject %s", (_, changes) => {
+    // Act
+    const result = ShippingRule.safeParse({ ...rule, ...changes });
+
+    // Assert
+    expect(result.success).toBe(false);
+  });
+
+  it("should reject a property without its dependencies", () => {
+    // Arrange
+    const withoutCountry: Partial<typeof rule> = { ...rule };
+    delete withoutCountry.country;
+
+    // Act
+    const result = ShippingRule.safeParse(withoutCountry);
+
+    // Assert
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  type GlobalConfig,
+  globalConfig,
+  type Middleware,
+} from "./generated/client/config.js";
+import { testWithEmptyResponse } from "./generated/client/testWithEmptyResponse.js";
+
+/*
+ * Exercises the middleware chain of the generated client against a fake fetch
+ */
+
+const createConfig = (
+  fetchImpl: typeof fetch,
+  middlewares: Middleware[],
+  overrides: Partial<GlobalConfig> = {},
+): GlobalConfig => ({
+  ...globalConfig,
+  baseURL: "http://localhost",
+  fetch: fetchImpl,
+  middlewares,
+  ...overrides,
+});
+
+describe("Generated client middlewares", () => {
+  it("should let onRequest hooks mutate or replace the request", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 200 }),
+    );
+    const middlewares: Middleware[] = [
+      {
+        onRequest: (request) => {
+          request.headers["X-Signature"] = "signed";
+        },
+      },
+      {
+        onRequest: (request) => ({
+          ...request,
+          url: request.url.replace("localhost", "proxy.local"),
+        }),
+      },
+    ];
+
+    // Act
+    await testWithEmptyResponse({}, createConfig(fetchMock, middlewares));
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://proxy.local/test-with-empty-response");
+    expect(init?.method).toBe("GET");
+    expect(init?.headers).toMatchObject({ "X-Signature": "signed" });
+  });
+
+  it("should run onRequest in order and onResponse in reverse order", async () => {
+    // Arrange
+    const calls: string[] = [];
+    const track = (name: string): Middleware => ({
+      onRequest: () => {
+        calls.push(`${name}:request`);
+      },
+      onResponse: (response) => {
+        calls.push(`${name}:response:${response.status}`);
+      },
+    });
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+
+    // Act
+    await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, [track("outer"), track("inner")]),
+    );
+
+    // Assert
+    expect(calls).toEqual([
+      "outer:request",
+      "inner:request",
+      "inner:response:200",
+      "outer:response:200",
+    ]);
+  });
+
+  it("should let onResponse hooks replace the raw response", async () => {
+    // Arrange
+    const fetchMock = vi.fn(async () => new Response(null, { status: 503 }));
+    const middlewares: Middleware[] = [
+      { onResponse: () => new Response(null, { status: 200 }) },
+    ];
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, middlewares),
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+  });
+
+  it("should let onError hooks recover from fetch failures", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const onResponse = vi.fn();
+    const middlewares: Middleware[] = [
+      { onResponse },
+      { onError: () => new Response(null, { status: 200 }) },
+    ];
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, middlewares),
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it("should surface the error when no onError hook recovers", async () => {
+    // Arrange
+    const replacement = new Error("replaced");
+    const fetchMock = vi.fn<typeof fetch>(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const logged: unknown[] = [];
+    const middlewares: Middleware[] = [
+      {
+        onError: (error) => {
+          logged.push(error);
+        },
+      },
+      {
+        onError: () => {
+          throw replacement;
+        },
+      },
+    ];
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, middlewares),
+    );
+
+    // Assert
+    expect(logged).toEqual([replacement]);
+    expect(result.success).toBe(false);
+    if (!result.success && result.kind === "unexpected-error") {
+      expect(result.error).toBe(replacement);
+    }
+  });
+
+  it("should run the middleware chain once around retried attempts", async () => {
+    // Arrange
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+
+    // Act
+    await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, [{ onRequest, onResponse }], {
+        retry: { initialDelayMs: 1, maxAttempts: 2 },
+      }),
+    );
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+});
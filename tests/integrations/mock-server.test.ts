@@ -0,0 +1,166 @@
+import type { AddressInfo } from "node:net";
+
+import { createServer } from "node:http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { createMockRequestListener } from "./generated/mock/index.js";
+import { mockResponse } from "./generated/mock/runtime.js";
+import { synthesize } from "./generated/mock/synthesizer.js";
+import { Book } from "./generated/schemas/Book.js";
+import { NewModel } from "./generated/schemas/NewModel.js";
+import { Message } from "./generated/schemas/Message.js";
+
+describe("generated mock server", () => {
+  const server = createServer(createMockRequestListener());
+  let baseURL = "";
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should answer the first 2xx status with the spec example", async () => {
+    // Act
+    const response = await fetch(`${baseURL}/test-response-headers`, {
+      method: "POST",
+    });
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(await response.json()).toEqual({ id: "42", name: "created" });
+  });
+
+  it("should answer the status selected by the request header", async () => {
+    // Act
+    const forbidden = await fetch(`${baseURL}/test-multiple-success`, {
+      headers: { "x-mock-status": "403" },
+    });
+    const accepted = await fetch(`${baseURL}/test-multiple-success`, {
+      headers: { "x-mock-status": "202" },
+    });
+
+    // Assert
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.headers.get("content-type")).toBe("application/json");
+    expect(accepted.status).toBe(202);
+    expect(await accepted.text()).toBe("");
+  });
+
+  it("should answer the content type selected by the request header", async () => {
+    // Act
+    const custom = await fetch(`${baseURL}/test-multi-content-types`, {
+      headers: { "x-mock-content-type": "application/vnd.custom+json" },
+      method: "POST",
+    });
+    const created = await fetch(`${baseURL}/test-multi-content-types`, {
+      headers: { "x-mock-status": "201" },
+      method: "POST",
+    });
+
+    // Assert
+    expect(custom.status).toBe(200);
+    expect(custom.headers.get("content-type")).toBe(
+      "application/vnd.custom+json",
+    );
+    expect(NewModel.safeParse(await custom.json()).success).toBe(true);
+    expect(created.status).toBe(201);
+    expect(Book.safeParse(await created.json()).success).toBe(true);
+  });
+
+  it("should synthesize data and headers without spec examples", async () => {
+    // Act
+    const message = await fetch(`${baseURL}/test-multiple-success`);
+    const headers = await fetch(`${baseURL}/test-response-headers`, {
+      method: "POST",
+    });
+
+    // Assert
+    expect(message.status).toBe(200);
+    expect(Message.safeParse(await message.json()).success).toBe(true);
+    expect(headers.headers.get("location")).toBe("aaa");
+    expect(headers.headers.get("x-ratelimit-remaining")).toBe("0");
+    expect(headers.headers.get("x-request-id")).toBe("aaa");
+  });
+
+  it("should answer 400 for undeclared selections", async () => {
+    // Act
+    const status = await fetch(`${baseURL}/test-multiple-success`, {
+      headers: { "x-mock-status": "418" },
+    });
+    const contentType = await fetch(`${baseURL}/test-multiple-success`, {
+      headers: { "x-mock-content-type": "text/csv" },
+    });
+
+    // Assert
+    expect(status.status).toBe(400);
+    expect(await status.json()).toEqual({
+      kind: "mock-error",
+      message: "Undeclared response status 418",
+    });
+    expect(contentType.status).toBe(400);
+    expect(await contentType.json()).toEqual({
+      kind: "mock-error",
+      message: "Undeclared content type text/csv for status 200",
+    });
+  });
+
+  it("should answer 404 and 405 for unknown routes", async () => {
+    // Act
+    const missing = await fetch(`${baseURL}/not-an-operation`);
+    const notAllowed = await fetch(`${baseURL}/test-multi-content-types`);
+
+    // Assert
+    expect(missing.status).toBe(404);
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get("allow")).toBe("POST");
+  });
+});
+
+describe("mock runtime", () => {
+  it("should synthesize values honoring formats and bounds", async () => {
+    // Arrange
+    const { z } = await import("zod");
+    const schema = z.object({
+      count: z.number().int().gt(3).lt(10),
+      email: z.email(),
+      kind: z.enum(["a", "b"]),
+      name: z.string().min(10),
+      ratio: z.number().gte(0.5).lte(0.75),
+      tags: z.array(z.string()).min(2),
+    });
+
+    // Act
+    const value = synthesize(schema);
+
+    // Assert
+    expect(schema.safeParse(value).success).toBe(true);
+    expect(value).toEqual({
+      count: 4,
+      email: "aaa.aaa@example.com",
+      kind: "a",
+      name: "aaaaaaaaaa",
+      ratio: 0.5,
+      tags: ["aaa", "aaa"],
+    });
+  });
+
+  it("should fall back to the default response for undeclared statuses", () => {
+    // Arrange
+    const operation = {
+      examples: {},
+      headers: {},
+      responses: { "200": {}, default: {} },
+    };
+
+    // Act
+    const response = mockResponse(operation, { status: "503" });
+
+    // Assert
+    expect(response).toEqual({ headers: undefined, status: 503 });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMessage } from "./generated/factories/index.js";
+import {
+  createMswHandlers,
+  type MswHttpLike,
+  type MswResolver,
+} from "./generated/msw/index.js";
+
+/* Records the handlers created through the MSW http namespace */
+interface RecordedHandler {
+  method: string;
+  path: string;
+  resolver: MswResolver;
+}
+
+const http = Object.fromEntries(
+  ["delete", "get", "patch", "post", "put"].map((method) => [
+    method,
+    (path: string, resolver: MswResolver): RecordedHandler => ({
+      method,
+      path,
+      resolver,
+    }),
+  ]),
+) as unknown as MswHttpLike<RecordedHandler>;
+
+describe("generated MSW handlers", () => {
+  const message = buildMessage({ id: "1" }, { seed: 1 });
+
+  it("should register the operation path for every origin", () => {
+    // Arrange
+    const msw = createMswHandlers(http);
+
+    // Act
+    const handler = msw.testWithTwoParams(async () => ({ status: 200 }));
+
+    // Assert
+    expect(handler.method).toBe("get");
+    expect(handler.path).toBe("*/test-two-path-params/:param0/:param1");
+  });
+
+  it("should prefix the paths with the base URL", () => {
+    // Arrange
+    const msw = createMswHandlers(http, {
+      baseURL: "https://api.example.com",
+    });
+
+    // Act
+    const handler = msw.testSimplePatch(async () => ({ status: 200 }));
+
+    // Assert
+    expect(handler.method).toBe("patch");
+    expect(handler.path).toBe("https://api.example.com/test-simple");
+  });
+
+  it("should pass the parsed parameters to the resolver", async () => {
+    // Arrange
+    const msw = createMswHandlers(http);
+    const received: unknown[] = [];
+    const handler = msw.testWithTwoParams(async (params) => {
+      received.push(params.success && params.value.path);
+      return { status: 200 };
+    });
+
+    // Act
+    const response = await handler.resolver({
+      params: { param0: "a b", param1: "second" },
+      request: new Request("https://api.example.com/test-two-path-params"),
+    });
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(received).toEqual([
+      { "first-param": "a b", "second-param": "second" },
+    ]);
+  });
+
+  it("should parse the request body and serialize the response", async () => {
+    // Arrange
+    const msw = createMswHandlers(http);
+    const handler = msw.testMultipleSuccess(async () => ({
+      contentType: "application/json",
+      data: message,
+      status: 200,
+    }));
+    const bodies: unknown[] = [];
+    const inline = msw.testInlineBodySchema(async (params) => {
+      bodies.push(params.success && params.value.body);
+      return { status: 201 };
+    });
+
+    // Act
+    const response = await handler.resolver({
+      params: {},
+      request: new Request("https://api.example.com/test-multiple-success"),
+    });
+    const created = await inline.resolver({
+      params: {},
+      request: new Request("https://api.example.com/test-inline-body-schema", {
+        body: JSON.stringify({ name: "Ada" }),
+        headers: { "content-type": "application/json" },
+        method: "POST",
+      }),
+    });
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    expect(await response.json()).toEqual(message);
+    expect(created.status).toBe(201);
+    expect(bodies).toEqual([{ name: "Ada" }]);
+  });
+
+  it("should validate the resolver responses when enabled", async () => {
+    // Arrange
+    const msw = createMswHandlers(http, { validateResponse: true });
+    const handler = msw.testMultipleSuccess(
+      async () =>
+        ({
+          contentType: "application/json",
+          data: { ...message, id: 1 },
+          status: 200,
+        }) as never,
+    );
+
+    // Act
+    const response = await handler.resolver({
+      params: {},
+      request: new Request("https://api.example.com/test-multiple-success"),
+    });
+
+    // Assert
+    expect(response.status).toBe(500);
+  });
+});
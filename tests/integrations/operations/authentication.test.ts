@@ -1,9 +1,15 @@
-import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 
 import {
   createAuthenticatedClient,
   createUnauthenticatedClient,
 } from "../client.js";
+import { type TokenProvider } from "../generated/client/config.js";
+import { testAuthApiKeyCookie } from "../generated/client/testAuthApiKeyCookie.js";
+import { testAuthApiKeyQuery } from "../generated/client/testAuthApiKeyQuery.js";
+import { testAuthBasic } from "../generated/client/testAuthBasic.js";
+import { testAuthOAuth2 } from "../generated/client/testAuthOAuth2.js";
+import { testAuthOpenIdConnect } from "../generated/client/testAuthOpenIdConnect.js";
 import { sampleData } from "../fixtures/test-helpers.js";
 import { getRandomPort, MockServer } from "../setup.js";
 
@@ -319,4 +325,137 @@ describe("Authentication Operations", () => {
       }
     });
   });
+
+  describe("token provider", () => {
+    it("should send the OAuth2 token requested with the operation scopes", async () => {
+      // Arrange
+      const tokenProvider = vi.fn<TokenProvider>(async () => "oauth2-token");
+
+      // Act
+      const response = await testAuthOAuth2(
+        {},
+        { baseURL, fetch, headers: {}, tokenProvider },
+      );
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(200);
+      expect(tokenProvider).toHaveBeenCalledWith({
+        schemeName: "oauth2Auth",
+        scopes: ["read:items", "write:items"],
+        type: "oauth2",
+      });
+    });
+
+    it("should send the OpenID Connect token", async () => {
+      // Arrange
+      const tokenProvider = vi.fn<TokenProvider>(() => "oidc-token");
+
+      // Act
+      const response = await testAuthOpenIdConnect(
+        {},
+        { baseURL, fetch, headers: {}, tokenProvider },
+      );
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(200);
+      expect(tokenProvider).toHaveBeenCalledWith({
+        schemeName: "openIdAuth",
+        scopes: ["openid"],
+        type: "openIdConnect",
+      });
+    });
+
+    it("should be rejected without a token", async () => {
+      // Act
+      const response = await testAuthOAuth2(
+        {},
+        { baseURL, fetch, headers: {}, tokenProvider: () => undefined },
+      );
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("apiKey in query/cookie and HTTP Basic", () => {
+    it("should send the apiKey as a query parameter", async () => {
+      // Act
+      const response = await testAuthApiKeyQuery(
+        { query: { filter: "active" } },
+        { apiKeys: { apiKeyQuery: "query-key" }, baseURL, fetch, headers: {} },
+      );
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(200);
+    });
+
+    it("should send the apiKey as a cookie", async () => {
+      // Act
+      const response = await testAuthApiKeyCookie(
+        {},
+        { apiKeys: { apiKeyCookie: "session" }, baseURL, fetch, headers: {} },
+      );
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(200);
+    });
+
+    it("should send HTTP Basic credentials", async () => {
+      // Act
+      const response = await testAuthBasic(
+        {},
+        {
+          baseURL,
+          basicAuth: { password: "secret", username: "user" },
+          fetch,
+          headers: {},
+        },
+      );
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(200);
+    });
+
+    it("should be rejected without credentials", async () => {
+      // Act
+      const response = await testAuthBasic({}, { baseURL, fetch, headers: {} });
+
+      // Assert
+      expect(response.success).toBe(true);
+      expect(response.status).toBe(401);
+    });
+
+    it("should encode the credentials on the wire", async () => {
+      // Arrange
+      const fetchMock = vi.fn<typeof fetch>(
+        async () => new Response(null, { status: 200 }),
+      );
+
+      // Act
+      await testAuthBasic(
+        {},
+        {
+          apiKeys: { apiKeyCookie: "a b;c", apiKeyQuery: "k&1" },
+          baseURL: "http://localhost",
+          basicAuth: { password: "pässword", username: "user" },
+          fetch: fetchMock,
+          headers: { Cookie: "theme=dark" },
+        },
+      );
+
+      // Assert
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://localhost/test-auth-basic?api_key=k%261");
+      expect(init?.headers).toMatchObject({
+        Authorization: `Basic ${Buffer.from("user:pässword").toString("base64")}`,
+        Cookie: "theme=dark; SESSIONID=a%20b%3Bc",
+      });
+    });
+  });
 });
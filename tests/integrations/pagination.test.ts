@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+
+import { globalConfig } from "./generated/client/config.js";
+import { paginateTestPaginationCursor } from "./generated/client/testPaginationCursor.js";
+import { paginateTestPaginationLink } from "./generated/client/testPaginationLink.js";
+import { paginateTestPaginationOffset } from "./generated/client/testPaginationOffset.js";
+import { paginateTestPaginationPage } from "./generated/client/testPaginationPage.js";
+
+/* Fake fetch serving the given pages and recording the requested URLs */
+function servePages(
+  pages: ((url: URL) => Response)[],
+  urls: URL[] = [],
+): typeof globalConfig {
+  return {
+    ...globalConfig,
+    baseURL: "http://api.test",
+    fetch: async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      const page = pages[urls.length];
+      urls.push(url);
+      return page(url);
+    },
+  };
+}
+
+function json(body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json", ...headers },
+    status: 200,
+  });
+}
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+}
+
+describe("generated paginate helpers", () => {
+  it("should follow the next cursor until it is null", async () => {
+    // Arrange
+    const urls: URL[] = [];
+    const config = servePages(
+      [
+        () =>
+          json({ data: [{ id: 1 }, { id: 2 }], meta: { next_cursor: "b" } }),
+        () => json({ data: [{ id: 3 }], meta: { next_cursor: null } }),
+      ],
+      urls,
+    );
+
+    // Act
+    const items = await collect(
+      paginateTestPaginationCursor({ query: { tag: "red" } }, config),
+    );
+
+    // Assert
+    expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(urls.map((url) => url.search)).toEqual([
+      "?tag=red",
+      "?page_cursor=b&tag=red",
+    ]);
+  });
+
+  it("should stop offset pagination after a short page", async () => {
+    // Arrange
+    const urls: URL[] = [];
+    const config = servePages(
+      [() => json([{ id: 1 }, { id: 2 }]), () => json([{ id: 3 }])],
+      urls,
+    );
+
+    // Act
+    const items = await collect(
+      paginateTestPaginationOffset({ query: { limit: 2 } }, config),
+    );
+
+    // Assert
+    expect(items.map(({ id }) => id)).toEqual([1, 2, 3]);
+    expect(urls.map((url) => url.searchParams.get("offset"))).toEqual([
+      null,
+      "2",
+    ]);
+  });
+
+  it("should increment the page from the first one until an empty page", async () => {
+    // Arrange
+    const urls: URL[] = [];
+    const config = servePages(
+      [
+        () => json({ items: [{ id: 1 }], total: 2 }),
+        () => json({ items: [{ id: 2 }], total: 2 }),
+        () => json({ items: [], total: 2 }),
+      ],
+      urls,
+    );
+
+    // Act
+    const items = await collect(paginateTestPaginationPage({}, config));
+
+    // Assert
+    expect(items.map(({ id }) => id)).toEqual([1, 2]);
+    expect(urls.map((url) => url.searchParams.get("page"))).toEqual([
+      null,
+      "1",
+      "2",
+    ]);
+  });
+
+  it("should follow the next link of the Link header", async () => {
+    // Arrange
+    const urls: URL[] = [];
+    const config = servePages(
+      [
+        () =>
+          json([{ id: 1 }], {
+            Link: '<http://api.test/test-pagination-link?page_token=t2>; rel="next", <http://api.test/test-pagination-link>; rel="first"',
+          }),
+        () => json([{ id: 2 }]),
+      ],
+      urls,
+    );
+
+    // Act
+    const items = await collect(paginateTestPaginationLink({}, config));
+
+    // Assert
+    expect(items.map(({ id }) => id)).toEqual([1, 2]);
+    expect(urls[1].searchParams.get("page_token")).toBe("t2");
+  });
+
+  it("should request the next page only once the current one is consumed", async () => {
+    // Arrange
+    const urls: URL[] = [];
+    const config = servePages(
+      [() => json([{ id: 1 }, { id: 2 }]), () => json([])],
+      urls,
+    );
+
+    // Act
+    for await (const item of paginateTestPaginationOffset(
+      { query: { limit: 2 } },
+      config,
+    )) {
+      if (item.id === 1) break;
+    }
+
+    // Assert
+    expect(urls).toHaveLength(1);
+  });
+
+  it("should throw an ApiResponseError on a non 2xx page", async () => {
+    // Arrange
+    const config = servePages([() => new Response(null, { status: 500 })]);
+
+    // Act
+    const result = collect(paginateTestPaginationPage({}, config));
+
+    // Assert
+    await expect(result).rejects.toMatchObject({
+      kind: "unexpected-response",
+      success: false,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { type GlobalConfig, globalConfig } from "./generated/client/config.js";
+import { testCoercion } from "./generated/client/testCoercion.js";
+import { testCookieParams } from "./generated/client/testCookieParams.js";
+import { testParameterStyles } from "./generated/client/testParameterStyles.js";
+import { testWithTwoParams } from "./generated/client/testWithTwoParams.js";
+
+/*
+ * Exercises the parameter serialization of the generated client against a
+ * fake fetch, so that the exact wire format can be asserted
+ */
+
+const createConfig = (fetchImpl: typeof fetch): GlobalConfig => ({
+  ...globalConfig,
+  baseURL: "http://localhost",
+  fetch: fetchImpl,
+});
+
+describe("Generated client parameter serialization", () => {
+  it("should serialize path, query and header parameters by style", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 200 }),
+    );
+
+    // Act
+    await testParameterStyles(
+      {
+        headers: { "X-Trace": ["a", "b"] },
+        path: { coords: { x: 1, y: 2 }, ids: [3, 4, 5] },
+        query: {
+          colors: ["red", "green"],
+          filter: { minAge: 18, name: "John Doe" },
+          point: { x: 7, y: 8 },
+          range: { from: 1, to: 9 },
+          tags: ["t1", "t2"],
+        },
+      },
+      createConfig(fetchMock),
+    );
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    const parsed = new URL(String(url));
+    expect(parsed.pathname).toBe("/test-parameter-styles/.3,4,5/;x=1;y=2");
+    expect(parsed.searchParams.getAll("tags")).toEqual(["t1", "t2"]);
+    expect(parsed.searchParams.get("colors")).toBe("red|green");
+    expect(parsed.searchParams.get("filter[name]")).toBe("John Doe");
+    expect(parsed.searchParams.get("filter[minAge]")).toBe("18");
+    expect(parsed.searchParams.get("range")).toBe("from,1,to,9");
+    expect(parsed.searchParams.get("x")).toBe("7");
+    expect(parsed.searchParams.get("y")).toBe("8");
+    expect(init?.headers).toMatchObject({ "X-Trace": "a,b" });
+  });
+
+  it("should omit unset optional styled parameters", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 200 }),
+    );
+
+    // Act
+    await testParameterStyles(
+      { path: { coords: { x: 1, y: 2 }, ids: [1] } },
+      createConfig(fetchMock),
+    );
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe(
+      "http://localhost/test-parameter-styles/.1/;x=1;y=2",
+    );
+    expect(init?.headers).not.toHaveProperty("X-Trace");
+  });
+
+  it("should URI-encode primitive path values", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 200 }),
+    );
+
+    // Act
+    await testWithTwoParams(
+      { path: { firstParam: "a/b c", secondParam: "50%?" } },
+      createConfig(fetchMock),
+    );
+
+    // Assert
+    const [url] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe(
+      "http://localhost/test-two-path-params/a%2Fb%20c/50%25%3F",
+    );
+  });
+
+  it("should accept path values typed from their schemas", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 200 }),
+    );
+
+    // Act
+    await testCoercion(
+      {
+        headers: { "count-header": "1" },
+        path: { boolParam: true, intParam: 42 },
+        query: { flagQuery: "true", numQuery: "1" },
+      },
+      createConfig(fetchMock),
+    );
+
+    // Assert
+    const [url] = fetchMock.mock.calls[0];
+    expect(new URL(String(url)).pathname).toBe("/test-coercion/42/true");
+  });
+
+  it("should serialize cookie parameters into the Cookie header", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(null, { status: 200 }),
+    );
+
+    // Act
+    await testCookieParams(
+      {
+        cookies: { page_size: "25", "session-id": "a b;c" },
+        query: { sessionId: "query-value" },
+      },
+      createConfig(fetchMock),
+    );
+
+    // Assert
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(new URL(String(url)).searchParams.get("session-id")).toBe(
+      "query-value",
+    );
+    expect(init?.headers).toMatchObject({
+      Cookie: "session-id=a%20b%3Bc; page_size=25",
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { globalConfig } from "./generated/client/config.js";
+import { testPointerReferences } from "./generated/client/testPointerReferences.js";
+import { Book } from "./generated/schemas/Book.js";
+import { BookAuthor } from "./generated/schemas/BookAuthor.js";
+import { BookReview } from "./generated/schemas/BookReview.js";
+
+describe("JSON Pointer references", () => {
+  it("should share the schema hoisted from another schema", () => {
+    // Arrange
+    const author = { info: { name: "Ada" }, isDead: true };
+
+    // Act
+    const review = BookReview.safeParse({ rating: 5, reviewer: author });
+
+    // Assert
+    expect(review.success).toBe(true);
+    expect(Book.shape.author.unwrap()).toBe(BookAuthor);
+    expect(
+      BookReview.safeParse({ rating: 5, reviewer: { isDead: "no" } }).success,
+    ).toBe(false);
+  });
+
+  it("should validate responses against the schema hoisted from an operation", async () => {
+    // Arrange
+    const reviews = [
+      {
+        rating: 4,
+        related: { reviews: [{ rating: 6, reviewer: {} }] },
+        reviewer: {},
+      },
+    ];
+    const config = {
+      ...globalConfig,
+      fetch: async () => Response.json({ reviews }),
+    };
+
+    // Act
+    const response = await testPointerReferences({}, config);
+
+    // Assert
+    expect(response.success && response.status === 200).toBe(true);
+    if (response.success && response.status === 200) {
+      const parsed = response.parse();
+      expect(parsed).toMatchObject({ kind: "parse-error" });
+      if ("error" in parsed) {
+        expect(parsed.error.issues[0].path).toEqual([
+          "reviews",
+          0,
+          "related",
+          "reviews",
+          0,
+          "rating",
+        ]);
+      }
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { QueryClient } from "@tanstack/react-query";
+import { describe, expect, it } from "vitest";
+
+import { globalConfig } from "./generated/client/config.js";
+import {
+  queryKeys,
+  testMultipleSuccessQueryOptions,
+  testWithTwoParamsQueryOptions,
+} from "./generated/queries/index.js";
+
+describe("generated query hooks", () => {
+  it("should key queries by operation and parameters", () => {
+    // Arrange
+    const params = { path: { firstParam: "a", secondParam: "b" } };
+
+    // Act
+    const options = testWithTwoParamsQueryOptions(params);
+
+    // Assert
+    expect(options.queryKey).toEqual(["testWithTwoParams", params]);
+    expect(queryKeys.testWithTwoParams()).toEqual(["testWithTwoParams"]);
+  });
+
+  it("should resolve with the successful response", async () => {
+    // Arrange
+    const queryClient = new QueryClient();
+    const config = {
+      ...globalConfig,
+      fetch: async () => new Response(null, { status: 202 }),
+    };
+
+    // Act
+    const response = await queryClient.fetchQuery(
+      testMultipleSuccessQueryOptions({}, config),
+    );
+
+    // Assert
+    expect(response.success).toBe(true);
+    expect(response.status).toBe(202);
+  });
+
+  it("should reject with the ApiResponseError", async () => {
+    // Arrange
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+    const config = {
+      ...globalConfig,
+      fetch: async () => new Response(null, { status: 418 }),
+    };
+
+    // Act
+    const result = queryClient.fetchQuery(
+      testMultipleSuccessQueryOptions({}, config),
+    );
+
+    // Assert
+    await expect(result).rejects.toMatchObject({
+      kind: "unexpected-response",
+      success: false,
+    });
+  });
+
+  it("should abort the request when the query is cancelled", async () => {
+    // Arrange
+    const queryClient = new QueryClient();
+    let aborted = false;
+    const config = {
+      ...globalConfig,
+      fetch: (_input: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => {
+            aborted = true;
+            reject(init.signal?.reason);
+          });
+        }),
+    };
+    const options = testMultipleSuccessQueryOptions({}, config);
+
+    // Act
+    const result = queryClient.fetchQuery(options);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await queryClient.cancelQueries({ queryKey: options.queryKey });
+
+    // Assert
+    await expect(result).rejects.toBeDefined();
+    expect(aborted).toBe(true);
+  });
+});
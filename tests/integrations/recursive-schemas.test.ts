@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { Employee } from "./generated/schemas/Employee.js";
+import { Forest } from "./generated/schemas/Forest.js";
+import { TreeNode } from "./generated/schemas/TreeNode.js";
+
+describe("recursive schemas", () => {
+  it("should parse self-referencing schemas at any depth", () => {
+    // Arrange
+    const tree = {
+      children: [
+        { children: [{ children: [], name: "leaf" }], name: "branch" },
+      ],
+      name: "root",
+    };
+
+    // Act
+    const result = TreeNode.safeParse(tree);
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(tree);
+  });
+
+  it("should report invalid nested nodes", () => {
+    // Act
+    const result = TreeNode.safeParse({
+      children: [{ children: [{ name: 42 }], name: "branch" }],
+      name: "root",
+    });
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual([
+      "children",
+      0,
+      "children",
+      0,
+      "name",
+    ]);
+  });
+
+  it("should parse schemas referencing each other across files", () => {
+    // Arrange
+    const employee = {
+      department: {
+        employees: [{ id: 2, role: "manager" }],
+        name: "R&D",
+      },
+      id: 1,
+    };
+
+    // Act
+    const direct = Employee.safeParse(employee);
+    const nested = Forest.safeParse({
+      departments: [employee.department],
+      trees: [{ name: "root" }],
+    });
+
+    // Assert
+    expect(direct.success).toBe(true);
+    expect(nested.success).toBe(true);
+    expect(
+      Employee.safeParse({
+        department: { employees: [{}], name: "R&D" },
+        id: 1,
+      }).success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { ZodError } from "zod";
+
+import { type GlobalConfig, globalConfig } from "./generated/client/config.js";
+import { testResponseHeaders } from "./generated/client/testResponseHeaders.js";
+import { createRouter } from "./generated/server/router.js";
+import { routes } from "./generated/server/index.js";
+
+/*
+ * Exercises the typed response headers of the generated client against a
+ * fake fetch, and their propagation by the server router
+ */
+
+const createConfig = (fetchImpl: typeof fetch): GlobalConfig => ({
+  ...globalConfig,
+  baseURL: "http://localhost",
+  fetch: fetchImpl,
+});
+
+describe("Generated response headers", () => {
+  it("should expose the declared headers parsed by their schemas", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response('{"id":"1","name":"created"}', {
+          headers: {
+            "Content-Type": "application/json",
+            Location: "/models/1",
+            "X-Cache-Hit": "true",
+            "X-RateLimit-Remaining": "42",
+            "X-Request-Id": "req-1",
+          },
+          status: 201,
+        }),
+    );
+
+    // Act
+    const response = await testResponseHeaders({}, createConfig(fetchMock));
+
+    // Assert
+    expect(response.success).toBe(true);
+    if (!response.success || response.status !== 201) return;
+    expect(response.headers).toEqual({
+      location: "/models/1",
+      "x-cache-hit": true,
+      "x-ratelimit-remaining": 42,
+      "x-request-id": "req-1",
+    });
+  });
+
+  it("should split array headers of responses without content", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response(null, {
+          headers: { ETag: '"abc"', "X-Tags": "a, b" },
+          status: 204,
+        }),
+    );
+
+    // Act
+    const response = await testResponseHeaders({}, createConfig(fetchMock));
+
+    // Assert
+    expect(response).toMatchObject({
+      headers: { etag: '"abc"', "x-tags": ["a", "b"] },
+      status: 204,
+      success: true,
+    });
+  });
+
+  it("should parse the headers when read without forceValidation", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response('{"id":"1","name":"created"}', {
+          headers: {
+            "Content-Type": "application/json",
+            "X-RateLimit-Remaining": "many",
+          },
+          status: 201,
+        }),
+    );
+
+    // Act
+    const response = await testResponseHeaders({}, createConfig(fetchMock));
+
+    // Assert
+    expect(response.success).toBe(true);
+    if (!response.success || response.status !== 201) return;
+    expect(response.data).toEqual({ id: "1", name: "created" });
+    expect(() => response.headers).toThrow(ZodError);
+  });
+
+  it("should report missing required headers as a parse error under forceValidation", async () => {
+    // Arrange
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response('{"id":"1","name":"created"}', {
+          headers: {
+            "Content-Type": "application/json",
+            "X-RateLimit-Remaining": "many",
+          },
+          status: 201,
+        }),
+    );
+
+    // Act
+    const response = await testResponseHeaders(
+      {},
+      { ...createConfig(fetchMock), forceValidation: true },
+    );
+
+    // Assert
+    expect(response.success).toBe(false);
+    if (response.success || response.kind !== "parse-error") {
+      throw new Error("Expected a parse error");
+    }
+    expect(response.result.status).toBe(201);
+    expect(response.error.issues.map(({ path }) => path)).toEqual([
+      ["location"],
+      ["x-ratelimit-remaining"],
+    ]);
+  });
+
+  it("should pass the headers returned by server handlers", async () => {
+    // Arrange
+    const handlers: any = Object.fromEntries(
+      Object.keys(routes).map((operationId) => [
+        operationId,
+        async () => ({ status: 501 }),
+      ]),
+    );
+    handlers.testResponseHeaders = async () => ({
+      contentType: "application/json",
+      data: { id: "1", name: "created" },
+      headers: { location: "/models/1", "x-ratelimit-remaining": 41 },
+      status: 201,
+    });
+    const router = createRouter(handlers);
+
+    // Act
+    const response = await router.dispatch({
+      headers: {},
+      method: "POST",
+      pathname: "/test-response-headers",
+      query: {},
+    });
+
+    // Assert
+    expect(response.headers).toEqual({
+      location: "/models/1",
+      "x-ratelimit-remaining": 41,
+    });
+  });
+});
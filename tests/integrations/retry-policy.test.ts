@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { type GlobalConfig, globalConfig } from "./generated/client/config.js";
+import { testWithEmptyResponse } from "./generated/client/testWithEmptyResponse.js";
+
+/*
+ * Exercises the retry/timeout runtime of the generated client against a fake
+ * fetch, so that attempts and delays can be observed deterministically.
+ */
+
+const createConfig = (
+  fetchImpl: typeof fetch,
+  overrides: Partial<GlobalConfig> = {},
+): GlobalConfig => ({
+  ...globalConfig,
+  baseURL: "http://localhost",
+  fetch: fetchImpl,
+  ...overrides,
+});
+
+describe("Generated client retry policy", () => {
+  it("should perform a single attempt when no retry policy is configured", async () => {
+    // Arrange
+    const fetchMock = vi.fn(async () => new Response(null, { status: 503 }));
+
+    // Act
+    const result = await testWithEmptyResponse({}, createConfig(fetchMock));
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+  });
+
+  it("should retry retryable statuses until a successful response", async () => {
+    // Arrange
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, {
+        retry: { initialDelayMs: 1, maxAttempts: 3 },
+      }),
+    );
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.success).toBe(true);
+  });
+
+  it("should return the last response once attempts run out", async () => {
+    // Arrange
+    const fetchMock = vi.fn(async () => new Response(null, { status: 503 }));
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, {
+        retry: { initialDelayMs: 1, maxAttempts: 2 },
+      }),
+    );
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("unexpected-response");
+    }
+  });
+
+  it("should not retry statuses outside the retryable list", async () => {
+    // Arrange
+    const fetchMock = vi.fn(async () => new Response(null, { status: 500 }));
+
+    // Act
+    await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, {
+        retry: { initialDelayMs: 1, maxAttempts: 3 },
+      }),
+    );
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should honor the Retry-After header", async () => {
+    // Arrange
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        new Response(null, { headers: { "Retry-After": "0.2" }, status: 429 }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const startedAt = Date.now();
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(fetchMock, {
+        retry: { initialDelayMs: 1, maxAttempts: 2 },
+      }),
+    );
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+  });
+
+  it("should retry network errors unless disabled", async () => {
+    // Arrange
+    const failingFetch = () =>
+      vi
+        .fn<typeof fetch>()
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const retried = failingFetch();
+    const notRetried = failingFetch();
+
+    // Act
+    const retriedResult = await testWithEmptyResponse(
+      {},
+      createConfig(retried, { retry: { initialDelayMs: 1, maxAttempts: 2 } }),
+    );
+    const notRetriedResult = await testWithEmptyResponse(
+      {},
+      createConfig(notRetried, {
+        retry: {
+          initialDelayMs: 1,
+          maxAttempts: 2,
+          retryOnNetworkError: false,
+        },
+      }),
+    );
+
+    // Assert
+    expect(retriedResult.success).toBe(true);
+    expect(notRetriedResult.success).toBe(false);
+    if (!notRetriedResult.success) {
+      expect(notRetriedResult.kind).toBe("unexpected-error");
+    }
+  });
+
+  it("should return a timeout error when an attempt exceeds timeoutMs", async () => {
+    // Arrange
+    const hangingFetch = vi.fn<typeof fetch>(
+      (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+
+    // Act
+    const result = await testWithEmptyResponse(
+      {},
+      createConfig(hangingFetch, {
+        retry: { initialDelayMs: 1, maxAttempts: 2 },
+        timeoutMs: 20,
+      }),
+    );
+
+    // Assert
+    expect(hangingFetch).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.kind).toBe("timeout");
+    }
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import supertest from "supertest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { routes } from "../generated/server/index.js";
+import { mountExpress } from "../generated/server/adapters/express.js";
+import { mountFastify } from "../generated/server/adapters/fastify.js";
+import { mountHono } from "../generated/server/adapters/hono.js";
+import { createKoaMiddleware } from "../generated/server/adapters/koa.js";
+import { createNodeHttpHandler } from "../generated/server/adapters/node-http.js";
+
+/* Every operation answers 501 unless overridden */
+const createHandlers = (overrides: Record<string, unknown> = {}): any => ({
+  ...Object.fromEntries(
+    Object.keys(routes).map((operationId) => [
+      operationId,
+      async () => ({ status: 501 }),
+    ]),
+  ),
+  ...overrides,
+});
+
+/* Echoes the validated body of testMultiContentTypes */
+const echoHandlers = (calls: unknown[] = []) =>
+  createHandlers({
+    testMultiContentTypes: async (params: any) => {
+      if (!params.success) return { status: 400 };
+      calls.push(params.value);
+      return {
+        contentType: "application/json",
+        data: params.value.body,
+        headers: { "x-request-kind": "echo" },
+        status: 201,
+      };
+    },
+    testWithTwoParams: async (params: any) => {
+      if (!params.success) return { status: 400 };
+      calls.push(params.value.path);
+      return { status: 200 };
+    },
+  });
+
+describe("server framework adapters", () => {
+  describe("mountExpress", () => {
+    it("should route requests and serialize the typed responses", async () => {
+      // Arrange
+      const app = express();
+      app.use(express.json());
+      mountExpress(app, echoHandlers());
+
+      // Act
+      const response = await supertest(app)
+        .post("/test-multi-content-types")
+        .send({ id: "1", name: "echo" });
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(response.headers["content-type"]).toContain("application/json");
+      expect(response.headers["x-request-kind"]).toBe("echo");
+      expect(response.body).toEqual({ id: "1", name: "echo" });
+    });
+
+    it("should restore the OpenAPI names of path parameters", async () => {
+      // Arrange
+      const calls: unknown[] = [];
+      const app = express();
+      mountExpress(app, echoHandlers(calls));
+
+      // Act
+      const response = await supertest(app).get(
+        "/test-two-path-params/a%20b/second",
+      );
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(calls).toEqual([
+        { "first-param": "a b", "second-param": "second" },
+      ]);
+    });
+  });
+
+  describe("createNodeHttpHandler", () => {
+    it("should parse bodies and answer 404/405 for unknown routes", async () => {
+      // Arrange
+      const server = createServer(createNodeHttpHandler(echoHandlers()));
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+      const baseURL = `http://localhost:${port}`;
+
+      try {
+        // Act
+        const echoed = await fetch(`${baseURL}/test-multi-content-types`, {
+          body: "id=1&name=form",
+          headers: {
+            "content-type": "application/x-www-form-urlencoded; charset=utf-8",
+          },
+          method: "POST",
+        });
+        const missing = await fetch(`${baseURL}/not-an-operation`);
+        const notAllowed = await fetch(`${baseURL}/test-multi-content-types`);
+
+        // Assert
+        expect(echoed.status).toBe(201);
+        expect(await echoed.json()).toEqual({ id: "1", name: "form" });
+        expect(missing.status).toBe(404);
+        expect(notAllowed.status).toBe(405);
+        expect(notAllowed.headers.get("allow")).toBe("POST");
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe("mountHono", () => {
+    it("should register colon paths and answer with Fetch responses", async () => {
+      // Arrange
+      const registered: { handler: any; method: string; path: string }[] = [];
+      const calls: unknown[] = [];
+      mountHono(
+        {
+          on: (method: string, path: string, handler: any) =>
+            registered.push({ handler, method, path }),
+        },
+        echoHandlers(calls),
+      );
+      const route = registered.find(
+        ({ path }) => path === "/test-two-path-params/:param0/:param1",
+      );
+
+      // Act
+      const response: Response = await route?.handler({
+        req: {
+          param: () => ({ param0: "first", param1: "second" }),
+          raw: new Request(
+            "http://localhost/test-two-path-params/first/second",
+          ),
+        },
+      });
+
+      // Assert
+      expect(route?.method).toBe("GET");
+      expect(response.status).toBe(200);
+      expect(calls).toEqual([
+        { "first-param": "first", "second-param": "second" },
+      ]);
+    });
+  });
+
+  describe("mountFastify", () => {
+    it("should send the serialized response through the reply", async () => {
+      // Arrange
+      const registered: any[] = [];
+      mountFastify(
+        { route: (options: any) => registered.push(options) },
+        echoHandlers(),
+      );
+      const route = registered.find(
+        ({ url }) => url === "/test-multi-content-types",
+      );
+      const reply = {
+        code: (status: number) => (reply.status = status),
+        header: (name: string, value: string) => (reply.headers[name] = value),
+        headers: {} as Record<string, string>,
+        payload: undefined as unknown,
+        send: (payload: unknown) => (reply.payload = payload),
+        status: 0,
+      };
+
+      // Act
+      await route.handler(
+        {
+          body: { id: "1", name: "fastify" },
+          headers: { "content-type": "application/json" },
+          params: {},
+          query: {},
+        },
+        reply,
+      );
+
+      // Assert
+      expect(route.method).toBe("POST");
+      expect(reply.status).toBe(201);
+      expect(reply.headers).toEqual({
+        "content-type": "application/json",
+        "x-request-kind": "echo",
+      });
+      expect(reply.payload).toBe('{"id":"1","name":"fastify"}');
+    });
+  });
+
+  describe("createKoaMiddleware", () => {
+    const createContext = (method: string, path: string) => ({
+      body: undefined as unknown,
+      headers: { "content-type": "application/json" },
+      method,
+      path,
+      query: {},
+      req: (async function* () {
+        yield '{"id":"1","name":"koa"}';
+      })(),
+      request: {},
+      set(name: string, value: string) {
+        this.responseHeaders[name] = value;
+      },
+      responseHeaders: {} as Record<string, string>,
+      status: 404,
+    });
+
+    it("should read the raw body and set the Koa response", async () => {
+      // Arrange
+      const middleware = createKoaMiddleware(echoHandlers());
+      const ctx = createContext("POST", "/test-multi-content-types");
+
+      // Act
+      await middleware(ctx, async () => undefined);
+
+      // Assert
+      expect(ctx.status).toBe(201);
+      expect(ctx.responseHeaders["x-request-kind"]).toBe("echo");
+      expect(ctx.body).toBe('{"id":"1","name":"koa"}');
+    });
+
+    it("should defer unknown routes to the next middleware", async () => {
+      // Arrange
+      const middleware = createKoaMiddleware(echoHandlers());
+      const ctx = createContext("GET", "/not-an-operation");
+      let nextCalled = false;
+
+      // Act
+      await middleware(ctx, async () => {
+        nextCalled = true;
+      });
+
+      // Assert
+      expect(nextCalled).toBe(true);
+      expect(ctx.status).toBe(404);
+    });
+
+    it("should answer 405 when the path matches another method", async () => {
+      // Arrange
+      const middleware = createKoaMiddleware(echoHandlers());
+      const ctx = createContext("GET", "/test-multi-content-types");
+
+      // Act
+      await middleware(ctx, async () => undefined);
+
+      // Assert
+      expect(ctx.status).toBe(405);
+      expect(ctx.responseHeaders.allow).toBe("POST");
+    });
+  });
+});
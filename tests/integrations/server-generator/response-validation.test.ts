@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import supertest from "supertest";
+import {
+  testMultiContentTypesWrapper,
+  type testMultiContentTypesHandler,
+} from "../generated/server/testMultiContentTypes.js";
+import { setupTestRoute } from "./test-helpers.js";
+
+const request = {
+  body: { id: "1", name: "request" },
+  contentType: "application/json" as const,
+  headers: {},
+  path: {},
+  query: {},
+};
+
+describe("server wrapper response validation", () => {
+  it("should return handler responses untouched unless opted in", async () => {
+    // Arrange
+    const handler = (async () => ({
+      contentType: "application/json",
+      data: { id: "1", name: "leaked", secret: "s3cr3t" },
+      status: 200,
+    })) as testMultiContentTypesHandler;
+
+    // Act
+    const response = await testMultiContentTypesWrapper(handler)(request);
+
+    // Assert
+    expect(response.data).toEqual({
+      id: "1",
+      name: "leaked",
+      secret: "s3cr3t",
+    });
+  });
+
+  it("should strip the properties missing from the response schema", async () => {
+    // Arrange
+    const handler = (async () => ({
+      contentType: "application/json",
+      data: { id: "1", name: "stripped", secret: "s3cr3t" },
+      status: 200,
+    })) as testMultiContentTypesHandler;
+
+    // Act
+    const response = await testMultiContentTypesWrapper(handler, {
+      validateResponse: true,
+    })(request);
+
+    // Assert
+    expect(response).toEqual({
+      contentType: "application/json",
+      data: { id: "1", name: "stripped" },
+      status: 200,
+    });
+  });
+
+  it("should turn contract violations into a 500 with a structured error", async () => {
+    // Arrange
+    const handler = (async () => ({
+      contentType: "application/json",
+      data: { id: 1 },
+      status: 200,
+    })) as unknown as testMultiContentTypesHandler;
+    const app = setupTestRoute(
+      "/test-multi-content-types",
+      "post",
+      (handler: testMultiContentTypesHandler) =>
+        testMultiContentTypesWrapper(handler, { validateResponse: true }),
+      handler,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .post("/test-multi-content-types")
+      .send({ id: "1", name: "request" });
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(response.body).toMatchObject({
+      contentType: "application/json",
+      kind: "response-error",
+      operationId: "testMultiContentTypes",
+      status: 200,
+    });
+    expect(response.body.issues.map(({ path }: any) => path)).toEqual([
+      ["id"],
+      ["name"],
+    ]);
+  });
+
+  it("should reject undeclared statuses and content types", async () => {
+    // Arrange
+    const responses = [
+      { status: 418 },
+      { contentType: "text/csv", data: "id,name", status: 201 },
+    ];
+    const wrappers = responses.map((handlerResponse) =>
+      testMultiContentTypesWrapper(
+        (async () =>
+          handlerResponse) as unknown as testMultiContentTypesHandler,
+        { validateResponse: true },
+      ),
+    );
+
+    // Act
+    const [status, contentType] = await Promise.all(
+      wrappers.map((wrapper) => wrapper(request)),
+    );
+
+    // Assert
+    expect(status.status).toBe(500);
+    expect((status.data as any).issues).toEqual([
+      { message: "Undeclared response status 418", path: [] },
+    ]);
+    expect(contentType.status).toBe(500);
+    expect((contentType.data as any).issues).toEqual([
+      { message: "Undeclared content type text/csv", path: [] },
+    ]);
+  });
+
+  it("should build the error body with the configured callback", async () => {
+    // Arrange
+    const errors: unknown[] = [];
+    const handler = (async () => ({
+      contentType: "application/json",
+      data: { title: 1 },
+      status: 201,
+    })) as unknown as testMultiContentTypesHandler;
+
+    // Act
+    const response = await testMultiContentTypesWrapper(handler, {
+      onResponseValidationError: (error) => {
+        errors.push(error);
+        return { message: "Internal Server Error" };
+      },
+      validateResponse: true,
+    })(request);
+
+    // Assert
+    expect(response).toEqual({
+      contentType: "application/json",
+      data: { message: "Internal Server Error" },
+      status: 500,
+    });
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { routes } from "../generated/server/index.js";
+import { createRouter } from "../generated/server/router.js";
+
+/* Every operation answers 501 unless overridden */
+const createHandlers = (overrides: Record<string, unknown> = {}): any => ({
+  ...Object.fromEntries(
+    Object.keys(routes).map((operationId) => [
+      operationId,
+      async () => ({ status: 501 }),
+    ]),
+  ),
+  ...overrides,
+});
+
+const request = (method: string, pathname: string) => ({
+  headers: {},
+  method,
+  pathname,
+  query: {},
+});
+
+describe("createRouter", () => {
+  it("should dispatch to the handler with decoded path parameters", async () => {
+    // Arrange
+    const calls: unknown[] = [];
+    const router = createRouter(
+      createHandlers({
+        testWithTwoParams: async (params: any) => {
+          if (!params.success) return { status: 400 };
+          calls.push(params.value.path);
+          return { status: 200 };
+        },
+      }),
+    );
+
+    // Act
+    const response = await router.dispatch(
+      request("get", "/test-two-path-params/a%2Fb%20c/second"),
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(calls).toEqual([
+      { "first-param": "a/b c", "second-param": "second" },
+    ]);
+  });
+
+  it("should answer 404 when no operation path matches", async () => {
+    // Arrange
+    const router = createRouter(createHandlers());
+
+    // Act
+    const response = await router.dispatch(request("GET", "/not-an-operation"));
+
+    // Assert
+    expect(response).toEqual({ status: 404 });
+    expect(router.match("GET", "/test-two-path-params/only-one")).toEqual({
+      kind: "not-found",
+    });
+  });
+
+  it("should answer 405 with the allowed methods of a matching path", async () => {
+    // Arrange
+    const router = createRouter(createHandlers());
+
+    // Act
+    const response = await router.dispatch(
+      request("DELETE", "/test-multi-content-types"),
+    );
+
+    // Assert
+    expect(response).toEqual({ headers: { allow: "POST" }, status: 405 });
+  });
+
+  it("should bind a route to every operation", () => {
+    // Arrange
+    const router = createRouter(createHandlers());
+
+    // Act
+    const match = router.match("POST", "/test-multi-content-types/");
+
+    // Assert
+    expect(router.routes.map(({ operationId }) => operationId).sort()).toEqual(
+      Object.keys(routes).sort(),
+    );
+    expect(match).toMatchObject({
+      kind: "found",
+      path: {},
+      route: { method: "POST", operationId: "testMultiContentTypes" },
+    });
+  });
+
+  it("should prefer literal path segments whatever the declaration order", () => {
+    // Arrange
+    const router = createRouter(createHandlers());
+
+    // Act
+    const literal = router.match("GET", "/test-route-priority/latest");
+    const templated = router.match("GET", "/test-route-priority/42");
+
+    // Assert
+    expect(literal).toMatchObject({
+      kind: "found",
+      route: { operationId: "testRoutePriorityLatest" },
+    });
+    expect(templated).toMatchObject({
+      kind: "found",
+      path: { id: "42" },
+      route: { operationId: "testRoutePriorityById" },
+    });
+  });
+
+  it("should match HEAD requests with the GET route of their path", async () => {
+    // Arrange
+    const router = createRouter(
+      createHandlers({ testRoutePriorityById: async () => ({ status: 204 }) }),
+    );
+
+    // Act
+    const response = await router.dispatch(
+      request("HEAD", "/test-route-priority/42"),
+    );
+
+    // Assert
+    expect(response).toEqual({ status: 204 });
+    expect(router.match("DELETE", "/test-route-priority/42")).toEqual({
+      allow: ["GET", "HEAD"],
+      kind: "method-not-allowed",
+    });
+  });
+
+  it("should pass the wrapper options to every operation", async () => {
+    // Arrange
+    const router = createRouter(
+      createHandlers({
+        testMultiContentTypes: async () => ({
+          contentType: "application/json",
+          data: { id: "1", name: "echo", secret: "s3cr3t" },
+          status: 200,
+        }),
+      }),
+      { validateResponse: true },
+    );
+
+    // Act
+    const response = await router.dispatch({
+      ...request("POST", "/test-multi-content-types"),
+      body: { id: "1", name: "echo" },
+      contentType: "application/json",
+    });
+
+    // Assert
+    expect(response.data).toEqual({ id: "1", name: "echo" });
+  });
+});
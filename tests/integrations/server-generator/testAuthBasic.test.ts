@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import supertest from "supertest";
+import {
+  testAuthBasicWrapper,
+  testAuthBasicHandler,
+} from "../generated/server/testAuthBasic.js";
+import { testAuthApiKeyQueryWrapper } from "../generated/server/testAuthApiKeyQuery.js";
+import { setupTestRoute } from "./test-helpers.js";
+
+const sendStatus = (result: { status: number }, res: express.Response) => {
+  res.sendStatus(result.status);
+};
+
+describe("testAuthBasic operation integration tests", () => {
+  it("should expose the decoded Basic credentials to the handler", async () => {
+    // Arrange
+    let credentials: unknown;
+    const handler: testAuthBasicHandler = async (params) => {
+      if (!params.success) return { status: 401 };
+      credentials = params.value.credentials;
+      return { status: 200 };
+    };
+    const app = setupTestRoute(
+      "/test-auth-basic",
+      "get",
+      testAuthBasicWrapper,
+      handler,
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-auth-basic")
+      .auth("user", "pässword");
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(credentials).toEqual({
+      apiKeyCookie: undefined,
+      apiKeyQuery: undefined,
+      basicAuth: { password: "pässword", username: "user" },
+    });
+  });
+
+  it("should accept the apiKey query and cookie alternative", async () => {
+    // Arrange
+    let credentials: unknown;
+    const handler: testAuthBasicHandler = async (params) => {
+      if (!params.success) return { status: 401 };
+      credentials = params.value.credentials;
+      return { status: 200 };
+    };
+    const app = setupTestRoute(
+      "/test-auth-basic",
+      "get",
+      testAuthBasicWrapper,
+      handler,
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-auth-basic")
+      .query({ api_key: "query-key" })
+      .set("Cookie", "theme=dark; SESSIONID=a%20b");
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(credentials).toMatchObject({
+      apiKeyCookie: "a b",
+      apiKeyQuery: "query-key",
+    });
+  });
+
+  it.each([
+    ["no credentials", {}],
+    ["a malformed Basic header", { Authorization: "Basic not base64!" }],
+    ["only one scheme of a requirement", { Cookie: "SESSIONID=abc" }],
+  ])(
+    "should return a security-error with %s",
+    async (_, headers: Record<string, string>) => {
+      // Arrange
+      let errorKind: string | undefined;
+      const handler: testAuthBasicHandler = async (params) => {
+        if (!params.success) errorKind = params.kind;
+        return { status: 401 };
+      };
+      const app = setupTestRoute(
+        "/test-auth-basic",
+        "get",
+        testAuthBasicWrapper,
+        handler,
+        sendStatus,
+      );
+
+      // Act
+      const response = await supertest(app)
+        .get("/test-auth-basic")
+        .set(headers);
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(errorKind).toBe("security-error");
+    },
+  );
+
+  it("should exclude the query apiKey from strict query validation", async () => {
+    // Arrange
+    const app = setupTestRoute(
+      "/test-auth-api-key-query",
+      "get",
+      testAuthApiKeyQueryWrapper,
+      async (params) => {
+        if (!params.success) return { status: 401 };
+        expect(params.value.query).toEqual({ filter: "active" });
+        expect(params.value.credentials.apiKeyQuery).toBe("query-key");
+        return { status: 200 };
+      },
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-auth-api-key-query")
+      .query({ api_key: "query-key", filter: "active" });
+
+    // Assert
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import supertest from "supertest";
+import {
+  testCookieParamsWrapper,
+  testCookieParamsHandler,
+} from "../generated/server/testCookieParams.js";
+import { setupTestRoute } from "./test-helpers.js";
+
+const sendStatus = (result: { status: number }, res: express.Response) => {
+  res.sendStatus(result.status);
+};
+
+describe("testCookieParams operation integration tests", () => {
+  it("should validate and coerce cookie parameters", async () => {
+    // Arrange
+    let cookies: unknown;
+    const handler: testCookieParamsHandler = async (params) => {
+      if (!params.success) return { status: 400 };
+      cookies = params.value.cookies;
+      return { status: 200 };
+    };
+    const app = setupTestRoute(
+      "/test-cookie-params",
+      "get",
+      testCookieParamsWrapper,
+      handler,
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-cookie-params")
+      .set("Cookie", "theme=dark; session-id=a%20b%20c; page_size=25");
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(cookies).toEqual({
+      page_size: 25,
+      "session-id": "a b c",
+    });
+  });
+
+  it.each([
+    ["a missing required cookie", "page_size=25"],
+    ["an invalid cookie value", "session-id=abc; page_size=many"],
+  ])("should return a cookie-error with %s", async (_, cookie: string) => {
+    // Arrange
+    let errorKind: string | undefined;
+    const handler: testCookieParamsHandler = async (params) => {
+      if (!params.success) errorKind = params.kind;
+      return { status: 400 };
+    };
+    const app = setupTestRoute(
+      "/test-cookie-params",
+      "get",
+      testCookieParamsWrapper,
+      handler,
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-cookie-params")
+      .set("Cookie", cookie);
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(errorKind).toBe("cookie-error");
+  });
+});
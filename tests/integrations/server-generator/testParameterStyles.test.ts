@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import supertest from "supertest";
+import {
+  testParameterStylesWrapper,
+  testParameterStylesHandler,
+} from "../generated/server/testParameterStyles.js";
+import { parseQueryString } from "../generated/server/adapters/common.js";
+import { routes } from "../generated/server/index.js";
+import { createRouter } from "../generated/server/router.js";
+import { setupTestRoute } from "./test-helpers.js";
+
+const sendStatus = (result: { status: number }, res: express.Response) => {
+  res.sendStatus(result.status);
+};
+
+describe("testParameterStyles operation integration tests", () => {
+  it("should parse style-serialized parameters before validation", async () => {
+    // Arrange
+    let parsed: unknown;
+    const handler: testParameterStylesHandler = async (params) => {
+      if (!params.success) return { status: 400 };
+      parsed = params.value;
+      return { status: 200 };
+    };
+    const app = setupTestRoute(
+      "/test-parameter-styles/:ids/:coords",
+      "get",
+      testParameterStylesWrapper,
+      handler,
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-parameter-styles/.3,4,5/;x=1;y=2")
+      .query(
+        "tags=t1&tags=t2&colors=red|green&filter[name]=John%20Doe" +
+          "&filter[minAge]=18&range=from,1,to,9&x=7&y=8",
+      )
+      .set("X-Trace", "a, b");
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(parsed).toMatchObject({
+      headers: { "x-trace": ["a", "b"] },
+      path: { coords: { x: 1, y: 2 }, ids: [3, 4, 5] },
+      query: {
+        colors: ["red", "green"],
+        filter: { minAge: 18, name: "John Doe" },
+        point: { x: 7, y: 8 },
+        range: { from: 1, to: 9 },
+        tags: ["t1", "t2"],
+      },
+    });
+  });
+
+  it("should return a query-error for malformed styled values", async () => {
+    // Arrange
+    let errorKind: string | undefined;
+    const handler: testParameterStylesHandler = async (params) => {
+      if (!params.success) errorKind = params.kind;
+      return { status: 400 };
+    };
+    const app = setupTestRoute(
+      "/test-parameter-styles/:ids/:coords",
+      "get",
+      testParameterStylesWrapper,
+      handler,
+      sendStatus,
+    );
+
+    // Act
+    const response = await supertest(app)
+      .get("/test-parameter-styles/.1/;x=1;y=2")
+      .query("range=from,abc");
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(errorKind).toBe("query-error");
+  });
+
+  it("should split styled path values before decoding their items", async () => {
+    // Arrange
+    const results: unknown[] = [];
+    const handlers = Object.fromEntries(
+      Object.keys(routes).map((operationId) => [
+        operationId,
+        async () => ({ status: 501 }),
+      ]),
+    );
+    const router = createRouter({
+      ...handlers,
+      testParameterStyles: async (params: any) => {
+        results.push(params.success ? params.value.path : params.kind);
+        return { status: 200 };
+      },
+    } as any);
+    const dispatch = (pathname: string) =>
+      router.dispatch({ headers: {}, method: "GET", pathname, query: {} });
+
+    // Act
+    await dispatch("/test-parameter-styles/.3,%34/;x=%31;y=2");
+    await dispatch("/test-parameter-styles/.3%2C4/;x=1;y=2");
+
+    // Assert
+    expect(results).toEqual([
+      { coords: { x: 1, y: 2 }, ids: [3, 4] },
+      "path-error",
+    ]);
+  });
+
+  it("should not reach Object.prototype through deepObject keys", async () => {
+    // Arrange
+    let parsed: unknown;
+    const handlers = Object.fromEntries(
+      Object.keys(routes).map((operationId) => [
+        operationId,
+        async () => ({ status: 501 }),
+      ]),
+    );
+    const router = createRouter({
+      ...handlers,
+      testParameterStyles: async (params: any) => {
+        parsed = params.success ? params.value.query : params.error;
+        return { status: 200 };
+      },
+    } as any);
+
+    // Act
+    const response = await router.dispatch({
+      headers: {},
+      method: "GET",
+      pathname: "/test-parameter-styles/.3/;x=1;y=2",
+      query: parseQueryString(
+        "?filter[__proto__][polluted]=yes&filter[constructor][prototype][polluted]=yes" +
+          "&filter[name]=Ada",
+      ),
+    });
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(parsed).toMatchObject({ filter: { name: "Ada" } });
+  });
+});
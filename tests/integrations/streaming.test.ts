@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+
+import { globalConfig } from "./generated/client/config.js";
+import { testStreamEvents } from "./generated/client/testStreamEvents.js";
+import { testStreamLines } from "./generated/client/testStreamLines.js";
+import { testStreamMixed } from "./generated/client/testStreamMixed.js";
+
+/* Body sending the given chunks one at a time, recording how many were pulled */
+function chunkedBody(chunks: string[]): {
+  body: ReadableStream<Uint8Array>;
+  pulled: () => number;
+} {
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        if (index < chunks.length) {
+          controller.enqueue(encoder.encode(chunks[index++]));
+        } else {
+          controller.close();
+        }
+      },
+    },
+    { highWaterMark: 0 },
+  );
+  return { body, pulled: () => index };
+}
+
+function serve(body: ReadableStream<Uint8Array>, contentType: string) {
+  return {
+    ...globalConfig,
+    fetch: async () =>
+      new Response(body, {
+        headers: { "Content-Type": contentType },
+        status: 200,
+      }),
+  };
+}
+
+describe("streamed responses", () => {
+  it("should yield validated Server-Sent Events", async () => {
+    // Arrange
+    const { body } = chunkedBody([
+      ': keep-alive\n\nevent: delta\nid: 1\ndata: {"del',
+      'ta":"Hel"}\n\ndata: {"delta":"lo"}\n\n',
+    ]);
+    const response = await testStreamEvents(
+      {},
+      serve(body, "text/event-stream"),
+    );
+    if (!response.success || response.status !== 200) {
+      throw new Error("Expected a streamed response");
+    }
+
+    // Act
+    const events = [];
+    for await (const event of response.stream()) events.push(event);
+
+    // Assert
+    expect(events).toEqual([
+      { data: { delta: "Hel" }, event: "delta", id: "1" },
+      { data: { delta: "lo" }, id: "1" },
+    ]);
+  });
+
+  it("should read line-delimited JSON only as items are consumed", async () => {
+    // Arrange
+    const { body, pulled } = chunkedBody([
+      '{"level":"info","message":"a"}\n',
+      '{"level":"warn","message":"b"}\n',
+      '{"level":"error","message":"c"}\n',
+    ]);
+    const response = await testStreamLines(
+      {},
+      serve(body, "application/x-ndjson"),
+    );
+    if (!response.success) throw new Error("Expected a streamed response");
+
+    // Act
+    const messages = [];
+    for await (const record of response.stream()) {
+      messages.push(record.message);
+      if (record.level === "warn") break;
+    }
+
+    // Assert
+    expect(messages).toEqual(["a", "b"]);
+    expect(pulled()).toBe(2);
+  });
+
+  it("should throw a parse-error on an invalid item", async () => {
+    // Arrange
+    const { body } = chunkedBody([
+      '{"level":"info","message":"a"}\n{"level":"debug","message":"b"}\n',
+    ]);
+    const response = await testStreamLines(
+      {},
+      serve(body, "application/x-ndjson"),
+    );
+    if (!response.success) throw new Error("Expected a streamed response");
+    const messages: string[] = [];
+
+    // Act
+    const result = (async () => {
+      for await (const record of response.stream()) {
+        messages.push(record.message);
+      }
+    })();
+
+    // Assert
+    await expect(result).rejects.toMatchObject({
+      kind: "parse-error",
+      result: { data: { level: "debug", message: "b" }, status: 200 },
+      success: false,
+    });
+    expect(messages).toEqual(["a"]);
+  });
+
+  it("should stop with an aborted error when the signal aborts", async () => {
+    // Arrange
+    const controller = new AbortController();
+    const body = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        streamController.enqueue(
+          new TextEncoder().encode('data: {"delta":"a"}\n\n'),
+        );
+      },
+    });
+    const response = await testStreamEvents(
+      {},
+      {
+        ...serve(body, "text/event-stream"),
+        signal: controller.signal,
+        timeoutMs: 1000,
+      },
+    );
+    if (!response.success || response.status !== 200) {
+      throw new Error("Expected a streamed response");
+    }
+    const iterator = response.stream();
+    await iterator.next();
+
+    // Act
+    const next = iterator.next();
+    controller.abort();
+
+    // Assert
+    await expect(next).rejects.toMatchObject({
+      kind: "aborted",
+      success: false,
+    });
+  });
+
+  it("should parse other content types of a mixed status as usual", async () => {
+    // Arrange
+    const config = {
+      ...globalConfig,
+      fetch: async () => Response.json({ delta: "whole" }),
+    };
+
+    // Act
+    const response = await testStreamMixed({}, config);
+
+    // Assert
+    expect(response.success && "parse" in response).toBe(true);
+    if (response.success && "parse" in response) {
+      expect(response.parse()).toEqual({
+        contentType: "application/json",
+        parsed: { delta: "whole" },
+      });
+    }
+  });
+});
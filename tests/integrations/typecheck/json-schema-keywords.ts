@@ -0,0 +1,12 @@
+/* Compile-time checks of the generated JSON Schema keywords, type checked by typecheck.test.ts */
+import type { ShippingRule } from "../generated/schemas/ShippingRule.js";
+
+/* const values are literal types, prefixItems are tuples */
+export function describeRule(rule: ShippingRule): string {
+  const kind: "parcel" = rule.kind;
+  const [length, width]: [number, number] = rule.dimensions;
+  // @ts-expect-error the tuple has no third item
+  const height: number = rule.dimensions[2];
+  void height;
+  return `${kind} ${length}x${width}`;
+}
@@ -0,0 +1,26 @@
+/* Compile-time checks of the generated MSW handlers, type checked by typecheck.test.ts */
+import { createMswHandlers, type MswHttpLike } from "../generated/msw/index.js";
+
+declare const http: MswHttpLike<{ kind: "handler" }>;
+
+const msw = createMswHandlers(http);
+
+/* Resolvers answer with one of the responses of the operation */
+msw.testMultipleSuccess(async () => ({ status: 202 }));
+
+// @ts-expect-error 201 is not a response of testMultipleSuccess
+msw.testMultipleSuccess(async () => ({ status: 201 }));
+
+/* Resolvers receive the parsed request parameters */
+msw.testWithTwoParams(async (params) => {
+  if (params.success) {
+    const first: string = params.value.path["first-param"];
+    // @ts-expect-error the path has no such parameter
+    void params.value.path["third-param"];
+    void first;
+  }
+  return { status: 200 };
+});
+
+// @ts-expect-error the operation does not exist
+msw.unknownOperation(async () => ({ status: 200 }));
@@ -0,0 +1,25 @@
+/* Compile-time checks of the generated TanStack Query hooks, type checked by typecheck.test.ts */
+import {
+  useTestInlineBodySchemaMutation,
+  useTestMultipleSuccessQuery,
+} from "../generated/queries/index.js";
+
+/* Queries narrow to the successful responses, failures are ApiResponseError */
+export function useQueries(): void {
+  const query = useTestMultipleSuccessQuery({});
+  if (query.data) {
+    const status: 200 | 202 | 403 | 404 = query.data.status;
+    // @ts-expect-error failures are not data
+    void query.data.kind;
+    void status;
+  }
+  if (query.error) {
+    const kind: string = query.error.kind;
+    void kind;
+  }
+
+  const mutation = useTestInlineBodySchemaMutation();
+  mutation.mutate({ body: { name: "Ada" } });
+  // @ts-expect-error the body requires a name
+  mutation.mutate({ body: {} });
+}
@@ -0,0 +1,22 @@
+/* Compile-time checks of the generated recursive schemas, type checked by typecheck.test.ts */
+import type { Department } from "../generated/schemas/Department.js";
+import type { Forest } from "../generated/schemas/Forest.js";
+
+import { TreeNode } from "../generated/schemas/TreeNode.js";
+
+/* Recursive schemas keep strong types at any depth */
+export function readTrees(forest: Forest, department: Department): void {
+  const name: string | undefined =
+    forest.trees[0].children?.[0].children?.[0].name;
+  const role: "engineer" | "manager" | undefined =
+    department.employees[0].department?.employees[0].role;
+  // @ts-expect-error names are strings
+  const invalid: number = forest.trees[0].name;
+  void name;
+  void role;
+  void invalid;
+
+  const parsed = TreeNode.parse({ name: "root" });
+  // @ts-expect-error children are tree nodes
+  parsed.children?.push({ label: "leaf" });
+}
@@ -0,0 +1,17 @@
+/* Compile-time checks of the generated router, type checked by typecheck.test.ts */
+import type { ServerHandlers } from "../generated/server/index.js";
+
+import { createRouter } from "../generated/server/router.js";
+
+declare const handlers: ServerHandlers;
+declare const incomplete: Omit<ServerHandlers, "testAuthBearer">;
+
+/* A handler for every operation is accepted */
+createRouter(handlers);
+
+/* A missing operation handler is a compile error */
+// @ts-expect-error testAuthBearer has no handler
+createRouter(incomplete);
+
+// @ts-expect-error no operation has a handler
+createRouter({});
@@ -0,0 +1,26 @@
+/* Compile-time checks of the generated streamed responses, type checked by typecheck.test.ts */
+import { testStreamEvents } from "../generated/client/testStreamEvents.js";
+import { testStreamLines } from "../generated/client/testStreamLines.js";
+
+/* Events carry their validated payload, lines are the validated records */
+export async function readStreams(): Promise<void> {
+  const events = await testStreamEvents({});
+  if (events.success && events.status === 200) {
+    for await (const event of events.stream()) {
+      const delta: string = event.data.delta;
+      const name: string | undefined = event.event;
+      void delta;
+      void name;
+    }
+  }
+
+  const lines = await testStreamLines({});
+  if (lines.success) {
+    for await (const record of lines.stream()) {
+      const level: "error" | "info" | "warn" = record.level;
+      // @ts-expect-error records are not events
+      void record.data;
+      void level;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { extractResponseExamples } from "../../src/mock-generator/index.js";
+
+describe("extractResponseExamples", () => {
+  it("should prefer media examples over named and schema examples", () => {
+    // Arrange
+    const doc = {
+      components: {
+        examples: { Rex: { value: { name: "Rex" } } },
+        responses: {
+          NotFound: {
+            content: {
+              "application/json": { example: { message: "not found" } },
+            },
+            description: "Not found",
+          },
+        },
+        schemas: { Pet: { example: { name: "Tom" }, type: "object" } },
+      },
+      info: { title: "Pets", version: "1.0.0" },
+      openapi: "3.1.0",
+    };
+    const operation = {
+      responses: {
+        "200": {
+          content: {
+            "application/json": {
+              example: { name: "Fido" },
+              examples: { rex: { $ref: "#/components/examples/Rex" } },
+            },
+            "application/vnd.pet+json": {
+              examples: { rex: { $ref: "#/components/examples/Rex" } },
+            },
+            "application/xml": {
+              schema: { $ref: "#/components/schemas/Pet" },
+            },
+            "text/plain": { schema: { type: "string" } },
+          },
+          description: "OK",
+        },
+        "204": { description: "No content" },
+        "404": { $ref: "#/components/responses/NotFound" },
+      },
+    };
+
+    // Act
+    const examples = extractResponseExamples(operation, doc);
+
+    // Assert
+    expect(examples).toEqual({
+      "200": {
+        "application/json": { name: "Fido" },
+        "application/vnd.pet+json": { name: "Rex" },
+        "application/xml": { name: "Tom" },
+      },
+      "404": { "application/json": { message: "not found" } },
+    });
+  });
+});
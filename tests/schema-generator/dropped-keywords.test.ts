@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { findDroppedKeywords } from "../../src/schema-generator/dropped-keywords.js";
+
+describe("findDroppedKeywords", () => {
+  it("should find keywords without Zod equivalent in nested schemas", () => {
+    // Act
+    const dropped = findDroppedKeywords(
+      {
+        allOf: [{ unevaluatedProperties: false }],
+        properties: {
+          "a/b": { items: { dependencies: { a: ["b"] } }, type: "array" },
+        },
+        type: "object",
+      } as never,
+      "#/components/schemas/Thing",
+    );
+
+    // Assert
+    expect(dropped).toEqual([
+      {
+        keyword: "unevaluatedProperties",
+        location: "#/components/schemas/Thing/allOf/0",
+      },
+      {
+        keyword: "dependencies",
+        location: "#/components/schemas/Thing/properties/a~1b/items",
+      },
+    ]);
+  });
+
+  it("should find the validation keywords next to a $ref", () => {
+    // Act
+    const dropped = findDroppedKeywords({
+      properties: {
+        owner: {
+          $ref: "#/components/schemas/User",
+          description: "Owner",
+          required: ["id"],
+        },
+      },
+      type: "object",
+    });
+
+    // Assert
+    expect(dropped).toEqual([
+      { keyword: "required", location: "#/properties/owner" },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import type { SchemaObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import {
+  collectFormatImports,
+  findFormat,
+  type FormatRegistry,
+} from "../../src/schema-generator/formats.js";
+import { zodSchemaToCode } from "../../src/schema-generator/schema-converter.js";
+import { schemaToTypeScript } from "../../src/schema-generator/type-generator.js";
+
+const FORMATS: FormatRegistry = {
+  decimal: {
+    code: "z.string().regex(/^-?\\d+(\\.\\d+)?$/).transform(Number)",
+    type: "number",
+  },
+  email: { code: 'z.string().endsWith("@example.com")' },
+  iban: {
+    code: "z.string().refine(isValidIban)",
+    imports: ['import { isValidIban } from "../../validators.js";'],
+  },
+};
+
+function compile(
+  schema: SchemaObject,
+  formats: FormatRegistry = {},
+): z.ZodType {
+  const { code } = zodSchemaToCode(schema, { formats });
+  return new Function("z", `return ${code}`)(z);
+}
+
+describe("Formats", () => {
+  it.each([
+    ["hostname", "api.example.com", "not a host!"],
+    ["ipv4", "10.0.0.1", "10.0.0.256"],
+    ["ipv6", "2001:db8::1", "2001:db8::g"],
+    ["byte", "aGVsbG8=", "hello!"],
+  ])(
+    "should validate the built-in %s string format",
+    (format, valid, invalid) => {
+      // Arrange
+      const schema = compile({ format, type: "string" });
+
+      // Assert
+      expect(schema.safeParse(valid).success).toBe(true);
+      expect(schema.safeParse(invalid).success).toBe(false);
+    },
+  );
+
+  it.each([
+    ["int32", "integer", 2147483647, 2147483648],
+    ["int64", "integer", 2 ** 40, 1.5],
+    ["float", "number", 1.5, 1e39],
+    ["double", "number", 1e39, Infinity],
+  ] as const)(
+    "should validate the built-in %s number format",
+    (format, type, valid, invalid) => {
+      // Arrange
+      const schema = compile({ format, type });
+
+      // Assert
+      expect(schema.safeParse(valid).success).toBe(true);
+      expect(schema.safeParse(invalid).success).toBe(false);
+    },
+  );
+
+  it("should keep the base validator of number formats for coercion", () => {
+    // Act & Assert
+    expect(
+      zodSchemaToCode({ format: "int32", minimum: 1, type: "integer" }).code,
+    ).toBe("z.number().int().min(-2147483648).max(2147483647).min(1)");
+    expect(zodSchemaToCode({ format: "int64", type: "string" }).code).toBe(
+      "z.string()",
+    );
+  });
+
+  it("should parse coerced numbers and booleans before checking them", () => {
+    // Arrange
+    const coerce = (schema: SchemaObject): z.ZodType =>
+      new Function(
+        "z",
+        `return ${zodSchemaToCode(schema, { coercePrimitives: true }).code}`,
+      )(z);
+    const int32 = coerce({ format: "int32", type: "integer" });
+    const level = coerce({ enum: [2], type: "integer" });
+    const flag = coerce({ enum: [true], type: "boolean" });
+
+    // Assert
+    expect(int32.parse("42")).toBe(42);
+    expect(int32.safeParse("2147483648").success).toBe(false);
+    expect(level.parse("2")).toBe(2);
+    expect(level.safeParse("3").success).toBe(false);
+    expect(flag.parse("true")).toBe(true);
+    expect(flag.safeParse("false").success).toBe(false);
+  });
+
+  it("should prefer custom formats and add the constraints to them", () => {
+    // Arrange
+    const email = compile(
+      { format: "email", maxLength: 20, type: "string" },
+      FORMATS,
+    );
+    const decimal = compile({ format: "decimal", type: "string" }, FORMATS);
+
+    // Assert
+    expect(email.safeParse("ada@example.com").success).toBe(true);
+    expect(email.safeParse("ada@example.org").success).toBe(false);
+    expect(email.safeParse("lovelace.ada@example.com").success).toBe(false);
+    expect(decimal.parse("12.50")).toBe(12.5);
+  });
+
+  it("should render the TypeScript type of custom formats", () => {
+    // Act & Assert
+    expect(
+      schemaToTypeScript(
+        {
+          properties: {
+            amount: { format: "decimal", type: "string" },
+            iban: { format: "iban", type: "string" },
+          },
+          type: "object",
+        },
+        FORMATS,
+      ),
+    ).toBe('{ "amount"?: number; "iban"?: string }');
+  });
+
+  it("should find the format of a schema according to its type", () => {
+    // Act & Assert
+    expect(findFormat({ format: "ipv4", type: "string" })).toEqual({
+      code: "z.ipv4()",
+    });
+    expect(findFormat({ format: "ipv4", type: "integer" })).toBeUndefined();
+    expect(findFormat({ format: "semver", type: "string" })).toBeUndefined();
+    expect(findFormat({ format: "email", type: "string" }, FORMATS)).toBe(
+      FORMATS.email,
+    );
+  });
+
+  it("should collect the imports of the formats used by subschemas", () => {
+    // Act
+    const imports = collectFormatImports(
+      {
+        example: { format: "iban" },
+        properties: {
+          accounts: {
+            items: { format: "iban", type: "string" },
+            type: "array",
+          },
+          format: { type: "string" },
+        },
+        type: "object",
+      },
+      FORMATS,
+    );
+
+    // Assert
+    expect([...imports]).toEqual([
+      'import { isValidIban } from "../../validators.js";',
+    ]);
+    expect(
+      collectFormatImports({ example: { format: "iban" } }, FORMATS).size,
+    ).toBe(0);
+  });
+});
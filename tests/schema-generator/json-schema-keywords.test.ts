@@ -0,0 +1,207 @@
+import type { SchemaObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { zodSchemaToCode } from "../../src/schema-generator/schema-converter.js";
+import type { JsonSchemaObject } from "../../src/schema-generator/utils.js";
+
+function compile(
+  schema: JsonSchemaObject,
+  options: { strictValidation?: boolean } = {},
+): z.ZodType {
+  const { code } = zodSchemaToCode(schema, options);
+  return new Function("z", `return ${code}`)(z);
+}
+
+function accepts(schema: z.ZodType, value: unknown): boolean {
+  return schema.safeParse(value).success;
+}
+
+describe("JSON Schema 2020-12 keywords", () => {
+  it("should match const values structurally", () => {
+    // Arrange
+    const schema = compile({ const: { kind: "circle", tags: ["a", null] } });
+
+    // Assert
+    expect(accepts(schema, { kind: "circle", tags: ["a", null] })).toBe(true);
+    expect(accepts(schema, { kind: "circle", tags: ["a"] })).toBe(false);
+    expect(
+      accepts(schema, { extra: 1, kind: "circle", tags: ["a", null] }),
+    ).toBe(false);
+    expect(accepts(compile({ const: 3, type: "integer" }), 4)).toBe(false);
+  });
+
+  it("should reject values matching the not schema", () => {
+    // Arrange
+    const schema = compile({
+      not: { enum: ["admin", "root"] },
+      type: "string",
+    });
+
+    // Assert
+    expect(accepts(schema, "guest")).toBe(true);
+    expect(accepts(schema, "root")).toBe(false);
+    expect(accepts(compile({ not: { type: "string" } }), 1)).toBe(true);
+  });
+
+  it("should apply then or else depending on the if schema", () => {
+    // Arrange
+    const schema = compile({
+      else: { required: ["zip"] },
+      if: { properties: { country: { const: "FR" } }, required: ["country"] },
+      properties: {
+        country: { type: "string" },
+        siret: { type: "string" },
+        zip: { type: "string" },
+      },
+      then: { required: ["siret"] },
+      type: "object",
+    });
+
+    // Assert
+    expect(accepts(schema, { country: "FR", siret: "123" })).toBe(true);
+    expect(accepts(schema, { country: "FR", zip: "75001" })).toBe(false);
+    expect(accepts(schema, { country: "US", zip: "10001" })).toBe(true);
+    expect(accepts(schema, { country: "US" })).toBe(false);
+  });
+
+  it("should validate prefixItems as a tuple followed by the items", () => {
+    // Arrange
+    const schema = compile({
+      items: { type: "boolean" },
+      minItems: 1,
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      type: "array",
+    });
+    const closed = compile({
+      items: false as unknown as SchemaObject,
+      prefixItems: [{ type: "string" }],
+    });
+
+    // Assert
+    expect(accepts(schema, ["a"])).toBe(true);
+    expect(accepts(schema, ["a", 1, true, false])).toBe(true);
+    expect(accepts(schema, [])).toBe(false);
+    expect(accepts(schema, ["a", "b"])).toBe(false);
+    expect(accepts(closed, ["a"])).toBe(true);
+    expect(accepts(closed, ["a", "b"])).toBe(false);
+  });
+
+  it("should check uniqueItems and contains", () => {
+    // Arrange
+    const unique = compile({ items: {}, type: "array", uniqueItems: true });
+    const contains = compile({
+      contains: { minimum: 10, type: "number" },
+      items: { type: "number" },
+      maxContains: 2,
+      type: "array",
+    });
+
+    // Assert
+    expect(accepts(unique, [1, "1", { a: 1 }])).toBe(true);
+    expect(accepts(unique, [{ a: 1 }, { a: 1 }])).toBe(false);
+    expect(
+      accepts(unique, [
+        { a: 1, b: { c: 2, d: 3 } },
+        { b: { d: 3, c: 2 }, a: 1 },
+      ]),
+    ).toBe(false);
+    expect(accepts(unique, [{ a: [1, 2] }, { a: [2, 1] }])).toBe(true);
+    expect(accepts(contains, [1, 10])).toBe(true);
+    expect(accepts(contains, [1, 2])).toBe(false);
+    expect(accepts(contains, [10, 11, 12])).toBe(false);
+  });
+
+  it("should check multipleOf", () => {
+    // Arrange
+    const schema = compile({ multipleOf: 0.5, type: "number" });
+
+    // Assert
+    expect(accepts(schema, 2.5)).toBe(true);
+    expect(accepts(schema, 2.25)).toBe(false);
+  });
+
+  it("should check patternProperties against additionalProperties", () => {
+    // Arrange
+    const schema = compile({
+      additionalProperties: false,
+      patternProperties: { "^x-": { type: "string" } },
+      properties: { id: { type: "number" } },
+      type: "object",
+    });
+
+    // Act
+    const result = schema.safeParse({ id: 1, "x-trace": 2 });
+
+    // Assert
+    expect(result.error?.issues[0].path).toEqual(["x-trace"]);
+    expect(schema.parse({ id: 1, "x-trace": "a" })).toEqual({
+      id: 1,
+      "x-trace": "a",
+    });
+    expect(accepts(schema, { id: 1, other: "a" })).toBe(false);
+  });
+
+  it("should check propertyNames and the property count", () => {
+    // Arrange
+    const schema = compile({
+      additionalProperties: { type: "number" },
+      maxProperties: 2,
+      minProperties: 1,
+      propertyNames: { pattern: "^[a-z]+$" },
+      type: "object",
+    });
+
+    // Assert
+    expect(accepts(schema, { a: 1 })).toBe(true);
+    expect(accepts(schema, {})).toBe(false);
+    expect(accepts(schema, { a: 1, b: 2, c: 3 })).toBe(false);
+    expect(accepts(schema, { A: 1 })).toBe(false);
+    expect(
+      accepts(compile({ minProperties: 1, type: "object" }), { a: 1 }),
+    ).toBe(true);
+  });
+
+  it("should check dependentRequired and dependentSchemas", () => {
+    // Arrange
+    const schema = compile({
+      dependentRequired: { creditCard: ["billingAddress"] },
+      dependentSchemas: {
+        coupon: {
+          properties: { total: { minimum: 10, type: "number" } },
+          required: ["total"],
+        },
+      },
+      properties: {
+        billingAddress: { type: "string" },
+        coupon: { type: "string" },
+        creditCard: { type: "string" },
+        total: { type: "number" },
+      },
+      type: "object",
+    });
+
+    // Assert
+    expect(accepts(schema, { billingAddress: "a", creditCard: "1" })).toBe(
+      true,
+    );
+    expect(accepts(schema, { creditCard: "1" })).toBe(false);
+    expect(accepts(schema, { coupon: "A", total: 12 })).toBe(true);
+    expect(accepts(schema, { coupon: "A", total: 5 })).toBe(false);
+    expect(accepts(schema, { coupon: "A" })).toBe(false);
+  });
+
+  it("should keep required properties without a schema in strict objects", () => {
+    // Arrange
+    const schema = compile(
+      { properties: { id: { type: "number" } }, required: ["id", "meta"] },
+      { strictValidation: true },
+    );
+
+    // Assert
+    expect(accepts(schema, { id: 1, meta: {} })).toBe(true);
+    expect(accepts(schema, { id: 1 })).toBe(false);
+    expect(accepts(schema, { id: 1, meta: {}, other: 1 })).toBe(false);
+  });
+});
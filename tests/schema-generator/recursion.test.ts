@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { findRecursiveSchemas } from "../../src/schema-generator/recursion.js";
+import { zodSchemaToCode } from "../../src/schema-generator/schema-converter.js";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+describe("findRecursiveSchemas", () => {
+  it("should find self-referencing schemas", () => {
+    // Act
+    const result = findRecursiveSchemas({
+      Comment: {
+        properties: { replies: { items: ref("Comment"), type: "array" } },
+        type: "object",
+      },
+      User: { properties: { name: { type: "string" } }, type: "object" },
+    });
+
+    // Assert
+    expect([...result.keys()]).toEqual(["Comment"]);
+    expect(result.get("Comment")).toEqual(new Set(["Comment"]));
+  });
+
+  it("should group the schemas of a cycle across schemas", () => {
+    // Act
+    const result = findRecursiveSchemas({
+      "a-node": { properties: { b: ref("BNode") }, type: "object" },
+      BNode: { allOf: [{ properties: { c: ref("CNode") } }] },
+      CNode: { anyOf: [ref("a-node"), { type: "string" }] },
+      Root: { properties: { a: ref("a-node") }, type: "object" },
+    });
+
+    // Assert
+    expect(result.get("aNode")).toEqual(new Set(["aNode", "BNode", "CNode"]));
+    expect(result.get("CNode")).toBe(result.get("aNode"));
+    expect(result.has("Root")).toBe(false);
+  });
+
+  it("should ignore references within examples and defaults", () => {
+    // Act
+    const result = findRecursiveSchemas({
+      Link: { example: ref("Link"), type: "object" },
+    });
+
+    // Assert
+    expect(result.size).toBe(0);
+  });
+});
+
+describe("lazy references", () => {
+  it("should reference the schemas of the cycle lazily", () => {
+    // Act
+    const result = zodSchemaToCode(
+      {
+        properties: {
+          children: { items: ref("Tree"), type: "array" },
+          owner: ref("User"),
+        },
+        type: "object",
+      },
+      { lazyReferences: new Set(["Tree"]) },
+    );
+
+    // Assert
+    expect(result.code).toBe(
+      'z.object({"children": z.array(z.lazy(() => Tree)).optional(), "owner": User.optional()})',
+    );
+    expect(result.imports).toEqual(new Set(["Tree", "User"]));
+  });
+});
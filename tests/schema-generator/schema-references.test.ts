@@ -0,0 +1,101 @@
+import type { OpenAPIObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  getComponentSchemaName,
+  resolveSchemaReference,
+} from "../../src/schema-generator/schema-references.js";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const documentWith = (schemas: OpenAPIObject["components"]) =>
+  ({
+    components: { schemas },
+    info: { title: "Test", version: "1.0.0" },
+    openapi: "3.1.0",
+    paths: {},
+  }) as OpenAPIObject;
+
+describe("getComponentSchemaName", () => {
+  it("should return the name of component schema references", () => {
+    // Act
+    const result = getComponentSchemaName("#/components/schemas/User");
+
+    // Assert
+    expect(result).toBe("User");
+  });
+
+  it("should ignore other pointers", () => {
+    // Act
+    const result = getComponentSchemaName("#/components/parameters/Id");
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+});
+
+describe("resolveSchemaReference", () => {
+  it("should follow chains of references", () => {
+    // Arrange
+    const doc = documentWith({ Alias: ref("Id"), Id: { type: "integer" } });
+
+    // Act
+    const result = resolveSchemaReference(ref("Alias"), doc);
+
+    // Assert
+    expect(result).toEqual({ type: "integer" });
+  });
+
+  it("should return schema objects as they are", () => {
+    // Arrange
+    const schema = { type: "string" as const };
+
+    // Act
+    const result = resolveSchemaReference(schema, documentWith({}));
+
+    // Assert
+    expect(result).toBe(schema);
+  });
+
+  it("should return undefined for missing and non-component references", () => {
+    // Arrange
+    const doc = documentWith({});
+
+    // Act
+    const missing = resolveSchemaReference(ref("Missing"), doc);
+    const external = resolveSchemaReference({ $ref: "other.yaml#/Id" }, doc);
+
+    // Assert
+    expect(missing).toBeUndefined();
+    expect(external).toBeUndefined();
+  });
+
+  it("should return undefined for reference cycles", () => {
+    // Arrange
+    const doc = documentWith({ A: ref("B"), B: ref("A"), Self: ref("Self") });
+
+    // Act
+    const cycle = resolveSchemaReference(ref("A"), doc);
+    const self = resolveSchemaReference(ref("Self"), doc);
+
+    // Assert
+    expect(cycle).toBeUndefined();
+    expect(self).toBeUndefined();
+  });
+
+  it("should treat the seen references as already followed", () => {
+    // Arrange
+    const doc = documentWith({ Node: { type: "object" } });
+
+    // Act
+    const result = resolveSchemaReference(
+      ref("Node"),
+      doc,
+      new Set(["#/components/schemas/Node"]),
+    );
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+import type { SchemaObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { zodSchemaToCode } from "../../src/schema-generator/schema-converter.js";
+
+/*
+ * Valid value of each format, along with values breaking a single keyword:
+ * a longer one, one not starting like the sample, another one of the same
+ * length and one of the wrong format. Fixed-length formats have no longer
+ * value.
+ */
+const FORMATS: {
+  format?: string;
+  invalid?: string;
+  longer?: string;
+  mismatched: string;
+  sample: string;
+  unlisted: string;
+}[] = [
+  { longer: "abcdefgh", mismatched: "xyz", sample: "abc", unlisted: "abd" },
+  {
+    format: "email",
+    invalid: "ab-ex.io",
+    longer: "abcdefgh@example.io",
+    mismatched: "xy@ex.io",
+    sample: "ab@ex.io",
+    unlisted: "ab@ex.co",
+  },
+  {
+    format: "uri",
+    invalid: "https//a.io",
+    longer: "https://a.io/path/to",
+    mismatched: "ftp://a.io",
+    sample: "https://a.io",
+    unlisted: "https://b.io",
+  },
+  {
+    format: "uuid",
+    invalid: "123e4567-e89b-42d3-a456-42661417400z",
+    mismatched: "923e4567-e89b-42d3-a456-426614174000",
+    sample: "123e4567-e89b-42d3-a456-426614174000",
+    unlisted: "123e4567-e89b-42d3-a456-426614174001",
+  },
+  {
+    format: "date",
+    invalid: "2024-13-01",
+    mismatched: "1999-01-01",
+    sample: "2024-01-01",
+    unlisted: "2024-01-02",
+  },
+  {
+    format: "date-time",
+    invalid: "2024-01-01 00:00:00Z",
+    longer: "2024-01-01T00:00:00.123Z",
+    mismatched: "1999-01-01T00:00:00Z",
+    sample: "2024-01-01T00:00:00Z",
+    unlisted: "2024-01-02T00:00:00Z",
+  },
+  {
+    format: "time",
+    invalid: "10-00-00",
+    longer: "10:00:00.123",
+    mismatched: "20:00:00",
+    sample: "10:00:00",
+    unlisted: "10:00:01",
+  },
+  {
+    format: "duration",
+    invalid: "P1X",
+    longer: "P1Y2M3D",
+    mismatched: "P2D",
+    sample: "P1D",
+    unlisted: "P1M",
+  },
+];
+
+/* Every combination of the keywords composed with the format */
+const KEYWORDS = ["length", "pattern", "enum", "default"] as const;
+const COMBINATIONS = Array.from({ length: 2 ** KEYWORDS.length }, (_, mask) =>
+  KEYWORDS.filter((_, index) => mask & (1 << index)),
+);
+
+const MATRIX = FORMATS.flatMap((values) =>
+  COMBINATIONS.map((keywords) => ({
+    keywords,
+    label: `${values.format ?? "no format"} with ${keywords.join(", ") || "no keyword"}`,
+    values,
+  })),
+);
+
+function compile(schema: SchemaObject): z.ZodType {
+  const { code } = zodSchemaToCode(schema);
+  return new Function("z", `return ${code}`)(z);
+}
+
+function accepts(schema: z.ZodType, value: unknown): boolean {
+  return schema.safeParse(value).success;
+}
+
+describe("String keywords", () => {
+  it.each(MATRIX)("should compose $label", ({ keywords, values }) => {
+    // Arrange
+    const { invalid, longer, mismatched, sample, unlisted } = values;
+    const has = (keyword: (typeof KEYWORDS)[number]) =>
+      keywords.includes(keyword);
+    const schema = compile({
+      format: values.format,
+      type: "string",
+      ...(has("length") && { maxLength: sample.length, minLength: 1 }),
+      ...(has("pattern") && { pattern: `^${sample.slice(0, 2)}` }),
+      /* Values breaking the other keywords are listed, so that only they reject them */
+      ...(has("enum") && {
+        enum: [sample, mismatched, longer, invalid].filter(Boolean),
+      }),
+      ...(has("default") && { default: sample }),
+    });
+
+    // Assert
+    expect(schema.parse(sample)).toBe(sample);
+    expect(accepts(schema, undefined)).toBe(has("default"));
+    if (has("default")) expect(schema.parse(undefined)).toBe(sample);
+    if (invalid !== undefined) expect(accepts(schema, invalid)).toBe(false);
+    if (longer !== undefined) {
+      expect(accepts(schema, longer)).toBe(!has("length"));
+    }
+    expect(accepts(schema, mismatched)).toBe(!has("pattern"));
+    expect(accepts(schema, unlisted)).toBe(!has("enum"));
+  });
+
+  it("should pipe enums through the string constraints", () => {
+    // Act & Assert
+    expect(
+      zodSchemaToCode({ enum: ["a", "b"], maxLength: 1, type: "string" }).code,
+    ).toBe('z.string().max(1).pipe(z.enum(["a", "b"]))');
+    expect(
+      zodSchemaToCode({ default: "a", enum: ["a", "b"], type: "string" }).code,
+    ).toBe('z.enum(["a", "b"]).default("a")');
+    expect(
+      zodSchemaToCode({ enum: ["a@b.io"], format: "email", type: "string" })
+        .code,
+    ).toBe('z.email().pipe(z.literal("a@b.io"))');
+  });
+
+  it("should constrain the values outside of extensible enums", () => {
+    // Arrange
+    const schema = compile({
+      format: "email",
+      maxLength: 10,
+      type: "string",
+      "x-extensible-enum": ["none"],
+    });
+
+    // Assert
+    expect(accepts(schema, "none")).toBe(true);
+    expect(accepts(schema, "ab@ex.io")).toBe(true);
+    expect(accepts(schema, "abcdefgh@example.io")).toBe(false);
+    expect(accepts(schema, "other")).toBe(false);
+  });
+
+  it("should ignore string keywords on binary formats", () => {
+    // Act
+    const result = zodSchemaToCode({
+      default: "",
+      enum: ["a", "b"],
+      format: "binary",
+      maxLength: 10,
+      pattern: "^a",
+      type: "string",
+    });
+
+    // Assert
+    expect(result.code).toBe("z.instanceof(Blob)");
+  });
+});
@@ -0,0 +1,85 @@
+import type { SchemaObject } from "openapi3-ts/oas31";
+
+import { describe, expect, it } from "vitest";
+
+import { schemaToTypeScript } from "../../src/schema-generator/type-generator.js";
+
+describe("schemaToTypeScript", () => {
+  it("should render objects with optional properties and references", () => {
+    // Act
+    const result = schemaToTypeScript({
+      properties: {
+        children: {
+          items: { $ref: "#/components/schemas/tree-node" },
+          type: "array",
+        },
+        name: { type: "string" },
+      },
+      required: ["name"],
+      type: "object",
+    });
+
+    // Assert
+    expect(result).toBe('{ "children"?: treeNode[]; "name": string }');
+  });
+
+  it("should render enums, nullable and multi-type schemas", () => {
+    // Act & Assert
+    expect(schemaToTypeScript({ enum: ["a", "b"], type: "string" })).toBe(
+      '"a" | "b"',
+    );
+    expect(schemaToTypeScript({ nullable: true, type: "integer" })).toBe(
+      "number | null",
+    );
+    expect(schemaToTypeScript({ type: ["string", "boolean"] })).toBe(
+      "string | boolean",
+    );
+    expect(
+      schemaToTypeScript({ type: "string", "x-extensible-enum": ["x"] }),
+    ).toBe('"x" | (string & {})');
+  });
+
+  it("should render compositions and additional properties", () => {
+    // Act & Assert
+    expect(
+      schemaToTypeScript({
+        allOf: [
+          { $ref: "#/components/schemas/Base" },
+          { properties: { id: { type: "number" } }, type: "object" },
+        ],
+      }),
+    ).toBe('Base & ({ "id"?: number })');
+    expect(
+      schemaToTypeScript({
+        oneOf: [{ items: { type: "string" }, type: "array" }, { type: "null" }],
+      }),
+    ).toBe("string[] | unknown");
+    expect(
+      schemaToTypeScript({ additionalProperties: { type: "number" } }),
+    ).toBe("Record<string, number>");
+    expect(() => schemaToTypeScript({ $ref: "./other.yaml#/Thing" })).toThrow(
+      "Unresolved $ref pointer: ./other.yaml#/Thing",
+    );
+  });
+
+  it("should render const values and tuples", () => {
+    // Act & Assert
+    expect(schemaToTypeScript({ const: { kind: "circle", size: [1] } })).toBe(
+      '{ "kind": "circle"; "size": [1] }',
+    );
+    expect(
+      schemaToTypeScript({
+        items: false as unknown as SchemaObject,
+        minItems: 1,
+        prefixItems: [{ type: "string" }, { type: "number" }],
+        type: "array",
+      }),
+    ).toBe("[string, number?]");
+    expect(
+      schemaToTypeScript({
+        prefixItems: [{ type: "string" }],
+        type: "array",
+      }),
+    ).toBe("[string?, ...unknown[]]");
+  });
+});
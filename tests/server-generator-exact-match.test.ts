@@ -61,17 +61,17 @@ describe("server-generator - problem statement validation", () => {
 
     /* Verify core wrapper function signature */
     expect(result.wrapperCode).toMatch(
-      /export function petFindByStatusWrapper\(\s*handler: petFindByStatusHandler,?\s*\)/,
+      /export function petFindByStatusWrapper\(\s*handler: petFindByStatusHandler,\s*options: ServerWrapperOptions = \{\},?\s*\)/,
     );
 
     /* Verify return function signature */
     expect(result.wrapperCode).toMatch(
-      /return async \(req: \{\s*query: unknown;\s*path: unknown;\s*headers: unknown;\s*body\?: unknown;\s*contentType\?: .*\s*\}\): Promise<petFindByStatusResponse>/,
+      /return withResponseValidation\(\s*async \(req: \{\s*query: unknown;\s*path: unknown;\s*headers: unknown;\s*body\?: unknown;\s*contentType\?: .*\s*\}\): Promise<petFindByStatusResponse>/,
     );
 
     /* Verify validation sequence: query → path → headers → body */
     const validationPattern =
-      /queryParse = .*safeParse\(req\.query\)[\s\S]*pathParse = .*safeParse\(req\.path\)[\s\S]*headersParse = .*safeParse\(req\.headers\)[\s\S]*bodyParse = .*safeParse/;
+      /queryParse = .*safeParse\(req\.query\)[\s\S]*pathParse = .*safeParse\(decodePathParameters\(req\.path, \[\]\)\)[\s\S]*headersParse = .*safeParse\(req\.headers\)[\s\S]*bodyParse = .*safeParse/;
     expect(result.wrapperCode).toMatch(validationPattern);
 
     /* Verify error handling with correct error types */
@@ -131,11 +131,11 @@ describe("server-generator - problem statement validation", () => {
     /* Verify curried pattern: operationWrapper(handler)(req) */
     expect(result.wrapperCode).toContain("export function simpleOpWrapper(");
     expect(result.wrapperCode).toContain("handler: simpleOpHandler");
-    expect(result.wrapperCode).toContain("return async (req:");
+    expect(result.wrapperCode).toContain("async (req:");
 
     /* Function returns another function that takes req parameter */
     expect(result.wrapperCode).toMatch(
-      /return async \(req: \{[^}]+\}\): Promise<[^>]+>/,
+      /async \(req: \{[^}]+\}\): Promise<[^>]+>/,
     );
   });
 
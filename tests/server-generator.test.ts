@@ -439,4 +439,43 @@ describe("server-generator operation wrapper", () => {
     /* Verify wrapper function is generated with the correct name */
     expect(result.wrapperCode).toContain("getUsersIdWrapper");
   });
+
+  it("should generate the response schemas validating handler responses", () => {
+    const operation = {
+      operationId: "getPet",
+      responses: {
+        200: {
+          description: "OK",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Pet" },
+            },
+          },
+        },
+        204: { description: "No content" },
+        default: { description: "Unexpected error" },
+      },
+    };
+
+    const doc = { paths: {}, info: { title: "Test", version: "1.0" } };
+
+    const result = generateServerOperationWrapper(
+      "/pets/{petId}",
+      "get",
+      operation as any,
+      [],
+      doc as any,
+    );
+
+    expect(result.wrapperCode)
+      .toContain(`const getPetResponseSchemas: ResponseSchemas = {
+  "200": { "application/json": Pet },
+  "204": {},
+  "default": {},
+};`);
+    expect(result.wrapperCode).toContain("options: ServerWrapperOptions = {}");
+    expect(result.wrapperCode).toContain(
+      '}, "getPet", getPetResponseSchemas, options);',
+    );
+  });
 });
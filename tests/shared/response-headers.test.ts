@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import { generateResponseHeaderSchemas } from "../../src/shared/response-headers.js";
+
+describe("generateResponseHeaderSchemas", () => {
+  it("should generate a lowercased headers schema per status", () => {
+    // Arrange
+    const operation = {
+      responses: {
+        "201": {
+          description: "Created",
+          headers: {
+            "Content-Type": { schema: { type: "string" } },
+            Location: { required: true, schema: { type: "string" } },
+            "X-Count": { schema: { type: "integer" } },
+          },
+        },
+        "204": { description: "No content" },
+        default: {
+          description: "Error",
+          headers: { "X-Error": { schema: { type: "string" } } },
+        },
+      },
+    };
+
+    // Act
+    const result = generateResponseHeaderSchemas(operation, "createPet");
+
+    // Assert
+    expect(result.schemaCode).toBe(
+      `export const createPet201ResponseHeadersSchema = z.object({ "location": z.string(), "x-count": z.coerce.number().int().optional() });
+export type createPet201ResponseHeaders = z.infer<typeof createPet201ResponseHeadersSchema>;`,
+    );
+    expect([...result.statuses]).toEqual([
+      [
+        "201",
+        {
+          hasRequired: true,
+          schemaName: "createPet201ResponseHeadersSchema",
+          typeName: "createPet201ResponseHeaders",
+        },
+      ],
+    ]);
+  });
+
+  it("should resolve references to components headers", () => {
+    // Arrange
+    const operation = {
+      responses: {
+        "200": {
+          description: "OK",
+          headers: {
+            "X-Request-Id": { $ref: "#/components/headers/RequestId" },
+            "X-Unknown": { $ref: "#/components/headers/Missing" },
+          },
+        },
+      },
+    };
+    const doc = {
+      components: {
+        headers: { RequestId: { schema: { type: "boolean" } } },
+      },
+      info: { title: "Test", version: "1.0" },
+      openapi: "3.1.0",
+    };
+
+    // Act
+    const result = generateResponseHeaderSchemas(
+      operation,
+      "getPet",
+      doc as any,
+    );
+
+    // Assert
+    expect(result.schemaCode).toContain(
+      '"x-request-id": z.stringbool().optional()',
+    );
+    expect(result.schemaCode).not.toContain("x-unknown");
+    expect(result.statuses.get("200")?.hasRequired).toBe(false);
+  });
+
+  it("should validate custom formats and collect their imports", () => {
+    // Arrange
+    const operation = {
+      responses: {
+        "200": {
+          description: "OK",
+          headers: {
+            "X-Account": {
+              required: true,
+              schema: { format: "iban", type: "string" },
+            },
+          },
+        },
+      },
+    };
+    const formats = {
+      iban: {
+        code: "z.string().refine(isValidIban)",
+        imports: ['import { isValidIban } from "../../validators.js";'],
+      },
+    };
+
+    // Act
+    const result = generateResponseHeaderSchemas(
+      operation,
+      "getAccount",
+      undefined,
+      formats,
+    );
+
+    // Assert
+    expect(result.schemaCode).toContain(
+      '"x-account": z.string().refine(isValidIban)',
+    );
+    expect([...result.formatImports]).toEqual([
+      'import { isValidIban } from "../../validators.js";',
+    ]);
+  });
+
+  it("should parse referenced and custom format schemas from strings", () => {
+    // Arrange
+    const operation = {
+      responses: {
+        "200": {
+          description: "OK",
+          headers: {
+            "X-Amount": { schema: { format: "money", type: "number" } },
+            "X-Flags": { schema: { $ref: "#/components/schemas/Flags" } },
+            "X-Remaining": { schema: { $ref: "#/components/schemas/Count" } },
+          },
+        },
+      },
+    };
+    const doc = {
+      components: {
+        schemas: {
+          Count: { minimum: 0, type: "integer" },
+          Flags: { items: { type: "boolean" }, type: "array" },
+        },
+      },
+      info: { title: "Test", version: "1.0" },
+      openapi: "3.1.0",
+    };
+    const formats = { money: { code: "Money" } };
+
+    // Act
+    const result = generateResponseHeaderSchemas(
+      operation,
+      "getBalance",
+      doc as any,
+      formats,
+    );
+
+    // Assert
+    expect(result.schemaCode).toContain(
+      '"x-amount": z.preprocess((value) => (typeof value === "string" && value.trim() !== "" ? Number(value) : value), Money).optional()',
+    );
+    expect(result.schemaCode).toContain(
+      '"x-flags": z.preprocess((value) => (typeof value === "string" ? value.split(",").map((item) => item.trim()) : value), z.array(z.stringbool())).optional()',
+    );
+    expect(result.schemaCode).toContain(
+      '"x-remaining": z.coerce.number().min(0).int().optional()',
+    );
+  });
+});